@@ -6,6 +6,7 @@ import {NumberValueType} from './number-value-type';
 import {StringValueType} from './string-value-type';
 import {ObjectValueType} from './object-value-type';
 import {DateValueType} from './date-value-type';
+import {GeoPointValueType} from './geo-point-value-type';
 import {RegExpValueType} from './regexp-value-type';
 import {ArrayValueType} from './array-value-type';
 import {ComponentValueType} from './component-value-type';
@@ -20,7 +21,8 @@ const VALUE_TYPE_MAP = new Map(
     string: StringValueType,
     object: ObjectValueType,
     Date: DateValueType,
-    RegExp: RegExpValueType
+    RegExp: RegExpValueType,
+    geoPoint: GeoPointValueType
   })
 );
 
@@ -0,0 +1,51 @@
+import isPlainObject from 'lodash/isPlainObject';
+
+import {ValueType} from './value-type';
+import type {Attribute} from '../attribute';
+
+export type GeoPoint = {type: 'Point'; coordinates: [longitude: number, latitude: number]};
+
+export class GeoPointValueType extends ValueType {
+  toString() {
+    return `geoPoint${super.toString()}`;
+  }
+
+  _checkValue(value: unknown, attribute: Attribute) {
+    return super._checkValue(value, attribute) ?? isGeoPoint(value);
+  }
+
+  static isGeoPointValueType(value: any): value is GeoPointValueType {
+    return isGeoPointValueTypeInstance(value);
+  }
+}
+
+export function isGeoPointValueTypeInstance(value: any): value is GeoPointValueType {
+  return typeof value?.constructor?.isGeoPointValueType === 'function';
+}
+
+/**
+ * Returns whether the specified value is a [GeoJSON](https://geojson.org/) point of the shape `{type: 'Point', coordinates: [longitude, latitude]}` with some valid coordinates.
+ *
+ * @param value A value of any type.
+ *
+ * @returns A boolean.
+ *
+ * @category Utilities
+ */
+export function isGeoPoint(value: any): value is GeoPoint {
+  if (!isPlainObject(value) || value.type !== 'Point' || !Array.isArray(value.coordinates)) {
+    return false;
+  }
+
+  const [longitude, latitude, ...otherCoordinates] = value.coordinates;
+
+  return (
+    otherCoordinates.length === 0 &&
+    typeof longitude === 'number' &&
+    typeof latitude === 'number' &&
+    longitude >= -180 &&
+    longitude <= 180 &&
+    latitude >= -90 &&
+    latitude <= 90
+  );
+}
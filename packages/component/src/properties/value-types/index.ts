@@ -4,6 +4,7 @@ export * from './boolean-value-type';
 export * from './component-value-type';
 export * from './date-value-type';
 export * from './factory';
+export * from './geo-point-value-type';
 export * from './number-value-type';
 export * from './object-value-type';
 export * from './regexp-value-type';
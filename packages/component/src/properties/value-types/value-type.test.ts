@@ -8,6 +8,7 @@ import {StringValueType, isStringValueTypeInstance} from './string-value-type';
 import {ObjectValueType, isObjectValueTypeInstance} from './object-value-type';
 import {DateValueType, isDateValueTypeInstance} from './date-value-type';
 import {RegExpValueType, isRegExpValueTypeInstance} from './regexp-value-type';
+import {GeoPointValueType, isGeoPointValueTypeInstance} from './geo-point-value-type';
 import {ArrayValueType, isArrayValueTypeInstance} from './array-value-type';
 import {ComponentValueType, isComponentValueTypeInstance} from './component-value-type';
 
@@ -211,6 +212,41 @@ describe('ValueType', () => {
     expect(() => type.checkValue(undefined, attribute)).not.toThrow();
   });
 
+  test('GeoPointValueType', async () => {
+    let type = new GeoPointValueType(attribute);
+
+    expect(isGeoPointValueTypeInstance(type)).toBe(true);
+
+    expect(type.toString()).toBe('geoPoint');
+
+    expect(() =>
+      type.checkValue({type: 'Point', coordinates: [2.3522, 48.8566]}, attribute)
+    ).not.toThrow();
+    expect(() => type.checkValue({type: 'Point', coordinates: [2.3522]}, attribute)).toThrow(
+      "Cannot assign a value of an unexpected type (attribute: 'TestComponent.prototype.testAttribute', expected type: 'geoPoint', received type: 'object')"
+    );
+    expect(() =>
+      type.checkValue({type: 'Point', coordinates: [48.8566, 182.3]}, attribute)
+    ).toThrow(
+      "Cannot assign a value of an unexpected type (attribute: 'TestComponent.prototype.testAttribute', expected type: 'geoPoint', received type: 'object')"
+    );
+    expect(() => type.checkValue({latitude: 48.8566, longitude: 2.3522}, attribute)).toThrow(
+      "Cannot assign a value of an unexpected type (attribute: 'TestComponent.prototype.testAttribute', expected type: 'geoPoint', received type: 'object')"
+    );
+    expect(() => type.checkValue(undefined, attribute)).toThrow(
+      "Cannot assign a value of an unexpected type (attribute: 'TestComponent.prototype.testAttribute', expected type: 'geoPoint', received type: 'undefined')"
+    );
+
+    type = new GeoPointValueType(attribute, {isOptional: true});
+
+    expect(type.toString()).toBe('geoPoint?');
+
+    expect(() =>
+      type.checkValue({type: 'Point', coordinates: [2.3522, 48.8566]}, attribute)
+    ).not.toThrow();
+    expect(() => type.checkValue(undefined, attribute)).not.toThrow();
+  });
+
   test('ArrayValueType', async () => {
     let itemType = new NumberValueType(attribute);
     let type = new ArrayValueType(itemType, attribute);
@@ -137,6 +137,10 @@ export type ValueTypeOptions = {
  * * `'Date'`: A JavaScript `Date` instance.
  * * `'RegExp'`: A JavaScript `RegExp` instance.
  *
+ * To store a geographic location, specify the string `'geoPoint'`:
+ *
+ * * `'geoPoint'`: A [GeoJSON](https://geojson.org/) point of the shape `{type: 'Point', coordinates: [longitude, latitude]}`.
+ *
  * ##### Components
  *
  * An attribute can hold a reference to a [`Component`](https://layrjs.com/docs/v1/reference/component) instance, or contain an [`EmbeddedComponent`](https://layrjs.com/docs/v1/reference/embedded-component) instance. To specify such a type, just specify the name of the component:
@@ -1,4 +1,5 @@
 import {MongoClient} from 'mongodb';
+import type {SQLiteStore} from '@layr/sqlite-store';
 import mapKeys from 'lodash/mapKeys';
 
 export const CREATED_ON = new Date('2020-03-22T01:27:42.612Z');
@@ -115,3 +116,17 @@ export async function seedMongoDB(connectionString: string) {
 
   await client.close();
 }
+
+export async function seedSQLite(store: SQLiteStore) {
+  const initialCollections = getInitialCollections();
+
+  for (const [collectionName, serializedStorables] of Object.entries(initialCollections)) {
+    for (const serializedStorable of serializedStorables) {
+      await store.createDocument({
+        collectionName,
+        identifierDescriptor: {id: serializedStorable.id},
+        document: serializedStorable
+      });
+    }
+  }
+}
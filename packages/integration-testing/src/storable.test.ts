@@ -3,8 +3,10 @@ import {
   EmbeddedComponent,
   AttributeSelector,
   provide,
+  consume,
   expose,
-  serialize
+  serialize,
+  GeoPoint
 } from '@layr/component';
 import {
   Storable,
@@ -15,19 +17,38 @@ import {
   method,
   loader,
   finder,
+  transactional,
+  version,
+  softDeletable,
+  timestamps,
+  history,
+  relation,
+  index,
   isStorableClass,
   isStorableInstance,
-  StorableAttributeHookName
+  StorableAttributeHookName,
+  StorableAttributeRelationDeletePolicy
 } from '@layr/storable';
-import type {Store} from '@layr/store';
-import {MemoryStore} from '@layr/memory-store';
+import {CachedStore, LRUCacheBackend} from '@layr/store';
+import type {Store, StoreOptions, CacheBackend, TransactionParams} from '@layr/store';
+import {MemoryStore, FileStore} from '@layr/memory-store';
 import {MongoDBStore} from '@layr/mongodb-store';
+import {SQLiteStore} from '@layr/sqlite-store';
 import {MongoMemoryServer} from 'mongodb-memory-server';
 import {ComponentClient} from '@layr/component-client';
 import {ComponentServer} from '@layr/component-server';
 import {PlainObject} from 'core-helpers';
+import {existsSync, mkdirSync, mkdtempSync, readFileSync, rmdirSync} from 'fs';
+import {tmpdir} from 'os';
+import {join} from 'path';
 
-import {getInitialCollections, CREATED_ON, UPDATED_ON, seedMongoDB} from './storable.fixture';
+import {
+  getInitialCollections,
+  CREATED_ON,
+  UPDATED_ON,
+  seedMongoDB,
+  seedSQLite
+} from './storable.fixture';
 
 jest.setTimeout(60 * 1000); // 1 minute
 
@@ -160,6 +181,29 @@ describe('Storable', () => {
       });
     }
 
+    if (true) {
+      describe('With a cached memory store', () => {
+        testOperations(function () {
+          class Picture extends BasePicture {}
+
+          class Organization extends BaseOrganization {}
+
+          class User extends BaseUser {
+            @provide() static Picture = Picture;
+            @provide() static Organization = Organization;
+          }
+
+          const store = new CachedStore(
+            new MemoryStore({initialCollections: getInitialCollections()})
+          );
+
+          store.registerRootComponent(User);
+
+          return User;
+        });
+      });
+    }
+
     if (true) {
       describe('With a local MongoDB store', () => {
         let userClass: typeof BaseUser;
@@ -205,6 +249,44 @@ describe('Storable', () => {
       });
     }
 
+    if (true) {
+      describe('With a local SQLite store', () => {
+        let userClass: typeof BaseUser;
+        let store: SQLiteStore;
+
+        beforeEach(async () => {
+          class Picture extends BasePicture {}
+
+          class Organization extends BaseOrganization {}
+
+          class User extends BaseUser {
+            @provide() static Picture = Picture;
+            @provide() static Organization = Organization;
+          }
+
+          userClass = User;
+
+          store = new SQLiteStore(':memory:');
+
+          store.registerRootComponent(User);
+
+          await store.connect();
+
+          await store.migrateStorables({silent: true});
+
+          await seedSQLite(store);
+        });
+
+        afterEach(async () => {
+          await store?.disconnect();
+        });
+
+        testOperations(function () {
+          return userClass;
+        });
+      });
+    }
+
     if (true) {
       describe('With a remote memory store', () => {
         testOperations(() => {
@@ -233,6 +315,9 @@ describe('Storable', () => {
               get: {call: true},
               find: {call: true},
               count: {call: true},
+              aggregate: {call: true},
+              saveMany: {call: true},
+              deleteMany: {call: true},
 
               prototype: {
                 id: {get: true, set: true},
@@ -567,10 +652,13 @@ describe('Storable', () => {
                     attributeSelector: {
                       id: true
                     },
-                    throwIfMissing: true
+                    throwIfMissing: true,
+                    includeDeleted: false
                   }
                 ],
-                result: user
+                result: user,
+                duration: expect.any(Number),
+                queries: []
               }
             ]);
 
@@ -597,10 +685,13 @@ describe('Storable', () => {
                   user,
                   {
                     attributeSelector: {email: true},
-                    throwIfMissing: true
+                    throwIfMissing: true,
+                    includeDeleted: false
                   }
                 ],
-                result: user
+                result: user,
+                duration: expect.any(Number),
+                queries: []
               }
             ]);
 
@@ -615,10 +706,13 @@ describe('Storable', () => {
                   user,
                   {
                     attributeSelector: {fullName: true},
-                    throwIfMissing: true
+                    throwIfMissing: true,
+                    includeDeleted: false
                   }
                 ],
-                result: user
+                result: user,
+                duration: expect.any(Number),
+                queries: []
               }
             ]);
 
@@ -642,10 +736,13 @@ describe('Storable', () => {
                       id: true,
                       fullName: true
                     },
-                    throwIfMissing: true
+                    throwIfMissing: true,
+                    includeDeleted: false
                   }
                 ],
-                result: user
+                result: user,
+                duration: expect.any(Number),
+                queries: []
               }
             ]);
 
@@ -660,10 +757,13 @@ describe('Storable', () => {
                   user,
                   {
                     attributeSelector: {organization: {id: true}},
-                    throwIfMissing: true
+                    throwIfMissing: true,
+                    includeDeleted: false
                   }
                 ],
-                result: user
+                result: user,
+                duration: expect.any(Number),
+                queries: []
               }
             ]);
 
@@ -921,7 +1021,9 @@ describe('Storable', () => {
                     throwIfExists: false
                   }
                 ],
-                result: user
+                result: user,
+                duration: expect.any(Number),
+                queries: []
               }
             ]);
 
@@ -1047,6 +1149,122 @@ describe('Storable', () => {
           );
         });
 
+        test('saveMany()', async () => {
+          const User = userClassProvider();
+
+          let ForkedUser = User.fork();
+
+          const user2 = new ForkedUser({
+            id: 'user2',
+            email: '2@user.com',
+            reference: 2,
+            fullName: 'User 2'
+          });
+
+          const user3 = new ForkedUser({
+            id: 'user3',
+            email: '3@user.com',
+            reference: 3,
+            fullName: 'User 3'
+          });
+
+          const existingUser = new ForkedUser({
+            id: 'user1',
+            email: '1bis@user.com',
+            reference: 99,
+            fullName: 'User 1 (bis)'
+          });
+
+          if (!(User.hasStore() || User.getRemoteComponent() !== undefined)) {
+            return await expect(ForkedUser.saveMany([user2, user3])).rejects.toThrow(
+              "To be able to execute the saveMany() method, a storable component should be registered in a store or have an exposed saveMany() remote method (component: 'User')"
+            );
+          }
+
+          let results = await ForkedUser.saveMany([user2, existingUser, user3]);
+
+          expect(results).toHaveLength(3);
+          expect(results[0].storable).toBe(user2);
+          expect(results[0].error).toBeUndefined();
+          expect(results[1].storable).toBe(existingUser);
+          expect(results[1].error?.message).toBe(
+            "Cannot save a new component that already exists in the store (component: 'User', id: 'user1')"
+          );
+          expect(results[2].storable).toBe(user3);
+          expect(results[2].error).toBeUndefined();
+
+          expect(user2.isNew()).toBe(false);
+          expect(existingUser.isNew()).toBe(true);
+          expect(user3.isNew()).toBe(false);
+
+          user2.fullName = 'User 2 (modified)';
+          user3.fullName = 'User 3 (modified)';
+
+          const missingUser = ForkedUser.instantiate({id: 'user9'});
+          missingUser.fullName = 'User 9';
+
+          results = await ForkedUser.saveMany([user2, missingUser, user3]);
+
+          expect(results[0].error).toBeUndefined();
+          expect(results[1].error?.message).toBe(
+            "Cannot save a non-new component that is missing from the store (component: 'User', id: 'user9')"
+          );
+          expect(results[2].error).toBeUndefined();
+
+          ForkedUser = User.fork();
+
+          expect((await ForkedUser.get('user1', {fullName: true})).fullName).toBe('User 1');
+          expect((await ForkedUser.get('user2', {fullName: true})).fullName).toBe(
+            'User 2 (modified)'
+          );
+          expect((await ForkedUser.get('user3', {fullName: true})).fullName).toBe(
+            'User 3 (modified)'
+          );
+          expect(await ForkedUser.has('user9')).toBe(false);
+        });
+
+        test('deleteMany()', async () => {
+          const User = userClassProvider();
+
+          const ForkedUser = User.fork();
+
+          const user1 = ForkedUser.instantiate({id: 'user1'});
+          const user11 = ForkedUser.instantiate({id: 'user11'});
+          const missingUser = ForkedUser.instantiate({id: 'user9'});
+
+          if (!(User.hasStore() || User.getRemoteComponent() !== undefined)) {
+            return await expect(ForkedUser.deleteMany([user1, user11])).rejects.toThrow(
+              "To be able to execute the deleteMany() method, a storable component should be registered in a store or have an exposed deleteMany() remote method (component: 'User')"
+            );
+          }
+
+          let results = await ForkedUser.deleteMany([user1, missingUser, user11]);
+
+          expect(results).toHaveLength(3);
+          expect(results[0].storable).toBe(user1);
+          expect(results[0].error).toBeUndefined();
+          expect(results[1].storable).toBe(missingUser);
+          expect(results[1].error?.message).toBe(
+            "Cannot delete a component that is missing from the store (component: 'User', id: 'user9')"
+          );
+          expect(results[2].storable).toBe(user11);
+          expect(results[2].error).toBeUndefined();
+
+          expect(user1.getIsDeletedMark()).toBe(true);
+          expect(missingUser.getIsDeletedMark()).toBe(false);
+          expect(user11.getIsDeletedMark()).toBe(true);
+
+          expect(await User.fork().count()).toBe(2);
+
+          results = await User.fork().deleteMany({accessLevel: 3});
+
+          expect(results).toHaveLength(1);
+          expect(results[0].storable.id).toBe('user13');
+          expect(results[0].error).toBeUndefined();
+
+          expect(await User.fork().count()).toBe(1);
+        });
+
         test('find()', async () => {
           const User = userClassProvider();
 
@@ -1745,6 +1963,231 @@ describe('Storable', () => {
             {__component: 'User', id: 'user11'},
             {__component: 'User', id: 'user12'}
           ]);
+
+          // --- With an attribute of a referenced component specified in a query ---
+
+          users = await User.fork().find({organization: {name: 'Organization 2'}}, {});
+
+          expect(serialize(users)).toStrictEqual([
+            {__component: 'User', id: 'user11'},
+            {__component: 'User', id: 'user12'}
+          ]);
+
+          users = await User.fork().find(
+            {organization: {name: {$startsWith: 'Organization'}}, accessLevel: {$lessThan: 3}},
+            {}
+          );
+
+          expect(serialize(users)).toStrictEqual([
+            {__component: 'User', id: 'user1'},
+            {__component: 'User', id: 'user12'}
+          ]);
+
+          users = await User.fork().find({organization: {name: 'Organization 3'}}, {});
+
+          expect(serialize(users)).toStrictEqual([]);
+
+          // --- Sorting by an attribute of a referenced component ---
+
+          users = await User.fork().find(
+            {organization: {name: {$startsWith: 'Organization'}}},
+            {},
+            {sort: {'organization.name': 'desc', 'id': 'asc'}}
+          );
+
+          expect(serialize(users)).toStrictEqual([
+            {__component: 'User', id: 'user11'},
+            {__component: 'User', id: 'user12'},
+            {__component: 'User', id: 'user1'}
+          ]);
+
+          // --- Using a single store query ---
+
+          if (User.hasStore()) {
+            const store = User.getStore() as Store;
+
+            ForkedUser = User.fork();
+
+            store.startTrace();
+
+            users = await ForkedUser.find({accessLevel: 3}, {email: true});
+
+            expect(serialize(users)).toStrictEqual([
+              {__component: 'User', id: 'user11', email: '11@user.com'},
+              {__component: 'User', id: 'user13', email: '13@user.com'}
+            ]);
+
+            const trace = store.getTrace();
+
+            expect(trace).toHaveLength(1);
+            expect(trace[0].operation).toBe('find');
+            expect(trace[0].params[2].attributeSelector).toStrictEqual({id: true, email: true});
+            expect(typeof trace[0].duration).toBe('number');
+
+            store.stopTrace();
+
+            // --- Batching the loading of the referenced components ---
+
+            ForkedUser = User.fork();
+
+            store.startTrace();
+
+            users = await ForkedUser.find({}, {organization: {name: true}});
+
+            expect(serialize(users, {includeReferencedComponents: true})).toStrictEqual([
+              {
+                __component: 'User',
+                id: 'user1',
+                organization: {__component: 'Organization', id: 'org1', name: 'Organization 1'}
+              },
+              {
+                __component: 'User',
+                id: 'user11',
+                organization: {__component: 'Organization', id: 'org2', name: 'Organization 2'}
+              },
+              {
+                __component: 'User',
+                id: 'user12',
+                organization: {__component: 'Organization', id: 'org2'}
+              },
+              {__component: 'User', id: 'user13', organization: {__undefined: true}}
+            ]);
+
+            const batchTrace = store.getTrace();
+
+            expect(batchTrace.map(({operation}) => operation)).toStrictEqual(['find', 'loadMany']);
+            expect(batchTrace[1].params[0]).toHaveLength(2);
+
+            store.stopTrace();
+          }
+        });
+
+        test('find() with a cursor', async () => {
+          const User = userClassProvider();
+
+          if (!(User.hasStore() || User.getRemoteComponent() !== undefined)) {
+            return await expect(
+              User.fork().find({}, {}, {limit: 2, after: undefined})
+            ).rejects.toThrow(
+              "To be able to execute the find() method, a storable component should be registered in a store or have an exposed find() remote method (component: 'User')"
+            );
+          }
+
+          // --- Sorted by primary identifier ---
+
+          let {items, nextCursor} = await User.fork().find(
+            {},
+            {fullName: true},
+            {limit: 2, after: undefined}
+          );
+
+          expect(items.map((user) => user.fullName)).toStrictEqual(['User 1', 'User 11']);
+          expect(typeof nextCursor).toBe('string');
+
+          ({items, nextCursor} = await User.fork().find(
+            {},
+            {fullName: true},
+            {limit: 2, after: nextCursor}
+          ));
+
+          expect(items.map((user) => user.fullName)).toStrictEqual(['User 12', 'User 13']);
+          expect(typeof nextCursor).toBe('string');
+
+          ({items, nextCursor} = await User.fork().find(
+            {},
+            {fullName: true},
+            {limit: 2, after: nextCursor}
+          ));
+
+          expect(items).toStrictEqual([]);
+          expect(nextCursor).toBeUndefined();
+
+          // --- Sorted by another attribute ---
+
+          ({items, nextCursor} = await User.fork().find(
+            {},
+            {fullName: true},
+            {sort: {accessLevel: 'desc'}, limit: 3, after: undefined}
+          ));
+
+          expect(items.map((user) => user.fullName)).toStrictEqual([
+            'User 11',
+            'User 13',
+            'User 12'
+          ]);
+
+          ({items, nextCursor} = await User.fork().find(
+            {},
+            {fullName: true},
+            {sort: {accessLevel: 'desc'}, limit: 3, after: nextCursor}
+          ));
+
+          expect(items.map((user) => user.fullName)).toStrictEqual(['User 1']);
+          expect(nextCursor).toBeUndefined();
+
+          // --- With a query ---
+
+          ({items, nextCursor} = await User.fork().find(
+            {emailIsVerified: false},
+            {fullName: true},
+            {sort: {accessLevel: 'asc'}, limit: 1, after: undefined}
+          ));
+
+          expect(items.map((user) => user.fullName)).toStrictEqual(['User 1']);
+
+          ({items, nextCursor} = await User.fork().find(
+            {emailIsVerified: false},
+            {fullName: true},
+            {sort: {accessLevel: 'asc'}, limit: 1, after: nextCursor}
+          ));
+
+          expect(items.map((user) => user.fullName)).toStrictEqual(['User 13']);
+
+          // --- With an invalid cursor ---
+
+          await expect(
+            User.fork().find({}, {}, {limit: 2, after: 'invalid cursor'})
+          ).rejects.toThrow("The specified cursor is invalid (component: 'User')");
+
+          // --- Sorted by an optional attribute ---
+
+          if (User.hasStore()) {
+            await expect(
+              User.fork().find({}, {}, {sort: {updatedOn: 'asc'}, limit: 2, after: undefined})
+            ).rejects.toThrow(
+              "The 'after' option can only be used with a sort on some non-optional and non-encrypted attributes (sort: 'updatedOn', component: 'User')"
+            );
+          }
+        });
+
+        test('iterate()', async () => {
+          const User = userClassProvider();
+
+          if (!(User.hasStore() || User.getRemoteComponent() !== undefined)) {
+            return await expect(User.fork().iterate().next()).rejects.toThrow(
+              "To be able to execute the find() method, a storable component should be registered in a store or have an exposed find() remote method (component: 'User')"
+            );
+          }
+
+          const fullNames: string[] = [];
+
+          for await (const user of User.fork().iterate(
+            {},
+            {fullName: true},
+            {sort: {accessLevel: 'asc'}, batchSize: 3}
+          )) {
+            fullNames.push(user.fullName);
+          }
+
+          expect(fullNames).toStrictEqual(['User 1', 'User 12', 'User 11', 'User 13']);
+
+          fullNames.length = 0;
+
+          for await (const user of User.fork().iterate({tags: 'admin'}, {fullName: true})) {
+            fullNames.push(user.fullName);
+          }
+
+          expect(fullNames).toStrictEqual(['User 11', 'User 13']);
         });
 
         test('count()', async () => {
@@ -1788,30 +2231,139 @@ describe('Storable', () => {
 
           expect(await ForkedUser.count(user)).toBe(1);
         });
-      });
-    }
-  });
 
-  describe('Loaders', () => {
-    test('getStorableAttributesWithLoader()', async () => {
-      const User = getUserClass();
+        test('aggregate()', async () => {
+          const User = userClassProvider();
 
-      const attributes = Array.from(User.prototype.getStorableAttributesWithLoader());
+          if (!(User.hasStore() || User.getRemoteComponent() !== undefined)) {
+            return await expect(
+              User.fork().aggregate({}, {aggregates: {count: {$count: true}}})
+            ).rejects.toThrow(
+              "To be able to execute the aggregate() method, a storable component should be registered in a store or have an exposed aggregate() remote method (component: 'User')"
+            );
+          }
 
-      expect(attributes).toHaveLength(1);
-      expect(attributes[0].getName()).toBe('firstName');
-    });
+          // === Without grouping ===
 
-    test('getStorableComputedAttributes()', async () => {
-      const User = getUserClass();
+          expect(
+            await User.fork().aggregate(
+              {},
+              {
+                aggregates: {
+                  count: {$count: true},
+                  total: {$sum: 'accessLevel'},
+                  average: {$average: 'accessLevel'},
+                  min: {$min: 'accessLevel'},
+                  max: {$max: 'accessLevel'}
+                }
+              }
+            )
+          ).toStrictEqual([{count: 4, total: 7, average: 1.75, min: 0, max: 3}]);
 
-      const attributes = Array.from(User.prototype.getStorableComputedAttributes());
+          expect(
+            await User.fork().aggregate(
+              {emailIsVerified: true},
+              {aggregates: {count: {$count: true}, total: {$sum: 'accessLevel'}}}
+            )
+          ).toStrictEqual([{count: 2, total: 4}]);
 
-      expect(attributes).toHaveLength(1);
-      expect(attributes[0].getName()).toBe('firstName');
-    });
+          expect(
+            await User.fork().aggregate(
+              {fullName: 'User 99'},
+              {aggregates: {count: {$count: true}, total: {$sum: 'accessLevel'}}}
+            )
+          ).toStrictEqual([{count: 0, total: 0}]);
 
-    test('load()', async () => {
+          // === With grouping ===
+
+          expect(
+            await User.fork().aggregate(
+              {},
+              {
+                groupBy: 'accessLevel',
+                aggregates: {count: {$count: true}, total: {$sum: 'accessLevel'}},
+                sort: {accessLevel: 'asc'}
+              }
+            )
+          ).toStrictEqual([
+            {accessLevel: 0, count: 1, total: 0},
+            {accessLevel: 1, count: 1, total: 1},
+            {accessLevel: 3, count: 2, total: 6}
+          ]);
+
+          expect(
+            await User.fork().aggregate(
+              {},
+              {
+                groupBy: ['accessLevel', 'emailIsVerified'],
+                aggregates: {count: {$count: true}},
+                sort: {count: 'desc', accessLevel: 'asc'},
+                limit: 2
+              }
+            )
+          ).toStrictEqual([
+            {accessLevel: 0, emailIsVerified: false, count: 1},
+            {accessLevel: 1, emailIsVerified: true, count: 1}
+          ]);
+
+          const results = await User.fork().aggregate(
+            {},
+            {groupBy: 'organization', aggregates: {count: {$count: true}}, sort: {count: 'desc'}}
+          );
+
+          expect(results).toHaveLength(3); // 'org1', 'org2', and no organization
+          expect(results[0].organization.id).toBe('org2');
+          expect(results[0].count).toBe(2);
+
+          // === Invalid aggregates ===
+
+          await expect(User.fork().aggregate({}, {aggregates: {}})).rejects.toThrow(
+            "The 'aggregates' option of the aggregate() method should be a non-empty plain object (component: 'User')"
+          );
+
+          await expect(
+            User.fork().aggregate({}, {aggregates: {total: {$sum: 'unknown'}}})
+          ).rejects.toThrow("The storable attribute 'unknown' is missing (component: 'User')");
+
+          await expect(
+            User.fork().aggregate({}, {aggregates: {total: {$product: 'accessLevel'} as any}})
+          ).rejects.toThrow(
+            "An aggregate value should be specified with a single operator among '$count', '$sum', '$average', '$min', '$max' (component: 'User', name: 'total')"
+          );
+
+          await expect(
+            User.fork().aggregate(
+              {},
+              {groupBy: 'accessLevel', aggregates: {accessLevel: {$count: true}}}
+            )
+          ).rejects.toThrow(
+            "An aggregate value cannot have the same name as a 'groupBy' attribute (component: 'User', name: 'accessLevel')"
+          );
+        });
+      });
+    }
+  });
+
+  describe('Loaders', () => {
+    test('getStorableAttributesWithLoader()', async () => {
+      const User = getUserClass();
+
+      const attributes = Array.from(User.prototype.getStorableAttributesWithLoader());
+
+      expect(attributes).toHaveLength(1);
+      expect(attributes[0].getName()).toBe('firstName');
+    });
+
+    test('getStorableComputedAttributes()', async () => {
+      const User = getUserClass();
+
+      const attributes = Array.from(User.prototype.getStorableComputedAttributes());
+
+      expect(attributes).toHaveLength(1);
+      expect(attributes[0].getName()).toBe('firstName');
+    });
+
+    test('load()', async () => {
       const User = getUserClass();
 
       let user = User.fork().instantiate({id: 'user1'});
@@ -2076,6 +2628,36 @@ describe('Storable', () => {
       expect(hookTracker.get(user.getAttribute('fullName'), 'afterDeleteHasBeenCalled')).toBe(true);
     });
 
+    test('saveMany() and deleteMany()', async () => {
+      const User = getUserClass();
+
+      const ForkedUser = User.fork();
+
+      const users = [await ForkedUser.get('user1'), await ForkedUser.get('user11')];
+
+      for (const user of users) {
+        user.fullName = `${user.fullName} (modified)`;
+      }
+
+      await ForkedUser.saveMany(users);
+
+      for (const user of users) {
+        expect(hookTracker.get(user, 'beforeSaveHasBeenCalled')).toBe(true);
+        expect(hookTracker.get(user, 'afterSaveHasBeenCalled')).toBe(true);
+        expect(hookTracker.get(user.getAttribute('fullName'), 'beforeSaveHasBeenCalled')).toBe(
+          true
+        );
+        expect(hookTracker.get(user.getAttribute('fullName'), 'afterSaveHasBeenCalled')).toBe(true);
+      }
+
+      await ForkedUser.deleteMany(users);
+
+      for (const user of users) {
+        expect(hookTracker.get(user, 'beforeDeleteHasBeenCalled')).toBe(true);
+        expect(hookTracker.get(user, 'afterDeleteHasBeenCalled')).toBe(true);
+      }
+    });
+
     function getUserClass() {
       class Picture extends BasePicture {}
 
@@ -2189,4 +2771,2932 @@ describe('Storable', () => {
       }
     };
   });
+
+  describe('Transactions', () => {
+    test('transaction()', async () => {
+      const {User, store} = getUserClass();
+
+      const user = await User.fork().get('user1', {fullName: true});
+
+      await store.transaction(async () => {
+        user.fullName = 'User 1 (modified)';
+        await user.save();
+      });
+
+      expect((await User.fork().get('user1', {fullName: true})).fullName).toBe('User 1 (modified)');
+
+      await expect(
+        store.transaction(async () => {
+          user.fullName = 'User 1 (modified again)';
+          await user.save();
+
+          const newUser = new (User.fork())({id: 'user2', email: '2@user.com', reference: 2});
+          await newUser.save();
+
+          throw new Error('Something went wrong');
+        })
+      ).rejects.toThrow('Something went wrong');
+
+      expect((await User.fork().get('user1', {fullName: true})).fullName).toBe('User 1 (modified)');
+      expect(await User.fork().has('user2')).toBe(false);
+    });
+
+    test('transaction() with concurrent operations', async () => {
+      const {User, store} = getUserClass();
+
+      const user = await User.fork().get('user1', {fullName: true, accessLevel: true});
+
+      let continueTransaction!: () => void;
+      const transactionCanContinue = new Promise<void>((resolve) => {
+        continueTransaction = resolve;
+      });
+
+      let markUserAsSaved!: () => void;
+      const userIsSaved = new Promise<void>((resolve) => {
+        markUserAsSaved = resolve;
+      });
+
+      const transaction = store.transaction(async () => {
+        user.accessLevel = 5;
+        await user.save();
+
+        markUserAsSaved();
+
+        await transactionCanContinue;
+
+        throw new Error('Something went wrong');
+      });
+
+      await userIsSaved;
+
+      // The operations made outside of the transaction wait for the end of the transaction
+      // (so they don't see its uncommitted modifications), and are not rolled back with it
+      const concurrentOperations = (async () => {
+        const otherUser = await User.fork().get('user1', {fullName: true, accessLevel: true});
+
+        expect(otherUser.accessLevel).toBe(0);
+
+        otherUser.fullName = 'User 1 (modified outside of the transaction)';
+        await otherUser.save();
+
+        await new (User.fork())({id: 'user2', email: '2@user.com', reference: 2}).save();
+      })();
+
+      // Leave some time to the concurrent operations to (wrongly) run during the transaction
+      setTimeout(continueTransaction, 50);
+
+      await expect(transaction).rejects.toThrow('Something went wrong');
+      await concurrentOperations;
+
+      const reloadedUser = await User.fork().get('user1', {fullName: true, accessLevel: true});
+
+      expect(reloadedUser.fullName).toBe('User 1 (modified outside of the transaction)');
+      expect(reloadedUser.accessLevel).toBe(0);
+      expect(await User.fork().has('user2')).toBe(true);
+    });
+
+    test('transaction() with a failing commit', async () => {
+      class Picture extends BasePicture {}
+
+      class Organization extends BaseOrganization {}
+
+      class User extends BaseUser {
+        @provide() static Picture = Picture;
+        @provide() static Organization = Organization;
+      }
+
+      class FailingCommitStore extends MemoryStore {
+        commitShouldFail = true;
+
+        async commitTransaction(params: TransactionParams) {
+          if (this.commitShouldFail) {
+            this.commitShouldFail = false;
+            throw new Error('Cannot commit the transaction');
+          }
+
+          await super.commitTransaction(params);
+        }
+      }
+
+      const store = new FailingCommitStore({initialCollections: getInitialCollections()});
+
+      store.registerRootComponent(User);
+
+      await expect(
+        store.transaction(async () => {
+          await new (User.fork())({id: 'user2', email: '2@user.com', reference: 2}).save();
+        })
+      ).rejects.toThrow('Cannot commit the transaction');
+
+      // The transaction is rolled back and released
+      expect(await User.fork().has('user2')).toBe(false);
+
+      await store.transaction(async () => {
+        await new (User.fork())({id: 'user3', email: '3@user.com', reference: 3}).save();
+      });
+
+      expect(await User.fork().has('user3')).toBe(true);
+    });
+
+    test('transaction() with a SQLite store', async () => {
+      class Picture extends BasePicture {}
+
+      class Organization extends BaseOrganization {}
+
+      class User extends BaseUser {
+        @provide() static Picture = Picture;
+        @provide() static Organization = Organization;
+      }
+
+      const store = new SQLiteStore(':memory:');
+
+      store.registerRootComponent(User);
+
+      // The table of the collection is created in a transaction that is rolled back
+      await expect(
+        store.transaction(async () => {
+          await new (User.fork())({id: 'user1', email: '1@user.com', reference: 1}).save();
+
+          throw new Error('Something went wrong');
+        })
+      ).rejects.toThrow('Something went wrong');
+
+      expect(await User.fork().has('user1')).toBe(false);
+
+      let continueTransaction!: () => void;
+      const concurrentOperationIsStarted = new Promise<void>((resolve) => {
+        continueTransaction = resolve;
+      });
+
+      const transaction = store.transaction(async () => {
+        await new (User.fork())({id: 'user2', email: '2@user.com', reference: 2}).save();
+
+        await concurrentOperationIsStarted;
+
+        throw new Error('Something went wrong');
+      });
+
+      // An operation made outside of the transaction should not be rolled back with it
+      const concurrentOperation = new (User.fork())({
+        id: 'user3',
+        email: '3@user.com',
+        reference: 3
+      }).save();
+
+      continueTransaction();
+
+      await expect(transaction).rejects.toThrow('Something went wrong');
+      await concurrentOperation;
+
+      expect(await User.fork().has('user2')).toBe(false);
+      expect(await User.fork().has('user3')).toBe(true);
+
+      await store.disconnect();
+    });
+
+    test('@transactional()', async () => {
+      const {User} = getUserClass();
+
+      const user = await User.fork().get('user1', {accessLevel: true});
+
+      await expect(user.promote()).rejects.toThrow('Cannot promote a blocked user');
+
+      expect((await User.fork().get('user1', {accessLevel: true})).accessLevel).toBe(0);
+    });
+
+    function getUserClass() {
+      class Picture extends BasePicture {}
+
+      class Organization extends BaseOrganization {}
+
+      class User extends BaseUser {
+        @provide() static Picture = Picture;
+        @provide() static Organization = Organization;
+
+        @transactional() @method() async promote() {
+          this.accessLevel++;
+          await this.save();
+
+          await this.load({tags: true});
+
+          if (this.tags.includes('blocked')) {
+            throw new Error('Cannot promote a blocked user');
+          }
+        }
+      }
+
+      const store = new MemoryStore({initialCollections: getInitialCollections()});
+
+      store.registerRootComponent(User);
+
+      return {User, store};
+    }
+  });
+
+  describe('Optimistic concurrency', () => {
+    test('@version()', async () => {
+      const User = getUserClass();
+
+      const newUser = new (User.fork())({id: 'user2', email: '2@user.com', reference: 2});
+      await newUser.save();
+
+      expect(newUser.version).toBe(1);
+
+      const user = await User.fork().get('user2');
+      const concurrentUser = await User.fork().get('user2');
+
+      expect(user.version).toBe(1);
+
+      user.fullName = 'User 2 (modified)';
+      await user.save();
+
+      expect(user.version).toBe(2);
+
+      concurrentUser.fullName = 'User 2 (modified concurrently)';
+
+      await expect(concurrentUser.save()).rejects.toThrow(
+        "Cannot save a component that has been modified in the store since it was loaded (component: 'User', id: 'user2', version: 1)"
+      );
+
+      expect(concurrentUser.version).toBe(1);
+
+      const reloadedUser = await User.fork().get('user2', {fullName: true, version: true});
+
+      expect(reloadedUser.fullName).toBe('User 2 (modified)');
+      expect(reloadedUser.version).toBe(2);
+
+      reloadedUser.fullName = 'User 2 (modified again)';
+      await reloadedUser.save();
+
+      expect(reloadedUser.version).toBe(3);
+
+      // A component that was saved before its version attribute was introduced
+      const existingUser = await User.fork().get('user1');
+
+      expect(existingUser.version).toBeUndefined();
+
+      existingUser.fullName = 'User 1 (modified)';
+      await existingUser.save();
+
+      expect(existingUser.version).toBe(1);
+
+      const partiallyLoadedUser = await User.fork().get('user1', {fullName: true});
+
+      partiallyLoadedUser.fullName = 'User 1 (modified again)';
+
+      await expect(partiallyLoadedUser.save()).rejects.toThrow(
+        "Cannot save a component with a version attribute that is not loaded (attribute: 'User.prototype.version')"
+      );
+    });
+
+    test('@version() with saveMany()', async () => {
+      const User = getUserClass();
+
+      const ForkedUser = User.fork();
+
+      const user1 = await ForkedUser.get('user1');
+      const user11 = await ForkedUser.get('user11');
+
+      const concurrentUser = await User.fork().get('user11');
+      concurrentUser.fullName = 'User 11 (modified concurrently)';
+      await concurrentUser.save();
+
+      user1.fullName = 'User 1 (modified)';
+      user11.fullName = 'User 11 (modified)';
+
+      const results = await ForkedUser.saveMany([user1, user11]);
+
+      expect(results[0].error).toBeUndefined();
+      expect(results[1].error?.code).toBe('COMPONENT_VERSION_CONFLICT');
+
+      expect(user1.version).toBe(1);
+      expect(user11.version).toBeUndefined();
+
+      expect((await User.fork().get('user11', {fullName: true})).fullName).toBe(
+        'User 11 (modified concurrently)'
+      );
+    });
+
+    function getUserClass() {
+      class Picture extends BasePicture {}
+
+      class Organization extends BaseOrganization {}
+
+      class User extends BaseUser {
+        @provide() static Picture = Picture;
+        @provide() static Organization = Organization;
+
+        @version() version?: number;
+      }
+
+      const store = new MemoryStore({initialCollections: getInitialCollections()});
+
+      store.registerRootComponent(User);
+
+      return User;
+    }
+  });
+
+  describe('Atomic updates', () => {
+    test('increment()', async () => {
+      const User = getUserClass();
+
+      const user = await User.fork().get('user11', {});
+      const concurrentUser = await User.fork().get('user11', {});
+
+      expect(user.getAttribute('version').isSet()).toBe(false);
+
+      expect(await user.increment('accessLevel')).toBe(user);
+      expect(user.accessLevel).toBe(4);
+      expect(user.version).toBe(1);
+      expect(user.updatedAt).toBeInstanceOf(Date);
+
+      // Concurrent increments do not overwrite each other
+      await concurrentUser.increment('accessLevel', 2);
+      expect(concurrentUser.accessLevel).toBe(6);
+      expect(concurrentUser.version).toBe(2);
+
+      await user.increment('accessLevel', -6);
+      expect(user.accessLevel).toBe(0);
+
+      const loadedUser = await User.fork().get('user11', {accessLevel: true, version: true});
+
+      expect(loadedUser.accessLevel).toBe(0);
+      expect(loadedUser.version).toBe(3);
+
+      // The other attributes are not refreshed
+      expect(user.getAttribute('fullName').isSet()).toBe(false);
+
+      await expect(user.increment('fullName')).rejects.toThrow(
+        "Cannot increment an attribute that is not of type 'number' (attribute: 'User.prototype.fullName')"
+      );
+
+      await expect(user.increment('accessLevel', '1' as any)).rejects.toThrow(
+        "Cannot increment an attribute by an amount that is not a finite number (attribute: 'User.prototype.accessLevel', received type: 'string')"
+      );
+
+      await expect(user.increment('reference')).rejects.toThrow(
+        "Cannot atomically update an identifier, computed, or encrypted attribute (attribute: 'User.prototype.reference')"
+      );
+
+      await expect(
+        new (User.fork())({id: 'user2', email: '2@user.com', reference: 2}).increment('accessLevel')
+      ).rejects.toThrow("Cannot atomically update a component that is new (component: 'User')");
+
+      const missingUser = User.fork().instantiate({id: 'user2'});
+
+      await expect(missingUser.increment('accessLevel')).rejects.toThrow(
+        "Cannot update a component that is missing from the store (component: 'User', id: 'user2')"
+      );
+    });
+
+    test('push() and pull()', async () => {
+      const User = getUserClass();
+
+      const user = await User.fork().get('user1', {});
+
+      await user.push('tags', 'admin');
+      expect(user.tags).toEqual(['spammer', 'blocked', 'admin']);
+
+      await user.push('tags', 'spammer');
+      expect(user.tags).toEqual(['spammer', 'blocked', 'admin', 'spammer']);
+
+      // All the occurrences are removed
+      await user.pull('tags', 'spammer');
+      expect(user.tags).toEqual(['blocked', 'admin']);
+
+      await user.pull('tags', 'owner');
+      expect(user.tags).toEqual(['blocked', 'admin']);
+
+      expect(user.version).toBe(4);
+
+      const loadedUser = await User.fork().get('user1', {tags: true});
+
+      expect(loadedUser.tags).toEqual(['blocked', 'admin']);
+
+      await expect(user.push('tags', 123)).rejects.toThrow(
+        "Cannot assign a value of an unexpected type (attribute: 'User.prototype.tags', expected type: 'string', received type: 'number')"
+      );
+
+      await expect(user.push('pastPictures', {})).rejects.toThrow(
+        "Cannot push or pull the items of an attribute that is not an array of scalar values (attribute: 'User.prototype.pastPictures')"
+      );
+
+      await expect(user.pull('fullName', 'User 1')).rejects.toThrow(
+        "Cannot push or pull the items of an attribute that is not an array of scalar values (attribute: 'User.prototype.fullName')"
+      );
+    });
+
+    function getUserClass() {
+      class Picture extends BasePicture {}
+
+      class Organization extends BaseOrganization {}
+
+      @timestamps()
+      class User extends BaseUser {
+        @provide() static Picture = Picture;
+        @provide() static Organization = Organization;
+
+        @version() version?: number;
+
+        declare createdAt?: Date;
+        declare updatedAt?: Date;
+      }
+
+      const store = new MemoryStore({initialCollections: getInitialCollections()});
+
+      store.registerRootComponent(User);
+
+      return User;
+    }
+  });
+
+  describe('Upserts', () => {
+    test('upsert()', async () => {
+      const {User, savedUsers} = getUserClass();
+
+      // An existing user is updated
+      let user = await User.fork().upsert({email: '1@user.com'}, {fullName: 'User 1 (upserted)'});
+
+      expect(user.id).toBe('user1');
+      expect(user.fullName).toBe('User 1 (upserted)');
+      expect(user.accessLevel).toBe(0);
+      expect(user.tags).toEqual(['spammer', 'blocked']);
+      expect(user.version).toBe(1);
+      expect(user.isNew()).toBe(false);
+      expect(savedUsers).toEqual([{email: '1@user.com', wasCreated: false}]);
+
+      let loadedUser = await User.fork().get('user1', {fullName: true, version: true});
+
+      expect(loadedUser.fullName).toBe('User 1 (upserted)');
+      expect(loadedUser.version).toBe(1);
+
+      // A missing user is created
+      user = await User.fork().upsert(
+        {email: '2@user.com'},
+        {reference: 2, fullName: 'User 2 (upserted)'}
+      );
+
+      expect(typeof user.id).toBe('string');
+      expect(user.id).not.toBe('user1');
+      expect(user.fullName).toBe('User 2 (upserted)');
+      expect(user.accessLevel).toBe(0);
+      expect(user.version).toBe(1);
+      expect(user.isNew()).toBe(false);
+      expect(savedUsers[1]).toEqual({email: '2@user.com', wasCreated: true});
+
+      loadedUser = await User.fork().get({email: '2@user.com'}, {fullName: true, version: true});
+
+      expect(loadedUser.id).toBe(user.id);
+      expect(loadedUser.fullName).toBe('User 2 (upserted)');
+      expect(loadedUser.version).toBe(1);
+
+      // A user that is already loaded is updated in place
+      const ForkedUser = User.fork();
+      const existingUser = await ForkedUser.get('user11', {fullName: true, accessLevel: true});
+
+      user = await ForkedUser.upsert('user11', {accessLevel: 5});
+
+      expect(user).toBe(existingUser);
+      expect(user.accessLevel).toBe(5);
+      expect(user.fullName).toBe('User 11');
+      expect(user.version).toBe(1);
+      expect(savedUsers[2]).toEqual({email: '11@user.com', wasCreated: false});
+
+      expect(await User.fork().count()).toBe(5);
+    });
+
+    test('findOrCreate()', async () => {
+      const {User, savedUsers} = getUserClass();
+
+      // An existing user is retrieved
+      let user = await User.fork().findOrCreate({fullName: 'User 11'}, {accessLevel: 5});
+
+      expect(user.id).toBe('user11');
+      expect(user.accessLevel).toBe(3);
+      expect(user.isNew()).toBe(false);
+      expect(savedUsers).toEqual([{email: '11@user.com', wasCreated: false}]);
+
+      // A missing user is created from the query and the default values
+      user = await User.fork().findOrCreate(
+        {email: '2@user.com', accessLevel: {$greaterThan: 1}},
+        {reference: 2, fullName: 'User 2'}
+      );
+
+      expect(typeof user.id).toBe('string');
+      expect(user.email).toBe('2@user.com');
+      expect(user.fullName).toBe('User 2');
+      expect(user.accessLevel).toBe(0);
+      expect(user.version).toBe(1);
+      expect(savedUsers[1]).toEqual({email: '2@user.com', wasCreated: true});
+
+      const loadedUser = await User.fork().get({email: '2@user.com'}, {fullName: true});
+
+      expect(loadedUser.id).toBe(user.id);
+      expect(loadedUser.fullName).toBe('User 2');
+
+      // The created user is now retrieved
+      user = await User.fork().findOrCreate({fullName: 'User 2'});
+
+      expect(user.id).toBe(loadedUser.id);
+      expect(savedUsers[2]).toEqual({email: '2@user.com', wasCreated: false});
+
+      expect(await User.fork().count()).toBe(5);
+    });
+
+    function getUserClass() {
+      const savedUsers: {email: string; wasCreated: boolean | undefined}[] = [];
+
+      class Picture extends BasePicture {}
+
+      class Organization extends BaseOrganization {}
+
+      class User extends BaseUser {
+        @provide() static Picture = Picture;
+        @provide() static Organization = Organization;
+
+        @version() version?: number;
+
+        async afterSave(attributeSelector: AttributeSelector, options: {wasCreated?: boolean}) {
+          await super.afterSave(attributeSelector, options);
+
+          savedUsers.push({email: this.email, wasCreated: options.wasCreated});
+        }
+      }
+
+      const store = new MemoryStore({initialCollections: getInitialCollections()});
+
+      store.registerRootComponent(User);
+
+      return {User, savedUsers};
+    }
+  });
+
+  describe('Soft deletion', () => {
+    test('delete()', async () => {
+      const User = getUserClass();
+
+      const user = await User.fork().get('user11');
+
+      expect(user.deletedAt).toBeUndefined();
+
+      await user.delete();
+
+      expect(user.deletedAt).toBeInstanceOf(Date);
+      expect(user.getIsDeletedMark()).toBe(true);
+
+      await expect(User.fork().get('user11')).rejects.toThrow(
+        "Cannot load a component that is missing from the store (component: 'User', id: 'user11')"
+      );
+      expect(await User.fork().has('user11')).toBe(false);
+      expect(await User.fork().has('user11', {includeDeleted: true})).toBe(true);
+
+      const deletedUser = await User.fork().get(
+        'user11',
+        {fullName: true, deletedAt: true},
+        {
+          includeDeleted: true
+        }
+      );
+
+      expect(deletedUser.fullName).toBe('User 11');
+      expect(deletedUser.deletedAt).toBeInstanceOf(Date);
+
+      // A soft-deleted component cannot be deleted again
+      await expect(user.delete()).rejects.toThrow(
+        "Cannot delete a component that is missing from the store (component: 'User', id: 'user11')"
+      );
+    });
+
+    test('find() and count()', async () => {
+      const User = getUserClass();
+
+      await (await User.fork().get('user11')).delete();
+
+      expect((await User.fork().find({}, {})).map(({id}) => id)).toEqual([
+        'user1',
+        'user12',
+        'user13'
+      ]);
+      expect((await User.fork().find({}, {}, {includeDeleted: true})).map(({id}) => id)).toEqual([
+        'user1',
+        'user11',
+        'user12',
+        'user13'
+      ]);
+
+      expect(await User.fork().count()).toBe(3);
+      expect(await User.fork().count({}, {includeDeleted: true})).toBe(4);
+    });
+
+    test('Referenced components', async () => {
+      const User = getUserClass();
+
+      await (await User.Organization.fork().get('org2')).delete();
+
+      await expect(User.Organization.fork().get('org2')).rejects.toThrow(
+        "Cannot load a component that is missing from the store (component: 'User.Organization', id: 'org2')"
+      );
+
+      // A soft-deleted component can still be loaded through a reference
+      const user = await User.fork().get('user11', {organization: {name: true}});
+
+      expect(user.organization!.id).toBe('org2');
+      expect(user.organization!.name).toBe('Organization 2');
+    });
+
+    test('restore()', async () => {
+      const User = getUserClass();
+
+      const user = await User.fork().get('user11');
+
+      await user.delete();
+      await user.restore();
+
+      expect(user.deletedAt).toBeUndefined();
+      expect(user.getIsDeletedMark()).toBe(false);
+
+      const restoredUser = await User.fork().get('user11', {deletedAt: true});
+
+      expect(restoredUser.deletedAt).toBeUndefined();
+      expect(await User.fork().count()).toBe(4);
+
+      await user.purge();
+
+      await expect(user.restore()).rejects.toThrow(
+        "Cannot restore a component that is missing from the store (component: 'User', id: 'user11')"
+      );
+
+      class Organization extends BaseOrganization {}
+
+      new MemoryStore().registerRootComponent(Organization);
+
+      await expect(
+        new Organization({id: 'org1', name: 'Organization 1'}).restore()
+      ).rejects.toThrow(
+        "Cannot restore a component that is not soft-deletable (component: 'Organization')"
+      );
+    });
+
+    test('purge()', async () => {
+      const User = getUserClass();
+
+      const user = await User.fork().get('user11');
+
+      await user.delete();
+      await user.purge();
+
+      expect(user.getIsDeletedMark()).toBe(true);
+      expect(await User.fork().has('user11', {includeDeleted: true})).toBe(false);
+
+      await expect(user.purge()).rejects.toThrow(
+        "Cannot delete a component that is missing from the store (component: 'User', id: 'user11')"
+      );
+      expect(await user.purge({throwIfMissing: false})).toBeUndefined();
+    });
+
+    test('deleteMany()', async () => {
+      const User = getUserClass();
+
+      const ForkedUser = User.fork();
+
+      const user1 = await ForkedUser.get('user1');
+      const user11 = await ForkedUser.get('user11');
+
+      await user11.delete();
+
+      const results = await ForkedUser.deleteMany([user1, user11]);
+
+      expect(results[0].error).toBeUndefined();
+      expect(results[1].error?.code).toBe('COMPONENT_IS_MISSING_FROM_STORE');
+
+      expect(user1.deletedAt).toBeInstanceOf(Date);
+      expect(await User.fork().count()).toBe(2);
+      expect(await User.fork().count({}, {includeDeleted: true})).toBe(4);
+    });
+
+    test('Concurrent operations', async () => {
+      // The updates are delayed so that the operations are running at the same time
+      class SlowMemoryStore extends MemoryStore {
+        async updateDocument(params: Parameters<MemoryStore['updateDocument']>[0]) {
+          await new Promise((resolve) => setTimeout(resolve, 10));
+
+          return await super.updateDocument(params);
+        }
+      }
+
+      const User = getUserClass({StoreClass: SlowMemoryStore});
+
+      const user1 = await User.fork().get('user11');
+      const user2 = await User.fork().get('user11');
+
+      let results = await Promise.allSettled([user1.delete(), user2.delete()]);
+
+      expect(results.map(({status}) => status).sort()).toEqual(['fulfilled', 'rejected']);
+
+      results = await Promise.allSettled([user1.restore(), user2.restore()]);
+
+      expect(results.map(({status}) => status)).toEqual(['fulfilled', 'fulfilled']);
+      expect(await User.fork().has('user11')).toBe(true);
+    });
+
+    function getUserClass({StoreClass = MemoryStore}: {StoreClass?: typeof MemoryStore} = {}) {
+      class Picture extends BasePicture {}
+
+      @softDeletable()
+      class Organization extends BaseOrganization {}
+
+      @softDeletable()
+      class User extends BaseUser {
+        @provide() static Picture = Picture;
+        @provide() static Organization = Organization;
+
+        @attribute('Date?') deletedAt?: Date;
+      }
+
+      const store = new StoreClass({initialCollections: getInitialCollections()});
+
+      store.registerRootComponent(User);
+
+      return User;
+    }
+  });
+
+  describe('Relations', () => {
+    test('@relation()', async () => {
+      const User = getUserClass();
+
+      const organization = await User.fork().Organization.get('org2', {
+        name: true,
+        users: {fullName: true}
+      });
+
+      expect(organization.users.map(({id}) => id)).toEqual(['user11', 'user12']);
+      expect(organization.users.map(({fullName}) => fullName)).toEqual(['User 11', 'User 12']);
+
+      // The relation is not stored
+      const savedOrganization = await User.fork().Organization.get('org2', {name: true});
+
+      savedOrganization.name = 'Organization 2 (modified)';
+      await savedOrganization.save();
+
+      expect(
+        (await User.fork().Organization.get('org2', {users: {}})).users.map(({id}) => id)
+      ).toEqual(['user11', 'user12']);
+
+      expect(User.Organization.prototype.getStorableAttribute('users').isComputed()).toBe(true);
+    });
+
+    test('onDelete: restrict', async () => {
+      const User = getUserClass({onDelete: 'restrict'});
+
+      const organization = await User.fork().Organization.get('org1');
+
+      await expect(organization.delete()).rejects.toThrow(
+        "Cannot delete a component that is referenced by some other components (component: 'User.Organization', relation: 'users')"
+      );
+      expect(await User.fork().Organization.has('org1')).toBe(true);
+
+      await (await User.fork().get('user1')).delete();
+      await organization.delete();
+
+      expect(await User.fork().Organization.has('org1')).toBe(false);
+    });
+
+    test('onDelete: cascade', async () => {
+      const User = getUserClass({onDelete: 'cascade'});
+
+      await (await User.fork().Organization.get('org2')).delete();
+
+      expect(await User.fork().Organization.has('org2')).toBe(false);
+      expect((await User.fork().find({}, {})).map(({id}) => id)).toEqual(['user1', 'user13']);
+    });
+
+    test('onDelete: nullify', async () => {
+      const User = getUserClass({onDelete: 'nullify'});
+
+      await (await User.fork().Organization.get('org2')).delete();
+
+      expect(await User.fork().Organization.has('org2')).toBe(false);
+
+      const users = await User.fork().find({}, {organization: {}});
+
+      expect(users.map(({id}) => id)).toEqual(['user1', 'user11', 'user12', 'user13']);
+      expect(users.map(({organization}) => organization?.id)).toEqual([
+        'org1',
+        undefined,
+        undefined,
+        undefined
+      ]);
+    });
+
+    test('onDelete: nullify with a non-optional inverse attribute', async () => {
+      class Organization extends BaseOrganization {
+        @consume() static User: typeof User;
+
+        @relation('User[]', {inverseOf: 'organization', onDelete: 'nullify'}) users!: User[];
+      }
+
+      class User extends BaseUser {
+        @provide() static Organization = Organization;
+
+        @attribute('Organization') organization!: Organization;
+      }
+
+      const store = new MemoryStore({initialCollections: getInitialCollections()});
+
+      store.registerRootComponent(User);
+
+      await expect(User.fork().Organization.get('org2')).rejects.toThrow(
+        "The inverse attribute of a relation with the 'nullify' delete policy should be optional or an array (attribute: 'User.Organization.prototype.users', inverseOf: 'organization')"
+      );
+
+      expect(await User.fork().Organization.has('org2')).toBe(true);
+    });
+
+    test('onDelete with deleteMany()', async () => {
+      const User = getUserClass({onDelete: 'restrict'});
+
+      await (await User.fork().get('user1')).delete();
+
+      const organizations = await User.fork().Organization.find({}, {});
+      const results = await User.fork().Organization.deleteMany(organizations);
+
+      // Each organization is deleted along with the application of its policies
+      expect(results.map(({error}) => error?.code)).toEqual([undefined, 'COMPONENT_IS_REFERENCED']);
+      expect((await User.fork().Organization.find({}, {})).map(({id}) => id)).toEqual(['org2']);
+    });
+
+    test('onDelete in a store that does not support transactions', async () => {
+      class NonTransactionalMemoryStore extends MemoryStore {
+        async supportsTransactions() {
+          return false;
+        }
+
+        async startTransaction(): Promise<never> {
+          throw new Error('The transactions are not supported');
+        }
+      }
+
+      const User = getUserClass({onDelete: 'cascade', StoreClass: NonTransactionalMemoryStore});
+
+      await (await User.fork().Organization.get('org2')).delete();
+
+      expect(await User.fork().Organization.has('org2')).toBe(false);
+      expect((await User.fork().find({}, {})).map(({id}) => id)).toEqual(['user1', 'user13']);
+    });
+
+    function getUserClass({
+      onDelete,
+      StoreClass = MemoryStore
+    }: {onDelete?: StorableAttributeRelationDeletePolicy; StoreClass?: typeof MemoryStore} = {}) {
+      class Picture extends BasePicture {}
+
+      class Organization extends BaseOrganization {
+        @consume() static User: typeof User;
+
+        @relation('User[]', {inverseOf: 'organization', onDelete}) users!: User[];
+      }
+
+      class User extends BaseUser {
+        @provide() static Picture = Picture;
+        @provide() static Organization = Organization;
+
+        declare organization?: Organization;
+      }
+
+      const store = new StoreClass({initialCollections: getInitialCollections()});
+
+      store.registerRootComponent(User);
+
+      return User;
+    }
+  });
+
+  describe('Encryption', () => {
+    const KEY = 'a secret key';
+
+    test('save() and get()', async () => {
+      const {User, store} = getUserClass({keyProvider: () => KEY});
+
+      const ForkedUser = User.fork();
+
+      await new ForkedUser({
+        id: 'user1',
+        email: '1@user.com',
+        phoneNumber: '+1 555 0100',
+        fullName: 'User 1'
+      }).save();
+      await new ForkedUser({id: 'user2', email: '2@user.com', fullName: 'User 2'}).save();
+
+      const [document1, document2] = store.exportSnapshot().User;
+
+      expect(document1.fullName).toBe('User 1');
+      expect(document1.email).toMatch(/^\$encrypted:/);
+      expect(document1.phoneNumber).toMatch(/^\$encrypted:/);
+      expect(JSON.stringify(document1)).not.toContain('1@user.com');
+      expect(JSON.stringify(document1)).not.toContain('555');
+      expect(document2.phoneNumber).toBeUndefined();
+
+      let user = await User.fork().get('user1');
+
+      expect(user.email).toBe('1@user.com');
+      expect(user.phoneNumber).toBe('+1 555 0100');
+
+      user = await User.fork().get({email: '2@user.com'});
+
+      expect(user.id).toBe('user2');
+      expect(user.phoneNumber).toBeUndefined();
+
+      // Only the deterministic encryption always produces the same encrypted value
+      user = await User.fork().get('user1');
+      user.email = '1@user.com';
+      user.phoneNumber = '+1 555 0100';
+      await user.save({email: true, phoneNumber: true});
+
+      const [savedDocument1] = store.exportSnapshot().User;
+
+      expect(savedDocument1.email).toBe(document1.email);
+      expect(savedDocument1.phoneNumber).not.toBe(document1.phoneNumber);
+      expect((await User.fork().get('user1')).phoneNumber).toBe('+1 555 0100');
+    });
+
+    test('find()', async () => {
+      const {User} = getUserClass({keyProvider: () => KEY});
+
+      await User.fork().saveMany([
+        new (User.fork())({id: 'user1', email: '1@user.com', phoneNumber: '+1 555 0100'}),
+        new (User.fork())({id: 'user2', email: '2@user.com', phoneNumber: '+1 555 0101'}),
+        new (User.fork())({id: 'user3', email: '3@user.com'})
+      ]);
+
+      expect((await User.fork().find({email: '2@user.com'}, {})).map(({id}) => id)).toEqual([
+        'user2'
+      ]);
+      expect(
+        (await User.fork().find({email: {$in: ['1@user.com', '3@user.com']}}, {})).map(({id}) => id)
+      ).toEqual(['user1', 'user3']);
+      expect(
+        (await User.fork().find({email: {$notEqual: '1@user.com'}}, {})).map(({id}) => id)
+      ).toEqual(['user2', 'user3']);
+      expect(
+        (await User.fork().find({$or: [{email: '1@user.com'}, {id: 'user3'}]}, {})).map(
+          ({id}) => id
+        )
+      ).toEqual(['user1', 'user3']);
+      expect((await User.fork().find({phoneNumber: undefined}, {})).map(({id}) => id)).toEqual([
+        'user3'
+      ]);
+
+      await expect(User.fork().find({phoneNumber: '+1 555 0100'})).rejects.toThrow(
+        "Cannot query an encrypted attribute that is not deterministic (attribute: 'User.prototype.phoneNumber')"
+      );
+      await expect(User.fork().find({email: {$startsWith: '1@'}})).rejects.toThrow(
+        "The operator '$startsWith' cannot be used with an encrypted attribute (attribute: 'User.prototype.email')"
+      );
+    });
+
+    test('Key provider', async () => {
+      const {User: UserWithoutKey} = getUserClass();
+
+      await expect(
+        new (UserWithoutKey.fork())({id: 'user1', email: '1@user.com'}).save()
+      ).rejects.toThrow(
+        "Cannot encrypt or decrypt an attribute with a store that has no key provider (attribute: 'User.prototype.email')"
+      );
+
+      const keyProviderCalls: {collectionName: string; attributeName: string}[] = [];
+
+      const {User, store} = getUserClass({
+        keyProvider: (params) => {
+          keyProviderCalls.push(params);
+          return KEY;
+        }
+      });
+
+      await new (User.fork())({id: 'user1', email: '1@user.com'}).save();
+
+      expect(keyProviderCalls).toEqual([{collectionName: 'User', attributeName: 'email'}]);
+
+      const {User: UserWithOtherKey, store: otherStore} = getUserClass({
+        keyProvider: () => 'another key'
+      });
+
+      otherStore.importSnapshot(store.exportSnapshot());
+
+      await expect(UserWithOtherKey.fork().get('user1')).rejects.toThrow(
+        "Cannot decrypt the value of an encrypted attribute (attribute: 'User.prototype.email'). Please make sure that the key provider returns the key that was used to encrypt the value."
+      );
+    });
+
+    test('Indexes', async () => {
+      class Message extends Storable(Component) {
+        @primaryIdentifier() id!: string;
+        @index({isUnique: true}) @attribute('string', {encrypted: true}) body = '';
+      }
+
+      const store = new MemoryStore({keyProvider: () => KEY});
+
+      store.registerRootComponent(Message);
+
+      await expect(store.migrateStorables({silent: true})).rejects.toThrow(
+        "An encrypted attribute can only be part of a regular index or a unique index when it is deterministic (attribute: 'Message.prototype.body')"
+      );
+    });
+
+    test('An attribute holding an embedded component', async () => {
+      class Address extends EmbeddedComponent {
+        @attribute('string') street = '';
+      }
+
+      class User extends Storable(Component) {
+        @provide() static Address = Address;
+
+        @primaryIdentifier() id!: string;
+        @attribute('Address?', {encrypted: true}) address?: Address;
+      }
+
+      const store = new MemoryStore({keyProvider: () => KEY});
+
+      store.registerRootComponent(User);
+
+      const ForkedUser = User.fork();
+
+      await new ForkedUser({
+        id: 'user1',
+        address: new ForkedUser.Address({street: '1 Infinite Loop'})
+      }).save();
+
+      // The embedded component is encrypted as a whole
+      const [document] = store.exportSnapshot().User;
+
+      expect(document.address).toMatch(/^\$encrypted:/);
+      expect(JSON.stringify(document)).not.toContain('Infinite Loop');
+
+      const user = await User.fork().get('user1', {address: {street: true}});
+
+      expect(user.address!.street).toBe('1 Infinite Loop');
+    });
+
+    function getUserClass(storeOptions: StoreOptions = {}) {
+      class User extends Storable(Component) {
+        @primaryIdentifier() id!: string;
+        @secondaryIdentifier('string', {encrypted: {deterministic: true}}) email!: string;
+        @attribute('string?', {encrypted: true}) phoneNumber?: string;
+        @attribute('string') fullName = '';
+      }
+
+      const store = new MemoryStore(storeOptions);
+
+      store.registerRootComponent(User);
+
+      return {User, store};
+    }
+  });
+
+  describe('Multi-tenancy', () => {
+    test('Attribute isolation', async () => {
+      const {User, store, setTenant} = getUserClass();
+
+      setTenant('acme');
+
+      await new (User.fork())({id: 'user1', email: '1@acme.com'}).save();
+      await new (User.fork())({id: 'user2', email: '2@acme.com'}).save();
+
+      setTenant('globex');
+
+      await User.fork().saveMany([
+        new (User.fork())({id: 'user3', email: '1@globex.com'}),
+        // The unique indexes are scoped to the tenant
+        new (User.fork())({id: 'user4', email: '1@acme.com'})
+      ]);
+
+      expect(store.exportSnapshot().User.map(({id, __tenant}) => [id, __tenant])).toEqual([
+        ['user1', 'acme'],
+        ['user2', 'acme'],
+        ['user3', 'globex'],
+        ['user4', 'globex']
+      ]);
+
+      expect((await User.fork().find()).map(({id}) => id)).toEqual(['user3', 'user4']);
+      expect(await User.fork().count()).toBe(2);
+      expect((await User.fork().get({email: '1@acme.com'})).id).toBe('user4');
+
+      await expect(User.fork().get('user1')).rejects.toThrow(
+        'Cannot load a component that is missing from the store'
+      );
+      expect(await User.fork().has('user1')).toBe(false);
+
+      const acmeUser = new (User.fork())({id: 'user1', email: 'hacked@globex.com'});
+      acmeUser.markAsNotNew();
+
+      await expect(acmeUser.save()).rejects.toThrow(
+        'Cannot save a non-new component that is missing from the store'
+      );
+      await expect(acmeUser.delete()).rejects.toThrow(
+        'Cannot delete a component that is missing from the store'
+      );
+
+      setTenant('acme');
+
+      const user = await User.fork().get('user1');
+
+      expect(user.email).toBe('1@acme.com');
+
+      user.email = 'one@acme.com';
+      await user.save();
+      await user.delete();
+
+      expect((await User.fork().find()).map(({id}) => id)).toEqual(['user2']);
+
+      setTenant(undefined);
+
+      await expect(User.fork().find()).rejects.toThrow(
+        'Cannot access a multi-tenant store without a tenant (the tenant resolver returned undefined)'
+      );
+    });
+
+    test('Collection isolation', async () => {
+      const {User, store, setTenant} = getUserClass({tenantIsolation: 'collection'});
+
+      setTenant('acme');
+
+      await new (User.fork())({id: 'user1', email: '1@acme.com'}).save();
+
+      setTenant('globex');
+
+      await new (User.fork())({id: 'user1', email: '1@globex.com'}).save();
+      await new (User.fork())({id: 'user2', email: '2@globex.com'}).save();
+
+      const snapshot = store.exportSnapshot();
+
+      expect(Object.keys(snapshot).sort()).toEqual(['acme.User', 'globex.User']);
+      expect(snapshot['acme.User'][0].__tenant).toBeUndefined();
+
+      expect((await User.fork().find()).map(({email}) => email)).toEqual([
+        '1@globex.com',
+        '2@globex.com'
+      ]);
+
+      setTenant('acme');
+
+      expect((await User.fork().get('user1')).email).toBe('1@acme.com');
+      expect(await User.fork().count()).toBe(1);
+    });
+
+    test('Watching', async () => {
+      for (const createStore of [
+        (options: StoreOptions) => new MemoryStore(options),
+        (options: StoreOptions) => new SQLiteStore(':memory:', options)
+      ]) {
+        class User extends Storable(Component) {
+          @primaryIdentifier() id!: string;
+          @secondaryIdentifier() email!: string;
+        }
+
+        let tenant: string | undefined;
+
+        const store = createStore({tenantResolver: () => tenant});
+
+        store.registerRootComponent(User);
+
+        const events: string[] = [];
+
+        tenant = 'acme';
+
+        const stopWatching = await User.watch({}, ({type, storable}) => {
+          events.push(`${type}:${storable.id}`);
+        });
+
+        await new (User.fork())({id: 'user1', email: '1@acme.com'}).save();
+
+        tenant = 'globex';
+
+        const globexUser = new (User.fork())({id: 'user2', email: '1@globex.com'});
+        await globexUser.save();
+        await globexUser.delete();
+
+        tenant = 'acme';
+
+        await (await User.fork().get('user1')).delete();
+
+        await new Promise((resolve) => setTimeout(resolve, 10));
+
+        // The changes made by the other tenants (including the deletions) are not reported
+        expect(events).toEqual(['created:user1', 'deleted:user1']);
+
+        await stopWatching();
+      }
+    });
+
+    test('getCollectionSchema()', async () => {
+      const {User, store} = getUserClass();
+
+      expect(store.getCollectionSchema(User.prototype).indexes).toStrictEqual([
+        {
+          attributes: {id: 'asc'},
+          isPrimary: true,
+          isUnique: true,
+          isText: false,
+          isGeospatial: false,
+          isCaseInsensitive: false
+        },
+        {
+          attributes: {__tenant: 'asc', email: 'asc'},
+          isPrimary: false,
+          isUnique: true,
+          isText: false,
+          isGeospatial: false,
+          isCaseInsensitive: false
+        }
+      ]);
+
+      const {User: UserWithCollections, store: storeWithCollections} = getUserClass({
+        tenantIsolation: 'collection'
+      });
+
+      expect(
+        storeWithCollections.getCollectionSchema(UserWithCollections.prototype).indexes[1]
+          .attributes
+      ).toStrictEqual({email: 'asc'});
+    });
+
+    function getUserClass(storeOptions: StoreOptions = {}) {
+      class User extends Storable(Component) {
+        @primaryIdentifier() id!: string;
+        @secondaryIdentifier() email!: string;
+      }
+
+      let tenant: string | undefined;
+
+      const store = new MemoryStore({tenantResolver: () => tenant, ...storeOptions});
+
+      store.registerRootComponent(User);
+
+      const setTenant = (newTenant: string | undefined) => {
+        tenant = newTenant;
+      };
+
+      return {User, store, setTenant};
+    }
+  });
+
+  describe('Cached store', () => {
+    test('Read-through caching', async () => {
+      const {User, store} = getUserClass();
+
+      await new (User.fork())({id: 'user1', fullName: 'User 1'}).save();
+      await new (User.fork())({id: 'user2', fullName: 'User 2'}).save();
+
+      store.resetStatistics();
+
+      expect((await User.fork().get('user1')).fullName).toBe('User 1');
+      expect((await User.fork().get('user1')).fullName).toBe('User 1');
+      expect((await User.fork().find({}, {fullName: true})).map(({id}) => id)).toEqual([
+        'user1',
+        'user2'
+      ]);
+      expect((await User.fork().find({}, {fullName: true})).map(({id}) => id)).toEqual([
+        'user1',
+        'user2'
+      ]);
+
+      expect(store.getStatistics()).toEqual({
+        hits: 2,
+        misses: 2,
+        collections: {User: {hits: 2, misses: 2}}
+      });
+
+      // The changes made through the cached store invalidate the cached results
+      const user = await User.fork().get('user1');
+      user.fullName = 'User One';
+      await user.save();
+      await (await User.fork().get('user2')).delete();
+
+      expect((await User.fork().get('user1')).fullName).toBe('User One');
+      expect((await User.fork().find({}, {fullName: true})).map(({fullName}) => fullName)).toEqual([
+        'User One'
+      ]);
+
+      // The changes made directly in the wrapped store are not detected
+      (store.getStore() as MemoryStore).importSnapshot({User: []});
+
+      expect((await User.fork().find({}, {fullName: true})).map(({id}) => id)).toEqual(['user1']);
+      expect(await User.fork().count()).toBe(0);
+
+      store.resetStatistics();
+
+      expect(store.getStatistics()).toEqual({hits: 0, misses: 0, collections: {}});
+    });
+
+    test('TTL and collection policies', async () => {
+      const {User, Note, store} = getUserClass({ttl: 50, collections: {Note: false}});
+
+      await new (User.fork())({id: 'user1', fullName: 'User 1'}).save();
+      await new (Note.fork())({id: 'note1', text: 'Note 1'}).save();
+
+      store.resetStatistics();
+
+      await User.fork().get('user1');
+      await User.fork().get('user1');
+      await Note.fork().get('note1');
+      await Note.fork().get('note1');
+
+      expect(store.getStatistics()).toEqual({
+        hits: 1,
+        misses: 1,
+        collections: {User: {hits: 1, misses: 1}}
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      await User.fork().get('user1');
+
+      expect(store.getStatistics().misses).toBe(2);
+    });
+
+    test('Collection policies with the collection tenant isolation', async () => {
+      let tenant = 'acme';
+
+      const {User, Note, store} = getUserClass(
+        {collections: {Note: false}},
+        {tenantResolver: () => tenant, tenantIsolation: 'collection'}
+      );
+
+      await new (User.fork())({id: 'user1', fullName: 'User 1'}).save();
+      await new (Note.fork())({id: 'note1', text: 'Note 1'}).save();
+
+      tenant = 'globex';
+
+      await new (User.fork())({id: 'user1', fullName: 'User One'}).save();
+
+      store.resetStatistics();
+
+      expect((await User.fork().get('user1')).fullName).toBe('User One');
+      expect((await User.fork().get('user1')).fullName).toBe('User One');
+
+      tenant = 'acme';
+
+      expect((await User.fork().get('user1')).fullName).toBe('User 1');
+      await Note.fork().get('note1');
+      await Note.fork().get('note1');
+
+      // The policies and the statistics are shared by the collections of all the tenants
+      expect(store.getStatistics()).toEqual({
+        hits: 1,
+        misses: 2,
+        collections: {User: {hits: 1, misses: 2}}
+      });
+    });
+
+    test('Transactions', async () => {
+      const {User, store} = getUserClass();
+
+      await new (User.fork())({id: 'user1', fullName: 'User 1'}).save();
+
+      store.resetStatistics();
+
+      await store.transaction(async () => {
+        const user = await User.fork().get('user1');
+        user.fullName = 'User One';
+        await user.save();
+
+        expect((await User.fork().get('user1')).fullName).toBe('User One');
+      });
+
+      expect(store.getStatistics()).toEqual({hits: 0, misses: 0, collections: {}});
+
+      expect((await User.fork().get('user1')).fullName).toBe('User One');
+    });
+
+    test('Cache backends', async () => {
+      const values = new Map<string, string>();
+
+      const backend: CacheBackend = {
+        async get(key) {
+          return values.get(key);
+        },
+        async set(key, value) {
+          values.set(key, value);
+        }
+      };
+
+      const {User, store} = getUserClass({backend});
+
+      await new (User.fork())({id: 'user1', fullName: 'User 1'}).save();
+
+      store.resetStatistics();
+
+      await User.fork().get('user1');
+      await User.fork().get('user1');
+
+      expect(values.size).toBe(1);
+      expect(store.getStatistics().hits).toBe(1);
+
+      const lruBackend = new LRUCacheBackend({maxEntries: 2});
+
+      lruBackend.set('a', '1', {ttl: 1000});
+      lruBackend.set('b', '2', {ttl: 1000});
+      lruBackend.get('a');
+      lruBackend.set('c', '3', {ttl: 1000});
+
+      expect(lruBackend.get('a')).toBe('1');
+      expect(lruBackend.get('b')).toBeUndefined();
+      expect(lruBackend.get('c')).toBe('3');
+
+      lruBackend.set('d', '4', {ttl: 0});
+
+      expect(lruBackend.get('d')).toBeUndefined();
+    });
+
+    function getUserClass(
+      options: ConstructorParameters<typeof CachedStore>[1] = {},
+      storeOptions: StoreOptions = {}
+    ) {
+      class User extends Storable(Component) {
+        @primaryIdentifier() id!: string;
+        @attribute('string') fullName = '';
+      }
+
+      class Note extends Storable(Component) {
+        @primaryIdentifier() id!: string;
+        @attribute('string') text = '';
+      }
+
+      const store = new CachedStore(new MemoryStore(storeOptions), options);
+
+      store.registerRootComponent(User);
+      store.registerRootComponent(Note);
+
+      return {User, Note, store};
+    }
+  });
+
+  describe('Watching', () => {
+    test('watch()', async () => {
+      const User = getUserClass();
+
+      const events: string[] = [];
+
+      const stopWatching = await User.watch({}, ({type, storable}) => {
+        events.push(`${type}:${storable.id}`);
+      });
+
+      const user = new (User.fork())({id: 'user2', email: '2@user.com', reference: 2});
+      await user.save();
+
+      user.fullName = 'User 2';
+      await user.save();
+
+      await user.delete();
+
+      await waitForEvents();
+
+      expect(events).toEqual(['created:user2', 'updated:user2', 'deleted:user2']);
+
+      await stopWatching();
+
+      await (await User.fork().get('user1')).delete();
+
+      await waitForEvents();
+
+      expect(events).toHaveLength(3);
+    });
+
+    test('watch() with a query', async () => {
+      const User = getUserClass();
+
+      const events: {type: string; id: string; fullName: string | undefined}[] = [];
+
+      const stopWatching = await User.watch(
+        {fullName: {$startsWith: 'Admin'}},
+        ({type, storable}) => {
+          events.push({
+            type,
+            id: storable.id,
+            fullName: storable.getAttribute('fullName').getValue({throwIfUnset: false}) as
+              | string
+              | undefined
+          });
+        }
+      );
+
+      const user1 = await User.fork().get('user1');
+      user1.fullName = 'Admin 1';
+      await user1.save();
+
+      const user11 = await User.fork().get('user11');
+      user11.fullName = 'User 11 (modified)';
+      await user11.save();
+
+      await user11.delete();
+
+      await user1.delete();
+
+      await waitForEvents();
+
+      // The deletion of a component that doesn't match the query is not reported
+      expect(events).toEqual([
+        {type: 'updated', id: 'user1', fullName: 'Admin 1'},
+        {type: 'deleted', id: 'user1', fullName: 'Admin 1'}
+      ]);
+
+      await stopWatching();
+    });
+
+    test('watch() in a transaction', async () => {
+      const User = getUserClass();
+
+      const store = User.getStore();
+
+      const events: string[] = [];
+
+      const stopWatching = await User.watch({}, ({type, storable}) => {
+        events.push(`${type}:${storable.id}`);
+      });
+
+      await expect(
+        store.transaction(async () => {
+          await (await User.fork().get('user1')).delete();
+
+          throw new Error('Aborted');
+        })
+      ).rejects.toThrow('Aborted');
+
+      await waitForEvents();
+
+      expect(events).toEqual([]);
+
+      await store.transaction(async () => {
+        await (await User.fork().get('user1')).delete();
+        await (await User.fork().get('user11')).delete();
+
+        await waitForEvents();
+
+        expect(events).toEqual([]);
+      });
+
+      await waitForEvents();
+
+      expect(events).toEqual(['deleted:user1', 'deleted:user11']);
+
+      await stopWatching();
+    });
+
+    test('watch() with a failing callback', async () => {
+      const errors: {message: string; error: unknown}[] = [];
+
+      const User = getUserClass({
+        logger: {
+          error(message, error) {
+            errors.push({message, error});
+          }
+        }
+      });
+
+      const events: string[] = [];
+
+      const stopWatching = await User.watch({}, ({type, storable}) => {
+        if (storable.id === 'user1') {
+          throw new Error('Something went wrong');
+        }
+
+        events.push(`${type}:${storable.id}`);
+      });
+
+      await (await User.fork().get('user1')).delete();
+      await (await User.fork().get('user11')).delete();
+
+      await waitForEvents();
+
+      // The error doesn't prevent the next changes from being reported
+      expect(events).toEqual(['deleted:user11']);
+      expect(errors).toHaveLength(1);
+      expect(errors[0].message).toBe(
+        "An error occurred while watching the changes of a collection (collection: 'User')"
+      );
+      expect((errors[0].error as Error).message).toBe('Something went wrong');
+
+      await stopWatching();
+    });
+
+    test('watch() without a store', async () => {
+      class User extends BaseUser {}
+
+      await expect(User.watch({}, () => {})).rejects.toThrow(
+        "To be able to execute the watch() method, a storable component should be registered in a store (component: 'User')"
+      );
+    });
+
+    async function waitForEvents() {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+
+    function getUserClass(options: StoreOptions = {}) {
+      class Picture extends BasePicture {}
+
+      class Organization extends BaseOrganization {}
+
+      class User extends BaseUser {
+        @provide() static Picture = Picture;
+        @provide() static Organization = Organization;
+      }
+
+      const store = new MemoryStore({initialCollections: getInitialCollections(), ...options});
+
+      store.registerRootComponent(User);
+
+      return User;
+    }
+  });
+
+  describe('Timestamps', () => {
+    test('save()', async () => {
+      const User = getUserClass();
+
+      const user = new (User.fork())({id: 'user2', email: '2@user.com', reference: 2});
+
+      expect(user.createdAt).toBeUndefined();
+      expect(user.updatedAt).toBeUndefined();
+
+      await user.save();
+
+      expect(user.createdAt).toBeInstanceOf(Date);
+      expect(user.updatedAt).toBe(user.createdAt);
+
+      const createdAt = user.createdAt;
+
+      await new Promise((resolve) => setTimeout(resolve, 5));
+
+      user.fullName = 'User 2';
+      await user.save();
+
+      expect(user.createdAt).toBe(createdAt);
+      expect(user.updatedAt!.valueOf()).toBeGreaterThan(createdAt!.valueOf());
+
+      const loadedUser = await User.fork().get('user2', {createdAt: true, updatedAt: true});
+
+      expect(loadedUser.createdAt).toEqual(createdAt);
+      expect(loadedUser.updatedAt).toEqual(user.updatedAt);
+
+      // A component that was created before the timestamps were introduced
+      const existingUser = await User.fork().get('user1');
+
+      expect(existingUser.createdAt).toBeUndefined();
+      expect(existingUser.updatedAt).toBeUndefined();
+
+      existingUser.fullName = 'User 1 (modified)';
+      await existingUser.save();
+
+      expect(existingUser.createdAt).toBeUndefined();
+      expect(existingUser.updatedAt).toBeInstanceOf(Date);
+
+      // Nothing to save
+      const updatedAt = existingUser.updatedAt;
+      await existingUser.save();
+
+      expect(existingUser.updatedAt).toBe(updatedAt);
+    });
+
+    test('saveMany()', async () => {
+      const User = getUserClass();
+
+      const ForkedUser = User.fork();
+
+      const newUser = new ForkedUser({id: 'user2', email: '2@user.com', reference: 2});
+      const existingUser = await ForkedUser.get('user1');
+
+      existingUser.fullName = 'User 1 (modified)';
+
+      const results = await ForkedUser.saveMany([newUser, existingUser]);
+
+      expect(results.map(({error}) => error)).toEqual([undefined, undefined]);
+
+      expect(newUser.createdAt).toBeInstanceOf(Date);
+      expect(newUser.updatedAt).toBe(newUser.createdAt);
+      expect(existingUser.createdAt).toBeUndefined();
+      expect(existingUser.updatedAt).toBeInstanceOf(Date);
+
+      const loadedUser = await User.fork().get('user1', {updatedAt: true});
+
+      expect(loadedUser.updatedAt).toEqual(existingUser.updatedAt);
+    });
+
+    function getUserClass() {
+      class Picture extends BasePicture {}
+
+      class Organization extends BaseOrganization {}
+
+      @timestamps()
+      class User extends BaseUser {
+        @provide() static Picture = Picture;
+        @provide() static Organization = Organization;
+
+        declare createdAt?: Date;
+        declare updatedAt?: Date;
+      }
+
+      const store = new MemoryStore({initialCollections: getInitialCollections()});
+
+      store.registerRootComponent(User);
+
+      return User;
+    }
+  });
+
+  describe('History', () => {
+    test('getHistory() and revertTo()', async () => {
+      const {User, setActor} = getUserClass();
+
+      setActor('admin');
+
+      const user = new (User.fork())({
+        id: 'user2',
+        email: '2@user.com',
+        reference: 2,
+        fullName: 'User 2'
+      });
+
+      await user.save();
+
+      let history = await user.getHistory();
+
+      expect(history).toHaveLength(1);
+      expect(history[0].operation).toBe('create');
+      expect(history[0].changes.email).toBe('2@user.com');
+      expect(history[0].changes.fullName).toBe('User 2');
+      expect(history[0].changes.accessLevel).toBe(0);
+      expect(history[0].changes).not.toHaveProperty('id');
+      expect(history[0]).not.toHaveProperty('previousValues');
+      expect(history[0].savedAt).toBeInstanceOf(Date);
+      expect(history[0].actor).toBe('admin');
+
+      setActor('user2');
+
+      user.fullName = 'User 2 (modified)';
+      user.accessLevel = 1;
+      await user.save();
+
+      setActor(undefined);
+
+      user.tags = ['admin'];
+      await user.save();
+
+      history = await user.getHistory();
+
+      expect(history).toHaveLength(3);
+      expect(history[1].operation).toBe('update');
+      expect(history[1].changes).toStrictEqual({fullName: 'User 2 (modified)', accessLevel: 1});
+      expect(history[1].previousValues).toStrictEqual({fullName: 'User 2', accessLevel: 0});
+      expect(history[1].actor).toBe('user2');
+      expect(history[2].changes).toStrictEqual({tags: ['admin']});
+      expect(history[2].previousValues).toStrictEqual({tags: []});
+      expect(history[2]).not.toHaveProperty('actor');
+
+      await user.revertTo(history[0].id);
+
+      expect(user.fullName).toBe('User 2');
+      expect(user.accessLevel).toBe(0);
+      expect(user.tags).toStrictEqual([]);
+
+      const loadedUser = await User.fork().get('user2');
+
+      expect(loadedUser.fullName).toBe('User 2');
+      expect(loadedUser.accessLevel).toBe(0);
+      expect(loadedUser.tags).toStrictEqual([]);
+
+      history = await user.getHistory();
+
+      expect(history).toHaveLength(4);
+      expect(history[3].operation).toBe('update');
+      expect(history[3].changes).toStrictEqual({fullName: 'User 2', accessLevel: 0, tags: []});
+
+      await expect(user.revertTo('missing')).rejects.toThrow(
+        "Cannot revert a component to a version that is missing from its history (component: 'User', version: 'missing')"
+      );
+
+      await user.delete();
+
+      history = await user.getHistory();
+
+      expect(history).toHaveLength(5);
+      expect(history[4].operation).toBe('delete');
+      expect(history[4].changes).toStrictEqual({});
+      expect(history[4].previousValues).toMatchObject({
+        email: '2@user.com',
+        fullName: 'User 2',
+        accessLevel: 0
+      });
+      expect(history[4].previousValues).not.toHaveProperty('id');
+
+      // A component that was created before the history was introduced
+      const existingUser = await User.fork().get('user1');
+
+      expect(await existingUser.getHistory()).toStrictEqual([]);
+    });
+
+    test('Atomic operations, restore() and purge()', async () => {
+      class Picture extends BasePicture {}
+
+      class Organization extends BaseOrganization {}
+
+      @history()
+      @softDeletable()
+      class User extends BaseUser {
+        @provide() static Picture = Picture;
+        @provide() static Organization = Organization;
+
+        @attribute('Date?') deletedAt?: Date;
+      }
+
+      const store = new MemoryStore();
+
+      store.registerRootComponent(User);
+
+      const user = new (User.fork())({id: 'user1', email: '1@user.com', reference: 1});
+
+      await user.save();
+      await user.increment('accessLevel', 2);
+
+      let entries = await user.getHistory();
+
+      expect(entries.map(({operation}) => operation)).toStrictEqual(['create', 'update']);
+      expect(entries[1].changes).toStrictEqual({accessLevel: 2});
+      expect(entries[1].previousValues).toStrictEqual({accessLevel: 0});
+
+      await user.revertTo(entries[0].id);
+
+      expect((await User.fork().get('user1')).accessLevel).toBe(0);
+
+      await user.delete();
+      await user.restore();
+      await user.purge();
+
+      entries = await user.getHistory();
+
+      expect(entries.map(({operation}) => operation)).toStrictEqual([
+        'create',
+        'update',
+        'update',
+        'delete',
+        'update',
+        'delete'
+      ]);
+      expect(entries[2].changes).toStrictEqual({accessLevel: 0});
+      expect(Object.keys(entries[4].changes)).toStrictEqual(['deletedAt']);
+      expect(entries[4].changes.deletedAt).toBeUndefined();
+      expect(entries[4].previousValues!.deletedAt).toBeInstanceOf(Date);
+      expect(entries[5].changes).toStrictEqual({});
+      expect(entries[5].previousValues).toMatchObject({email: '1@user.com', accessLevel: 0});
+    });
+
+    test('saveMany() and deleteMany()', async () => {
+      const {User} = getUserClass();
+
+      const ForkedUser = User.fork();
+
+      const newUser = new ForkedUser({id: 'user2', email: '2@user.com', reference: 2});
+      const existingUser = await ForkedUser.get('user1');
+
+      existingUser.fullName = 'User 1 (modified)';
+
+      await ForkedUser.saveMany([newUser, existingUser]);
+
+      expect((await newUser.getHistory()).map(({operation}) => operation)).toStrictEqual([
+        'create'
+      ]);
+      expect((await existingUser.getHistory()).map(({changes}) => changes)).toStrictEqual([
+        {fullName: 'User 1 (modified)'}
+      ]);
+
+      await ForkedUser.deleteMany([newUser, existingUser]);
+
+      expect((await newUser.getHistory()).map(({operation}) => operation)).toStrictEqual([
+        'create',
+        'delete'
+      ]);
+      expect((await existingUser.getHistory()).map(({operation}) => operation)).toStrictEqual([
+        'update',
+        'delete'
+      ]);
+    });
+
+    test('upsert()', async () => {
+      const {User} = getUserClass();
+
+      const user = await User.fork().upsert({email: '1@user.com'}, {fullName: 'User 1 (upserted)'});
+
+      const [update] = await user.getHistory();
+
+      expect(update.operation).toBe('update');
+      expect(update.changes).toStrictEqual({fullName: 'User 1 (upserted)'});
+      expect(update.previousValues).toStrictEqual({fullName: 'User 1'});
+    });
+
+    test('Transactions', async () => {
+      let actorError: Error | undefined;
+
+      const {User} = getUserClass({
+        actorResolver: () => {
+          if (actorError !== undefined) {
+            throw actorError;
+          }
+
+          return undefined;
+        }
+      });
+
+      const user = await User.fork().get('user1');
+
+      user.fullName = 'User 1 (modified)';
+
+      actorError = new Error('Cannot resolve the actor');
+
+      await expect(user.save()).rejects.toThrow('Cannot resolve the actor');
+
+      actorError = undefined;
+
+      // The change is rolled back since the history entry could not be recorded
+      expect((await User.fork().get('user1')).fullName).toBe('User 1');
+      expect(await user.getHistory()).toStrictEqual([]);
+    });
+
+    test('migrateStorables()', async () => {
+      const {store} = getUserClass();
+
+      const {collections} = await store.migrateStorables({silent: true});
+
+      expect(collections.find(({name}) => name === 'UserHistory')).toStrictEqual({
+        name: 'UserHistory',
+        createdIndexes: ['id [unique]', 'componentId + savedAt'],
+        droppedIndexes: []
+      });
+    });
+
+    function getUserClass(options: StoreOptions = {}) {
+      class Picture extends BasePicture {}
+
+      class Organization extends BaseOrganization {}
+
+      @history()
+      class User extends BaseUser {
+        @provide() static Picture = Picture;
+        @provide() static Organization = Organization;
+      }
+
+      let actor: string | undefined;
+
+      const store = new MemoryStore({
+        initialCollections: getInitialCollections(),
+        actorResolver: () => actor,
+        ...options
+      });
+
+      store.registerRootComponent(User);
+
+      return {
+        User,
+        store,
+        setActor(newActor: string | undefined) {
+          actor = newActor;
+        }
+      };
+    }
+  });
+
+  describe('Tracing', () => {
+    test('getTrace()', async () => {
+      const {User, store} = getUserClass();
+
+      store.startTrace();
+
+      const users = await User.fork().find({accessLevel: 3}, {email: true});
+
+      expect(users).toHaveLength(2);
+
+      const trace = store.getTrace();
+
+      expect(trace).toHaveLength(1);
+      expect(trace[0].operation).toBe('find');
+      expect(trace[0].duration).toBeGreaterThanOrEqual(0);
+      expect(trace[0].queries).toStrictEqual([
+        {
+          collectionName: 'User',
+          expressions: [['accessLevel', '$equal', 3]],
+          backendQuery: {strategy: 'collectionScan', scannedDocuments: 4}
+        }
+      ]);
+
+      store.stopTrace();
+    });
+
+    test('Slow operations', async () => {
+      const warnings: {message: string; operation: string}[] = [];
+
+      const {User} = getUserClass({
+        slowOperationThreshold: 0,
+        logger: {
+          warn(message, {operation}) {
+            warnings.push({message, operation});
+          }
+        }
+      });
+
+      expect(await User.fork().count({accessLevel: 3})).toBe(2);
+
+      expect(warnings).toHaveLength(1);
+      expect(warnings[0].operation).toBe('count');
+      expect(warnings[0].message).toMatch(
+        /^A store operation exceeded the slow operation threshold \(operation: 'count', duration: \d+ms, threshold: 0ms, queries: \[\{"collectionName":"User","backendQuery":\{"strategy":"collectionScan","scannedDocuments":4\}\}\]\)$/
+      );
+
+      expect(() => new MemoryStore({slowOperationThreshold: -1})).toThrow(
+        "The value of the 'slowOperationThreshold' option is invalid (value: -1)"
+      );
+    });
+
+    test('explain()', async () => {
+      const {User, store} = getUserClass();
+
+      expect(await store.explain(User, {accessLevel: 3})).toStrictEqual({
+        collectionName: 'User',
+        expressions: [['accessLevel', '$equal', 3]],
+        backendQuery: {strategy: 'collectionScan', scannedDocuments: 4},
+        indexName: undefined
+      });
+
+      const SQLiteUser = createUserClass();
+
+      const sqliteStore = new SQLiteStore(':memory:');
+      sqliteStore.registerRootComponent(SQLiteUser);
+
+      await sqliteStore.connect();
+
+      try {
+        await sqliteStore.migrateStorables({silent: true});
+        await seedSQLite(sqliteStore);
+
+        const emailExplanation = await sqliteStore.explain(SQLiteUser, {email: '1@user.com'});
+
+        expect(emailExplanation.indexName).toBe('email [unique]');
+        expect(emailExplanation.backendQuery).toStrictEqual({
+          sql: expect.stringContaining('SELECT document FROM'),
+          params: expect.any(Array)
+        });
+
+        const fullNameExplanation = await sqliteStore.explain(SQLiteUser, {fullName: 'User 1'});
+
+        expect(fullNameExplanation.indexName).toBeUndefined();
+      } finally {
+        await sqliteStore.disconnect();
+      }
+    });
+
+    function getUserClass(options: StoreOptions = {}) {
+      const User = createUserClass();
+
+      const store = new MemoryStore({initialCollections: getInitialCollections(), ...options});
+
+      store.registerRootComponent(User);
+
+      return {User, store};
+    }
+
+    function createUserClass() {
+      class Picture extends BasePicture {}
+
+      class Organization extends BaseOrganization {}
+
+      class User extends BaseUser {
+        @provide() static Picture = Picture;
+        @provide() static Organization = Organization;
+      }
+
+      return User;
+    }
+  });
+
+  describe('Indexes', () => {
+    test('Case-insensitive indexes', async () => {
+      class User extends Storable(Component) {
+        @primaryIdentifier() id!: string;
+
+        @index({isUnique: true, isCaseInsensitive: true}) @attribute('string') email!: string;
+      }
+
+      const store = new MemoryStore();
+
+      store.registerStorable(User);
+
+      expect(await store.migrateStorables({silent: true})).toStrictEqual({
+        collections: [
+          {
+            name: 'User',
+            createdIndexes: ['id [unique]', 'email [unique] [case-insensitive]'],
+            droppedIndexes: []
+          }
+        ]
+      });
+
+      await new User({id: 'user1', email: 'John@Domain.com'}).save();
+
+      await expect(new User({id: 'user2', email: 'john@domain.com'}).save()).rejects.toThrow(
+        "Cannot save a component with an attribute value that should be unique but already exists in the store (component: 'User', id: 'user2', index: 'email [unique] [case-insensitive]')"
+      );
+
+      const user = new User({id: 'user3', email: 'jack@domain.com'});
+
+      await user.save();
+
+      user.email = 'JOHN@DOMAIN.COM';
+
+      await expect(user.save()).rejects.toThrow(
+        "Cannot save a component with an attribute value that should be unique but already exists in the store (component: 'User', id: 'user3', index: 'email [unique] [case-insensitive]')"
+      );
+
+      // The stored document is left untouched
+      expect((await User.fork().get('user3')).email).toBe('jack@domain.com');
+
+      // The case is preserved in the stored values
+      expect((await User.fork().get('user1')).email).toBe('John@Domain.com');
+    });
+
+    test('Partial indexes', async () => {
+      @softDeletable()
+      class Article extends Storable(Component) {
+        @primaryIdentifier() id!: string;
+
+        @index({isUnique: true, partialFilter: {deletedAt: undefined}})
+        @attribute('string')
+        slug!: string;
+      }
+
+      const store = new MemoryStore();
+
+      store.registerStorable(Article);
+
+      await store.migrateStorables({silent: true});
+
+      const article = new Article({id: 'article1', slug: 'hello'});
+
+      await article.save();
+
+      await expect(new Article({id: 'article2', slug: 'hello'}).save()).rejects.toThrow(
+        "Cannot save a component with an attribute value that should be unique but already exists in the store (component: 'Article', id: 'article2', index: 'slug [unique] [partial]')"
+      );
+
+      await article.delete();
+
+      // The slug of a soft-deleted article can be reused
+      await new Article({id: 'article3', slug: 'hello'}).save();
+
+      await expect(article.restore()).rejects.toThrow(
+        "A duplicate key error occurred while updating a memory document (collection: 'Article', index: 'slug [unique] [partial]')"
+      );
+    });
+
+    test('Case-insensitive, partial and TTL indexes with a SQLite store', async () => {
+      @softDeletable()
+      class User extends Storable(Component) {
+        @primaryIdentifier() id!: string;
+
+        @index({isUnique: true, isCaseInsensitive: true, partialFilter: {deletedAt: undefined}})
+        @attribute('string')
+        email!: string;
+      }
+
+      const store = new SQLiteStore(':memory:');
+
+      store.registerStorable(User);
+
+      expect(await store.migrateStorables({silent: true})).toStrictEqual({
+        collections: [
+          {
+            name: 'User',
+            createdIndexes: [
+              'id [unique]',
+              'email [unique] [case-insensitive] [partial: [["deletedAt","$equal",null]]]'
+            ],
+            droppedIndexes: []
+          }
+        ]
+      });
+
+      const user = new User({id: 'user1', email: 'John@Domain.com'});
+
+      await user.save();
+
+      await expect(new User({id: 'user2', email: 'john@domain.com'}).save()).rejects.toThrow(
+        "Cannot save a component with an attribute value that should be unique but already exists in the store (component: 'User', id: 'user2', index: 'email [unique] [case-insensitive] [partial: [[\"deletedAt\",\"$equal\",null]]]')"
+      );
+
+      await user.delete();
+
+      // The email of a soft-deleted user can be reused
+      await new User({id: 'user3', email: 'john@domain.com'}).save();
+
+      class Session extends Storable(Component) {
+        @primaryIdentifier() id!: string;
+
+        @index({expireAfterSeconds: 60}) @attribute('Date') createdAt = new Date();
+      }
+
+      store.registerStorable(Session);
+
+      await expect(store.migrateStorables({silent: true})).rejects.toThrow(
+        'TTL indexes are not supported by a SQLiteStore (collection: \'Session\', attributes: {"createdAt":"asc"})'
+      );
+
+      await store.disconnect();
+    });
+
+    test('TTL indexes', async () => {
+      class Session extends Storable(Component) {
+        @primaryIdentifier() id!: string;
+
+        @index({expireAfterSeconds: 60}) @attribute('Date') createdAt = new Date();
+      }
+
+      const store = new MemoryStore({expirySweepInterval: 50});
+
+      store.registerStorable(Session);
+
+      await store.migrateStorables({silent: true});
+
+      await new Session({id: 'session1', createdAt: new Date(Date.now() - 2 * 60 * 1000)}).save();
+      await new Session({id: 'session2'}).save();
+
+      expect(store.sweepExpiredDocuments()).toBe(1);
+      expect((await Session.fork().find()).map(({id}) => id)).toEqual(['session2']);
+
+      expect(store.sweepExpiredDocuments()).toBe(0);
+
+      // The expired documents are removed in the background
+      await new Session({id: 'session3', createdAt: new Date(Date.now() - 2 * 60 * 1000)}).save();
+
+      expect(await Session.fork().count()).toBe(2);
+
+      await new Promise((resolve) => setTimeout(resolve, 150));
+
+      expect(await Session.fork().count()).toBe(1);
+
+      store.stopExpirySweep();
+    });
+
+    test('TTL indexes with a tenant', async () => {
+      class Session extends Storable(Component) {
+        @primaryIdentifier() id!: string;
+
+        @index({expireAfterSeconds: 60}) @attribute('Date') createdAt = new Date();
+      }
+
+      let tenant: string | undefined;
+
+      const store = new MemoryStore({tenantResolver: () => tenant});
+
+      store.registerStorable(Session);
+
+      await store.migrateStorables({silent: true});
+
+      // The TTL indexes are not prefixed with the tenant attribute
+      expect(store.getCollectionSchema(Session.prototype).indexes[1].attributes).toStrictEqual({
+        createdAt: 'asc'
+      });
+
+      tenant = 'acme';
+
+      await new Session({id: 'session1', createdAt: new Date(Date.now() - 2 * 60 * 1000)}).save();
+      await new Session({id: 'session2'}).save();
+
+      tenant = 'globex';
+
+      await new Session({id: 'session3', createdAt: new Date(Date.now() - 2 * 60 * 1000)}).save();
+
+      expect(store.sweepExpiredDocuments()).toBe(2);
+      expect(store.exportSnapshot().Session.map(({id}) => id)).toEqual(['session2']);
+
+      store.stopExpirySweep();
+    });
+  });
+
+  describe('Data migrations', () => {
+    test('migrate() and rollback()', async () => {
+      const User = getUserClass();
+      const store = User.getStore() as MemoryStore;
+
+      store.registerMigrations([
+        {
+          version: 2,
+          name: 'Add User.nickname',
+          async up({transformDocuments}) {
+            await transformDocuments(store.getStorable('User'), (document) => {
+              document.nickname = document.fullName.toLowerCase().replace(' ', '');
+            });
+          },
+          async down({transformDocuments}) {
+            await transformDocuments(store.getStorable('User'), (document) => {
+              delete document.nickname;
+            });
+          }
+        },
+        {
+          version: 1,
+          name: 'Increment User.accessLevel',
+          async up({store}) {
+            const User = store.getStorable('User') as typeof BaseUser;
+
+            for (const user of await User.fork().find({}, {accessLevel: true})) {
+              user.accessLevel++;
+              await user.save();
+            }
+          },
+          async down({store}) {
+            const User = store.getStorable('User') as typeof BaseUser;
+
+            for (const user of await User.fork().find({}, {accessLevel: true})) {
+              user.accessLevel--;
+              await user.save();
+            }
+          }
+        }
+      ]);
+
+      expect(store.getMigrations().map(({version}) => version)).toEqual([1, 2]);
+      expect(await store.getExecutedMigrationVersions()).toEqual([]);
+
+      const getAccessLevels = async () =>
+        (await User.fork().find({}, {accessLevel: true})).map((user) => user.accessLevel);
+
+      const getNicknames = async () =>
+        (await store.findDocuments({collectionName: 'User', expressions: []})).map(
+          (document) => document.nickname
+        );
+
+      expect(await getAccessLevels()).toEqual([0, 3, 1, 3]);
+
+      expect(await store.migrate({to: 1, silent: true})).toEqual({
+        executedMigrations: [1],
+        rolledBackMigrations: []
+      });
+
+      expect(await store.getExecutedMigrationVersions()).toEqual([1]);
+      expect(await getAccessLevels()).toEqual([1, 4, 2, 4]);
+      expect(await getNicknames()).toEqual([undefined, undefined, undefined, undefined]);
+
+      expect(await store.migrate({silent: true})).toEqual({
+        executedMigrations: [2],
+        rolledBackMigrations: []
+      });
+
+      expect(await store.getExecutedMigrationVersions()).toEqual([1, 2]);
+      expect(await getNicknames()).toEqual(['user1', 'user11', 'user12', 'user13']);
+
+      // The migrations that have been executed are not executed again
+      expect(await store.migrate({silent: true})).toEqual({
+        executedMigrations: [],
+        rolledBackMigrations: []
+      });
+
+      expect(await getAccessLevels()).toEqual([1, 4, 2, 4]);
+
+      expect(await store.rollback({silent: true})).toEqual({
+        executedMigrations: [],
+        rolledBackMigrations: [2]
+      });
+
+      expect(await store.getExecutedMigrationVersions()).toEqual([1]);
+      expect(await getNicknames()).toEqual([undefined, undefined, undefined, undefined]);
+      expect(await getAccessLevels()).toEqual([1, 4, 2, 4]);
+
+      expect(await store.migrate({silent: true})).toEqual({
+        executedMigrations: [2],
+        rolledBackMigrations: []
+      });
+
+      expect(await store.rollback({to: 0, silent: true})).toEqual({
+        executedMigrations: [],
+        rolledBackMigrations: [2, 1]
+      });
+
+      expect(await store.getExecutedMigrationVersions()).toEqual([]);
+      expect(await getNicknames()).toEqual([undefined, undefined, undefined, undefined]);
+      expect(await getAccessLevels()).toEqual([0, 3, 1, 3]);
+    });
+
+    test('A failing migration', async () => {
+      const User = getUserClass();
+      const store = User.getStore() as MemoryStore;
+
+      store.registerMigration({
+        version: 1,
+        async up({transformDocuments}) {
+          await transformDocuments(store.getStorable('User'), (document) => {
+            document.accessLevel = 10;
+          });
+
+          throw new Error('Something went wrong');
+        }
+      });
+
+      await expect(store.migrate({silent: true})).rejects.toThrow('Something went wrong');
+
+      // The changes have been rolled back
+      expect(await store.getExecutedMigrationVersions()).toEqual([]);
+      expect(
+        (await User.fork().find({}, {accessLevel: true})).map((user) => user.accessLevel)
+      ).toEqual([0, 3, 1, 3]);
+
+      store.registerMigration({version: 2, async up() {}});
+
+      await expect(store.rollback({silent: true})).resolves.toEqual({
+        executedMigrations: [],
+        rolledBackMigrations: []
+      });
+    });
+
+    test('A migration transforming many documents', async () => {
+      const User = getUserClass();
+      const store = User.getStore() as MemoryStore;
+
+      for (let index = 0; index < 250; index++) {
+        const id = `other-user${String(index).padStart(3, '0')}`;
+
+        await store.createDocument({
+          collectionName: 'User',
+          identifierDescriptor: {id},
+          document: {__component: 'User', id, fullName: 'Other user', accessLevel: 0}
+        });
+      }
+
+      const transformedIds: string[] = [];
+
+      store.registerMigration({
+        version: 1,
+        async up({transformDocuments}) {
+          const transformedDocumentCount = await transformDocuments(
+            store.getStorable('User'),
+            (document) => {
+              transformedIds.push(document.id);
+              document.accessLevel = 5;
+            }
+          );
+
+          expect(transformedDocumentCount).toBe(254);
+        }
+      });
+
+      await store.migrate({silent: true});
+
+      // The documents are transformed by batches, and each of them is transformed once
+      expect(transformedIds).toHaveLength(254);
+      expect(new Set(transformedIds).size).toBe(254);
+      expect(await User.fork().count({accessLevel: 5})).toBe(254);
+    });
+
+    test('A failing migration in a store that does not support transactions', async () => {
+      const User = getUserClass();
+      const store = User.getStore() as MemoryStore;
+
+      store.supportsTransactions = async () => false;
+
+      store.registerMigration({
+        version: 1,
+        async up({transformDocuments}) {
+          await transformDocuments(store.getStorable('User'), (document) => {
+            document.accessLevel = 10;
+          });
+
+          throw new Error('Something went wrong');
+        }
+      });
+
+      await expect(store.migrate({silent: true})).rejects.toThrow('Something went wrong');
+
+      // The migration is not recorded but its changes have been applied
+      expect(await store.getExecutedMigrationVersions()).toEqual([]);
+      expect(
+        (await User.fork().find({}, {accessLevel: true})).map((user) => user.accessLevel)
+      ).toEqual([10, 10, 10, 10]);
+    });
+
+    test('registerMigration()', async () => {
+      const User = getUserClass();
+      const store = User.getStore() as MemoryStore;
+
+      store.registerMigration({version: 1, name: 'First migration', async up() {}});
+
+      expect(() =>
+        store.registerMigration({version: 1, name: 'Other migration', async up() {}})
+      ).toThrow(
+        "A migration with the same version is already registered (version: 1, name: 'First migration')"
+      );
+
+      expect(() => store.registerMigration({version: 1.5, async up() {}})).toThrow(
+        'The version of a migration should be a positive integer (version: 1.5)'
+      );
+
+      expect(() => store.registerMigration({version: 2} as any)).toThrow(
+        "A migration should have an 'up' function (version: 2)"
+      );
+
+      store.registerMigration({version: 2, async up() {}});
+
+      await store.migrate({silent: true});
+
+      await expect(store.rollback({silent: true})).rejects.toThrow(
+        "Cannot roll back a migration that has no 'down' function (version: 2)"
+      );
+    });
+
+    function getUserClass() {
+      class Picture extends BasePicture {}
+
+      class Organization extends BaseOrganization {}
+
+      class User extends BaseUser {
+        @provide() static Picture = Picture;
+        @provide() static Organization = Organization;
+      }
+
+      const store = new MemoryStore({initialCollections: getInitialCollections()});
+
+      store.registerRootComponent(User);
+
+      return User;
+    }
+  });
+
+  describe('Geospatial queries', () => {
+    const eiffelTower: GeoPoint = {type: 'Point', coordinates: [2.2945, 48.8584]};
+
+    test('$near', async () => {
+      const Shop = await getShopClass();
+
+      let shops = await Shop.fork().find(
+        {location: {$near: {point: eiffelTower, maxDistance: 1000}}},
+        {}
+      );
+
+      expect(shops.map((shop) => shop.id)).toEqual(['shop2']);
+
+      // The shops are sorted by distance
+      shops = await Shop.fork().find(
+        {location: {$near: {point: eiffelTower, maxDistance: 5000}}},
+        {}
+      );
+
+      expect(shops.map((shop) => shop.id)).toEqual(['shop2', 'shop1']);
+
+      shops = await Shop.fork().find({location: {$near: {point: eiffelTower}}}, {});
+
+      expect(shops.map((shop) => shop.id)).toEqual(['shop2', 'shop1', 'shop3']);
+
+      // Unless a sort option is specified
+      shops = await Shop.fork().find(
+        {location: {$near: {point: eiffelTower, maxDistance: 5000}}},
+        {},
+        {sort: {id: 'asc'}}
+      );
+
+      expect(shops.map((shop) => shop.id)).toEqual(['shop1', 'shop2']);
+
+      expect(
+        await Shop.fork().count({location: {$near: {point: eiffelTower, maxDistance: 5000}}})
+      ).toBe(2);
+
+      await expect(
+        Shop.fork().find({location: {$near: {point: [2.2945, 48.8584] as any}}})
+      ).rejects.toThrow(
+        "Expected an object of the shape `{point, maxDistance}` as value of the operator '$near'"
+      );
+    });
+
+    test('$withinPolygon', async () => {
+      const Shop = await getShopClass();
+
+      const paris: [number, number][] = [
+        [2.25, 48.81],
+        [2.42, 48.81],
+        [2.42, 48.9],
+        [2.25, 48.9]
+      ];
+
+      let shops = await Shop.fork().find({location: {$withinPolygon: paris}}, {});
+
+      expect(shops.map((shop) => shop.id)).toEqual(['shop1', 'shop2']);
+
+      const leftBank: [number, number][] = [
+        [2.25, 48.81],
+        [2.42, 48.81],
+        [2.42, 48.855],
+        [2.25, 48.855]
+      ];
+
+      shops = await Shop.fork().find({location: {$withinPolygon: leftBank}}, {});
+
+      expect(shops).toEqual([]);
+
+      await expect(
+        Shop.fork().find({location: {$withinPolygon: paris.slice(0, 2)}})
+      ).rejects.toThrow(
+        "Expected an array of at least 3 `[longitude, latitude]` positions as value of the operator '$withinPolygon'"
+      );
+    });
+
+    async function getShopClass() {
+      class Shop extends Storable(Component) {
+        @primaryIdentifier() id!: string;
+        @attribute('string') name!: string;
+        @index() @attribute('geoPoint') location!: GeoPoint;
+      }
+
+      const store = new MemoryStore();
+
+      store.registerRootComponent(Shop);
+
+      await Shop.saveMany([
+        new Shop({
+          id: 'shop1',
+          name: 'Louvre',
+          location: {type: 'Point', coordinates: [2.3376, 48.8606]}
+        }),
+        new Shop({
+          id: 'shop2',
+          name: 'Trocadéro',
+          location: {type: 'Point', coordinates: [2.2876, 48.8616]}
+        }),
+        new Shop({
+          id: 'shop3',
+          name: 'Lyon',
+          location: {type: 'Point', coordinates: [4.8357, 45.764]}
+        })
+      ]);
+
+      return Shop;
+    }
+  });
+
+  describe('Full-text search', () => {
+    test('find()', async () => {
+      const User = getUserClass();
+
+      let users = await User.fork().find({$search: 'admin'}, {});
+
+      expect(users.map((user) => user.id)).toEqual(['user11', 'user13']);
+
+      users = await User.fork().find({$search: 'BLOCKED'}, {});
+
+      expect(users.map((user) => user.id)).toEqual(['user1']);
+
+      users = await User.fork().find({$search: 'admin blocked'}, {});
+
+      expect(users.map((user) => user.id)).toEqual(['user1', 'user11', 'user13']);
+
+      users = await User.fork().find({$search: 'admin', fullName: 'User 13'}, {});
+
+      expect(users.map((user) => user.id)).toEqual(['user13']);
+
+      users = await User.fork().find({$search: 'unknown'}, {});
+
+      expect(users).toEqual([]);
+
+      await expect(User.fork().find({$search: 123 as any}, {})).rejects.toThrow(
+        "Expected a string as value of the operator '$search', but received a value of type 'number'"
+      );
+
+      await expect(User.fork().find({$and: [{$search: 'admin'}]}, {})).rejects.toThrow(
+        "The operator '$search' can only be used at the top level of a query"
+      );
+    });
+
+    test('find() sorted by relevance', async () => {
+      const User = getUserClass();
+
+      let users = await User.fork().find(
+        {$search: 'admin owner'},
+        {},
+        {sort: {$relevance: 'desc'}}
+      );
+
+      expect(users.map((user) => user.id)).toEqual(['user11', 'user13']);
+
+      users = await User.fork().find({$search: 'admin 13'}, {}, {sort: {$relevance: 'desc'}});
+
+      expect(users.map((user) => user.id)).toEqual(['user13', 'user11']);
+
+      await expect(User.fork().find({}, {}, {sort: {$relevance: 'desc'}})).rejects.toThrow(
+        "The '$relevance' sort can only be used in combination with the '$search' query operator (component: 'User')"
+      );
+
+      await expect(
+        User.fork().find({$search: 'admin'}, {}, {sort: {$relevance: 'asc'}})
+      ).rejects.toThrow(
+        "The '$relevance' sort only supports the 'desc' direction (component: 'User')"
+      );
+
+      await expect(
+        User.fork().find({$search: 'admin'}, {}, {sort: {$relevance: 'desc'}, after: undefined})
+      ).rejects.toThrow(
+        "The '$relevance' sort cannot be used in combination with the 'after' option (component: 'User')"
+      );
+    });
+
+    test('count()', async () => {
+      const User = getUserClass();
+
+      expect(await User.fork().count({$search: 'admin'})).toBe(2);
+      expect(await User.fork().count({$search: 'user'})).toBe(4);
+    });
+
+    test('Without a text index', async () => {
+      class Picture extends BasePicture {}
+
+      class Organization extends BaseOrganization {}
+
+      class User extends BaseUser {
+        @provide() static Picture = Picture;
+        @provide() static Organization = Organization;
+      }
+
+      const store = new MemoryStore({initialCollections: getInitialCollections()});
+
+      store.registerRootComponent(User);
+
+      await expect(User.fork().find({$search: 'admin'})).rejects.toThrow(
+        "The operator '$search' cannot be used with a storable component that has no text index (component: 'User')"
+      );
+    });
+
+    function getUserClass() {
+      class Picture extends BasePicture {}
+
+      class Organization extends BaseOrganization {}
+
+      @index({fullName: 'asc', tags: 'asc'}, {isText: true})
+      class User extends BaseUser {
+        @provide() static Picture = Picture;
+        @provide() static Organization = Organization;
+      }
+
+      const store = new MemoryStore({initialCollections: getInitialCollections()});
+
+      store.registerRootComponent(User);
+
+      return User;
+    }
+  });
+
+  describe('File store', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = mkdtempSync(join(tmpdir(), 'layr-file-store-'));
+    });
+
+    afterEach(() => {
+      rmdirSync(directory, {recursive: true});
+    });
+
+    test('Persistence', async () => {
+      const file = join(directory, 'data.json');
+
+      let User = getUserClass(file);
+
+      const user = await User.fork().get('user1');
+      user.fullName = 'User 1 (modified)';
+      await user.save();
+
+      await new User({id: 'user99', email: '99@user.com', reference: 99}).save();
+
+      // The changes made in an aborted transaction are not written
+      await expect(
+        (User.getStore() as FileStore).transaction(async () => {
+          await User.fork()
+            .get('user11')
+            .then((user) => user.delete());
+
+          throw new Error('Aborted');
+        })
+      ).rejects.toThrow('Aborted');
+
+      User = getUserClass(file);
+
+      let users = await User.fork().find({}, {fullName: true, createdOn: true});
+
+      expect(users.map((user) => user.id)).toEqual([
+        'user1',
+        'user11',
+        'user12',
+        'user13',
+        'user99'
+      ]);
+      expect(users[0].fullName).toBe('User 1 (modified)');
+      expect(users[0].createdOn).toEqual(CREATED_ON);
+
+      // With a 'writeDelay', the changes are written later (or when `flush()` is called)
+      User = getUserClass(file, {writeDelay: 60 * 1000});
+
+      await (await User.fork().get('user99')).delete();
+
+      expect(getUserCountInFile(file)).toBe(5);
+
+      await (User.getStore() as FileStore).flush();
+
+      expect(getUserCountInFile(file)).toBe(4);
+    });
+
+    test('Write errors', async () => {
+      // The file cannot be written until its directory is created
+      const file = join(directory, 'missing', 'data.json');
+
+      const errors: unknown[] = [];
+      const logger = {
+        error(_message: string, error: unknown) {
+          errors.push(error);
+        }
+      };
+
+      let User = getUserClass(file, {logger});
+
+      const user = await User.fork().get('user1');
+      user.fullName = 'User 1 (modified)';
+      await user.save();
+
+      expect(errors).toHaveLength(1);
+      expect(existsSync(file)).toBe(false);
+
+      const store = User.getStore() as FileStore;
+
+      await expect(store.flush()).rejects.toThrow();
+
+      mkdirSync(join(directory, 'missing'));
+
+      await store.flush();
+
+      User = getUserClass(file);
+
+      expect((await User.fork().get('user1', {fullName: true})).fullName).toBe('User 1 (modified)');
+
+      // With a 'writeDelay', the errors are reported when the file is written
+      rmdirSync(join(directory, 'missing'), {recursive: true});
+
+      User = getUserClass(file, {writeDelay: 10, logger});
+
+      await (await User.fork().get('user1')).delete();
+
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(errors).toHaveLength(2);
+    });
+
+    test('exportSnapshot() and importSnapshot()', async () => {
+      const file = join(directory, 'data.json');
+
+      const snapshot = JSON.parse(
+        JSON.stringify(
+          new MemoryStore({initialCollections: getInitialCollections()}).exportSnapshot()
+        )
+      );
+
+      expect(snapshot.User[0].createdOn).toEqual({__date: CREATED_ON.toISOString()});
+
+      const store = new FileStore(file);
+
+      store.importSnapshot(snapshot);
+
+      expect(JSON.parse(readFileSync(file, 'utf8'))).toEqual(snapshot);
+
+      expect(
+        await store.readDocument({collectionName: 'User', identifierDescriptor: {id: 'user1'}})
+      ).toEqual(getInitialCollections().User[0]);
+    });
+
+    function getUserCountInFile(file: string) {
+      return JSON.parse(readFileSync(file, 'utf8')).User.length;
+    }
+
+    function getUserClass(
+      file: string,
+      {writeDelay, logger}: {writeDelay?: number; logger?: StoreOptions['logger']} = {}
+    ) {
+      class Picture extends BasePicture {}
+
+      class Organization extends BaseOrganization {}
+
+      class User extends BaseUser {
+        @provide() static Picture = Picture;
+        @provide() static Organization = Organization;
+      }
+
+      const store = new FileStore(file, {
+        initialCollections: getInitialCollections(),
+        writeDelay,
+        logger
+      });
+
+      store.registerRootComponent(User);
+
+      return User;
+    }
+  });
 });
@@ -0,0 +1,200 @@
+import type {TransactionParams, DocumentChange, StoreOptions} from '@layr/store';
+import {existsSync, readFileSync, writeFileSync, renameSync} from 'fs';
+import {serialize} from 'simple-serialization';
+
+import {MemoryStore, CollectionMap, MemoryStoreSnapshot} from './memory-store';
+
+/**
+ * *Inherits from [`MemoryStore`](https://layrjs.com/docs/v1/reference/memory-store).*
+ *
+ * A [`MemoryStore`](https://layrjs.com/docs/v1/reference/memory-store) that persists its collections in a JSON file, so the stored data survives the restarts of the execution environment. A `FileStore` is handy for local development, but since all the data is kept in memory and the whole file is rewritten after each change, it shouldn't be used for a real application.
+ *
+ * The collections are loaded from the file when the store is created, and written back to the file after each change. The file is written atomically (a temporary file is written first, and then renamed), so it cannot be left in a corrupted state if the process is interrupted. The changes made in a transaction are only written when the transaction is committed.
+ *
+ * The file contains a [snapshot](https://layrjs.com/docs/v1/reference/memory-store#export-snapshot-instance-method) of the store, so it can be shared as fixtures, or imported into any [`MemoryStore`](https://layrjs.com/docs/v1/reference/memory-store).
+ */
+export class FileStore extends MemoryStore {
+  _file: string;
+  _writeDelay: number;
+
+  /**
+   * Creates a [`FileStore`](https://layrjs.com/docs/v1/reference/file-store).
+   *
+   * @param file The path of the JSON file where the collections are persisted (the file is created when the first change is written).
+   * @param [options.initialCollections] A plain object specifying the data that should be populated into the store when the file doesn't exist yet (see the [`MemoryStore`'s constructor](https://layrjs.com/docs/v1/reference/memory-store#constructor)).
+   * @param [options.writeDelay] A number of milliseconds specifying how long the writes should be delayed so that the changes made in a row are written all at once (default: `0`, which means that the file is written immediately after each change).
+   * @param [options.keyProvider] A function returning the key that is used to [encrypt](https://layrjs.com/docs/v1/reference/storable-attribute#encryption) the encrypted attributes (see the [`Store`'s constructor](https://layrjs.com/docs/v1/reference/store#constructor)).
+   * @param [options.tenantResolver] A function returning the current tenant when several customers share the store (see the [`Store`'s constructor](https://layrjs.com/docs/v1/reference/store#constructor)).
+   * @param [options.tenantIsolation] How the documents of the tenants are isolated from each other: `'attribute'` (default) or `'collection'` (see the [`Store`'s constructor](https://layrjs.com/docs/v1/reference/store#constructor)).
+   * @param [options.actorResolver] A function returning the current actor that is recorded in the history of the storable components (see the [`Store`'s constructor](https://layrjs.com/docs/v1/reference/store#constructor)).
+   * @param [options.logger] An object of the shape `{warn(message, entry), error(message, error)}` receiving the slow operation warnings and the errors that cannot be thrown to a caller, such as the errors occurring while the file is written after a change (see the [`Store`'s constructor](https://layrjs.com/docs/v1/reference/store#constructor)).
+   * @param [options.expirySweepInterval] A number of milliseconds specifying how often the documents held by a TTL index are checked for expiration (see the [`MemoryStore`'s constructor](https://layrjs.com/docs/v1/reference/memory-store#constructor)).
+   *
+   * @returns The [`FileStore`](https://layrjs.com/docs/v1/reference/file-store) instance that was created.
+   *
+   * @example
+   * ```
+   * const store = new FileStore('./data.json');
+   *
+   * // Group the writes of the changes made within 500 milliseconds
+   * const store = new FileStore('./data.json', {writeDelay: 500});
+   * ```
+   *
+   * @category Creation
+   */
+  constructor(
+    file: string,
+    options: {
+      initialCollections?: CollectionMap;
+      writeDelay?: number;
+      expirySweepInterval?: number;
+    } & StoreOptions = {}
+  ) {
+    if (typeof file !== 'string') {
+      throw new Error(
+        `Expected a 'file' to create a FileStore, but received a value of type '${typeof file}'`
+      );
+    }
+
+    if (file.length === 0) {
+      throw new Error(`Expected a 'file' to create a FileStore, but received an empty string`);
+    }
+
+    const {writeDelay = 0, ...otherOptions} = options;
+
+    super(otherOptions);
+
+    this._file = file;
+    this._writeDelay = writeDelay;
+
+    if (existsSync(file)) {
+      super.importSnapshot(JSON.parse(readFileSync(file, 'utf8')));
+    }
+  }
+
+  getFile() {
+    return this._file;
+  }
+
+  // === Snapshots ===
+
+  /**
+   * See the methods that are inherited from the [`MemoryStore`](https://layrjs.com/docs/v1/reference/memory-store#snapshots) class.
+   *
+   * Note that when a snapshot is imported into a `FileStore`, the snapshot is written to the file.
+   *
+   * @category Snapshots
+   */
+
+  importSnapshot(snapshot: MemoryStoreSnapshot) {
+    super.importSnapshot(snapshot);
+
+    this._scheduleWrite();
+  }
+
+  // === Transactions ===
+
+  /**
+   * See the methods that are inherited from the [`MemoryStore`](https://layrjs.com/docs/v1/reference/memory-store#transactions) class.
+   *
+   * @category Transactions
+   */
+
+  async commitTransaction(params: TransactionParams) {
+    await super.commitTransaction(params);
+
+    this._scheduleWrite();
+  }
+
+  async abortTransaction(params: TransactionParams) {
+    await super.abortTransaction(params);
+
+    // A write may have been postponed because of the transaction
+    if (this._hasPendingWrite) {
+      this._scheduleWrite();
+    }
+  }
+
+  // === Writing ===
+
+  _reportChange(collectionName: string, change: DocumentChange) {
+    super._reportChange(collectionName, change);
+
+    if (this.getCurrentTransaction() === undefined) {
+      this._scheduleWrite();
+    }
+  }
+
+  _writeTimeout: ReturnType<typeof setTimeout> | undefined;
+
+  // Remains `true` until the changes are successfully written to the file
+  _hasPendingWrite = false;
+
+  _scheduleWrite() {
+    this._hasPendingWrite = true;
+
+    if (this._writeDelay === 0) {
+      this._writeFileAndReportErrors();
+      return;
+    }
+
+    if (this._writeTimeout === undefined) {
+      this._writeTimeout = setTimeout(() => {
+        this._writeTimeout = undefined;
+        this._writeFileAndReportErrors();
+      }, this._writeDelay);
+    }
+  }
+
+  _writeFileAndReportErrors() {
+    // The changes are already applied in memory, so a failed write shouldn't fail the operation
+    // that made them (the write is attempted again after the next change, or when `flush()` is called)
+    try {
+      this._writeFile();
+    } catch (error) {
+      this._logger.error(
+        `An error occurred while writing the file of a FileStore (file: '${this._file}')`,
+        error
+      );
+    }
+  }
+
+  /**
+   * Immediately writes the changes that are waiting to be written because of the `writeDelay` option, or because a previous write has failed. Call this method before exiting the process to make sure that no change is lost.
+   *
+   * The returned promise is rejected if the file cannot be written.
+   *
+   * @example
+   * ```
+   * await store.flush();
+   * ```
+   *
+   * @category Writing
+   */
+  async flush() {
+    if (this._writeTimeout !== undefined) {
+      clearTimeout(this._writeTimeout);
+      this._writeTimeout = undefined;
+    }
+
+    if (this._hasPendingWrite) {
+      this._writeFile();
+    }
+  }
+
+  _writeFile() {
+    // The uncommitted changes of a running transaction should not be written,
+    // so the file is written once the transaction is finished
+    if (this._openTransaction !== undefined) {
+      this._hasPendingWrite = true;
+      return;
+    }
+
+    const temporaryFile = `${this._file}.${process.pid}.tmp`;
+
+    writeFileSync(temporaryFile, JSON.stringify(serialize(this._collections), undefined, 2));
+    renameSync(temporaryFile, this._file);
+
+    this._hasPendingWrite = false;
+  }
+}
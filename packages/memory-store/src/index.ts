@@ -1 +1,2 @@
 export * from './memory-store';
+export * from './file-store';
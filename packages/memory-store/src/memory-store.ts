@@ -4,25 +4,82 @@ import {
   ReadDocumentParams,
   UpdateDocumentParams,
   DeleteDocumentParams,
+  UpsertDocumentParams,
+  CreateDocumentsParams,
+  UpdateDocumentsParams,
+  DeleteDocumentsParams,
   FindDocumentsParams,
   CountDocumentsParams,
+  AggregateDocumentsParams,
+  ExplainDocumentsParams,
+  DocumentAggregates,
   MigrateCollectionParams,
   MigrateCollectionResult,
+  CollectionIndex,
+  TransactionParams,
+  WatchDocumentsParams,
+  DocumentChange,
   Document,
+  DocumentPatch,
   Expression,
-  Path
+  TextSearchOperand,
+  GeoNearOperand,
+  GeoPolygonOperand,
+  DocumentLookup,
+  LookupOperand,
+  Path,
+  StoreOptions,
+  runDocumentOperations,
+  applyDocumentPatch
 } from '@layr/store';
-import type {Operator, SortDescriptor} from '@layr/storable';
-import type {NormalizedIdentifierDescriptor} from '@layr/component';
+import type {Operator, SortDescriptor, AggregateOperator} from '@layr/storable';
+import {NormalizedIdentifierDescriptor, GeoPoint, isGeoPoint} from '@layr/component';
+import type {PlainObject} from 'core-helpers';
+import {serialize, deserialize} from 'simple-serialization';
+import {EventEmitter} from 'events';
 import pull from 'lodash/pull';
+import cloneDeep from 'lodash/cloneDeep';
 import get from 'lodash/get';
+import has from 'lodash/has';
+import isEqual from 'lodash/isEqual';
+import castArray from 'lodash/castArray';
+import isEmpty from 'lodash/isEmpty';
 import set from 'lodash/set';
 import unset from 'lodash/unset';
 import sortOn from 'sort-on';
 
 type Collection = Document[];
 
-type CollectionMap = {[name: string]: Collection};
+// Returns the document referenced by a component reference
+// (a plain object such as `{__component: 'Director', id: 'abc123'}`)
+type DocumentLookupFunction = (lookup: DocumentLookup, reference: unknown) => Document | undefined;
+
+type SortItem = {document: Document; referencedDocuments: Document};
+
+// The memory store doesn't use its indexes to execute the queries (they are only used to
+// enforce the uniqueness and the expiration of the documents), so a query is always
+// executed by scanning all the documents of a collection
+type QueryPlan = {strategy: 'collectionScan'; scannedDocuments: number};
+
+export type CollectionMap = {[name: string]: Collection};
+
+// A snapshot is a JSON-compatible representation of a `CollectionMap`
+// (the values that are not supported by JSON such as dates being serialized)
+export type MemoryStoreSnapshot = {[name: string]: PlainObject[]};
+
+const NO_VALUE = Symbol('NO_VALUE');
+
+// The default interval is the same as the one of the MongoDB TTL monitor
+const DEFAULT_EXPIRY_SWEEP_INTERVAL = 60 * 1000; // 1 minute
+
+// The modifications made in a transaction are rolled back by running
+// the `undoOperations` in reverse order
+export type MemoryTransaction = {
+  undoOperations: (() => void)[];
+  changes: {collectionName: string; change: DocumentChange}[];
+  release: () => void;
+  finished: Promise<void>;
+};
 
 /**
  * *Inherits from [`Store`](https://layrjs.com/docs/v1/reference/store).*
@@ -40,6 +97,11 @@ export class MemoryStore extends Store {
    * Creates a [`MemoryStore`](https://layrjs.com/docs/v1/reference/memory-store).
    *
    * @param [options.initialCollections] A plain object specifying the initial data that should be populated into the store. The shape of the objet should be `{[collectionName]: documents}` where `collectionName` is the name of a [storable component](https://layrjs.com/docs/v1/reference/storable#storable-component-class) class, and `documents` is an array of serialized storable component instances.
+   * @param [options.keyProvider] A function returning the key that is used to [encrypt](https://layrjs.com/docs/v1/reference/storable-attribute#encryption) the encrypted attributes (see the [`Store`'s constructor](https://layrjs.com/docs/v1/reference/store#constructor)).
+   * @param [options.tenantResolver] A function returning the current tenant when several customers share the store (see the [`Store`'s constructor](https://layrjs.com/docs/v1/reference/store#constructor)).
+   * @param [options.tenantIsolation] How the documents of the tenants are isolated from each other: `'attribute'` (default) or `'collection'` (see the [`Store`'s constructor](https://layrjs.com/docs/v1/reference/store#constructor)).
+   * @param [options.actorResolver] A function returning the current actor that is recorded in the history of the storable components (see the [`Store`'s constructor](https://layrjs.com/docs/v1/reference/store#constructor)).
+   * @param [options.expirySweepInterval] A number of milliseconds specifying how often the documents held by a [TTL index](https://layrjs.com/docs/v1/reference/index#ttl-indexes) are checked for expiration (default: `60000`).
    *
    * @returns The [`MemoryStore`](https://layrjs.com/docs/v1/reference/memory-store) instance that was created.
    *
@@ -69,12 +131,27 @@ export class MemoryStore extends Store {
    *
    * @category Creation
    */
-  constructor(options: {initialCollections?: CollectionMap} = {}) {
-    const {initialCollections = {}, ...otherOptions} = options;
+  constructor(
+    options: {initialCollections?: CollectionMap; expirySweepInterval?: number} & StoreOptions = {}
+  ) {
+    const {
+      initialCollections = {},
+      expirySweepInterval = DEFAULT_EXPIRY_SWEEP_INTERVAL,
+      ...otherOptions
+    } = options;
+
+    if (!(typeof expirySweepInterval === 'number' && expirySweepInterval > 0)) {
+      throw new Error(
+        `The value of the 'expirySweepInterval' option is invalid (value: ${JSON.stringify(
+          expirySweepInterval
+        )})`
+      );
+    }
 
     super(otherOptions);
 
     this._collections = initialCollections;
+    this._expirySweepInterval = expirySweepInterval;
   }
 
   // === Component Registration ===
@@ -100,43 +177,201 @@ export class MemoryStore extends Store {
     return collection;
   }
 
+  // === Snapshots ===
+
+  /**
+   * Exports all the collections of the store into a snapshot.
+   *
+   * A snapshot is a plain object that can be safely converted to JSON (the values that are not supported by JSON such as dates are serialized), so it can be saved in a file to share some fixtures, and imported later with the [`importSnapshot()`](https://layrjs.com/docs/v1/reference/memory-store#import-snapshot-instance-method) method.
+   *
+   * @returns A plain object of the shape `{[collectionName]: serializedDocuments}`.
+   *
+   * @example
+   * ```
+   * const snapshot = store.exportSnapshot();
+   *
+   * fs.writeFileSync('./fixtures.json', JSON.stringify(snapshot));
+   * ```
+   *
+   * @category Snapshots
+   */
+  exportSnapshot() {
+    return serialize(this._collections) as MemoryStoreSnapshot;
+  }
+
+  /**
+   * Replaces all the collections of the store with the content of a snapshot that was previously exported with the [`exportSnapshot()`](https://layrjs.com/docs/v1/reference/memory-store#export-snapshot-instance-method) method.
+   *
+   * Note that the watchers of the store are not notified of the changes made by an import.
+   *
+   * @param snapshot A plain object returned by the [`exportSnapshot()`](https://layrjs.com/docs/v1/reference/memory-store#export-snapshot-instance-method) method.
+   *
+   * @example
+   * ```
+   * const snapshot = JSON.parse(fs.readFileSync('./fixtures.json', 'utf8'));
+   *
+   * store.importSnapshot(snapshot);
+   * ```
+   *
+   * @category Snapshots
+   */
+  importSnapshot(snapshot: MemoryStoreSnapshot) {
+    if (this.getCurrentTransaction() !== undefined) {
+      throw new Error(`Cannot import a snapshot into a MemoryStore while running a transaction`);
+    }
+
+    this._collections = deserialize(snapshot) as CollectionMap;
+  }
+
+  // === Transactions ===
+
+  /**
+   * See the methods that are inherited from the [`Store`](https://layrjs.com/docs/v1/reference/store#transactions) class.
+   *
+   * Note that a `MemoryStore` executes the transactions one at a time, and that the operations that are not part of a running transaction wait for the end of the transaction (so they cannot see or alter its uncommitted modifications). A transaction is rolled back by undoing its modifications.
+   *
+   * @category Transactions
+   */
+
+  _transactionQueue: Promise<void> = Promise.resolve();
+
+  _openTransaction: MemoryTransaction | undefined;
+
+  // The operations that were started outside of a transaction and are not finished yet
+  _runningOperations = new Set<Promise<unknown>>();
+
+  async startTransaction() {
+    const previousTransactionQueue = this._transactionQueue;
+
+    let release!: () => void;
+
+    const finished = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+
+    this._transactionQueue = finished;
+
+    await previousTransactionQueue;
+
+    const transaction: MemoryTransaction = {
+      undoOperations: [],
+      changes: [],
+      release,
+      finished
+    };
+
+    this._openTransaction = transaction;
+
+    // The operations that are still running outside of the transaction are waited for
+    // (the operations started from now on wait for the end of the transaction)
+    await Promise.all(
+      Array.from(this._runningOperations, (operation) => operation.catch(() => {}))
+    );
+
+    return transaction;
+  }
+
+  async commitTransaction({transaction}: TransactionParams) {
+    const {changes, release} = transaction as MemoryTransaction;
+
+    this._openTransaction = undefined;
+    release();
+
+    for (const {collectionName, change} of changes) {
+      this._changeEmitter.emit(collectionName, change);
+    }
+  }
+
+  async abortTransaction({transaction}: TransactionParams) {
+    const {undoOperations, release} = transaction as MemoryTransaction;
+
+    for (const undoOperation of [...undoOperations].reverse()) {
+      undoOperation();
+    }
+
+    this._openTransaction = undefined;
+    release();
+  }
+
+  // Runs an operation that is not part of the open transaction (if any) once the transaction is finished
+  async _runOutsideOtherTransactions<Result>(func: () => Promise<Result>) {
+    if (this.getCurrentTransaction() !== undefined) {
+      return await func();
+    }
+
+    while (this._openTransaction !== undefined) {
+      await this._openTransaction.finished;
+    }
+
+    const operation = func();
+
+    this._runningOperations.add(operation);
+
+    try {
+      return await operation;
+    } finally {
+      this._runningOperations.delete(operation);
+    }
+  }
+
   // === Documents ===
 
   async createDocument({collectionName, identifierDescriptor, document}: CreateDocumentParams) {
-    const collection = this._getCollection(collectionName);
+    return await this._runOutsideOtherTransactions(async () => {
+      const collection = this._getCollection(collectionName);
 
-    const existingDocument = await this._readDocument({collection, identifierDescriptor});
+      const existingDocument = await this._readDocument({collection, identifierDescriptor});
 
-    if (existingDocument !== undefined) {
-      return false;
-    }
+      if (existingDocument !== undefined) {
+        return false;
+      }
 
-    collection.push(document);
+      this._assertNoDuplicateKeys(collectionName, document, {action: 'creating'});
+
+      this._insertDocument(collection, document);
 
-    return true;
+      this._reportChange(collectionName, {
+        type: 'created',
+        identifierDescriptor,
+        document: cloneDeep(document)
+      });
+
+      return true;
+    });
   }
 
   async readDocument({
     collectionName,
-    identifierDescriptor
+    identifierDescriptor,
+    expressions
   }: ReadDocumentParams): Promise<Document | undefined> {
-    const collection = this._getCollection(collectionName);
+    return await this._runOutsideOtherTransactions(async () => {
+      const collection = this._getCollection(collectionName);
 
-    const document = await this._readDocument({collection, identifierDescriptor});
+      const document = await this._readDocument({collection, identifierDescriptor, expressions});
 
-    return document;
+      return document;
+    });
   }
 
   async _readDocument({
     collection,
-    identifierDescriptor
+    identifierDescriptor,
+    expressions = []
   }: {
     collection: Collection;
     identifierDescriptor: NormalizedIdentifierDescriptor;
+    expressions?: Expression[];
   }): Promise<Document | undefined> {
     const [[identifierName, identifierValue]] = Object.entries(identifierDescriptor);
 
-    const document = collection.find((document) => document[identifierName] === identifierValue);
+    const lookupDocument = this._getDocumentLookupFunction();
+
+    const document = collection.find(
+      (document) =>
+        document[identifierName] === identifierValue &&
+        documentIsMatchingExpressions(document, expressions, lookupDocument)
+    );
 
     return document;
   }
@@ -144,79 +379,198 @@ export class MemoryStore extends Store {
   async updateDocument({
     collectionName,
     identifierDescriptor,
-    documentPatch
+    documentPatch,
+    expectedVersion,
+    expressions
   }: UpdateDocumentParams) {
-    const collection = this._getCollection(collectionName);
+    return await this._runOutsideOtherTransactions(async () => {
+      const collection = this._getCollection(collectionName);
 
-    const existingDocument = await this._readDocument({collection, identifierDescriptor});
+      const existingDocument = await this._readDocument({
+        collection,
+        identifierDescriptor,
+        expressions
+      });
 
-    if (existingDocument === undefined) {
-      return false;
-    }
-
-    const {$set, $unset} = documentPatch;
+      if (existingDocument === undefined) {
+        return false;
+      }
 
-    if ($set !== undefined) {
-      for (const [path, value] of Object.entries($set)) {
-        set(existingDocument, path, value);
+      if (
+        expectedVersion !== undefined &&
+        get(existingDocument, expectedVersion.path) !== expectedVersion.value
+      ) {
+        throw Object.assign(
+          new Error(
+            `Cannot update a document that doesn't have the expected version (collection: '${collectionName}', expected version: ${expectedVersion.value})`
+          ),
+          {code: 'COMPONENT_VERSION_CONFLICT', expose: true}
+        );
       }
-    }
 
-    if ($unset !== undefined) {
-      for (const [path, value] of Object.entries($unset)) {
-        if (value) {
-          unset(existingDocument, path);
-        }
+      this._applyDocumentPatch(collectionName, existingDocument, documentPatch);
+
+      this._reportChange(collectionName, {
+        type: 'updated',
+        identifierDescriptor,
+        document: cloneDeep(existingDocument)
+      });
+
+      return true;
+    });
+  }
+
+  async deleteDocument({collectionName, identifierDescriptor, expressions}: DeleteDocumentParams) {
+    return await this._runOutsideOtherTransactions(async () => {
+      const collection = this._getCollection(collectionName);
+
+      const document = await this._readDocument({collection, identifierDescriptor, expressions});
+
+      if (document === undefined) {
+        return false;
       }
-    }
 
-    return true;
+      this._removeDocument(collection, document);
+
+      this._reportChange(collectionName, {
+        type: 'deleted',
+        identifierDescriptor,
+        document: cloneDeep(document)
+      });
+
+      return true;
+    });
   }
 
-  async deleteDocument({collectionName, identifierDescriptor}: DeleteDocumentParams) {
-    const collection = this._getCollection(collectionName);
+  async upsertDocument({
+    collectionName,
+    expressions,
+    documentPatch,
+    identifierDescriptor,
+    document
+  }: UpsertDocumentParams) {
+    return await this._runOutsideOtherTransactions(async () => {
+      const collection = this._getCollection(collectionName);
 
-    const document = await this._readDocument({collection, identifierDescriptor});
+      const lookupDocument = this._getDocumentLookupFunction();
 
-    if (document === undefined) {
-      return false;
-    }
+      const existingDocument = collection.find((document) =>
+        documentIsMatchingExpressions(document, expressions, lookupDocument)
+      );
+
+      if (existingDocument !== undefined) {
+        this._applyDocumentPatch(collectionName, existingDocument, documentPatch);
+
+        this._reportChange(collectionName, {
+          type: 'updated',
+          identifierDescriptor,
+          document: cloneDeep(existingDocument)
+        });
+
+        return {document: cloneDeep(existingDocument), wasCreated: false};
+      }
+
+      if ((await this._readDocument({collection, identifierDescriptor})) !== undefined) {
+        throw new Error(
+          `Cannot create a document that already exists (collection: '${collectionName}', identifier: ${JSON.stringify(
+            identifierDescriptor
+          )})`
+        );
+      }
+
+      this._assertNoDuplicateKeys(collectionName, document, {action: 'creating'});
 
-    pull(collection, document);
+      this._insertDocument(collection, document);
 
-    return true;
+      this._reportChange(collectionName, {
+        type: 'created',
+        identifierDescriptor,
+        document: cloneDeep(document)
+      });
+
+      return {document: cloneDeep(document), wasCreated: true};
+    });
+  }
+
+  async createDocuments({collectionName, documents}: CreateDocumentsParams) {
+    return await runDocumentOperations(documents, ({identifierDescriptor, document}) =>
+      this.createDocument({collectionName, identifierDescriptor, document})
+    );
+  }
+
+  async updateDocuments({collectionName, documentPatches, expressions}: UpdateDocumentsParams) {
+    return await runDocumentOperations(
+      documentPatches,
+      ({identifierDescriptor, documentPatch, expectedVersion}) =>
+        this.updateDocument({
+          collectionName,
+          identifierDescriptor,
+          documentPatch,
+          expectedVersion,
+          expressions
+        })
+    );
+  }
+
+  async deleteDocuments({
+    collectionName,
+    identifierDescriptors,
+    expressions
+  }: DeleteDocumentsParams) {
+    return await runDocumentOperations(identifierDescriptors, (identifierDescriptor) =>
+      this.deleteDocument({collectionName, identifierDescriptor, expressions})
+    );
   }
 
   async findDocuments({
     collectionName,
     expressions,
     sort,
+    lookups,
     skip,
     limit
   }: FindDocumentsParams): Promise<Document[]> {
-    const collection = this._getCollection(collectionName);
-
-    const documents = await this._findDocuments({collection, expressions, sort, skip, limit});
-
-    return documents;
+    return await this._runOutsideOtherTransactions(async () => {
+      const collection = this._getCollection(collectionName);
+
+      const documents = await this._findDocuments({
+        collectionName,
+        collection,
+        expressions,
+        sort,
+        lookups,
+        skip,
+        limit
+      });
+
+      return documents;
+    });
   }
 
   async _findDocuments({
+    collectionName,
     collection,
     expressions,
     sort,
+    lookups,
     skip,
     limit
   }: {
+    collectionName: string;
     collection: Collection;
     expressions: Expression[];
     sort?: SortDescriptor;
+    lookups?: FindDocumentsParams['lookups'];
     skip?: number;
     limit?: number;
   }): Promise<Document[]> {
-    let documents = filterDocuments(collection, expressions);
+    this._traceQuery({collectionName, expressions, backendQuery: buildQueryPlan(collection)});
+
+    const lookupDocument = this._getDocumentLookupFunction();
+
+    let documents = filterDocuments(collection, expressions, lookupDocument);
 
-    documents = sortDocuments(documents, sort);
+    documents = sortDocuments(documents, sort, {expressions, lookups, lookupDocument});
 
     documents = skipDocuments(documents, skip);
 
@@ -226,39 +580,460 @@ export class MemoryStore extends Store {
   }
 
   async countDocuments({collectionName, expressions}: CountDocumentsParams) {
-    const collection = this._getCollection(collectionName);
+    return await this._runOutsideOtherTransactions(async () => {
+      const collection = this._getCollection(collectionName);
 
-    const documents = await this._findDocuments({collection, expressions});
+      const documents = await this._findDocuments({collectionName, collection, expressions});
 
-    return documents.length;
+      return documents.length;
+    });
+  }
+
+  async aggregateDocuments({
+    collectionName,
+    expressions,
+    groupBy,
+    aggregates,
+    sort,
+    skip,
+    limit
+  }: AggregateDocumentsParams): Promise<Document[]> {
+    return await this._runOutsideOtherTransactions(async () => {
+      const collection = this._getCollection(collectionName);
+
+      let documents = await this._findDocuments({collectionName, collection, expressions});
+
+      documents = groupDocuments(documents, {groupBy, aggregates});
+
+      documents = sortDocuments(documents, sort, {
+        lookupDocument: this._getDocumentLookupFunction()
+      });
+
+      documents = skipDocuments(documents, skip);
+
+      documents = limitDocuments(documents, limit);
+
+      return documents;
+    });
+  }
+
+  async explainDocuments({collectionName}: ExplainDocumentsParams) {
+    return await this._runOutsideOtherTransactions(async () => {
+      const collection = this._getCollection(collectionName);
+
+      return {backendQuery: buildQueryPlan(collection), indexName: undefined};
+    });
+  }
+
+  // === Watching ===
+
+  _changeEmitter = new EventEmitter().setMaxListeners(0);
+
+  async watchDocuments({collectionName, expressions, callback, onError}: WatchDocumentsParams) {
+    // The listener must not throw since it is called by the operation that made the change
+    const listener = (change: DocumentChange) => {
+      try {
+        // The changes reported by the store always include the document (even when it is deleted)
+        if (
+          !documentIsMatchingExpressions(
+            change.document!,
+            expressions,
+            this._getDocumentLookupFunction()
+          )
+        ) {
+          return;
+        }
+
+        callback(change);
+      } catch (error) {
+        onError(error);
+      }
+    };
+
+    this._changeEmitter.on(collectionName, listener);
+
+    return async () => {
+      this._changeEmitter.off(collectionName, listener);
+    };
+  }
+
+  // === Lookups ===
+
+  // The referenced documents are found by a plain scan of their collection
+  _getDocumentLookupFunction(): DocumentLookupFunction {
+    return ({collectionName, identifierName, identifierPath}, reference) => {
+      if (typeof reference !== 'object' || reference === null) {
+        return undefined;
+      }
+
+      const identifier = (reference as Document)[identifierName];
+
+      return this._getCollection(collectionName).find(
+        (document) => get(document, identifierPath) === identifier
+      );
+    };
+  }
+
+  // The changes made in a transaction are only reported when the transaction is committed
+  _reportChange(collectionName: string, change: DocumentChange) {
+    const transaction = this.getCurrentTransaction() as MemoryTransaction | undefined;
+
+    if (transaction !== undefined) {
+      transaction.changes.push({collectionName, change});
+    } else {
+      this._changeEmitter.emit(collectionName, change);
+    }
   }
 
   // === Migration ===
 
-  async migrateCollection({collectionName}: MigrateCollectionParams) {
+  async migrateCollection({collectionName, collectionSchema}: MigrateCollectionParams) {
+    const existingIndexNames = (this._collectionIndexes[collectionName] ?? []).map(getIndexName);
+    const indexNames = collectionSchema.indexes.map(getIndexName);
+
     const result: MigrateCollectionResult = {
       name: collectionName,
-      createdIndexes: [],
-      droppedIndexes: []
+      createdIndexes: indexNames.filter((name) => !existingIndexNames.includes(name)),
+      droppedIndexes: existingIndexNames.filter((name) => !indexNames.includes(name))
     };
 
+    this._collectionIndexes[collectionName] = collectionSchema.indexes;
+
+    this._updateExpirySweep();
+
     return result;
   }
+
+  // === Indexes ===
+
+  // The indexes are only known once the collections have been migrated
+  // (with the `migrateStorables()` method), like with any other store
+  _collectionIndexes: {[collectionName: string]: CollectionIndex[]} = {};
+
+  _getUniqueIndexes(collectionName: string) {
+    return (this._collectionIndexes[collectionName] ?? []).filter(
+      (index) => index.isUnique && !index.isText && !index.isGeospatial
+    );
+  }
+
+  _assertNoDuplicateKeys(
+    collectionName: string,
+    document: Document,
+    {action, existingDocument}: {action: 'creating' | 'updating'; existingDocument?: Document}
+  ) {
+    const uniqueIndexes = this._getUniqueIndexes(collectionName);
+
+    if (uniqueIndexes.length === 0) {
+      return;
+    }
+
+    const collection = this._getCollection(collectionName);
+    const lookupDocument = this._getDocumentLookupFunction();
+
+    for (const index of uniqueIndexes) {
+      if (!documentIsHeldByIndex(document, index, lookupDocument)) {
+        continue;
+      }
+
+      const key = getIndexKey(document, index);
+
+      const duplicateDocument = collection.find(
+        (otherDocument) =>
+          otherDocument !== existingDocument &&
+          documentIsHeldByIndex(otherDocument, index, lookupDocument) &&
+          isEqual(getIndexKey(otherDocument, index), key)
+      );
+
+      if (duplicateDocument !== undefined) {
+        const indexName = getIndexName(index);
+
+        throw Object.assign(
+          new Error(
+            `A duplicate key error occurred while ${action} a memory document (collection: '${collectionName}', index: '${indexName}')`
+          ),
+          {code: 'DUPLICATE_KEY_ERROR', collectionName, indexName}
+        );
+      }
+    }
+  }
+
+  _applyDocumentPatch(collectionName: string, document: Document, documentPatch: DocumentPatch) {
+    if (this._getUniqueIndexes(collectionName).length !== 0) {
+      // The patch is first applied to a copy of the document
+      // so the document is left untouched in case of duplicate key error
+      const patchedDocument = cloneDeep(document);
+      applyDocumentPatch(patchedDocument, documentPatch);
+
+      this._assertNoDuplicateKeys(collectionName, patchedDocument, {
+        action: 'updating',
+        existingDocument: document
+      });
+    }
+
+    if (this.getCurrentTransaction() !== undefined) {
+      this._recordUndoOperation(createPatchUndoOperation(document, documentPatch));
+    }
+
+    applyDocumentPatch(document, documentPatch);
+  }
+
+  // In a transaction, each modification of a collection is recorded with an operation
+  // undoing it, so the transaction can be rolled back (see `abortTransaction()`)
+
+  _insertDocument(collection: Collection, document: Document) {
+    collection.push(document);
+
+    this._recordUndoOperation(() => {
+      pull(collection, document);
+    });
+  }
+
+  _removeDocument(collection: Collection, document: Document) {
+    const index = collection.indexOf(document);
+
+    collection.splice(index, 1);
+
+    this._recordUndoOperation(() => {
+      collection.splice(Math.min(index, collection.length), 0, document);
+    });
+  }
+
+  _recordUndoOperation(undoOperation: () => void) {
+    const transaction = this.getCurrentTransaction() as MemoryTransaction | undefined;
+
+    if (transaction !== undefined) {
+      transaction.undoOperations.push(undoOperation);
+    }
+  }
+
+  // === Expiration ===
+
+  _expirySweepInterval: number;
+
+  _expirySweepTimer: ReturnType<typeof setInterval> | undefined;
+
+  _updateExpirySweep() {
+    const hasTTLIndexes = Object.values(this._collectionIndexes).some((indexes) =>
+      indexes.some((index) => index.expireAfterSeconds !== undefined)
+    );
+
+    if (!hasTTLIndexes) {
+      this.stopExpirySweep();
+      return;
+    }
+
+    if (this._expirySweepTimer === undefined) {
+      this._expirySweepTimer = setInterval(() => {
+        this.sweepExpiredDocuments();
+      }, this._expirySweepInterval);
+
+      // The sweep should not prevent the execution environment from exiting
+      this._expirySweepTimer.unref?.();
+    }
+  }
+
+  /**
+   * Removes the documents that are expired according to the [TTL indexes](https://layrjs.com/docs/v1/reference/index#ttl-indexes) of the store.
+   *
+   * This method is automatically called in the background (see the `expirySweepInterval` option of the [`MemoryStore`'s constructor](https://layrjs.com/docs/v1/reference/memory-store#constructor)) once some TTL indexes have been created with the [`migrateStorables()`](https://layrjs.com/docs/v1/reference/store#migrate-storables-instance-method) method, but you can call it to remove the expired documents immediately.
+   *
+   * Note that, like with the TTL indexes of MongoDB, the hooks of the storable components are not called when the documents are removed.
+   *
+   * @returns The number of documents that were removed.
+   *
+   * @example
+   * ```
+   * const removedDocumentCount = store.sweepExpiredDocuments();
+   * ```
+   *
+   * @category Expiration
+   */
+  sweepExpiredDocuments() {
+    // The documents cannot be removed while a transaction is running outside of the sweep
+    // (they are removed by the next sweep)
+    if (this._openTransaction !== undefined && this.getCurrentTransaction() === undefined) {
+      return 0;
+    }
+
+    const now = Date.now();
+    const lookupDocument = this._getDocumentLookupFunction();
+
+    let removedDocumentCount = 0;
+
+    for (const [collectionName, indexes] of Object.entries(this._collectionIndexes)) {
+      const ttlIndexes = indexes.filter((index) => index.expireAfterSeconds !== undefined);
+
+      if (ttlIndexes.length === 0) {
+        continue;
+      }
+
+      const primaryIndex = indexes.find((index) => index.isPrimary);
+      const primaryIdentifierPath =
+        primaryIndex !== undefined ? Object.keys(primaryIndex.attributes)[0] : 'id';
+
+      const collection = this._getCollection(collectionName);
+
+      const expiredDocuments = collection.filter((document) =>
+        ttlIndexes.some((index) => documentIsExpired(document, index, {now, lookupDocument}))
+      );
+
+      for (const document of expiredDocuments) {
+        this._removeDocument(collection, document);
+
+        this._reportChange(collectionName, {
+          type: 'deleted',
+          identifierDescriptor: {[primaryIdentifierPath]: get(document, primaryIdentifierPath)},
+          document: cloneDeep(document)
+        });
+
+        removedDocumentCount++;
+      }
+    }
+
+    return removedDocumentCount;
+  }
+
+  /**
+   * Stops the background removal of the expired documents (see the [`sweepExpiredDocuments()`](https://layrjs.com/docs/v1/reference/memory-store#sweep-expired-documents-instance-method) method).
+   *
+   * The background removal is automatically restarted when some TTL indexes are migrated again.
+   *
+   * @category Expiration
+   */
+  stopExpirySweep() {
+    if (this._expirySweepTimer !== undefined) {
+      clearInterval(this._expirySweepTimer);
+      this._expirySweepTimer = undefined;
+    }
+  }
+}
+
+// Since a document cannot be modified outside of a running transaction,
+// restoring the paths modified by the patch restores the whole document
+function createPatchUndoOperation(document: Document, documentPatch: DocumentPatch) {
+  const previousValues = new Map<Path, unknown>();
+
+  for (const operation of Object.values(documentPatch)) {
+    for (const path of Object.keys(operation ?? {})) {
+      previousValues.set(path, has(document, path) ? cloneDeep(get(document, path)) : NO_VALUE);
+    }
+  }
+
+  return () => {
+    for (const [path, value] of previousValues) {
+      if (value === NO_VALUE) {
+        unset(document, path);
+      } else {
+        set(document, path, value);
+      }
+    }
+  };
+}
+
+// A name that is similar to the name of a MongoDB index (e.g., 'email [unique]')
+function getIndexName({
+  attributes,
+  isUnique,
+  isText,
+  isGeospatial,
+  isCaseInsensitive,
+  expireAfterSeconds,
+  partialFilter
+}: CollectionIndex) {
+  let name = Object.entries(attributes)
+    .map(([path, direction]) => (direction === 'desc' ? `${path} (desc)` : path))
+    .join(' + ');
+
+  if (isUnique) {
+    name += ' [unique]';
+  }
+
+  if (isText) {
+    name += ' [text]';
+  }
+
+  if (isGeospatial) {
+    name += ' [2dsphere]';
+  }
+
+  if (isCaseInsensitive) {
+    name += ' [case-insensitive]';
+  }
+
+  if (expireAfterSeconds !== undefined) {
+    name += ` [ttl: ${expireAfterSeconds}]`;
+  }
+
+  if (partialFilter !== undefined) {
+    name += ' [partial]';
+  }
+
+  return name;
 }
 
-function filterDocuments(documents: Document[], expressions: Expression[]) {
+// Like with MongoDB, a missing value is indexed as well,
+// so two documents with a missing value are considered as duplicates
+function getIndexKey(document: Document, {attributes, isCaseInsensitive}: CollectionIndex) {
+  return Object.keys(attributes).map((path) => {
+    const value = get(document, path);
+
+    return isCaseInsensitive && typeof value === 'string' ? value.toLowerCase() : value;
+  });
+}
+
+function documentIsHeldByIndex(
+  document: Document,
+  {partialFilter}: CollectionIndex,
+  lookupDocument: DocumentLookupFunction
+) {
+  return (
+    partialFilter === undefined ||
+    documentIsMatchingExpressions(document, partialFilter, lookupDocument)
+  );
+}
+
+// Like with MongoDB, when the indexed value is an array,
+// the document expires according to the earliest date
+function documentIsExpired(
+  document: Document,
+  index: CollectionIndex,
+  {now, lookupDocument}: {now: number; lookupDocument: DocumentLookupFunction}
+) {
+  if (!documentIsHeldByIndex(document, index, lookupDocument)) {
+    return false;
+  }
+
+  // The indexed attributes that do not hold a date (e.g., a tenant prefix) are ignored
+  const dates = Object.keys(index.attributes)
+    .flatMap((path) => castArray(get(document, path)))
+    .filter((value): value is Date => value instanceof Date);
+
+  return dates.some((date) => date.getTime() + index.expireAfterSeconds! * 1000 <= now);
+}
+
+function filterDocuments(
+  documents: Document[],
+  expressions: Expression[],
+  lookupDocument: DocumentLookupFunction
+) {
   if (expressions.length === 0) {
     return documents; // Optimization
   }
 
-  return documents.filter((document) => documentIsMatchingExpressions(document, expressions));
+  return documents.filter((document) =>
+    documentIsMatchingExpressions(document, expressions, lookupDocument)
+  );
 }
 
-function documentIsMatchingExpressions(document: Document, expressions: Expression[]) {
+function documentIsMatchingExpressions(
+  document: Document,
+  expressions: Expression[],
+  lookupDocument: DocumentLookupFunction
+) {
   for (const [path, operator, operand] of expressions) {
     const attributeValue = path !== '' ? get(document, path) : document;
 
-    if (evaluateExpression(attributeValue, operator, operand, {path}) === false) {
+    if (evaluateExpression(attributeValue, operator, operand, {path, lookupDocument}) === false) {
       return false;
     }
   }
@@ -270,7 +1045,7 @@ function evaluateExpression(
   attributeValue: any,
   operator: Operator,
   operand: any,
-  {path}: {path: Path}
+  {path, lookupDocument}: {path: Path; lookupDocument: DocumentLookupFunction}
 ) {
   // --- Basic operators ---
 
@@ -347,7 +1122,7 @@ function evaluateExpression(
     const subexpressions = operand;
 
     return subdocuments.some((subdocument) =>
-      documentIsMatchingExpressions(subdocument, subexpressions)
+      documentIsMatchingExpressions(subdocument, subexpressions, lookupDocument)
     );
   }
 
@@ -360,7 +1135,7 @@ function evaluateExpression(
     const subexpressions = operand;
 
     return subdocuments.every((subdocument) =>
-      documentIsMatchingExpressions(subdocument, subexpressions)
+      documentIsMatchingExpressions(subdocument, subexpressions, lookupDocument)
     );
   }
 
@@ -372,19 +1147,59 @@ function evaluateExpression(
     return attributeValue.length === operand;
   }
 
+  // --- Text operators ---
+
+  if (operator === '$search') {
+    return computeRelevanceScore(attributeValue, operand) > 0;
+  }
+
+  // --- Geospatial operators ---
+
+  if (operator === '$near') {
+    if (!isGeoPoint(attributeValue)) {
+      return false;
+    }
+
+    const {point, maxDistance} = operand as GeoNearOperand;
+
+    return maxDistance === undefined || computeDistance(attributeValue, point) <= maxDistance;
+  }
+
+  if (operator === '$withinPolygon') {
+    if (!isGeoPoint(attributeValue)) {
+      return false;
+    }
+
+    return pointIsInPolygon(attributeValue, operand);
+  }
+
+  // --- Lookup operator ---
+
+  if (operator === '$lookup') {
+    const {expressions: subexpressions, ...lookup} = operand as LookupOperand;
+
+    const referencedDocument = lookupDocument(lookup, attributeValue);
+
+    if (referencedDocument === undefined) {
+      return false;
+    }
+
+    return documentIsMatchingExpressions(referencedDocument, subexpressions, lookupDocument);
+  }
+
   // --- Logical operators ---
 
   if (operator === '$not') {
     const subexpressions = operand;
 
-    return !documentIsMatchingExpressions(attributeValue, subexpressions);
+    return !documentIsMatchingExpressions(attributeValue, subexpressions, lookupDocument);
   }
 
   if (operator === '$and') {
     const andSubexpressions = operand as any[];
 
     return andSubexpressions.every((subexpressions) =>
-      documentIsMatchingExpressions(attributeValue, subexpressions)
+      documentIsMatchingExpressions(attributeValue, subexpressions, lookupDocument)
     );
   }
 
@@ -392,7 +1207,7 @@ function evaluateExpression(
     const orSubexpressions = operand as any[];
 
     return orSubexpressions.some((subexpressions) =>
-      documentIsMatchingExpressions(attributeValue, subexpressions)
+      documentIsMatchingExpressions(attributeValue, subexpressions, lookupDocument)
     );
   }
 
@@ -400,7 +1215,7 @@ function evaluateExpression(
     const norSubexpressions = operand as any[];
 
     return !norSubexpressions.some((subexpressions) =>
-      documentIsMatchingExpressions(attributeValue, subexpressions)
+      documentIsMatchingExpressions(attributeValue, subexpressions, lookupDocument)
     );
   }
 
@@ -409,13 +1224,200 @@ function evaluateExpression(
   );
 }
 
-function sortDocuments(documents: Document[], sort: SortDescriptor | undefined) {
-  if (sort === undefined) {
+function groupDocuments(
+  documents: Document[],
+  {groupBy, aggregates}: {groupBy: Path[]; aggregates: DocumentAggregates}
+) {
+  const groups = new Map<string, Document[]>();
+
+  for (const document of documents) {
+    const key = JSON.stringify(groupBy.map((path) => get(document, path) ?? null));
+
+    let group = groups.get(key);
+
+    if (group === undefined) {
+      group = [];
+      groups.set(key, group);
+    }
+
+    group.push(document);
+  }
+
+  const groupedDocuments: Document[] = [];
+
+  for (const group of groups.values()) {
+    const groupedDocument: Document = {};
+
+    for (const path of groupBy) {
+      groupedDocument[path] = get(group[0], path);
+    }
+
+    for (const [name, {operator, path}] of Object.entries(aggregates)) {
+      groupedDocument[name] = evaluateAggregator(group, operator, path);
+    }
+
+    groupedDocuments.push(groupedDocument);
+  }
+
+  return groupedDocuments;
+}
+
+function evaluateAggregator(
+  documents: Document[],
+  operator: AggregateOperator,
+  path: Path | undefined
+) {
+  if (operator === '$count') {
+    return documents.length;
+  }
+
+  const values = documents
+    .map((document) => get(document, path!))
+    .filter((value) => value !== undefined && value !== null);
+
+  if (operator === '$sum' || operator === '$average') {
+    const numbers = values.filter((value) => typeof value === 'number') as number[];
+    const sum = numbers.reduce((sum, number) => sum + number, 0);
+
+    if (operator === '$sum') {
+      return sum;
+    }
+
+    return numbers.length > 0 ? sum / numbers.length : undefined;
+  }
+
+  if (operator === '$min') {
+    return values.reduce(
+      (min, value) => (min === undefined || value < min ? value : min),
+      undefined
+    );
+  }
+
+  if (operator === '$max') {
+    return values.reduce(
+      (max, value) => (max === undefined || value > max ? value : max),
+      undefined
+    );
+  }
+
+  throw new Error(`An aggregate operator is not supported (operator: '${operator}')`);
+}
+
+// A naive emulation of a text index: the relevance score of a document is the number
+// of occurrences of the searched words in the indexed attributes
+function computeRelevanceScore(document: Document, {text, paths}: TextSearchOperand) {
+  const words = new Set(tokenizeText(text));
+
+  let score = 0;
+
+  for (const path of paths) {
+    for (const value of castArray(get(document, path))) {
+      if (typeof value !== 'string') {
+        continue;
+      }
+
+      for (const token of tokenizeText(value)) {
+        if (words.has(token)) {
+          score++;
+        }
+      }
+    }
+  }
+
+  return score;
+}
+
+function tokenizeText(text: string) {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token !== '');
+}
+
+const EARTH_RADIUS = 6378100; // In meters (same value as MongoDB)
+
+// Returns the distance in meters between two points by using the haversine formula
+function computeDistance(point1: GeoPoint, point2: GeoPoint) {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+  const [longitude1, latitude1] = point1.coordinates.map(toRadians);
+  const [longitude2, latitude2] = point2.coordinates.map(toRadians);
+
+  const haversine =
+    Math.sin((latitude2 - latitude1) / 2) ** 2 +
+    Math.cos(latitude1) * Math.cos(latitude2) * Math.sin((longitude2 - longitude1) / 2) ** 2;
+
+  return 2 * EARTH_RADIUS * Math.asin(Math.min(Math.sqrt(haversine), 1));
+}
+
+// Uses the ray casting algorithm with planar coordinates,
+// which is a good enough approximation for reasonably small polygons
+function pointIsInPolygon(point: GeoPoint, polygon: GeoPolygonOperand) {
+  const [x, y] = point.coordinates;
+
+  let isInside = false;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      isInside = !isInside;
+    }
+  }
+
+  return isInside;
+}
+
+function buildQueryPlan(collection: Collection): QueryPlan {
+  return {strategy: 'collectionScan', scannedDocuments: collection.length};
+}
+
+function sortDocuments(
+  documents: Document[],
+  sort: SortDescriptor | undefined,
+  {
+    expressions = [],
+    lookups = {},
+    lookupDocument
+  }: {
+    expressions?: Expression[];
+    lookups?: FindDocumentsParams['lookups'];
+    lookupDocument: DocumentLookupFunction;
+  }
+) {
+  if (sort === undefined || isEmpty(sort)) {
+    // Like MongoDB, sort by distance when there is a '$near' expression and no explicit sort
+    const nearExpression = expressions.find(([, operator]) => operator === '$near');
+
+    if (nearExpression !== undefined) {
+      const [path, , operand] = nearExpression;
+      const {point} = operand as GeoNearOperand;
+
+      return sortOn(documents, (document: Document) => computeDistance(get(document, path), point));
+    }
+
     return documents;
   }
 
   const properties = Object.entries(sort).map(([name, direction]) => {
-    let property = name;
+    if (name === '$relevance') {
+      const searchExpression = expressions.find(([, operator]) => operator === '$search');
+
+      if (searchExpression === undefined) {
+        throw new Error(`The '$relevance' sort requires a '$search' expression`);
+      }
+
+      const operand = searchExpression[2] as TextSearchOperand;
+
+      return (item: SortItem) => -computeRelevanceScore(item.document, operand);
+    }
+
+    // A path going through a lookup (e.g., 'director.fullName') is resolved
+    // in the referenced documents that are attached to the items to sort
+    const isLookupPath = Object.keys(lookups).some((path) => name.startsWith(`${path}.`));
+
+    let property = isLookupPath ? `referencedDocuments.${name}` : `document.${name}`;
 
     if (direction.toLowerCase() === 'desc') {
       property = `-${property}`;
@@ -424,7 +1426,17 @@ function sortDocuments(documents: Document[], sort: SortDescriptor | undefined)
     return property;
   });
 
-  return sortOn(documents, properties);
+  const items: SortItem[] = documents.map((document) => {
+    const referencedDocuments: Document = {};
+
+    for (const [path, lookup] of Object.entries(lookups)) {
+      set(referencedDocuments, path, lookupDocument(lookup, get(document, path)));
+    }
+
+    return {document, referencedDocuments};
+  });
+
+  return sortOn(items, properties).map(({document}) => document);
 }
 
 function skipDocuments(documents: Document[], skip: number | undefined) {
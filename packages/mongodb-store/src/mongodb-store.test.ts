@@ -6,7 +6,8 @@ import {
   secondaryIdentifier,
   attribute
 } from '@layr/storable';
-import {MongoMemoryServer} from 'mongodb-memory-server';
+import type {DocumentChange} from '@layr/store';
+import {MongoMemoryServer, MongoMemoryReplSet} from 'mongodb-memory-server';
 
 import {MongoDBStore} from './mongodb-store';
 
@@ -35,6 +36,8 @@ describe('MongoDBStore', () => {
         @attribute('number') year!: number;
 
         @attribute('Person') director!: Person;
+
+        @attribute('Date?') releasedAt?: Date;
       }
 
       movieClass = Movie;
@@ -140,6 +143,35 @@ describe('MongoDBStore', () => {
           {name: 'Person', createdIndexes: [], droppedIndexes: []}
         ]
       });
+
+      movieClass.prototype.setIndex(
+        {title: 'asc'},
+        {isUnique: true, isCaseInsensitive: true, partialFilter: {year: {$greaterThan: 2000}}}
+      );
+
+      result = await store.migrateStorables({silent: true});
+
+      expect(result).toStrictEqual({
+        collections: [
+          {
+            name: 'Movie',
+            createdIndexes: ['title [unique] [case-insensitive] [partial: {"year":{"$gt":2000}}]'],
+            droppedIndexes: []
+          },
+          {name: 'Person', createdIndexes: [], droppedIndexes: []}
+        ]
+      });
+
+      movieClass.prototype.setIndex({releasedAt: 'asc'}, {expireAfterSeconds: 3600});
+
+      result = await store.migrateStorables({silent: true});
+
+      expect(result).toStrictEqual({
+        collections: [
+          {name: 'Movie', createdIndexes: ['releasedAt [ttl: 3600]'], droppedIndexes: []},
+          {name: 'Person', createdIndexes: [], droppedIndexes: []}
+        ]
+      });
     });
   });
 
@@ -160,11 +192,46 @@ describe('MongoDBStore', () => {
         collectionName: 'Movie',
         collectionSchema: {
           indexes: [
-            {attributes: {_id: 'asc'}, isPrimary: true, isUnique: true},
-            {attributes: {slug: 'asc'}, isPrimary: false, isUnique: true},
-            {attributes: {title: 'asc'}, isPrimary: false, isUnique: false},
-            {attributes: {year: 'desc'}, isPrimary: false, isUnique: false},
-            {attributes: {year: 'desc', title: 'asc'}, isPrimary: false, isUnique: true}
+            {
+              attributes: {_id: 'asc'},
+              isPrimary: true,
+              isUnique: true,
+              isText: false,
+              isGeospatial: false,
+              isCaseInsensitive: false
+            },
+            {
+              attributes: {slug: 'asc'},
+              isPrimary: false,
+              isUnique: true,
+              isText: false,
+              isGeospatial: false,
+              isCaseInsensitive: false
+            },
+            {
+              attributes: {title: 'asc'},
+              isPrimary: false,
+              isUnique: false,
+              isText: false,
+              isGeospatial: false,
+              isCaseInsensitive: false
+            },
+            {
+              attributes: {year: 'desc'},
+              isPrimary: false,
+              isUnique: false,
+              isText: false,
+              isGeospatial: false,
+              isCaseInsensitive: false
+            },
+            {
+              attributes: {year: 'desc', title: 'asc'},
+              isPrimary: false,
+              isUnique: true,
+              isText: false,
+              isGeospatial: false,
+              isCaseInsensitive: false
+            }
           ]
         },
         silent: true
@@ -177,6 +244,11 @@ describe('MongoDBStore', () => {
       await server?.stop();
     });
 
+    test('supportsTransactions()', async () => {
+      // The transactions are not available on a standalone server
+      expect(await store.supportsTransactions()).toBe(false);
+    });
+
     test('createDocument()', async () => {
       expect(
         await store.createDocument({
@@ -300,5 +372,321 @@ describe('MongoDBStore', () => {
         "A duplicate key error occurred while updating a MongoDB document (collection: 'Movie', index: 'year (desc) + title [unique]')"
       );
     });
+
+    test('updateDocuments() and deleteDocuments()', async () => {
+      await store.createDocument({
+        collectionName: 'Movie',
+        identifierDescriptor: {_id: 'movie1'},
+        document: {
+          __component: 'Movie',
+          _id: 'movie1',
+          slug: 'inception',
+          title: 'Inception',
+          year: 2010,
+          version: 1
+        }
+      });
+
+      const results = await store.updateDocuments({
+        collectionName: 'Movie',
+        documentPatches: [
+          {
+            identifierDescriptor: {_id: 'movie1'},
+            documentPatch: {$set: {year: 2011, version: 2}},
+            expectedVersion: {path: 'version', value: 1}
+          },
+          {
+            identifierDescriptor: {_id: 'movie1'},
+            documentPatch: {$set: {year: 2012, version: 2}},
+            expectedVersion: {path: 'version', value: 1}
+          },
+          {
+            identifierDescriptor: {_id: 'movie2'},
+            documentPatch: {$set: {year: 2021}}
+          }
+        ]
+      });
+
+      expect(results[0]).toBe(true);
+      expect(results[1]).toBeInstanceOf(Error);
+      expect((results[1] as Error).message).toBe(
+        "Cannot update a MongoDB document that doesn't have the expected version (collection: 'Movie', expected version: 1)"
+      );
+      expect(results[2]).toBe(false);
+
+      expect(
+        await store.readDocument({collectionName: 'Movie', identifierDescriptor: {_id: 'movie1'}})
+      ).toMatchObject({year: 2011, version: 2});
+
+      expect(
+        await store.deleteDocuments({
+          collectionName: 'Movie',
+          identifierDescriptors: [{_id: 'movie1'}, {_id: 'movie1'}, {_id: 'movie2'}]
+        })
+      ).toStrictEqual([true, false, false]);
+    });
+
+    test('upsertDocument()', async () => {
+      expect(
+        await store.upsertDocument({
+          collectionName: 'Movie',
+          expressions: [['slug', '$equal', 'inception']],
+          documentPatch: {$set: {title: 'Inception'}, $inc: {version: 1}},
+          identifierDescriptor: {_id: 'movie1'},
+          document: {
+            __component: 'Movie',
+            _id: 'movie1',
+            slug: 'inception',
+            title: 'Inception',
+            version: 1
+          }
+        })
+      ).toStrictEqual({
+        document: {
+          __component: 'Movie',
+          _id: 'movie1',
+          slug: 'inception',
+          title: 'Inception',
+          version: 1
+        },
+        wasCreated: true
+      });
+
+      expect(
+        await store.upsertDocument({
+          collectionName: 'Movie',
+          expressions: [['slug', '$equal', 'inception']],
+          documentPatch: {$set: {title: 'Inception (upserted)'}, $inc: {version: 1}},
+          identifierDescriptor: {_id: 'movie2'},
+          document: {
+            __component: 'Movie',
+            _id: 'movie2',
+            slug: 'inception',
+            title: 'Inception (upserted)',
+            version: 1
+          }
+        })
+      ).toStrictEqual({
+        document: {
+          __component: 'Movie',
+          _id: 'movie1',
+          slug: 'inception',
+          title: 'Inception (upserted)',
+          version: 2
+        },
+        wasCreated: false
+      });
+    });
+  });
+
+  // The transactions are only available on a replica set
+  describe('Transactions', () => {
+    let replSet: MongoMemoryReplSet;
+    let store: MongoDBStore;
+
+    beforeEach(async () => {
+      replSet = new MongoMemoryReplSet({replSet: {storageEngine: 'wiredTiger'}});
+
+      await replSet.waitUntilRunning();
+
+      store = new MongoDBStore(await replSet.getUri());
+
+      await store.connect();
+
+      // A collection cannot be created in a transaction
+      await store.createDocument({
+        collectionName: 'Movie',
+        identifierDescriptor: {_id: 'movie1'},
+        document: {__component: 'Movie', _id: 'movie1', title: 'Inception'}
+      });
+    });
+
+    afterEach(async () => {
+      await store?.disconnect();
+
+      await replSet?.stop();
+    });
+
+    test('supportsTransactions()', async () => {
+      expect(await store.supportsTransactions()).toBe(true);
+    });
+
+    test('transaction()', async () => {
+      await store.transaction(async () => {
+        await store.updateDocument({
+          collectionName: 'Movie',
+          identifierDescriptor: {_id: 'movie1'},
+          documentPatch: {$set: {title: 'Inception (committed)'}}
+        });
+      });
+
+      await expect(
+        store.transaction(async () => {
+          await store.updateDocument({
+            collectionName: 'Movie',
+            identifierDescriptor: {_id: 'movie1'},
+            documentPatch: {$set: {title: 'Inception (aborted)'}}
+          });
+
+          throw new Error('Something went wrong');
+        })
+      ).rejects.toThrow('Something went wrong');
+
+      expect(
+        await store.readDocument({collectionName: 'Movie', identifierDescriptor: {_id: 'movie1'}})
+      ).toStrictEqual({__component: 'Movie', _id: 'movie1', title: 'Inception (committed)'});
+    });
+
+    test('transaction() with a write conflict', async () => {
+      let continueFirstTransaction!: () => void;
+      const firstTransactionCanContinue = new Promise<void>((resolve) => {
+        continueFirstTransaction = resolve;
+      });
+
+      let secondTransactionAttemptCount = 0;
+
+      const firstTransaction = store.transaction(async () => {
+        await store.updateDocument({
+          collectionName: 'Movie',
+          identifierDescriptor: {_id: 'movie1'},
+          documentPatch: {$set: {title: 'Inception (first)'}}
+        });
+
+        await firstTransactionCanContinue;
+      });
+
+      // Wait for the first transaction to modify the document
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      // The second transaction is retried until the first one is committed
+      const secondTransaction = store.transaction(async () => {
+        secondTransactionAttemptCount++;
+
+        if (secondTransactionAttemptCount === 2) {
+          continueFirstTransaction();
+        }
+
+        await store.updateDocument({
+          collectionName: 'Movie',
+          identifierDescriptor: {_id: 'movie1'},
+          documentPatch: {$set: {title: 'Inception (second)'}}
+        });
+      });
+
+      await firstTransaction;
+      await secondTransaction;
+
+      expect(secondTransactionAttemptCount).toBeGreaterThan(1);
+
+      expect(
+        await store.readDocument({collectionName: 'Movie', identifierDescriptor: {_id: 'movie1'}})
+      ).toStrictEqual({__component: 'Movie', _id: 'movie1', title: 'Inception (second)'});
+    });
+  });
+
+  // The change streams are only available on a replica set
+  describe('Changes', () => {
+    let replSet: MongoMemoryReplSet;
+    let store: MongoDBStore;
+
+    beforeEach(async () => {
+      replSet = new MongoMemoryReplSet({replSet: {storageEngine: 'wiredTiger'}});
+
+      await replSet.waitUntilRunning();
+
+      store = new MongoDBStore(await replSet.getUri());
+
+      await store.connect();
+    });
+
+    afterEach(async () => {
+      await store?.disconnect();
+
+      await replSet?.stop();
+    });
+
+    test('watchDocuments()', async () => {
+      const allChanges: DocumentChange[] = [];
+      const recentChanges: DocumentChange[] = [];
+      const errors: unknown[] = [];
+
+      const unwatchAll = await store.watchDocuments({
+        collectionName: 'Movie',
+        expressions: [],
+        callback: (change) => allChanges.push(change),
+        onError: (error) => errors.push(error)
+      });
+
+      const unwatchRecent = await store.watchDocuments({
+        collectionName: 'Movie',
+        expressions: [['year', '$greaterThanOrEqual', 2010]],
+        callback: (change) => recentChanges.push(change),
+        onError: (error) => errors.push(error)
+      });
+
+      // Let the change streams start before making some changes
+      await sleep(500);
+
+      await store.createDocument({
+        collectionName: 'Movie',
+        identifierDescriptor: {_id: 'movie1'},
+        document: {__component: 'Movie', _id: 'movie1', title: 'Inception', year: 2010}
+      });
+
+      await store.createDocument({
+        collectionName: 'Movie',
+        identifierDescriptor: {_id: 'movie2'},
+        document: {__component: 'Movie', _id: 'movie2', title: 'Forrest Gump', year: 1994}
+      });
+
+      await store.updateDocument({
+        collectionName: 'Movie',
+        identifierDescriptor: {_id: 'movie1'},
+        documentPatch: {$set: {title: 'Inception 2'}}
+      });
+
+      // Let the current state of the updated document be looked up before deleting it
+      await sleep(500);
+
+      await store.deleteDocument({
+        collectionName: 'Movie',
+        identifierDescriptor: {_id: 'movie1'}
+      });
+
+      await sleep(1000);
+
+      await unwatchAll();
+      await unwatchRecent();
+
+      const movie1 = {__component: 'Movie', _id: 'movie1', title: 'Inception', year: 2010};
+      const movie2 = {__component: 'Movie', _id: 'movie2', title: 'Forrest Gump', year: 1994};
+
+      expect(errors).toStrictEqual([]);
+
+      expect(allChanges).toStrictEqual([
+        {type: 'created', identifierDescriptor: {_id: 'movie1'}, document: movie1},
+        {type: 'created', identifierDescriptor: {_id: 'movie2'}, document: movie2},
+        {
+          type: 'updated',
+          identifierDescriptor: {_id: 'movie1'},
+          document: {...movie1, title: 'Inception 2'}
+        },
+        {type: 'deleted', identifierDescriptor: {_id: 'movie1'}}
+      ]);
+
+      // The deletions are not reported to the watchers that have a query
+      expect(recentChanges).toStrictEqual([
+        {type: 'created', identifierDescriptor: {_id: 'movie1'}, document: movie1},
+        {
+          type: 'updated',
+          identifierDescriptor: {_id: 'movie1'},
+          document: {...movie1, title: 'Inception 2'}
+        }
+      ]);
+    });
   });
 });
+
+function sleep(duration: number) {
+  return new Promise((resolve) => setTimeout(resolve, duration));
+}
@@ -4,27 +4,62 @@ import {
   ReadDocumentParams,
   UpdateDocumentParams,
   DeleteDocumentParams,
+  UpsertDocumentParams,
+  CreateDocumentsParams,
+  UpdateDocumentsParams,
+  DeleteDocumentsParams,
+  DocumentOperationResult,
   FindDocumentsParams,
   CountDocumentsParams,
+  AggregateDocumentsParams,
+  ExplainDocumentsParams,
   MigrateCollectionParams,
   MigrateCollectionResult,
+  TransactionParams,
+  WatchDocumentsParams,
+  DocumentChange,
   Document,
+  DocumentPatch,
   Expression,
+  TextSearchOperand,
+  GeoNearOperand,
+  GeoPolygonOperand,
+  LookupOperand,
   Path,
-  Operand
+  Operand,
+  ExpectedVersion,
+  StoreOptions,
+  runDocumentOperations
 } from '@layr/store';
 import type {
   StorableComponent,
   Query,
   SortDescriptor,
   SortDirection,
+  AggregateOperator,
   Operator
 } from '@layr/storable';
-import {ensureComponentInstance} from '@layr/component';
-import {MongoClient, Db, Collection, FilterQuery, FindOneOptions} from 'mongodb';
+import {
+  ensureComponentInstance,
+  NormalizedIdentifierDescriptor,
+  IdentifierValue
+} from '@layr/component';
+import {
+  MongoClient,
+  Db,
+  Collection,
+  ClientSession,
+  FilterQuery,
+  FindOneOptions,
+  BulkWriteOperation,
+  ChangeEvent,
+  IndexOptions,
+  CollationDocument
+} from 'mongodb';
 import {Microbatcher, Operation} from 'microbatcher';
 import {hasOwnProperty, assertIsObjectLike} from 'core-helpers';
 import isEmpty from 'lodash/isEmpty';
+import isEqual from 'lodash/isEqual';
 import mapKeys from 'lodash/mapKeys';
 import mapValues from 'lodash/mapValues';
 import escapeRegExp from 'lodash/escapeRegExp';
@@ -37,6 +72,17 @@ const debug = debugModule('layr:mongodb-store');
 
 const MONGODB_PRIMARY_IDENTIFIER_ATTRIBUTE_NAME = '_id';
 const MONGODB_PRIMARY_IDENTIFIER_ATTRIBUTE_INDEX_NAME = '_id_';
+const MONGODB_TEXT_SCORE_NAME = '__textScore';
+const MONGODB_LOOKUP_FIELD_PREFIX = '__lookup';
+// A strength of 2 compares the base characters and the diacritics, but not the case
+const MONGODB_CASE_INSENSITIVE_COLLATION: CollationDocument = {locale: 'en', strength: 2};
+
+const MONGODB_MAX_TIME_MS_EXPIRED_ERROR_CODE = 50;
+const MONGODB_COMMIT_RETRY_TIMEOUT = 2 * 60 * 1000;
+
+const EARTH_RADIUS = 6378100; // In meters
+
+type MongoDBDocument = Document & {_id: IdentifierValue};
 
 /**
  * *Inherits from [`Store`](https://layrjs.com/docs/v1/reference/store).*
@@ -130,6 +176,10 @@ export class MongoDBStore extends Store {
    *
    * @param connectionString The [connection string](https://docs.mongodb.com/manual/reference/connection-string/) of the MongoDB database to use.
    * @param [options.poolSize] A number specifying the maximum size of the connection pool (default: `1`).
+   * @param [options.keyProvider] A function returning the key that is used to [encrypt](https://layrjs.com/docs/v1/reference/storable-attribute#encryption) the encrypted attributes (see the [`Store`'s constructor](https://layrjs.com/docs/v1/reference/store#constructor)).
+   * @param [options.tenantResolver] A function returning the current tenant when several customers share the store (see the [`Store`'s constructor](https://layrjs.com/docs/v1/reference/store#constructor)).
+   * @param [options.tenantIsolation] How the documents of the tenants are isolated from each other: `'attribute'` (default) or `'collection'` (see the [`Store`'s constructor](https://layrjs.com/docs/v1/reference/store#constructor)).
+   * @param [options.actorResolver] A function returning the current actor that is recorded in the history of the storable components (see the [`Store`'s constructor](https://layrjs.com/docs/v1/reference/store#constructor)).
    *
    * @returns The [`MongoDBStore`](https://layrjs.com/docs/v1/reference/mongodb-store) instance that was created.
    *
@@ -140,7 +190,7 @@ export class MongoDBStore extends Store {
    *
    * @category Creation
    */
-  constructor(connectionString: string, options: {poolSize?: number} = {}) {
+  constructor(connectionString: string, options: {poolSize?: number} & StoreOptions = {}) {
     if (typeof connectionString !== 'string') {
       throw new Error(
         `Expected a 'connectionString' to create a MongoDBStore, but received a value of type '${typeof connectionString}'`
@@ -195,15 +245,108 @@ export class MongoDBStore extends Store {
     await this._disconnectClient();
   }
 
+  // === Transactions ===
+
+  /**
+   * See the methods that are inherited from the [`Store`](https://layrjs.com/docs/v1/reference/store#transactions) class.
+   *
+   * Note that MongoDB supports transactions only on a replica set or a sharded cluster.
+   *
+   * @category Transactions
+   */
+
+  async startTransaction() {
+    const client = await this._getClient();
+
+    const session = client.startSession();
+
+    session.startTransaction();
+
+    debug('session.startTransaction()');
+
+    return session;
+  }
+
+  async commitTransaction({transaction}: TransactionParams) {
+    const session = transaction as ClientSession;
+
+    const startTime = Date.now();
+
+    // Like with `session.withTransaction()`, the commit is retried when its result is unknown
+    // (if the commit fails, the session is ended when the transaction is aborted)
+    while (true) {
+      try {
+        await debugCall(
+          async () => await session.commitTransaction(),
+          'session.commitTransaction()'
+        );
+
+        break;
+      } catch (error) {
+        if (
+          !hasMongoErrorLabel(error, 'UnknownTransactionCommitResult') ||
+          (error as any).code === MONGODB_MAX_TIME_MS_EXPIRED_ERROR_CODE ||
+          Date.now() - startTime >= MONGODB_COMMIT_RETRY_TIMEOUT
+        ) {
+          throw error;
+        }
+      }
+    }
+
+    session.endSession();
+  }
+
+  async abortTransaction({transaction}: TransactionParams) {
+    const session = transaction as ClientSession;
+
+    try {
+      // A transaction cannot be aborted once its commit has been attempted
+      if (session.inTransaction()) {
+        await debugCall(async () => await session.abortTransaction(), 'session.abortTransaction()');
+      }
+    } finally {
+      session.endSession();
+    }
+  }
+
+  private _supportsTransactions: boolean | undefined;
+
+  async supportsTransactions() {
+    if (this._supportsTransactions === undefined) {
+      const database = await this._getDatabase();
+
+      const {setName, msg} = await debugCall(
+        async () => await database.admin().command({isMaster: 1}),
+        'db.adminCommand(%o)',
+        {isMaster: 1}
+      );
+
+      // A replica set member reports its set name, and a sharded cluster router
+      // reports that it is a 'mongos' instance
+      this._supportsTransactions = setName !== undefined || msg === 'isdbgrid';
+    }
+
+    return this._supportsTransactions;
+  }
+
+  _isTransientTransactionError(error: unknown) {
+    return hasMongoErrorLabel(error, 'TransientTransactionError');
+  }
+
+  private _getSession() {
+    return this.getCurrentTransaction() as ClientSession | undefined;
+  }
+
   // === Documents ===
 
   async createDocument({collectionName, document}: CreateDocumentParams) {
     const collection = await this._getCollection(collectionName);
+    const session = this._getSession();
 
     try {
       const {insertedCount} = await debugCall(
         async () => {
-          const {insertedCount} = await collection.insertOne(document);
+          const {insertedCount} = await collection.insertOne(document, {session});
 
           return {insertedCount};
         },
@@ -242,15 +385,20 @@ export class MongoDBStore extends Store {
   async readDocument({
     collectionName,
     identifierDescriptor,
-    projection
+    projection,
+    expressions = []
   }: ReadDocumentParams): Promise<Document | undefined> {
     const collection = await this._getCollection(collectionName);
+    const session = this._getSession();
 
-    const query = identifierDescriptor;
+    const query = {...identifierDescriptor, ...buildMongoQuery(expressions)};
     const options = {projection};
 
     const document: Document | null = await debugCall(
-      async () => await batchableFindOne(collection, query, options),
+      async () =>
+        session === undefined
+          ? await batchableFindOne(collection, query, options)
+          : await collection.findOne(query, {...options, session}),
       'db.%s.batchableFindOne(%o, %o)',
       collectionName,
       query,
@@ -267,16 +415,22 @@ export class MongoDBStore extends Store {
   async updateDocument({
     collectionName,
     identifierDescriptor,
-    documentPatch
+    documentPatch,
+    expectedVersion,
+    expressions = []
   }: UpdateDocumentParams) {
     const collection = await this._getCollection(collectionName);
+    const session = this._getSession();
 
-    const filter = identifierDescriptor;
+    const filter = buildMongoUpdateFilter(identifierDescriptor, expectedVersion, expressions);
+    const update = buildMongoUpdate(documentPatch);
 
     const {matchedCount} = await debugCall(
       async () => {
         try {
-          const {matchedCount, modifiedCount} = await collection.updateOne(filter, documentPatch);
+          const {matchedCount, modifiedCount} = await collection.updateOne(filter, update, {
+            session
+          });
 
           return {matchedCount, modifiedCount};
         } catch (error) {
@@ -303,20 +457,42 @@ export class MongoDBStore extends Store {
       'db.%s.updateOne(%o, %o)',
       collectionName,
       filter,
-      documentPatch
+      update
     );
 
-    return matchedCount === 1;
+    if (matchedCount === 1) {
+      return true;
+    }
+
+    if (expectedVersion !== undefined) {
+      const [existingDocument] = await this._findExistingDocuments(
+        collection,
+        collectionName,
+        [identifierDescriptor],
+        {expressions}
+      );
+
+      if (existingDocument !== undefined) {
+        throw createVersionConflictError({collectionName, expectedVersion});
+      }
+    }
+
+    return false;
   }
 
-  async deleteDocument({collectionName, identifierDescriptor}: DeleteDocumentParams) {
+  async deleteDocument({
+    collectionName,
+    identifierDescriptor,
+    expressions = []
+  }: DeleteDocumentParams) {
     const collection = await this._getCollection(collectionName);
+    const session = this._getSession();
 
-    const filter = identifierDescriptor;
+    const filter = {...identifierDescriptor, ...buildMongoQuery(expressions)};
 
     const {deletedCount} = await debugCall(
       async () => {
-        const {deletedCount} = await collection.deleteOne(filter);
+        const {deletedCount} = await collection.deleteOne(filter, {session});
 
         return {deletedCount};
       },
@@ -328,24 +504,238 @@ export class MongoDBStore extends Store {
     return deletedCount === 1;
   }
 
+  async upsertDocument({
+    collectionName,
+    expressions,
+    documentPatch,
+    document
+  }: UpsertDocumentParams) {
+    const collection = await this._getCollection(collectionName);
+    const session = this._getSession();
+
+    const filter = buildMongoQuery(expressions);
+    const update = buildMongoUpdate(documentPatch);
+
+    // The paths that are modified by the document patch cannot be modified by the
+    // '$setOnInsert' operator as well, so the patch is relied on to set them
+    const patchPaths = Object.values(update).flatMap((operation) => Object.keys(operation));
+
+    const setOnInsert: Document = {};
+
+    for (const [name, value] of Object.entries(document)) {
+      if (!patchPaths.some((path) => path === name || path.startsWith(`${name}.`))) {
+        setOnInsert[name] = value;
+      }
+    }
+
+    if (!isEmpty(setOnInsert)) {
+      update.$setOnInsert = setOnInsert;
+    }
+
+    const {value, lastErrorObject} = await debugCall(
+      async () => {
+        try {
+          const {value, lastErrorObject} = await collection.findOneAndUpdate(filter, update, {
+            session,
+            upsert: true,
+            returnDocument: 'after'
+          });
+
+          return {value, lastErrorObject};
+        } catch (error) {
+          if (error.name === 'MongoError' && error.code === 11000) {
+            const matches = error.message.match(/ index: (.*) dup key/);
+
+            if (matches === null) {
+              throw error;
+            }
+
+            const indexName = matches[1];
+
+            throw Object.assign(
+              new Error(
+                `A duplicate key error occurred while upserting a MongoDB document (collection: '${collectionName}', index: '${indexName}')`
+              ),
+              {code: 'DUPLICATE_KEY_ERROR', collectionName, indexName}
+            );
+          }
+
+          throw error;
+        }
+      },
+      "db.%s.findOneAndUpdate(%o, %o, {upsert: true, returnDocument: 'after'})",
+      collectionName,
+      filter,
+      update
+    );
+
+    return {document: value!, wasCreated: lastErrorObject?.upserted !== undefined};
+  }
+
+  async createDocuments({collectionName, documents}: CreateDocumentsParams) {
+    const collection = await this._getCollection(collectionName);
+
+    const writeErrors = await this._bulkWrite(
+      collection,
+      collectionName,
+      documents.map(({document}) => ({insertOne: {document}}))
+    );
+
+    return documents.map((_, index): DocumentOperationResult => {
+      const writeError = writeErrors.get(index);
+
+      if (writeError === undefined) {
+        return true;
+      }
+
+      if (
+        getDuplicateKeyIndexName(writeError) === MONGODB_PRIMARY_IDENTIFIER_ATTRIBUTE_INDEX_NAME
+      ) {
+        return false; // The document already exists
+      }
+
+      return createWriteError(writeError, {collectionName, action: 'creating'});
+    });
+  }
+
+  // The documents are updated one by one rather than with a bulk write, so that the updates
+  // that match no document (e.g., because of a concurrent save) can be reported
+  async updateDocuments({
+    collectionName,
+    documentPatches,
+    expressions = []
+  }: UpdateDocumentsParams) {
+    return await runDocumentOperations(
+      documentPatches,
+      ({identifierDescriptor, documentPatch, expectedVersion}) =>
+        this.updateDocument({
+          collectionName,
+          identifierDescriptor,
+          documentPatch,
+          expectedVersion,
+          expressions
+        })
+    );
+  }
+
+  async deleteDocuments({
+    collectionName,
+    identifierDescriptors,
+    expressions = []
+  }: DeleteDocumentsParams) {
+    return await runDocumentOperations(identifierDescriptors, (identifierDescriptor) =>
+      this.deleteDocument({collectionName, identifierDescriptor, expressions})
+    );
+  }
+
+  private async _bulkWrite(
+    collection: Collection,
+    collectionName: string,
+    operations: BulkWriteOperation<any>[]
+  ) {
+    const writeErrors = new Map<number, WriteError>();
+
+    if (operations.length === 0) {
+      return writeErrors;
+    }
+
+    const session = this._getSession();
+
+    await debugCall(
+      async () => {
+        try {
+          await collection.bulkWrite(operations, {ordered: false, session});
+        } catch (error) {
+          if (error.name !== 'BulkWriteError') {
+            throw error;
+          }
+
+          for (const writeError of error.result.getWriteErrors() as WriteError[]) {
+            writeErrors.set(writeError.index, writeError);
+          }
+        }
+      },
+      'db.%s.bulkWrite(%o)',
+      collectionName,
+      operations
+    );
+
+    return writeErrors;
+  }
+
+  private async _findExistingDocuments(
+    collection: Collection,
+    collectionName: string,
+    identifierDescriptors: NormalizedIdentifierDescriptor[],
+    {expressions = []}: {expressions?: Expression[]} = {}
+  ): Promise<(Document | undefined)[]> {
+    if (identifierDescriptors.length === 0) {
+      return [];
+    }
+
+    const session = this._getSession();
+
+    const query = {$or: identifierDescriptors, ...buildMongoQuery(expressions)};
+    const projection: {[name: string]: 1} = {};
+
+    for (const identifierDescriptor of identifierDescriptors) {
+      for (const name of Object.keys(identifierDescriptor)) {
+        projection[name] = 1;
+      }
+    }
+
+    const documents: Document[] = await debugCall(
+      async () => await collection.find(query, {projection, session}).toArray(),
+      'db.%s.find(%o, %o)',
+      collectionName,
+      query,
+      {projection}
+    );
+
+    return identifierDescriptors.map((identifierDescriptor) => {
+      const [[name, value]] = Object.entries(identifierDescriptor);
+
+      return documents.find((document) => document[name] === value);
+    });
+  }
+
   async findDocuments({
     collectionName,
     expressions,
     projection,
     sort,
+    lookups,
     skip,
     limit
   }: FindDocumentsParams): Promise<Document[]> {
+    if (expressionsContainLookups(expressions) || !isEmpty(lookups)) {
+      return await this._findDocumentsWithLookups({
+        collectionName,
+        expressions,
+        projection,
+        sort,
+        lookups,
+        skip,
+        limit
+      });
+    }
+
     const collection = await this._getCollection(collectionName);
+    const session = this._getSession();
 
-    const mongoQuery = buildMongoQuery(expressions);
     const mongoSort = buildMongoSort(sort);
+    const mongoQuery = buildMongoQuery(expressions, {sortByDistance: mongoSort === undefined});
+    const options = buildMongoFindOptions(projection, mongoSort);
 
-    const options = {projection};
+    this._traceQuery({
+      collectionName,
+      expressions,
+      backendQuery: {filter: mongoQuery, sort: mongoSort, skip, limit}
+    });
 
     const documents: Document[] = await debugCall(
       async () => {
-        const cursor = collection.find(mongoQuery, options);
+        const cursor = collection.find(mongoQuery, {...options, session});
 
         if (mongoSort !== undefined) {
           cursor.sort(mongoSort);
@@ -372,14 +762,72 @@ export class MongoDBStore extends Store {
     return documents;
   }
 
+  // The referenced documents are joined with '$lookup' stages, so an aggregation
+  // pipeline is used instead of a plain query
+  async _findDocumentsWithLookups({
+    collectionName,
+    expressions,
+    projection,
+    sort,
+    lookups,
+    skip,
+    limit
+  }: FindDocumentsParams): Promise<Document[]> {
+    const collection = await this._getCollection(collectionName);
+    const session = this._getSession();
+
+    const pipeline = buildMongoLookupPipeline({
+      expressions,
+      projection,
+      sort,
+      lookups,
+      skip,
+      limit
+    });
+
+    this._traceQuery({collectionName, expressions, backendQuery: {pipeline}});
+
+    const documents: Document[] = await debugCall(
+      async () => await collection.aggregate(pipeline, {session}).toArray(),
+      'db.%s.aggregate(%o)',
+      collectionName,
+      pipeline
+    );
+
+    return documents;
+  }
+
   async countDocuments({collectionName, expressions}: CountDocumentsParams) {
     const collection = await this._getCollection(collectionName);
+    const session = this._getSession();
+
+    if (expressionsContainLookups(expressions)) {
+      const {stages} = buildMongoMatchStages(expressions);
+      const pipeline = [...stages, {$count: 'count'}];
+
+      this._traceQuery({collectionName, expressions, backendQuery: {pipeline}});
+
+      const documentsCount = await debugCall(
+        async () => {
+          const [result] = await collection.aggregate(pipeline, {session}).toArray();
+
+          return result !== undefined ? (result.count as number) : 0;
+        },
+        'db.%s.aggregate(%o)',
+        collectionName,
+        pipeline
+      );
+
+      return documentsCount;
+    }
 
     const query = buildMongoQuery(expressions);
 
+    this._traceQuery({collectionName, expressions, backendQuery: {filter: query}});
+
     const documentsCount = await debugCall(
       async () => {
-        const documentsCount = await collection.countDocuments(query);
+        const documentsCount = await collection.countDocuments(query, {session});
 
         return documentsCount;
       },
@@ -391,6 +839,187 @@ export class MongoDBStore extends Store {
     return documentsCount;
   }
 
+  async aggregateDocuments({
+    collectionName,
+    expressions,
+    groupBy,
+    aggregates,
+    sort,
+    skip,
+    limit
+  }: AggregateDocumentsParams): Promise<Document[]> {
+    const collection = await this._getCollection(collectionName);
+    const session = this._getSession();
+
+    const pipeline = buildMongoAggregatePipeline({
+      expressions,
+      groupBy,
+      aggregates,
+      sort,
+      skip,
+      limit
+    });
+
+    this._traceQuery({collectionName, expressions, backendQuery: {pipeline}});
+
+    const documents: Document[] = await debugCall(
+      async () => {
+        const documents = await collection.aggregate(pipeline, {session}).toArray();
+
+        // MongoDB represents missing group values and empty aggregates with `null`
+        return documents.map((document) =>
+          mapValues(document, (value) => (value !== null ? value : undefined))
+        );
+      },
+      'db.%s.aggregate(%o)',
+      collectionName,
+      pipeline
+    );
+
+    return documents;
+  }
+
+  async explainDocuments({collectionName, expressions, sort, lookups}: ExplainDocumentsParams) {
+    const collection = await this._getCollection(collectionName);
+    const session = this._getSession();
+
+    let backendQuery: object;
+    let explanation: any;
+
+    if (expressionsContainLookups(expressions) || !isEmpty(lookups)) {
+      const pipeline = buildMongoLookupPipeline({expressions, sort, lookups});
+
+      backendQuery = {pipeline};
+
+      explanation = await debugCall(
+        async () => await collection.aggregate(pipeline, {session}).explain(),
+        'db.%s.explain().aggregate(%o)',
+        collectionName,
+        pipeline
+      );
+    } else {
+      const mongoSort = buildMongoSort(sort);
+      const mongoQuery = buildMongoQuery(expressions, {sortByDistance: mongoSort === undefined});
+      const options = buildMongoFindOptions(undefined, mongoSort);
+
+      backendQuery = {filter: mongoQuery, sort: mongoSort};
+
+      explanation = await debugCall(
+        async () => {
+          const cursor = collection.find(mongoQuery, {...options, session});
+
+          if (mongoSort !== undefined) {
+            cursor.sort(mongoSort);
+          }
+
+          return await cursor.explain();
+        },
+        'db.%s.explain().find(%o, %o)',
+        collectionName,
+        mongoQuery,
+        options
+      );
+    }
+
+    return {backendQuery, indexName: findMongoIndexName(explanation), details: explanation};
+  }
+
+  // === Watching ===
+
+  /**
+   * See the methods that are inherited from the [`Store`](https://layrjs.com/docs/v1/reference/store) class.
+   *
+   * Note that the changes are watched by using the [change streams](https://docs.mongodb.com/manual/changeStreams/) feature of MongoDB, which is only available on a replica set or a sharded cluster.
+   *
+   * Also note that since the change streams don't provide the documents that are deleted, the hard deletions (i.e., the deletions of the documents that are not [soft-deleted](https://layrjs.com/docs/v1/reference/storable#soft-deletable-decorator)) are only reported to the watchers that have no query and no tenant.
+   *
+   * @category Watching
+   */
+
+  async watchDocuments({collectionName, expressions, callback, onError}: WatchDocumentsParams) {
+    const collection = await this._getCollection(collectionName);
+
+    if (expressionsContainLookups(expressions)) {
+      throw new Error(
+        `The '$lookup' operator cannot be used to watch the changes of a MongoDBStore (collection: '${collectionName}')`
+      );
+    }
+
+    // The change events are matched against the query on the server side, and the
+    // 'updateLookup' option provides the current state of the updated documents
+    const pipeline =
+      expressions.length > 0
+        ? [
+            {
+              $match: {
+                operationType: {$in: ['insert', 'update', 'replace']},
+                ...prefixMongoQueryPaths(buildMongoQuery(expressions), 'fullDocument.', {
+                  collectionName
+                })
+              }
+            }
+          ]
+        : [];
+
+    const changeStream = collection.watch<MongoDBDocument>(pipeline, {
+      fullDocument: 'updateLookup'
+    });
+
+    debug('db.%s.watch(%o, %o)', collectionName, pipeline, {fullDocument: 'updateLookup'});
+
+    const handleChange = (event: ChangeEvent<MongoDBDocument>) => {
+      if (event.operationType === 'delete') {
+        // The change streams don't provide the deleted documents, so the deletions are
+        // only reported when there is no expression to check (e.g., no tenant and no query)
+        callback({
+          type: 'deleted',
+          identifierDescriptor: event.documentKey
+        });
+
+        return;
+      }
+
+      if (
+        event.operationType !== 'insert' &&
+        event.operationType !== 'update' &&
+        event.operationType !== 'replace'
+      ) {
+        return;
+      }
+
+      const document = event.fullDocument;
+
+      // An updated document may have been deleted before its current state was looked up
+      if (document === undefined || document === null) {
+        return;
+      }
+
+      const change: DocumentChange = {
+        type: event.operationType === 'insert' ? 'created' : 'updated',
+        identifierDescriptor: event.documentKey,
+        document
+      };
+
+      callback(change);
+    };
+
+    // An error doesn't prevent the next changes from being handled
+    changeStream.on('change', (event) => {
+      try {
+        handleChange(event);
+      } catch (error) {
+        onError(error);
+      }
+    });
+
+    // An unhandled 'error' event would crash the process
+    changeStream.on('error', onError);
+
+    return async () => {
+      await debugCall(async () => await changeStream.close(), 'changeStream.close()');
+    };
+  }
+
   // === Serialization ===
 
   toDocument<Value>(storable: typeof StorableComponent | StorableComponent, value: Value) {
@@ -474,7 +1103,28 @@ export class MongoDBStore extends Store {
 
     const indexesToEnsure: any[] = [];
 
+    const textIndexPaths: string[] = [];
+
     for (const index of collectionSchema.indexes) {
+      if (index.isText) {
+        // MongoDB only supports one text index per collection,
+        // so all the text indexes are merged into a single one
+        textIndexPaths.push(...Object.keys(index.attributes));
+        continue;
+      }
+
+      if (index.isGeospatial) {
+        const path = Object.keys(index.attributes)[0];
+
+        indexesToEnsure.push({
+          name: `${path} [2dsphere]`,
+          spec: {[path]: '2dsphere'},
+          isUnique: false
+        });
+
+        continue;
+      }
+
       let indexName = '';
       let indexSpec: any = {};
 
@@ -502,7 +1152,40 @@ export class MongoDBStore extends Store {
         indexName = MONGODB_PRIMARY_IDENTIFIER_ATTRIBUTE_INDEX_NAME;
       }
 
-      indexesToEnsure.push({name: indexName, spec: indexSpec, isUnique: index.isUnique});
+      const indexOptions: IndexOptions = {};
+
+      if (index.isCaseInsensitive) {
+        indexName += ' [case-insensitive]';
+        indexOptions.collation = MONGODB_CASE_INSENSITIVE_COLLATION;
+      }
+
+      if (index.expireAfterSeconds !== undefined) {
+        indexName += ` [ttl: ${index.expireAfterSeconds}]`;
+        indexOptions.expireAfterSeconds = index.expireAfterSeconds;
+      }
+
+      if (index.partialFilter !== undefined) {
+        // The filter is part of the name so that the index is recreated when it changes
+        const partialFilterExpression = buildMongoQuery(index.partialFilter);
+        indexName += ` [partial: ${JSON.stringify(partialFilterExpression, (_key, value) =>
+          value !== undefined ? value : null
+        )}]`;
+        indexOptions.partialFilterExpression = partialFilterExpression;
+      }
+
+      indexesToEnsure.push({
+        name: indexName,
+        spec: indexSpec,
+        isUnique: index.isUnique,
+        options: indexOptions
+      });
+    }
+
+    if (textIndexPaths.length !== 0) {
+      const indexName = `${textIndexPaths.join(' + ')} [text]`;
+      const indexSpec = Object.fromEntries(textIndexPaths.map((path) => [path, 'text']));
+
+      indexesToEnsure.push({name: indexName, spec: indexSpec, isUnique: false});
     }
 
     const indexesToCreate = indexesToEnsure.filter(
@@ -536,7 +1219,11 @@ export class MongoDBStore extends Store {
         console.log(`- Creating index: '${index.name}'`);
       }
 
-      await collection.createIndex(index.spec, {name: index.name, unique: index.isUnique});
+      await collection.createIndex(index.spec, {
+        name: index.name,
+        unique: index.isUnique,
+        ...index.options
+      });
 
       result.createdIndexes.push(index.name);
     }
@@ -636,7 +1323,13 @@ export class MongoDBStore extends Store {
   }
 }
 
-function buildMongoQuery(expressions: Expression[]) {
+// The MongoDB '$near' operator sorts the documents by distance but it cannot be used
+// in some contexts (count, aggregation, etc.), so the '$geoWithin' operator is used instead
+// unless the `sortByDistance` option is specified
+function buildMongoQuery(
+  expressions: Expression[],
+  {sortByDistance = false}: {sortByDistance?: boolean} = {}
+) {
   const query: Query = {};
 
   for (const [path, operator, value] of expressions) {
@@ -653,7 +1346,7 @@ function buildMongoQuery(expressions: Expression[]) {
       subquery = query;
     }
 
-    const [actualOperator, actualValue] = handleOperator(operator, value, {path});
+    const [actualOperator, actualValue] = handleOperator(operator, value, {path, sortByDistance});
 
     subquery[actualOperator] = actualValue;
   }
@@ -661,10 +1354,162 @@ function buildMongoQuery(expressions: Expression[]) {
   return query;
 }
 
+// A MongoDB query cannot involve other collections, so the '$lookup' expressions
+// are handled with some '$lookup' stages that put the matching referenced documents
+// into some temporary fields (which are then checked by a '$match' stage)
+function buildMongoMatchStages(expressions: Expression[]) {
+  const stages: object[] = [];
+  const lookupFields: string[] = [];
+
+  // The expressions without lookups come first so a '$text' query
+  // can be part of the first stage as required by MongoDB
+  const query = buildMongoQuery(
+    expressions.filter((expression) => !expressionsContainLookups([expression]))
+  );
+
+  if (!isEmpty(query)) {
+    stages.push({$match: query});
+  }
+
+  const expressionsWithLookups = expressions.filter((expression) =>
+    expressionsContainLookups([expression])
+  );
+
+  if (expressionsWithLookups.length > 0) {
+    const resolvedExpressions = resolveMongoLookups(expressionsWithLookups, {
+      stages,
+      lookupFields
+    });
+
+    stages.push({$match: buildMongoQuery(resolvedExpressions)});
+  }
+
+  return {stages, lookupFields};
+}
+
+// Replaces the '$lookup' expressions with some conditions on temporary fields, and adds
+// the '$lookup' stages that fill these fields (note that using both 'localField' and
+// 'pipeline' in a '$lookup' stage requires MongoDB 5.0 or later)
+function resolveMongoLookups(
+  expressions: Expression[],
+  {stages, lookupFields}: {stages: object[]; lookupFields: string[]},
+  pathPrefix: Path = ''
+): Expression[] {
+  return expressions.flatMap((expression): Expression[] => {
+    if (!expressionsContainLookups([expression])) {
+      return [expression];
+    }
+
+    const [path, operator, operand] = expression;
+
+    const fullPath = [pathPrefix, path].filter((part) => part !== '').join('.');
+
+    if (operator === '$lookup') {
+      const {
+        collectionName,
+        identifierName,
+        identifierPath,
+        expressions: subexpressions
+      } = operand as LookupOperand;
+
+      const field = `${MONGODB_LOOKUP_FIELD_PREFIX}${lookupFields.length}`;
+      lookupFields.push(field);
+
+      stages.push({
+        $lookup: {
+          from: collectionName,
+          localField: fullPath !== '' ? `${fullPath}.${identifierName}` : identifierName,
+          foreignField: identifierPath,
+          pipeline: buildMongoMatchStages(subexpressions).stages,
+          as: field
+        }
+      });
+
+      return [[field, '$notEqual', []]];
+    }
+
+    if (
+      (operator === '$and' || operator === '$or' || operator === '$nor') &&
+      pathPrefix === '' &&
+      path === ''
+    ) {
+      const subexpressionsList = operand as Expression[][];
+
+      return [
+        [
+          path,
+          operator,
+          subexpressionsList.map((subexpressions) =>
+            resolveMongoLookups(subexpressions, {stages, lookupFields})
+          )
+        ]
+      ];
+    }
+
+    // Since a 'localField' matches any item of an array, an array of references
+    // can be checked with a single '$lookup' expression
+    if (operator === '$some' && pathPrefix === '') {
+      const subexpressions = operand as Expression[];
+
+      if (subexpressions.length === 1 && subexpressions[0][1] === '$lookup') {
+        return resolveMongoLookups(subexpressions, {stages, lookupFields}, fullPath);
+      }
+    }
+
+    throw new Error(
+      `The '$lookup' operator is not supported by a MongoDBStore in this context (operator: '${operator}', path: '${fullPath}')`
+    );
+  });
+}
+
+// The '$match' stage of a change stream is applied to the change events,
+// so the paths of a query must be prefixed to match the changed documents
+function prefixMongoQueryPaths(
+  query: Query,
+  prefix: string,
+  {collectionName}: {collectionName: string}
+): Query {
+  const prefixedQuery: Query = {};
+
+  for (const [key, value] of Object.entries(query)) {
+    if (key === '$and' || key === '$or' || key === '$nor') {
+      prefixedQuery[key] = (value as Query[]).map((subquery) =>
+        prefixMongoQueryPaths(subquery, prefix, {collectionName})
+      );
+    } else if (key.startsWith('$')) {
+      throw new Error(
+        `The '${key}' MongoDB operator cannot be used to watch the changes of a MongoDBStore (collection: '${collectionName}')`
+      );
+    } else {
+      prefixedQuery[`${prefix}${key}`] = value;
+    }
+  }
+
+  return prefixedQuery;
+}
+
+function expressionsContainLookups(expressions: Expression[]): boolean {
+  return expressions.some(([, operator, operand]) => {
+    if (operator === '$lookup') {
+      return true;
+    }
+
+    if (operator === '$some' || operator === '$every' || operator === '$not') {
+      return expressionsContainLookups(operand as Expression[]);
+    }
+
+    if (operator === '$and' || operator === '$or' || operator === '$nor') {
+      return (operand as Expression[][]).some(expressionsContainLookups);
+    }
+
+    return false;
+  });
+}
+
 function handleOperator(
   operator: Operator,
   value: Operand,
-  {path}: {path: Path}
+  {path, sortByDistance}: {path: Path; sortByDistance: boolean}
 ): [Operator, unknown] {
   // --- Basic operators ---
 
@@ -733,6 +1578,42 @@ function handleOperator(
     return ['$size', value];
   }
 
+  // --- Text operators ---
+
+  if (operator === '$search') {
+    // The paths are ignored since a MongoDB collection can only have one text index
+    const {text} = value as TextSearchOperand;
+    return ['$text', {$search: text}];
+  }
+
+  // --- Geospatial operators ---
+
+  if (operator === '$near') {
+    const {point, maxDistance} = value as GeoNearOperand;
+
+    if (sortByDistance) {
+      return [
+        '$near',
+        {$geometry: point, ...(maxDistance !== undefined && {$maxDistance: maxDistance})}
+      ];
+    }
+
+    if (maxDistance === undefined) {
+      return ['$exists', true];
+    }
+
+    return ['$geoWithin', {$centerSphere: [point.coordinates, maxDistance / EARTH_RADIUS]}];
+  }
+
+  if (operator === '$withinPolygon') {
+    const positions = value as GeoPolygonOperand;
+    const ring = isEqual(positions[0], positions[positions.length - 1])
+      ? positions
+      : [...positions, positions[0]];
+
+    return ['$geoWithin', {$geometry: {type: 'Polygon', coordinates: [ring]}}];
+  }
+
   // --- Logical operators ---
 
   if (operator === '$not') {
@@ -768,13 +1649,267 @@ function handleOperator(
   );
 }
 
+// Builds an aggregation pipeline matching the expressions and joining the referenced
+// documents (with some '$lookup' stages) that are involved in the sort
+function buildMongoLookupPipeline({
+  expressions,
+  projection,
+  sort,
+  lookups = {},
+  skip,
+  limit
+}: Omit<FindDocumentsParams, 'collectionName'>) {
+  const {stages: pipeline, lookupFields} = buildMongoMatchStages(expressions);
+
+  let mongoSort = buildMongoSort(sort);
+
+  for (const [path, {collectionName, identifierName, identifierPath}] of Object.entries(lookups)) {
+    const field = `${MONGODB_LOOKUP_FIELD_PREFIX}${lookupFields.length}`;
+    lookupFields.push(field);
+
+    pipeline.push({
+      $lookup: {
+        from: collectionName,
+        localField: `${path}.${identifierName}`,
+        foreignField: identifierPath,
+        as: field
+      }
+    });
+
+    mongoSort = mapKeys(mongoSort, (_direction, name) =>
+      name.startsWith(`${path}.`) ? `${field}${name.slice(path.length)}` : name
+    );
+  }
+
+  if (mongoSort !== undefined) {
+    pipeline.push({$sort: mongoSort});
+  }
+
+  if (skip !== undefined) {
+    pipeline.push({$skip: skip});
+  }
+
+  if (limit !== undefined) {
+    pipeline.push({$limit: limit});
+  }
+
+  if (projection !== undefined) {
+    pipeline.push({$project: projection});
+  } else if (lookupFields.length > 0) {
+    pipeline.push({$unset: lookupFields});
+  }
+
+  return pipeline;
+}
+
+function buildMongoFindOptions(
+  projection: FindDocumentsParams['projection'],
+  mongoSort: ReturnType<typeof buildMongoSort>
+) {
+  const options: {projection?: {[path: string]: unknown}} = {projection};
+
+  if (mongoSort !== undefined && MONGODB_TEXT_SCORE_NAME in mongoSort) {
+    // Older MongoDB versions require the text score to be projected to be able to sort on it
+    options.projection = {...projection, [MONGODB_TEXT_SCORE_NAME]: {$meta: 'textScore'}};
+  }
+
+  return options;
+}
+
+// The winning plan is not at the same place in an explanation depending on the
+// MongoDB version and on whether the explanation comes from an aggregation
+function findMongoIndexName(explanation: unknown): string | undefined {
+  const winningPlan = findMongoExplanationField(explanation, 'winningPlan');
+
+  if (winningPlan === undefined) {
+    return undefined;
+  }
+
+  return findMongoExplanationField(winningPlan, 'indexName');
+}
+
+function findMongoExplanationField(value: unknown, name: string): any {
+  if (typeof value !== 'object' || value === null) {
+    return undefined;
+  }
+
+  if (hasOwnProperty(value, name)) {
+    return (value as any)[name];
+  }
+
+  for (const subvalue of Object.values(value)) {
+    const field = findMongoExplanationField(subvalue, name);
+
+    if (field !== undefined) {
+      return field;
+    }
+  }
+
+  return undefined;
+}
+
 function buildMongoSort(sort: SortDescriptor | undefined) {
   if (sort === undefined || isEmpty(sort)) {
     return undefined;
   }
 
-  return mapValues(sort, (direction: SortDirection) =>
-    direction.toLowerCase() === 'desc' ? -1 : 1
+  const mongoSort: {[name: string]: number | {$meta: 'textScore'}} = {};
+
+  for (const [name, direction] of Object.entries<SortDirection>(sort)) {
+    if (name === '$relevance') {
+      mongoSort[MONGODB_TEXT_SCORE_NAME] = {$meta: 'textScore'};
+      continue;
+    }
+
+    mongoSort[name] = direction.toLowerCase() === 'desc' ? -1 : 1;
+  }
+
+  return mongoSort;
+}
+
+function buildMongoAggregatePipeline({
+  expressions,
+  groupBy,
+  aggregates,
+  sort,
+  skip,
+  limit
+}: Omit<AggregateDocumentsParams, 'collectionName'>) {
+  const pipeline: object[] = [...buildMongoMatchStages(expressions).stages];
+
+  const group: {[name: string]: any} = {
+    _id:
+      groupBy.length > 0
+        ? Object.fromEntries(groupBy.map((path, index) => [`group${index}`, `$${path}`]))
+        : null
+  };
+
+  const projection: {[name: string]: any} = {_id: 0};
+
+  groupBy.forEach((path, index) => {
+    projection[path] = `$_id.group${index}`;
+  });
+
+  for (const [name, {operator, path}] of Object.entries(aggregates)) {
+    group[name] = buildMongoAggregator(operator, path);
+    projection[name] = 1;
+  }
+
+  pipeline.push({$group: group}, {$project: projection});
+
+  const mongoSort = buildMongoSort(sort);
+
+  if (mongoSort !== undefined) {
+    pipeline.push({$sort: mongoSort});
+  }
+
+  if (skip !== undefined) {
+    pipeline.push({$skip: skip});
+  }
+
+  if (limit !== undefined) {
+    pipeline.push({$limit: limit});
+  }
+
+  return pipeline;
+}
+
+function buildMongoAggregator(operator: AggregateOperator, path: Path | undefined) {
+  if (operator === '$count') {
+    return {$sum: 1};
+  }
+
+  if (operator === '$sum') {
+    return {$sum: `$${path}`};
+  }
+
+  if (operator === '$average') {
+    return {$avg: `$${path}`};
+  }
+
+  if (operator === '$min') {
+    return {$min: `$${path}`};
+  }
+
+  if (operator === '$max') {
+    return {$max: `$${path}`};
+  }
+
+  throw new Error(`An aggregate operator is not supported (operator: '${operator}')`);
+}
+
+function buildMongoUpdateFilter(
+  identifierDescriptor: NormalizedIdentifierDescriptor,
+  expectedVersion: ExpectedVersion | undefined,
+  expressions: Expression[]
+) {
+  const filter = {...identifierDescriptor, ...buildMongoQuery(expressions)};
+
+  if (expectedVersion === undefined) {
+    return filter;
+  }
+
+  // A `null` value matches a missing field as well
+  return {...filter, [expectedVersion.path]: expectedVersion.value ?? null};
+}
+
+// In a document patch, the '$push' and '$pull' operators specify some lists of items
+function buildMongoUpdate({$set, $unset, $inc, $push, $pull}: DocumentPatch): {
+  [operator: string]: object;
+} {
+  return {
+    ...($set !== undefined && {$set}),
+    ...($unset !== undefined && {$unset}),
+    ...($inc !== undefined && {$inc}),
+    ...($push !== undefined && {$push: mapValues($push, (items) => ({$each: items}))}),
+    ...($pull !== undefined && {$pull: mapValues($pull, (items) => ({$in: items}))})
+  };
+}
+
+function createVersionConflictError({
+  collectionName,
+  expectedVersion
+}: {
+  collectionName: string;
+  expectedVersion: ExpectedVersion;
+}) {
+  return Object.assign(
+    new Error(
+      `Cannot update a MongoDB document that doesn't have the expected version (collection: '${collectionName}', expected version: ${expectedVersion.value})`
+    ),
+    {code: 'COMPONENT_VERSION_CONFLICT', expose: true}
+  );
+}
+
+type WriteError = {index: number; code: number; errmsg: string};
+
+function getDuplicateKeyIndexName(writeError: WriteError) {
+  if (writeError.code !== 11000) {
+    return undefined;
+  }
+
+  const matches = writeError.errmsg.match(/ index: (.*) dup key/);
+
+  return matches !== null ? matches[1] : undefined;
+}
+
+function createWriteError(
+  writeError: WriteError,
+  {collectionName, action}: {collectionName: string; action: string}
+) {
+  const indexName = getDuplicateKeyIndexName(writeError);
+
+  if (indexName !== undefined) {
+    return Object.assign(
+      new Error(
+        `A duplicate key error occurred while ${action} a MongoDB document (collection: '${collectionName}', index: '${indexName}')`
+      ),
+      {code: 'DUPLICATE_KEY_ERROR', collectionName, indexName}
+    );
+  }
+
+  return new Error(
+    `An error occurred while ${action} a MongoDB document (collection: '${collectionName}', message: '${writeError.errmsg}')`
   );
 }
 
@@ -803,6 +1938,10 @@ async function debugCall<Result>(
   return result as Result;
 }
 
+function hasMongoErrorLabel(error: any, label: string) {
+  return typeof error?.hasErrorLabel === 'function' && error.hasErrorLabel(label) === true;
+}
+
 const findOneBatcher = Symbol('batcher');
 
 interface FindOneOperation extends Operation {
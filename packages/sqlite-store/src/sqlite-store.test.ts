@@ -0,0 +1,465 @@
+import {Component, provide} from '@layr/component';
+import {
+  Storable,
+  StorableComponent,
+  primaryIdentifier,
+  secondaryIdentifier,
+  attribute
+} from '@layr/storable';
+
+import {SQLiteStore} from './sqlite-store';
+
+describe('SQLiteStore', () => {
+  describe('Migration', () => {
+    let movieClass: typeof StorableComponent;
+    let store: SQLiteStore;
+
+    beforeEach(async () => {
+      class Person extends Storable(Component) {
+        @primaryIdentifier() id!: string;
+
+        @attribute('string') fullName!: string;
+      }
+
+      class Movie extends Storable(Component) {
+        @provide() static Person = Person;
+
+        @primaryIdentifier() id!: string;
+
+        @secondaryIdentifier() slug!: string;
+
+        @attribute('string') title!: string;
+
+        @attribute('number') year!: number;
+
+        @attribute('Person') director!: Person;
+
+        @attribute('Date?') releasedAt?: Date;
+      }
+
+      movieClass = Movie;
+
+      store = new SQLiteStore(':memory:');
+
+      store.registerRootComponent(Movie);
+
+      await store.connect();
+    });
+
+    afterEach(async () => {
+      await store?.disconnect();
+    });
+
+    test('migrateStorables()', async () => {
+      let result = await store.migrateStorables({silent: true});
+
+      expect(result).toStrictEqual({
+        collections: [
+          {
+            name: 'Movie',
+            createdIndexes: ['id [unique]', 'slug [unique]', 'director.id'],
+            droppedIndexes: []
+          },
+          {name: 'Person', createdIndexes: ['id [unique]'], droppedIndexes: []}
+        ]
+      });
+
+      result = await store.migrateStorables({silent: true});
+
+      expect(result).toStrictEqual({
+        collections: [
+          {name: 'Movie', createdIndexes: [], droppedIndexes: []},
+          {name: 'Person', createdIndexes: [], droppedIndexes: []}
+        ]
+      });
+
+      movieClass.prototype.deleteProperty('slug');
+
+      result = await store.migrateStorables({silent: true});
+
+      expect(result).toStrictEqual({
+        collections: [
+          {name: 'Movie', createdIndexes: [], droppedIndexes: ['slug [unique]']},
+          {name: 'Person', createdIndexes: [], droppedIndexes: []}
+        ]
+      });
+
+      movieClass.prototype.setIndex({title: 'asc'}, {isUnique: true});
+
+      result = await store.migrateStorables({silent: true});
+
+      expect(result).toStrictEqual({
+        collections: [
+          {name: 'Movie', createdIndexes: ['title [unique]'], droppedIndexes: []},
+          {name: 'Person', createdIndexes: [], droppedIndexes: []}
+        ]
+      });
+
+      movieClass.prototype.deleteIndex({title: 'asc'});
+
+      movieClass.prototype.setIndex({year: 'desc', title: 'asc'}, {isUnique: true});
+
+      result = await store.migrateStorables({silent: true});
+
+      expect(result).toStrictEqual({
+        collections: [
+          {
+            name: 'Movie',
+            createdIndexes: ['year (desc) + title [unique]'],
+            droppedIndexes: ['title [unique]']
+          },
+          {name: 'Person', createdIndexes: [], droppedIndexes: []}
+        ]
+      });
+
+      movieClass.prototype.setIndex(
+        {title: 'asc'},
+        {isUnique: true, isCaseInsensitive: true, partialFilter: {year: {$greaterThan: 2000}}}
+      );
+
+      result = await store.migrateStorables({silent: true});
+
+      expect(result).toStrictEqual({
+        collections: [
+          {
+            name: 'Movie',
+            createdIndexes: [
+              'title [unique] [case-insensitive] [partial: [["year","$greaterThan",2000]]]'
+            ],
+            droppedIndexes: []
+          },
+          {name: 'Person', createdIndexes: [], droppedIndexes: []}
+        ]
+      });
+
+      movieClass.prototype.setIndex({releasedAt: 'asc'}, {expireAfterSeconds: 3600});
+
+      await expect(store.migrateStorables({silent: true})).rejects.toThrow(
+        `TTL indexes are not supported by a SQLiteStore (collection: 'Movie', attributes: {"releasedAt":"asc"})`
+      );
+    });
+  });
+
+  describe('Document operations', () => {
+    let store: SQLiteStore;
+
+    beforeEach(async () => {
+      store = new SQLiteStore(':memory:');
+
+      await store.connect();
+
+      await store.migrateCollection({
+        collectionName: 'Movie',
+        collectionSchema: {
+          indexes: [
+            {
+              attributes: {id: 'asc'},
+              isPrimary: true,
+              isUnique: true,
+              isText: false,
+              isGeospatial: false,
+              isCaseInsensitive: false
+            },
+            {
+              attributes: {slug: 'asc'},
+              isPrimary: false,
+              isUnique: true,
+              isText: false,
+              isGeospatial: false,
+              isCaseInsensitive: false
+            },
+            {
+              attributes: {year: 'desc', title: 'asc'},
+              isPrimary: false,
+              isUnique: true,
+              isText: false,
+              isGeospatial: false,
+              isCaseInsensitive: false
+            }
+          ]
+        },
+        silent: true
+      });
+    });
+
+    afterEach(async () => {
+      await store?.disconnect();
+    });
+
+    test('createDocument()', async () => {
+      expect(
+        await store.createDocument({
+          collectionName: 'Movie',
+          identifierDescriptor: {id: 'movie1'},
+          document: {
+            __component: 'Movie',
+            id: 'movie1',
+            slug: 'inception',
+            title: 'Inception',
+            year: 2010
+          }
+        })
+      ).toBe(true);
+
+      expect(
+        await store.createDocument({
+          collectionName: 'Movie',
+          identifierDescriptor: {id: 'movie1'},
+          document: {
+            __component: 'Movie',
+            id: 'movie1',
+            slug: 'inception-2',
+            title: 'Inception 2',
+            year: 2010
+          }
+        })
+      ).toBe(false);
+
+      await expect(
+        store.createDocument({
+          collectionName: 'Movie',
+          identifierDescriptor: {id: 'movie2'},
+          document: {
+            __component: 'Movie',
+            id: 'movie2',
+            slug: 'inception',
+            title: 'Inception 3',
+            year: 2010
+          }
+        })
+      ).rejects.toThrow(
+        "A duplicate key error occurred while creating a SQLite document (collection: 'Movie', index: 'slug [unique]')"
+      );
+
+      await expect(
+        store.createDocument({
+          collectionName: 'Movie',
+          identifierDescriptor: {id: 'movie2'},
+          document: {
+            __component: 'Movie',
+            id: 'movie2',
+            slug: 'inception-2',
+            title: 'Inception',
+            year: 2010
+          }
+        })
+      ).rejects.toThrow(
+        "A duplicate key error occurred while creating a SQLite document (collection: 'Movie', index: 'year (desc) + title [unique]')"
+      );
+
+      // The dates are preserved
+      const releasedAt = new Date('2010-07-16T00:00:00.000Z');
+
+      await store.createDocument({
+        collectionName: 'Movie',
+        identifierDescriptor: {id: 'movie3'},
+        document: {__component: 'Movie', id: 'movie3', slug: 'tenet', releasedAt}
+      });
+
+      expect(
+        await store.readDocument({collectionName: 'Movie', identifierDescriptor: {id: 'movie3'}})
+      ).toStrictEqual({__component: 'Movie', id: 'movie3', slug: 'tenet', releasedAt});
+    });
+
+    test('updateDocument()', async () => {
+      await store.createDocument({
+        collectionName: 'Movie',
+        identifierDescriptor: {id: 'movie1'},
+        document: {
+          __component: 'Movie',
+          id: 'movie1',
+          slug: 'inception',
+          title: 'Inception',
+          year: 2010
+        }
+      });
+
+      await store.createDocument({
+        collectionName: 'Movie',
+        identifierDescriptor: {id: 'movie2'},
+        document: {
+          __component: 'Movie',
+          id: 'movie2',
+          slug: 'inception-2',
+          title: 'Inception 2',
+          year: 2020,
+          tags: ['sci-fi']
+        }
+      });
+
+      expect(
+        await store.updateDocument({
+          collectionName: 'Movie',
+          identifierDescriptor: {id: 'movie2'},
+          documentPatch: {$set: {year: 2021}, $push: {tags: ['thriller']}}
+        })
+      ).toBe(true);
+
+      expect(
+        await store.readDocument({collectionName: 'Movie', identifierDescriptor: {id: 'movie2'}})
+      ).toStrictEqual({
+        __component: 'Movie',
+        id: 'movie2',
+        slug: 'inception-2',
+        title: 'Inception 2',
+        year: 2021,
+        tags: ['sci-fi', 'thriller']
+      });
+
+      expect(
+        await store.updateDocument({
+          collectionName: 'Movie',
+          identifierDescriptor: {id: 'movie3'},
+          documentPatch: {$set: {year: 2021}}
+        })
+      ).toBe(false);
+
+      await expect(
+        store.updateDocument({
+          collectionName: 'Movie',
+          identifierDescriptor: {id: 'movie2'},
+          documentPatch: {$set: {slug: 'inception'}}
+        })
+      ).rejects.toThrow(
+        "A duplicate key error occurred while updating a SQLite document (collection: 'Movie', index: 'slug [unique]')"
+      );
+    });
+
+    test('updateDocuments() and deleteDocuments()', async () => {
+      await store.createDocument({
+        collectionName: 'Movie',
+        identifierDescriptor: {id: 'movie1'},
+        document: {
+          __component: 'Movie',
+          id: 'movie1',
+          slug: 'inception',
+          title: 'Inception',
+          year: 2010,
+          version: 1
+        }
+      });
+
+      const results = await store.updateDocuments({
+        collectionName: 'Movie',
+        documentPatches: [
+          {
+            identifierDescriptor: {id: 'movie1'},
+            documentPatch: {$set: {year: 2011, version: 2}},
+            expectedVersion: {path: 'version', value: 1}
+          },
+          {
+            identifierDescriptor: {id: 'movie1'},
+            documentPatch: {$set: {year: 2012, version: 2}},
+            expectedVersion: {path: 'version', value: 1}
+          },
+          {
+            identifierDescriptor: {id: 'movie2'},
+            documentPatch: {$set: {year: 2021}}
+          }
+        ]
+      });
+
+      expect(results[0]).toBe(true);
+      expect(results[1]).toBeInstanceOf(Error);
+      expect((results[1] as Error).message).toBe(
+        "Cannot update a SQLite document that doesn't have the expected version (collection: 'Movie', expected version: 1)"
+      );
+      expect(results[2]).toBe(false);
+
+      expect(
+        await store.readDocument({collectionName: 'Movie', identifierDescriptor: {id: 'movie1'}})
+      ).toMatchObject({year: 2011, version: 2});
+
+      expect(
+        await store.deleteDocuments({
+          collectionName: 'Movie',
+          identifierDescriptors: [{id: 'movie1'}, {id: 'movie1'}, {id: 'movie2'}]
+        })
+      ).toStrictEqual([true, false, false]);
+    });
+
+    test('upsertDocument()', async () => {
+      expect(
+        await store.upsertDocument({
+          collectionName: 'Movie',
+          expressions: [['slug', '$equal', 'inception']],
+          documentPatch: {$set: {title: 'Inception'}, $inc: {version: 1}},
+          identifierDescriptor: {id: 'movie1'},
+          document: {
+            __component: 'Movie',
+            id: 'movie1',
+            slug: 'inception',
+            title: 'Inception',
+            version: 1
+          }
+        })
+      ).toStrictEqual({
+        document: {
+          __component: 'Movie',
+          id: 'movie1',
+          slug: 'inception',
+          title: 'Inception',
+          version: 1
+        },
+        wasCreated: true
+      });
+
+      expect(
+        await store.upsertDocument({
+          collectionName: 'Movie',
+          expressions: [['slug', '$equal', 'inception']],
+          documentPatch: {$set: {title: 'Inception (upserted)'}, $inc: {version: 1}},
+          identifierDescriptor: {id: 'movie2'},
+          document: {
+            __component: 'Movie',
+            id: 'movie2',
+            slug: 'inception',
+            title: 'Inception (upserted)',
+            version: 1
+          }
+        })
+      ).toStrictEqual({
+        document: {
+          __component: 'Movie',
+          id: 'movie1',
+          slug: 'inception',
+          title: 'Inception (upserted)',
+          version: 2
+        },
+        wasCreated: false
+      });
+    });
+
+    test('transaction()', async () => {
+      await store.createDocument({
+        collectionName: 'Movie',
+        identifierDescriptor: {id: 'movie1'},
+        document: {__component: 'Movie', id: 'movie1', title: 'Inception'}
+      });
+
+      await store.transaction(async () => {
+        await store.updateDocument({
+          collectionName: 'Movie',
+          identifierDescriptor: {id: 'movie1'},
+          documentPatch: {$set: {title: 'Inception (committed)'}}
+        });
+      });
+
+      await expect(
+        store.transaction(async () => {
+          await store.updateDocument({
+            collectionName: 'Movie',
+            identifierDescriptor: {id: 'movie1'},
+            documentPatch: {$set: {title: 'Inception (aborted)'}}
+          });
+
+          throw new Error('Something went wrong');
+        })
+      ).rejects.toThrow('Something went wrong');
+
+      expect(
+        await store.readDocument({collectionName: 'Movie', identifierDescriptor: {id: 'movie1'}})
+      ).toStrictEqual({__component: 'Movie', id: 'movie1', title: 'Inception (committed)'});
+    });
+  });
+});
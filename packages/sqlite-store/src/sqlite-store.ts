@@ -0,0 +1,1439 @@
+import {
+  Store,
+  CreateDocumentParams,
+  ReadDocumentParams,
+  UpdateDocumentParams,
+  DeleteDocumentParams,
+  UpsertDocumentParams,
+  CreateDocumentsParams,
+  UpdateDocumentsParams,
+  DeleteDocumentsParams,
+  FindDocumentsParams,
+  CountDocumentsParams,
+  AggregateDocumentsParams,
+  ExplainDocumentsParams,
+  DocumentAggregates,
+  MigrateCollectionParams,
+  MigrateCollectionResult,
+  TransactionParams,
+  WatchDocumentsParams,
+  DocumentChange,
+  Document,
+  Expression,
+  LookupOperand,
+  Path,
+  StoreOptions,
+  runDocumentOperations,
+  applyDocumentPatch
+} from '@layr/store';
+import type {Operator, SortDescriptor, AggregateOperator} from '@layr/storable';
+import type {NormalizedIdentifierDescriptor} from '@layr/component';
+import {isPlainObject, hasOwnProperty} from 'core-helpers';
+import Database from 'better-sqlite3';
+import {EventEmitter} from 'events';
+import get from 'lodash/get';
+import debugModule from 'debug';
+
+const debug = debugModule('layr:sqlite-store');
+// To display the debug log, set this environment:
+// DEBUG=layr:sqlite-store DEBUG_DEPTH=10
+
+// The SQLite indexes are named `${collectionName}${SQLITE_INDEX_NAME_SEPARATOR}${indexName}`
+// because the index names must be unique in the whole database
+const SQLITE_INDEX_NAME_SEPARATOR = ':';
+
+type SQLiteTransaction = {
+  changes: {collectionName: string; change: DocumentChange}[];
+  // The tables that are created in a transaction are dropped when it is rolled back
+  createdTables: string[];
+  release: () => void;
+  finished: Promise<void>;
+};
+
+type SQLParam = string | number | null;
+
+type DocumentRow = {rowid: number; document: string};
+
+/**
+ * *Inherits from [`Store`](https://layrjs.com/docs/v1/reference/store).*
+ *
+ * A [`Store`](https://layrjs.com/docs/v1/reference/store) that uses a local [SQLite](https://www.sqlite.org/) database to persist its registered [storable components](https://layrjs.com/docs/v1/reference/storable#storable-component-class).
+ *
+ * Each collection is stored in a table where the documents are saved as JSON, and the queries are translated into SQL by using the [JSON functions](https://www.sqlite.org/json1.html) of SQLite. So, a `SQLiteStore` is a good fit for small services, command-line tools, or tests that need a real database without having to run a database server.
+ *
+ * Note that the text and geospatial operators (`$search`, `$near`, and `$withinPolygon`) are not supported by a `SQLiteStore`.
+ *
+ * #### Usage
+ *
+ * Create a `SQLiteStore` instance, register some [storable components](https://layrjs.com/docs/v1/reference/storable#storable-component-class) into it, and then use any [`StorableComponent`](https://layrjs.com/docs/v1/reference/storable#storable-component-class)'s method to load, save, delete, or find components from the store.
+ *
+ * See an example of use in the [`MongoDBStore`](https://layrjs.com/docs/v1/reference/mongodb-store) class.
+ */
+export class SQLiteStore extends Store {
+  private _filename: string;
+
+  /**
+   * Creates a [`SQLiteStore`](https://layrjs.com/docs/v1/reference/sqlite-store).
+   *
+   * @param filename The path of the SQLite database file to use (the file is created if it doesn't exist). Specify `':memory:'` to use an in-memory database.
+   * @param [options.keyProvider] A function returning the key that is used to [encrypt](https://layrjs.com/docs/v1/reference/storable-attribute#encryption) the encrypted attributes (see the [`Store`'s constructor](https://layrjs.com/docs/v1/reference/store#constructor)).
+   * @param [options.tenantResolver] A function returning the current tenant when several customers share the store (see the [`Store`'s constructor](https://layrjs.com/docs/v1/reference/store#constructor)).
+   * @param [options.tenantIsolation] How the documents of the tenants are isolated from each other: `'attribute'` (default) or `'collection'` (see the [`Store`'s constructor](https://layrjs.com/docs/v1/reference/store#constructor)).
+   * @param [options.actorResolver] A function returning the current actor that is recorded in the history of the storable components (see the [`Store`'s constructor](https://layrjs.com/docs/v1/reference/store#constructor)).
+   *
+   * @returns The [`SQLiteStore`](https://layrjs.com/docs/v1/reference/sqlite-store) instance that was created.
+   *
+   * @example
+   * ```
+   * const store = new SQLiteStore('./data.db');
+   * ```
+   *
+   * @category Creation
+   */
+  constructor(filename: string, options: StoreOptions = {}) {
+    if (typeof filename !== 'string') {
+      throw new Error(
+        `Expected a 'filename' to create a SQLiteStore, but received a value of type '${typeof filename}'`
+      );
+    }
+
+    if (filename.length === 0) {
+      throw new Error(
+        `Expected a 'filename' to create a SQLiteStore, but received an empty string`
+      );
+    }
+
+    super(options);
+
+    this._filename = filename;
+  }
+
+  getFilename() {
+    return this._filename;
+  }
+
+  // === Component Registration ===
+
+  /**
+   * See the methods that are inherited from the [`Store`](https://layrjs.com/docs/v1/reference/store#component-registration) class.
+   *
+   * @category Component Registration
+   */
+
+  // === Connection ===
+
+  /**
+   * Opens the SQLite database.
+   *
+   * Since this method is called automatically when you interact with the store through any of the [`StorableComponent`](https://layrjs.com/docs/v1/reference/storable#storable-component-class) methods, you shouldn't have to call it manually.
+   *
+   * @category Connection to SQLite
+   */
+  async connect() {
+    this._getDatabase();
+  }
+
+  /**
+   * Closes the SQLite database. Unless you are building a tool that uses a store for an ephemeral duration, you shouldn't have to call this method.
+   *
+   * @category Connection to SQLite
+   */
+  async disconnect() {
+    if (this._database !== undefined) {
+      this._database.close();
+      this._database = undefined;
+      this._existingTables.clear();
+    }
+  }
+
+  // === Transactions ===
+
+  /**
+   * See the methods that are inherited from the [`Store`](https://layrjs.com/docs/v1/reference/store#transactions) class.
+   *
+   * Note that a `SQLiteStore` executes the transactions one at a time since a SQLite database only supports one writer at a time, and that the operations that are not part of a running transaction wait for the end of the transaction.
+   *
+   * @category Transactions
+   */
+
+  _transactionQueue: Promise<void> = Promise.resolve();
+
+  _openTransaction: SQLiteTransaction | undefined;
+
+  async startTransaction() {
+    const previousTransactionQueue = this._transactionQueue;
+
+    let release!: () => void;
+
+    const finished = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+
+    this._transactionQueue = finished;
+
+    await previousTransactionQueue;
+
+    this._execute('BEGIN');
+
+    const transaction: SQLiteTransaction = {changes: [], createdTables: [], release, finished};
+
+    this._openTransaction = transaction;
+
+    return transaction;
+  }
+
+  async commitTransaction({transaction}: TransactionParams) {
+    const {changes, release} = transaction as SQLiteTransaction;
+
+    // If the commit fails, the transaction remains open until it is aborted
+    this._execute('COMMIT');
+
+    this._openTransaction = undefined;
+    release();
+
+    for (const {collectionName, change} of changes) {
+      this._changeEmitter.emit(collectionName, change);
+    }
+  }
+
+  async abortTransaction({transaction}: TransactionParams) {
+    const {createdTables, release} = transaction as SQLiteTransaction;
+
+    try {
+      // SQLite may have already rolled back the transaction (e.g., after a failed commit)
+      if (this._getDatabase().inTransaction) {
+        this._execute('ROLLBACK');
+      }
+    } finally {
+      for (const collectionName of createdTables) {
+        this._existingTables.delete(collectionName);
+      }
+
+      this._openTransaction = undefined;
+      release();
+    }
+  }
+
+  // Since all the operations share the same connection to the database, an operation that
+  // is not part of the open transaction (if any) would be executed (and possibly rolled back)
+  // with it, so the operation is delayed until the end of the transaction (note that the
+  // specified function must be synchronous so no transaction can be started in the meantime)
+  async _runOutsideOtherTransactions<Result>(func: () => Result) {
+    while (this._openTransaction !== undefined && this.getCurrentTransaction() === undefined) {
+      await this._openTransaction.finished;
+    }
+
+    return func();
+  }
+
+  // === Documents ===
+
+  async createDocument({collectionName, identifierDescriptor, document}: CreateDocumentParams) {
+    return await this._runOutsideOtherTransactions(() => {
+      const table = this._getTable(collectionName);
+
+      if (this._readDocumentRow(table, identifierDescriptor) !== undefined) {
+        return false;
+      }
+
+      try {
+        this._run(`INSERT INTO ${table} (document) VALUES (?)`, [encodeDocument(document)]);
+      } catch (error) {
+        throw handleDuplicateKeyError(error, {collectionName, action: 'creating'});
+      }
+
+      this._reportChange(collectionName, {type: 'created', identifierDescriptor, document});
+
+      return true;
+    });
+  }
+
+  async readDocument({
+    collectionName,
+    identifierDescriptor,
+    expressions
+  }: ReadDocumentParams): Promise<Document | undefined> {
+    return await this._runOutsideOtherTransactions(() => {
+      const table = this._getTable(collectionName);
+
+      const row = this._readDocumentRow(table, identifierDescriptor, expressions);
+
+      if (row === undefined) {
+        return undefined;
+      }
+
+      return decodeDocument(row.document);
+    });
+  }
+
+  _readDocumentRow(
+    table: string,
+    identifierDescriptor: NormalizedIdentifierDescriptor,
+    expressions: Expression[] = []
+  ) {
+    const [[identifierName, identifierValue]] = Object.entries(identifierDescriptor);
+
+    const params: SQLParam[] = [identifierValue];
+
+    return this._get<DocumentRow>(
+      `SELECT rowid, document FROM ${table} WHERE ${buildJSONExtract(
+        quoteString(buildJSONPath('$', identifierName))
+      )} IS ? AND ${buildCondition(expressions, this._createQueryBuildingContext(params))} LIMIT 1`,
+      params
+    );
+  }
+
+  async updateDocument({
+    collectionName,
+    identifierDescriptor,
+    documentPatch,
+    expectedVersion,
+    expressions
+  }: UpdateDocumentParams) {
+    return await this._runOutsideOtherTransactions(() => {
+      const table = this._getTable(collectionName);
+
+      const row = this._readDocumentRow(table, identifierDescriptor, expressions);
+
+      if (row === undefined) {
+        return false;
+      }
+
+      const document = decodeDocument(row.document);
+
+      if (
+        expectedVersion !== undefined &&
+        get(document, expectedVersion.path) !== expectedVersion.value
+      ) {
+        throw Object.assign(
+          new Error(
+            `Cannot update a SQLite document that doesn't have the expected version (collection: '${collectionName}', expected version: ${expectedVersion.value})`
+          ),
+          {code: 'COMPONENT_VERSION_CONFLICT', expose: true}
+        );
+      }
+
+      applyDocumentPatch(document, documentPatch);
+
+      try {
+        this._run(`UPDATE ${table} SET document = ? WHERE rowid = ?`, [
+          encodeDocument(document),
+          row.rowid
+        ]);
+      } catch (error) {
+        throw handleDuplicateKeyError(error, {collectionName, action: 'updating'});
+      }
+
+      this._reportChange(collectionName, {type: 'updated', identifierDescriptor, document});
+
+      return true;
+    });
+  }
+
+  async deleteDocument({collectionName, identifierDescriptor, expressions}: DeleteDocumentParams) {
+    return await this._runOutsideOtherTransactions(() => {
+      const table = this._getTable(collectionName);
+
+      const row = this._readDocumentRow(table, identifierDescriptor, expressions);
+
+      if (row === undefined) {
+        return false;
+      }
+
+      this._run(`DELETE FROM ${table} WHERE rowid = ?`, [row.rowid]);
+
+      this._reportChange(collectionName, {
+        type: 'deleted',
+        identifierDescriptor,
+        document: decodeDocument(row.document)
+      });
+
+      return true;
+    });
+  }
+
+  async upsertDocument({
+    collectionName,
+    expressions,
+    documentPatch,
+    identifierDescriptor,
+    document
+  }: UpsertDocumentParams) {
+    return await this._runOutsideOtherTransactions(() => {
+      const table = this._getTable(collectionName);
+
+      const params: SQLParam[] = [];
+
+      // Since the SQLite operations are synchronous, nothing can happen between
+      // the reading and the writing of the document
+      const row = this._get<DocumentRow>(
+        `SELECT rowid, document FROM ${table} WHERE ${buildCondition(
+          expressions,
+          this._createQueryBuildingContext(params)
+        )} LIMIT 1`,
+        params
+      );
+
+      if (row !== undefined) {
+        const existingDocument = decodeDocument(row.document);
+
+        applyDocumentPatch(existingDocument, documentPatch);
+
+        try {
+          this._run(`UPDATE ${table} SET document = ? WHERE rowid = ?`, [
+            encodeDocument(existingDocument),
+            row.rowid
+          ]);
+        } catch (error) {
+          throw handleDuplicateKeyError(error, {collectionName, action: 'updating'});
+        }
+
+        this._reportChange(collectionName, {
+          type: 'updated',
+          identifierDescriptor,
+          document: existingDocument
+        });
+
+        return {document: existingDocument, wasCreated: false};
+      }
+
+      try {
+        this._run(`INSERT INTO ${table} (document) VALUES (?)`, [encodeDocument(document)]);
+      } catch (error) {
+        throw handleDuplicateKeyError(error, {collectionName, action: 'creating'});
+      }
+
+      this._reportChange(collectionName, {type: 'created', identifierDescriptor, document});
+
+      return {document, wasCreated: true};
+    });
+  }
+
+  async createDocuments({collectionName, documents}: CreateDocumentsParams) {
+    return await runDocumentOperations(documents, ({identifierDescriptor, document}) =>
+      this.createDocument({collectionName, identifierDescriptor, document})
+    );
+  }
+
+  async updateDocuments({collectionName, documentPatches, expressions}: UpdateDocumentsParams) {
+    return await runDocumentOperations(
+      documentPatches,
+      ({identifierDescriptor, documentPatch, expectedVersion}) =>
+        this.updateDocument({
+          collectionName,
+          identifierDescriptor,
+          documentPatch,
+          expectedVersion,
+          expressions
+        })
+    );
+  }
+
+  async deleteDocuments({
+    collectionName,
+    identifierDescriptors,
+    expressions
+  }: DeleteDocumentsParams) {
+    return await runDocumentOperations(identifierDescriptors, (identifierDescriptor) =>
+      this.deleteDocument({collectionName, identifierDescriptor, expressions})
+    );
+  }
+
+  async findDocuments({
+    collectionName,
+    expressions,
+    sort,
+    lookups,
+    skip,
+    limit
+  }: FindDocumentsParams): Promise<Document[]> {
+    return await this._runOutsideOtherTransactions(() => {
+      const {sql, params} = this._buildFindSQL({
+        collectionName,
+        expressions,
+        sort,
+        lookups,
+        skip,
+        limit
+      });
+
+      this._traceQuery({collectionName, expressions, backendQuery: {sql, params}});
+
+      const rows = this._all<{document: string}>(sql, params);
+
+      return rows.map((row) => decodeDocument(row.document));
+    });
+  }
+
+  private _buildFindSQL({
+    collectionName,
+    expressions,
+    sort,
+    lookups = {},
+    skip,
+    limit
+  }: Omit<FindDocumentsParams, 'projection'>) {
+    const table = this._getTable(collectionName);
+
+    const params: SQLParam[] = [];
+
+    let sql = `SELECT document FROM ${table} WHERE ${buildCondition(
+      expressions,
+      this._createQueryBuildingContext(params)
+    )}`;
+    sql += buildOrderByClause(sort, (name) => {
+      const lookupPath = Object.keys(lookups).find((path) => name.startsWith(`${path}.`));
+
+      if (lookupPath !== undefined) {
+        // The value is read from the referenced document by using a correlated subquery
+        const {collectionName, identifierName, identifierPath} = lookups[lookupPath];
+
+        const referencedIdentifier = `json_extract(${table}.document, ${quoteString(
+          buildJSONPath('$', joinPath(lookupPath, identifierName))
+        )})`;
+
+        return `(SELECT ${buildJSONExtract(
+          quoteString(buildJSONPath('$', name.slice(lookupPath.length + 1)))
+        )} FROM ${this._getTable(collectionName)} AS lookup WHERE ${buildJSONExtract(
+          quoteString(buildJSONPath('$', identifierPath))
+        )} = ${referencedIdentifier})`;
+      }
+
+      return buildJSONExtract(quoteString(buildJSONPath('$', name)));
+    });
+    sql += buildLimitClause({skip, limit}, {params});
+
+    return {sql, params};
+  }
+
+  async countDocuments({collectionName, expressions}: CountDocumentsParams) {
+    return await this._runOutsideOtherTransactions(() => {
+      const table = this._getTable(collectionName);
+
+      const params: SQLParam[] = [];
+
+      const sql = `SELECT count(*) AS count FROM ${table} WHERE ${buildCondition(
+        expressions,
+        this._createQueryBuildingContext(params)
+      )}`;
+
+      this._traceQuery({collectionName, expressions, backendQuery: {sql, params}});
+
+      const {count} = this._get<{count: number}>(sql, params)!;
+
+      return count;
+    });
+  }
+
+  async aggregateDocuments({
+    collectionName,
+    expressions,
+    groupBy,
+    aggregates,
+    sort,
+    skip,
+    limit
+  }: AggregateDocumentsParams): Promise<Document[]> {
+    return await this._runOutsideOtherTransactions(() => {
+      const table = this._getTable(collectionName);
+
+      const params: SQLParam[] = [];
+
+      const {columns, groupByClause, decodeRow} = buildAggregation({groupBy, aggregates});
+
+      let sql = `SELECT ${columns} FROM ${table} WHERE ${buildCondition(
+        expressions,
+        this._createQueryBuildingContext(params)
+      )}`;
+      sql += groupByClause;
+      sql += buildOrderByClause(sort, (name) => {
+        const index = groupBy.indexOf(name);
+
+        if (index !== -1) {
+          return `group${index}`;
+        }
+
+        const aggregateIndex = Object.keys(aggregates).indexOf(name);
+
+        if (aggregateIndex !== -1) {
+          return `aggregate${aggregateIndex}`;
+        }
+
+        throw new Error(
+          `Cannot sort the result of an aggregation on a path that is neither a grouping path nor an aggregate name (path: '${name}')`
+        );
+      });
+      sql += buildLimitClause({skip, limit}, {params});
+
+      this._traceQuery({collectionName, expressions, backendQuery: {sql, params}});
+
+      const rows = this._all<{[column: string]: SQLParam}>(sql, params);
+
+      return rows.map(decodeRow);
+    });
+  }
+
+  async explainDocuments({collectionName, expressions, sort, lookups}: ExplainDocumentsParams) {
+    return await this._runOutsideOtherTransactions(() => {
+      const {sql, params} = this._buildFindSQL({collectionName, expressions, sort, lookups});
+
+      const rows = this._all<{detail: string}>(`EXPLAIN QUERY PLAN ${sql}`, params);
+
+      const prefix = collectionName + SQLITE_INDEX_NAME_SEPARATOR;
+
+      // The longest names are checked first so an index cannot be mistaken
+      // for another index whose name is the beginning of its name
+      const indexName = this._getIndexNames(collectionName)
+        .sort((a, b) => b.length - a.length)
+        .find((name) => rows.some(({detail}) => detail.includes(`INDEX ${prefix}${name}`)));
+
+      return {backendQuery: {sql, params}, indexName, details: rows.map(({detail}) => detail)};
+    });
+  }
+
+  // === Watching ===
+
+  /**
+   * See the methods that are inherited from the [`Store`](https://layrjs.com/docs/v1/reference/store) class.
+   *
+   * Note that a `SQLiteStore` only reports the changes that are made through the store itself (i.e., the changes made by other processes that access the same database file are not reported).
+   *
+   * @category Watching
+   */
+
+  _changeEmitter = new EventEmitter().setMaxListeners(0);
+
+  async watchDocuments({collectionName, expressions, callback, onError}: WatchDocumentsParams) {
+    const params: SQLParam[] = [];
+
+    // The expressions are evaluated against the changed document by using it as a one-row table
+    const sql = `SELECT (${buildCondition(
+      expressions,
+      this._createQueryBuildingContext(params)
+    )}) AS isMatching FROM (SELECT ? AS document)`;
+
+    // The listener must not throw since it is called by the operation that made the change
+    const listener = (change: DocumentChange) => {
+      try {
+        // The changes reported by the store always include the document (even when it is deleted)
+        const {isMatching} = this._get<{isMatching: number | null}>(sql, [
+          ...params,
+          encodeDocument(change.document!)
+        ])!;
+
+        if (!isMatching) {
+          return;
+        }
+
+        callback(change);
+      } catch (error) {
+        onError(error);
+      }
+    };
+
+    this._changeEmitter.on(collectionName, listener);
+
+    return async () => {
+      this._changeEmitter.off(collectionName, listener);
+    };
+  }
+
+  // The changes made in a transaction are only reported when the transaction is committed
+  _reportChange(collectionName: string, change: DocumentChange) {
+    if (change.document !== undefined) {
+      // Make sure that the reported document cannot be modified by the listeners
+      change = {...change, document: decodeDocument(encodeDocument(change.document))};
+    }
+
+    const transaction = this.getCurrentTransaction() as SQLiteTransaction | undefined;
+
+    if (transaction !== undefined) {
+      transaction.changes.push({collectionName, change});
+    } else {
+      this._changeEmitter.emit(collectionName, change);
+    }
+  }
+
+  // === Migration ===
+
+  /**
+   * See the methods that are inherited from the [`Store`](https://layrjs.com/docs/v1/reference/store#migration) class.
+   *
+   * Note that since SQLite doesn't provide text and geospatial indexes, such indexes are ignored by a `SQLiteStore`. Also note that the case-insensitive indexes only fold the case of the ASCII characters, and that the TTL indexes are not supported.
+   *
+   * @category Migration
+   */
+
+  async migrateCollection({
+    collectionName,
+    collectionSchema,
+    silent = false
+  }: MigrateCollectionParams) {
+    return await this._runOutsideOtherTransactions(() => {
+      const result: MigrateCollectionResult = {
+        name: collectionName,
+        createdIndexes: [],
+        droppedIndexes: []
+      };
+
+      const tableExists =
+        this._get(`SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?`, [
+          collectionName
+        ]) !== undefined;
+
+      if (!tableExists && !silent) {
+        console.log(`Creating collection: '${collectionName}'`);
+      }
+
+      const table = this._getTable(collectionName);
+
+      const prefix = collectionName + SQLITE_INDEX_NAME_SEPARATOR;
+
+      const existingIndexNames = this._getIndexNames(collectionName);
+
+      const indexesToEnsure: {
+        name: string;
+        columns: string;
+        isUnique: boolean;
+        condition?: string;
+      }[] = [];
+
+      for (const index of collectionSchema.indexes) {
+        if (index.isText || index.isGeospatial) {
+          continue;
+        }
+
+        if (index.expireAfterSeconds !== undefined) {
+          throw new Error(
+            `TTL indexes are not supported by a SQLiteStore (collection: '${collectionName}', attributes: ${JSON.stringify(
+              index.attributes
+            )})`
+          );
+        }
+
+        let indexName = '';
+        const indexColumns: string[] = [];
+
+        for (const [name, direction] of Object.entries(index.attributes)) {
+          const directionString = direction.toLowerCase();
+
+          if (indexName !== '') {
+            indexName += ' + ';
+          }
+
+          indexName += name;
+
+          if (directionString === 'desc') {
+            indexName += ' (desc)';
+          }
+
+          indexColumns.push(
+            `${buildJSONExtract(quoteString(buildJSONPath('$', name)))}${
+              index.isCaseInsensitive ? ' COLLATE NOCASE' : ''
+            } ${directionString === 'desc' ? 'DESC' : 'ASC'}`
+          );
+        }
+
+        if (index.isUnique) {
+          indexName += ' [unique]';
+        }
+
+        if (index.isCaseInsensitive) {
+          indexName += ' [case-insensitive]';
+        }
+
+        let condition: string | undefined;
+
+        if (index.partialFilter !== undefined) {
+          // The filter is part of the name so that the index is recreated when it changes
+          indexName += ` [partial: ${JSON.stringify(index.partialFilter, (_key, value) =>
+            value !== undefined ? value : null
+          )}]`;
+          condition = this._buildIndexCondition(index.partialFilter);
+        }
+
+        indexesToEnsure.push({
+          name: indexName,
+          columns: indexColumns.join(', '),
+          isUnique: index.isUnique,
+          ...(condition !== undefined && {condition})
+        });
+      }
+
+      const indexesToCreate = indexesToEnsure.filter(
+        (index) => !existingIndexNames.includes(index.name)
+      );
+
+      const indexNamesToDrop = existingIndexNames.filter(
+        (name) => !indexesToEnsure.some((index) => index.name === name)
+      );
+
+      if (indexesToCreate.length !== 0 || indexNamesToDrop.length !== 0) {
+        if (tableExists && !silent) {
+          console.log(`Migrating collection: '${collectionName}'`);
+        }
+      }
+
+      for (const name of indexNamesToDrop) {
+        if (!silent) {
+          console.log(`- Dropping index: '${name}'`);
+        }
+
+        this._execute(`DROP INDEX ${quoteIdentifier(prefix + name)}`);
+
+        result.droppedIndexes.push(name);
+      }
+
+      for (const index of indexesToCreate) {
+        if (!silent) {
+          console.log(`- Creating index: '${index.name}'`);
+        }
+
+        this._execute(
+          `CREATE ${index.isUnique ? 'UNIQUE ' : ''}INDEX ${quoteIdentifier(
+            prefix + index.name
+          )} ON ${table} (${index.columns})${
+            index.condition !== undefined ? ` WHERE ${index.condition}` : ''
+          }`
+        );
+
+        result.createdIndexes.push(index.name);
+      }
+
+      return result;
+    });
+  }
+
+  // The WHERE clause of a partial index cannot have parameters,
+  // so the parameters of the condition are inlined as literals
+  private _buildIndexCondition(expressions: Expression[]) {
+    const params: SQLParam[] = [];
+
+    const condition = buildCondition(expressions, this._createQueryBuildingContext(params));
+
+    return condition.replace(/'(?:[^']|'')*'|"(?:[^"]|"")*"|\?/g, (token) => {
+      if (token !== '?') {
+        return token; // A string literal or a quoted identifier
+      }
+
+      const param = params.shift();
+
+      return param === null || param === undefined
+        ? 'NULL'
+        : typeof param === 'number'
+        ? String(param)
+        : quoteString(param);
+    });
+  }
+
+  // Returns the names of the indexes of a collection (without the collection name prefix)
+  private _getIndexNames(collectionName: string) {
+    const prefix = collectionName + SQLITE_INDEX_NAME_SEPARATOR;
+
+    return this._all<{name: string}>(
+      `SELECT name FROM sqlite_master WHERE type = 'index' AND tbl_name = ? AND sql IS NOT NULL`,
+      [collectionName]
+    )
+      .map(({name}) => name)
+      .filter((name) => name.startsWith(prefix))
+      .map((name) => name.slice(prefix.length));
+  }
+
+  // === SQLite database ===
+
+  private _database: Database.Database | undefined;
+
+  private _getDatabase() {
+    if (this._database === undefined) {
+      debug('new Database(%o)', this._filename);
+
+      const database = new Database(this._filename);
+
+      const regExpCache = new Map<string, RegExp>();
+
+      database.function(
+        'layr_regexp',
+        {deterministic: true},
+        (source: string, flags: string, value: unknown) => {
+          if (typeof value !== 'string') {
+            return 0;
+          }
+
+          const key = `/${source}/${flags}`;
+
+          let regExp = regExpCache.get(key);
+
+          if (regExp === undefined) {
+            regExp = new RegExp(source, flags);
+            regExpCache.set(key, regExp);
+          }
+
+          regExp.lastIndex = 0;
+
+          return regExp.test(value) ? 1 : 0;
+        }
+      );
+
+      this._database = database;
+    }
+
+    return this._database;
+  }
+
+  private _existingTables = new Set<string>();
+
+  // Returns the quoted name of the table storing the specified collection,
+  // and creates the table if it doesn't exist yet
+  private _getTable(collectionName: string) {
+    const table = quoteIdentifier(collectionName);
+
+    if (!this._existingTables.has(collectionName)) {
+      this._execute(`CREATE TABLE IF NOT EXISTS ${table} (document TEXT NOT NULL)`);
+      this._existingTables.add(collectionName);
+      this._openTransaction?.createdTables.push(collectionName);
+    }
+
+    return table;
+  }
+
+  // The lookups need to access the tables of the referenced collections
+  private _createQueryBuildingContext(params: SQLParam[]): QueryBuildingContext {
+    return {params, getTable: (collectionName) => this._getTable(collectionName)};
+  }
+
+  private _execute(sql: string) {
+    debug('%s', sql);
+
+    this._getDatabase().exec(sql);
+  }
+
+  private _run(sql: string, params: SQLParam[]) {
+    debug('%s %o', sql, params);
+
+    return this._getDatabase()
+      .prepare(sql)
+      .run(...params);
+  }
+
+  private _get<Row>(sql: string, params: SQLParam[]) {
+    debug('%s %o', sql, params);
+
+    return this._getDatabase()
+      .prepare(sql)
+      .get(...params) as Row | undefined;
+  }
+
+  private _all<Row>(sql: string, params: SQLParam[]) {
+    debug('%s %o', sql, params);
+
+    return this._getDatabase()
+      .prepare(sql)
+      .all(...params) as Row[];
+  }
+}
+
+function handleDuplicateKeyError(
+  error: any,
+  {collectionName, action}: {collectionName: string; action: 'creating' | 'updating'}
+) {
+  if (error?.code !== 'SQLITE_CONSTRAINT_UNIQUE') {
+    return error;
+  }
+
+  const matches = error.message.match(/ index '(.*)'/);
+
+  if (matches === null) {
+    return error;
+  }
+
+  const indexName = matches[1].slice(collectionName.length + SQLITE_INDEX_NAME_SEPARATOR.length);
+
+  return Object.assign(
+    new Error(
+      `A duplicate key error occurred while ${action} a SQLite document (collection: '${collectionName}', index: '${indexName}')`
+    ),
+    {code: 'DUPLICATE_KEY_ERROR', collectionName, indexName}
+  );
+}
+
+// === Documents encoding ===
+
+// Since JSON doesn't support dates, they are encoded as `{__date: '2021-06-02T12:34:56.789Z'}`
+// (as in `simple-serialization`), so they can still be compared and sorted as ISO strings
+function encodeDocument(document: Document) {
+  return JSON.stringify(document, function (this: any, key, value) {
+    const originalValue = this[key];
+
+    if (originalValue instanceof Date) {
+      return {__date: originalValue.toISOString()};
+    }
+
+    return value;
+  });
+}
+
+function decodeDocument(json: string): Document {
+  return JSON.parse(json, decodeValue);
+}
+
+function decodeValue(_key: string, value: unknown) {
+  if (isPlainObject(value) && hasOwnProperty(value, '__date')) {
+    return new Date(value.__date as string);
+  }
+
+  return value;
+}
+
+// === Query building ===
+
+// A JSON path is built from a base which is either the root of the document ('$'),
+// or the full key of an array item when the expressions are nested in a '$some' or '$every'
+// operator (e.g., 'item1.fullkey')
+
+type JSONPathBase = {root: string} | {item: string};
+
+type QueryBuildingContext = {
+  params: SQLParam[];
+  getTable: (collectionName: string) => string;
+  itemCount?: {value: number};
+};
+
+function buildJSONPath(root: string, path: Path) {
+  let jsonPath = root;
+
+  if (path !== '') {
+    for (const name of path.split('.')) {
+      jsonPath += `."${name}"`;
+    }
+  }
+
+  return jsonPath;
+}
+
+// The JSON paths are inlined as string literals (rather than passed as parameters)
+// so that SQLite can use the indexes created on the 'json_extract()' expressions
+function buildJSONPathSQL(base: JSONPathBase, path: Path) {
+  if ('root' in base) {
+    return quoteString(buildJSONPath(base.root, path));
+  }
+
+  if (path === '') {
+    return base.item;
+  }
+
+  return `(${base.item} || ${quoteString(buildJSONPath('', path))})`;
+}
+
+function buildJSONExtract(jsonPathSQL: string) {
+  return `json_extract(document, ${jsonPathSQL})`;
+}
+
+function buildJSONType(jsonPathSQL: string) {
+  return `json_type(document, ${jsonPathSQL})`;
+}
+
+function joinJSONPathBase(base: JSONPathBase, path: Path): JSONPathBase {
+  if ('root' in base) {
+    return {root: buildJSONPath(base.root, path)};
+  }
+
+  return {item: buildJSONPathSQL(base, path)};
+}
+
+function buildCondition(
+  expressions: Expression[],
+  context: QueryBuildingContext,
+  base: JSONPathBase = {root: '$'}
+): string {
+  if (expressions.length === 0) {
+    return '1';
+  }
+
+  return expressions
+    .map(([path, operator, operand]) => {
+      return `(${buildExpressionCondition(base, path, operator, operand, context)})`;
+    })
+    .join(' AND ');
+}
+
+// A condition may evaluate to NULL (e.g., when comparing a missing value),
+// so it is coerced to 0 before being negated
+function buildNegatedCondition(condition: string) {
+  return `NOT coalesce(${condition}, 0)`;
+}
+
+function buildExpressionCondition(
+  base: JSONPathBase,
+  path: Path,
+  operator: Operator,
+  operand: any,
+  context: QueryBuildingContext
+): string {
+  const {params} = context;
+
+  const jsonPath = buildJSONPathSQL(base, path);
+
+  const addParam = (value: unknown) => {
+    params.push(toSQLParam(value));
+    return '?';
+  };
+
+  // --- Basic operators ---
+
+  if (operator === '$equal') {
+    return buildEqualityCondition(base, path, operand, context);
+  }
+
+  if (operator === '$notEqual') {
+    return `NOT ${buildEqualityCondition(base, path, operand, context)}`;
+  }
+
+  if (
+    operator === '$greaterThan' ||
+    operator === '$greaterThanOrEqual' ||
+    operator === '$lessThan' ||
+    operator === '$lessThanOrEqual'
+  ) {
+    const sqlOperator =
+      operator === '$greaterThan'
+        ? '>'
+        : operator === '$greaterThanOrEqual'
+        ? '>='
+        : operator === '$lessThan'
+        ? '<'
+        : '<=';
+
+    const valueJSONPath =
+      operand instanceof Date ? buildJSONPathSQL(base, joinPath(path, '__date')) : jsonPath;
+
+    return `${buildJSONExtract(valueJSONPath)} ${sqlOperator} ${addParam(operand)}`;
+  }
+
+  if (operator === '$in') {
+    const values = operand as unknown[];
+
+    if (values.length === 0) {
+      return '0';
+    }
+
+    return values.map((value) => buildEqualityCondition(base, path, value, context)).join(' OR ');
+  }
+
+  // --- String operators ---
+
+  if (operator === '$includes') {
+    return `${buildJSONType(jsonPath)} = 'text' AND instr(${buildJSONExtract(jsonPath)}, ${addParam(
+      operand
+    )}) > 0`;
+  }
+
+  if (operator === '$startsWith') {
+    return `${buildJSONType(jsonPath)} = 'text' AND substr(${buildJSONExtract(
+      jsonPath
+    )}, 1, length(${addParam(operand)})) = ${addParam(operand)}`;
+  }
+
+  if (operator === '$endsWith') {
+    const value = buildJSONExtract(jsonPath);
+
+    return `${buildJSONType(
+      jsonPath
+    )} = 'text' AND substr(${value}, length(${value}) - length(${addParam(
+      operand
+    )}) + 1) = ${addParam(operand)}`;
+  }
+
+  if (operator === '$matches') {
+    const {source, flags} = operand as RegExp;
+
+    return `${buildJSONType(jsonPath)} = 'text' AND layr_regexp(${addParam(source)}, ${addParam(
+      flags
+    )}, ${buildJSONExtract(jsonPath)})`;
+  }
+
+  // --- Array operators ---
+
+  if (operator === '$some' || operator === '$every') {
+    const subexpressions = operand as Expression[];
+
+    if (context.itemCount === undefined) {
+      context.itemCount = {value: 0};
+    }
+
+    const item = `item${++context.itemCount.value}`;
+
+    let subcondition = buildCondition(subexpressions, context, {item: `${item}.fullkey`});
+
+    if (operator === '$every') {
+      subcondition = buildNegatedCondition(`(${subcondition})`);
+    }
+
+    return `${buildJSONType(jsonPath)} = 'array' AND ${
+      operator === '$every' ? 'NOT ' : ''
+    }EXISTS (SELECT 1 FROM json_each(document, ${jsonPath}) AS ${item} WHERE ${subcondition})`;
+  }
+
+  if (operator === '$length') {
+    return `${buildJSONType(
+      jsonPath
+    )} = 'array' AND json_array_length(document, ${jsonPath}) = ${addParam(operand)}`;
+  }
+
+  // --- Lookup operator ---
+
+  // The referenced documents are matched by a subquery on the table of their collection
+  // (inside the subquery, 'document' refers to the referenced documents)
+  if (operator === '$lookup') {
+    const {
+      collectionName,
+      identifierName,
+      identifierPath,
+      expressions: subexpressions
+    } = operand as LookupOperand;
+
+    const referencedIdentifier = buildJSONExtract(
+      buildJSONPathSQL(base, joinPath(path, identifierName))
+    );
+
+    return `${referencedIdentifier} IN (SELECT ${buildJSONExtract(
+      quoteString(buildJSONPath('$', identifierPath))
+    )} FROM ${context.getTable(collectionName)} WHERE ${buildCondition(subexpressions, context)})`;
+  }
+
+  // --- Logical operators ---
+
+  if (operator === '$not') {
+    const subexpressions = operand as Expression[];
+
+    return buildNegatedCondition(
+      `(${buildCondition(subexpressions, context, joinJSONPathBase(base, path))})`
+    );
+  }
+
+  if (operator === '$and' || operator === '$or' || operator === '$nor') {
+    const subexpressionsList = operand as Expression[][];
+
+    const subbase = joinJSONPathBase(base, path);
+
+    const conditions = subexpressionsList.map(
+      (subexpressions) => `(${buildCondition(subexpressions, context, subbase)})`
+    );
+
+    if (operator === '$and') {
+      return conditions.length !== 0 ? conditions.join(' AND ') : '1';
+    }
+
+    const condition = conditions.length !== 0 ? conditions.join(' OR ') : '0';
+
+    return operator === '$or' ? condition : buildNegatedCondition(`(${condition})`);
+  }
+
+  throw new Error(
+    `A query contains an operator that is not supported by a SQLiteStore (operator: '${operator}', path: '${path}')`
+  );
+}
+
+// Returns a condition that never evaluates to NULL so it can be safely negated
+function buildEqualityCondition(
+  base: JSONPathBase,
+  path: Path,
+  value: unknown,
+  {params}: QueryBuildingContext
+) {
+  if (value === undefined || value === null) {
+    return `${buildJSONExtract(buildJSONPathSQL(base, path))} IS NULL`;
+  }
+
+  if (typeof value === 'boolean') {
+    // JSON booleans are extracted as integers, so their JSON type is checked instead
+    return `${buildJSONType(buildJSONPathSQL(base, path))} IS '${value}'`;
+  }
+
+  if (value instanceof Date) {
+    params.push(toSQLParam(value));
+    return `${buildJSONExtract(buildJSONPathSQL(base, joinPath(path, '__date')))} IS ?`;
+  }
+
+  params.push(toSQLParam(value));
+  return `${buildJSONExtract(buildJSONPathSQL(base, path))} IS ?`;
+}
+
+function toSQLParam(value: unknown): SQLParam {
+  if (value === undefined || value === null) {
+    return null;
+  }
+
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+
+  if (typeof value === 'string' || typeof value === 'number') {
+    return value;
+  }
+
+  throw new Error(
+    `A query contains a value that is not supported by a SQLiteStore (value: ${JSON.stringify(
+      value
+    )})`
+  );
+}
+
+function buildOrderByClause(
+  sort: SortDescriptor | undefined,
+  buildColumn: (name: string) => string
+) {
+  if (sort === undefined) {
+    return '';
+  }
+
+  const terms = Object.entries(sort).map(([name, direction]) => {
+    if (name === '$relevance') {
+      throw new Error(`The '$relevance' sort is not supported by a SQLiteStore`);
+    }
+
+    return `${buildColumn(name)} ${direction.toLowerCase() === 'desc' ? 'DESC' : 'ASC'}`;
+  });
+
+  if (terms.length === 0) {
+    return '';
+  }
+
+  return ` ORDER BY ${terms.join(', ')}`;
+}
+
+function buildLimitClause(
+  {skip, limit}: {skip?: number; limit?: number},
+  {params}: {params: SQLParam[]}
+) {
+  if (skip === undefined && limit === undefined) {
+    return '';
+  }
+
+  // SQLite requires a LIMIT clause to specify an OFFSET clause (-1 meaning no limit)
+  params.push(limit ?? -1, skip ?? 0);
+
+  return ` LIMIT ? OFFSET ?`;
+}
+
+function buildAggregation({
+  groupBy,
+  aggregates
+}: {
+  groupBy: Path[];
+  aggregates: DocumentAggregates;
+}) {
+  const columns: string[] = [];
+
+  groupBy.forEach((path, index) => {
+    const jsonPath = quoteString(buildJSONPath('$', path));
+
+    columns.push(`${buildJSONExtract(jsonPath)} AS group${index}`);
+    columns.push(`${buildJSONType(jsonPath)} AS groupType${index}`);
+  });
+
+  const aggregateEntries = Object.entries(aggregates);
+
+  aggregateEntries.forEach(([, {operator, path}], index) => {
+    columns.push(`${buildAggregateColumn(operator, path)} AS aggregate${index}`);
+
+    if (operator === '$min' || operator === '$max') {
+      // Allows to know whether the aggregated values are dates
+      columns.push(
+        `max(${buildJSONType(
+          quoteString(buildJSONPath('$', path!))
+        )} = 'object') AS aggregateIsDate${index}`
+      );
+    }
+  });
+
+  const groupByClause =
+    groupBy.length !== 0
+      ? ` GROUP BY ${groupBy.map((_, index) => `group${index}`).join(', ')}`
+      : '';
+
+  const decodeRow = (row: {[column: string]: SQLParam}) => {
+    const document: Document = {};
+
+    groupBy.forEach((path, index) => {
+      document[path] = decodeJSONValue(row[`group${index}`], row[`groupType${index}`]);
+    });
+
+    aggregateEntries.forEach(([name, {operator}], index) => {
+      let value = row[`aggregate${index}`];
+
+      if (value === null) {
+        document[name] = undefined;
+      } else if (
+        (operator === '$min' || operator === '$max') &&
+        row[`aggregateIsDate${index}`] === 1
+      ) {
+        document[name] = new Date(value as string);
+      } else {
+        document[name] = value;
+      }
+    });
+
+    return document;
+  };
+
+  return {columns: columns.join(', '), groupByClause, decodeRow};
+}
+
+function buildAggregateColumn(operator: AggregateOperator, path: Path | undefined) {
+  if (operator === '$count') {
+    return 'count(*)';
+  }
+
+  const jsonPath = quoteString(buildJSONPath('$', path!));
+  const value = buildJSONExtract(jsonPath);
+  const type = buildJSONType(jsonPath);
+
+  if (operator === '$sum') {
+    return `total(CASE WHEN ${type} IN ('integer', 'real') THEN ${value} END)`;
+  }
+
+  if (operator === '$average') {
+    return `avg(CASE WHEN ${type} IN ('integer', 'real') THEN ${value} END)`;
+  }
+
+  if (operator === '$min' || operator === '$max') {
+    // The dates are aggregated by using their ISO string representation
+    const dateValue = buildJSONExtract(quoteString(buildJSONPath('$', joinPath(path!, '__date'))));
+
+    return `${operator.slice(1)}(CASE WHEN ${type} = 'object' THEN ${dateValue} ELSE ${value} END)`;
+  }
+
+  throw new Error(`An aggregate operator is not supported (operator: '${operator}')`);
+}
+
+function decodeJSONValue(value: SQLParam, type: SQLParam) {
+  if (type === null || type === 'null') {
+    return undefined;
+  }
+
+  if (type === 'true' || type === 'false') {
+    return type === 'true';
+  }
+
+  if (type === 'object' || type === 'array') {
+    return JSON.parse(value as string, decodeValue);
+  }
+
+  return value;
+}
+
+function joinPath(path: Path, name: string) {
+  return path !== '' ? `${path}.${name}` : name;
+}
+
+function quoteIdentifier(identifier: string) {
+  return `"${identifier.replace(/"/g, '""')}"`;
+}
+
+function quoteString(string: string) {
+  return `'${string.replace(/'/g, "''")}'`;
+}
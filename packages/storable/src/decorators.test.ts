@@ -1,9 +1,21 @@
 import {Component} from '@layr/component';
 
 import {Storable} from './storable';
-import {attribute, method, loader, finder, index} from './decorators';
+import {
+  attribute,
+  method,
+  loader,
+  finder,
+  transactional,
+  version,
+  softDeletable,
+  timestamps,
+  history,
+  index
+} from './decorators';
 import {isStorableAttributeInstance, isStorableMethodInstance} from './properties';
 import {isIndexInstance} from './index-class';
+import type {StoreLike} from './store-like';
 
 describe('Decorators', () => {
   test('@attribute()', async () => {
@@ -92,6 +104,170 @@ describe('Decorators', () => {
     expect(hasAccessLevelMethod.hasFinder()).toBe(true);
   });
 
+  test('@transactional()', async () => {
+    class Movie extends Storable(Component) {
+      @attribute('number') static views = 0;
+
+      @transactional() @method() static async incrementViews() {
+        this.views++;
+
+        return this.views;
+      }
+
+      @transactional() @method() async fail() {
+        throw new Error('Something went wrong');
+      }
+    }
+
+    // Without a store, the method is executed as is
+    expect(await Movie.incrementViews()).toBe(1);
+
+    const transactions: string[] = [];
+
+    const store: Pick<StoreLike, 'transaction'> = {
+      async transaction<Result>(func: () => Promise<Result>) {
+        transactions.push('start');
+
+        try {
+          const result = await func();
+          transactions.push('commit');
+          return result;
+        } catch (error) {
+          transactions.push('abort');
+          throw error;
+        }
+      }
+    };
+
+    Movie.__setStore(store as StoreLike);
+
+    expect(await Movie.incrementViews()).toBe(2);
+    expect(transactions).toStrictEqual(['start', 'commit']);
+
+    await expect(new Movie().fail()).rejects.toThrow('Something went wrong');
+    expect(transactions).toStrictEqual(['start', 'commit', 'start', 'abort']);
+
+    expect(() => {
+      class Movie extends Storable(Component) {
+        @transactional() async publish() {
+          return this;
+        }
+      }
+
+      return Movie;
+    }).toThrow("@transactional() must be used in combination with @method() (property: 'publish')");
+  });
+
+  test('@version()', async () => {
+    class Movie extends Storable(Component) {
+      @attribute('string') title = '';
+
+      @version() version?: number;
+    }
+
+    const versionAttribute = Movie.prototype.getStorableAttribute('version');
+
+    expect(isStorableAttributeInstance(versionAttribute)).toBe(true);
+    expect(versionAttribute.getValueType().toString()).toBe('number?');
+    expect(versionAttribute.isVersion()).toBe(true);
+    expect(Movie.prototype.getVersionAttribute()).toBe(versionAttribute);
+    expect(Movie.prototype.getStorableAttribute('title').isVersion()).toBe(false);
+
+    class Film extends Movie {}
+
+    expect(Film.prototype.getVersionAttribute()?.getName()).toBe('version');
+
+    expect(() => {
+      class Movie extends Storable(Component) {
+        @version() version?: number;
+
+        @version() revision?: number;
+      }
+
+      return Movie;
+    }).toThrow(
+      "A storable component cannot have more than one version attribute (property: 'revision')"
+    );
+  });
+
+  test('@softDeletable()', async () => {
+    @softDeletable()
+    class Movie extends Storable(Component) {
+      @attribute('string') title = '';
+    }
+
+    expect(Movie.isSoftDeletable()).toBe(true);
+
+    const deletedAtAttribute = Movie.prototype.getStorableAttribute('deletedAt');
+
+    expect(isStorableAttributeInstance(deletedAtAttribute)).toBe(true);
+    expect(deletedAtAttribute.getValueType().toString()).toBe('Date?');
+
+    class Film extends Movie {}
+
+    expect(Film.isSoftDeletable()).toBe(true);
+
+    @softDeletable()
+    class Article extends Storable(Component) {
+      @attribute('Date?') deletedAt?: Date;
+    }
+
+    expect(Article.isSoftDeletable()).toBe(true);
+    expect(Article.prototype.getStorableAttribute('deletedAt').getParent()).toBe(Article.prototype);
+
+    class Book extends Storable(Component) {}
+
+    expect(Book.isSoftDeletable()).toBe(false);
+  });
+
+  test('@timestamps()', async () => {
+    @timestamps()
+    class Movie extends Storable(Component) {
+      @attribute('string') title = '';
+    }
+
+    expect(Movie.hasTimestamps()).toBe(true);
+
+    for (const name of ['createdAt', 'updatedAt']) {
+      const timestampAttribute = Movie.prototype.getStorableAttribute(name);
+
+      expect(isStorableAttributeInstance(timestampAttribute)).toBe(true);
+      expect(timestampAttribute.getValueType().toString()).toBe('Date?');
+      expect(timestampAttribute.getExposure()).toStrictEqual({get: true});
+    }
+
+    expect(Movie.prototype.hasIndex({updatedAt: 'asc'})).toBe(true);
+
+    class Film extends Movie {}
+
+    expect(Film.hasTimestamps()).toBe(true);
+
+    class Book extends Storable(Component) {}
+
+    expect(Book.hasTimestamps()).toBe(false);
+  });
+
+  test('@history()', async () => {
+    @history()
+    class Movie extends Storable(Component) {
+      @attribute('string') title = '';
+    }
+
+    expect(Movie.hasHistory()).toBe(true);
+
+    class Film extends Movie {}
+
+    expect(Film.hasHistory()).toBe(true);
+
+    class Book extends Storable(Component) {}
+
+    expect(Book.hasHistory()).toBe(false);
+
+    expect(() => history()(Component as any)).toThrow(
+      '@history() must be used as a storable component class decorator'
+    );
+  });
+
   test('@index()', async () => {
     @index({year: 'desc', title: 'asc'}, {isUnique: true})
     class Movie extends Storable(Component) {
@@ -120,5 +296,15 @@ describe('Decorators', () => {
     expect(compoundIndex.getAttributes()).toStrictEqual({year: 'desc', title: 'asc'});
     expect(compoundIndex.getParent()).toBe(Movie.prototype);
     expect(compoundIndex.getOptions().isUnique).toBe(true);
+
+    @index({title: 'asc', summary: 'asc'}, {isText: true})
+    class Film extends Storable(Component) {
+      @attribute('string') title!: string;
+
+      @index({isText: true}) @attribute('string') summary!: string;
+    }
+
+    expect(Film.prototype.getIndex({summary: 'asc'}).getOptions().isText).toBe(true);
+    expect(Film.prototype.getIndex({title: 'asc', summary: 'asc'}).getOptions().isText).toBe(true);
   });
 });
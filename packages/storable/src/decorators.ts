@@ -17,11 +17,17 @@ import {
   StorablePrimaryIdentifierAttribute,
   StorableSecondaryIdentifierAttribute,
   StorableAttributeLoader,
+  StorableAttributeRelation,
   StorableMethod,
   StorableMethodOptions
 } from './properties';
-import type {IndexAttributes} from './index-class';
-import {isStorableClass, isStorableInstance, isStorableClassOrInstance} from './utilities';
+import type {IndexAttributes, IndexOptions} from './index-class';
+import {
+  isStorableClass,
+  isStorableInstance,
+  isStorableClassOrInstance,
+  ensureStorableClass
+} from './utilities';
 
 type StorableAttributeDecoratorOptions = Omit<StorableAttributeOptions, 'value' | 'default'>;
 
@@ -114,6 +120,206 @@ export function secondaryIdentifier(
   );
 }
 
+/**
+ * Decorates an attribute of a storable component as a version attribute so that the component benefits from an optimistic concurrency control.
+ *
+ * A version attribute stores a number (or `undefined` until the component is saved for the first time) that is automatically set to `1` when the component is created in a store, and incremented each time the component is saved. When a non-new component is saved, the store checks that the version of the component hasn't changed in the store since the component was loaded. Otherwise, it means that the component has been saved in the meantime (e.g., by another user), and an error with a `code` attribute set to `'COMPONENT_VERSION_CONFLICT'` is thrown.
+ *
+ * A storable component can have only one version attribute.
+ *
+ * @param [options] The options to create the [`StorableAttribute`](https://layrjs.com/docs/v1/reference/storable-attribute#constructor).
+ *
+ * @example
+ * ```
+ * class Article extends Storable(Component) {
+ *   ﹫primaryIdentifier() id!: string;
+ *
+ *   ﹫attribute('string') title = '';
+ *
+ *   ﹫version() version?: number;
+ * }
+ *
+ * const article = await Article.get('abc123');
+ *
+ * article.title = 'New title';
+ *
+ * // Throws a 'COMPONENT_VERSION_CONFLICT' error if the article was saved in the meantime
+ * await article.save();
+ * ```
+ *
+ * @category Decorators
+ * @decorator
+ */
+export function version(options?: StorableAttributeDecoratorOptions) {
+  const attributeDecorator = createAttributeDecorator(
+    new Map([[isStorableInstance, StorableAttribute]]),
+    'version',
+    'number?',
+    options
+  );
+
+  return function (target: StorableComponent, name: string, descriptor?: PropertyDescriptor) {
+    if (!isStorableInstance(target)) {
+      throw new Error(
+        `@version() must be used as a storable component attribute decorator (property: '${name}')`
+      );
+    }
+
+    const versionAttribute = target.getVersionAttribute({autoFork: false});
+
+    if (versionAttribute !== undefined && versionAttribute.getName() !== name) {
+      throw new Error(
+        `A storable component cannot have more than one version attribute (property: '${name}')`
+      );
+    }
+
+    const result = attributeDecorator(target, name, descriptor);
+
+    target.getStorableAttribute(name).markAsVersion();
+
+    return result;
+  };
+}
+
+/**
+ * Decorates a storable component class so that its instances are soft-deleted.
+ *
+ * When a soft-deletable component is deleted with the [`delete()`](https://layrjs.com/docs/v1/reference/storable#delete-instance-method) method, it is not removed from the store but its `deletedAt` attribute is set to the current date. The soft-deleted components are then excluded by the [`get()`](https://layrjs.com/docs/v1/reference/storable#get-class-method), [`find()`](https://layrjs.com/docs/v1/reference/storable#find-class-method), and [`count()`](https://layrjs.com/docs/v1/reference/storable#count-class-method) methods unless the `includeDeleted` option is specified, and they can be restored with the [`restore()`](https://layrjs.com/docs/v1/reference/storable#restore-instance-method) method or removed for good with the [`purge()`](https://layrjs.com/docs/v1/reference/storable#purge-instance-method) method.
+ *
+ * The `deletedAt` attribute (of type `'Date?'`) is automatically added to the storable component if it is not already defined.
+ *
+ * @example
+ * ```
+ * ﹫softDeletable()
+ * class Article extends Storable(Component) {
+ *   ﹫primaryIdentifier() id!: string;
+ *
+ *   ﹫attribute('string') title = '';
+ * }
+ *
+ * const article = await Article.get('abc123');
+ *
+ * await article.delete(); // `article.deletedAt` is set to the current date
+ *
+ * await Article.get('abc123'); // Throws an error
+ * await Article.get('abc123', true, {includeDeleted: true}); // Returns the article
+ *
+ * await article.restore(); // `article.deletedAt` is set to `undefined`
+ * ```
+ *
+ * @category Decorators
+ * @decorator
+ */
+export function softDeletable() {
+  return function (target: typeof StorableComponent) {
+    if (!isStorableClass(target)) {
+      throw new Error(`@softDeletable() must be used as a storable component class decorator`);
+    }
+
+    if (!target.prototype.hasStorableAttribute('deletedAt')) {
+      target.prototype.setStorableAttribute('deletedAt', {valueType: 'Date?'});
+    }
+
+    target.__markAsSoftDeletable();
+  };
+}
+
+/**
+ * Decorates a storable component class so that its instances automatically hold their creation and modification dates.
+ *
+ * Two attributes (of type `'Date?'`) are added to the storable component if they are not already defined:
+ *
+ * - `createdAt`: The date when the component was created in the store.
+ * - `updatedAt`: The date when the component was saved in the store for the last time.
+ *
+ * These attributes are set by the store each time the component is saved with the [`save()`](https://layrjs.com/docs/v1/reference/storable#save-instance-method) method, they are exposed to remote access in read-only mode, and the `updatedAt` attribute is indexed.
+ *
+ * @example
+ * ```
+ * ﹫timestamps()
+ * class Article extends Storable(Component) {
+ *   ﹫primaryIdentifier() id!: string;
+ *
+ *   ﹫attribute('string') title = '';
+ * }
+ *
+ * const article = new Article({title: 'Hello'});
+ *
+ * await article.save(); // `article.createdAt` and `article.updatedAt` are set to the current date
+ *
+ * article.title = 'Hello, World!';
+ *
+ * await article.save(); // `article.updatedAt` is set to the current date
+ * ```
+ *
+ * @category Decorators
+ * @decorator
+ */
+export function timestamps() {
+  return function (target: typeof StorableComponent) {
+    if (!isStorableClass(target)) {
+      throw new Error(`@timestamps() must be used as a storable component class decorator`);
+    }
+
+    for (const name of ['createdAt', 'updatedAt']) {
+      if (!target.prototype.hasStorableAttribute(name)) {
+        target.prototype.setStorableAttribute(name, {valueType: 'Date?', exposure: {get: true}});
+      }
+    }
+
+    if (!target.prototype.hasIndex({updatedAt: 'asc'})) {
+      target.prototype.setIndex({updatedAt: 'asc'});
+    }
+
+    target.__markAsHavingTimestamps();
+  };
+}
+
+/**
+ * Decorates a storable component class so that the changes of its instances are recorded in the store.
+ *
+ * Each time a component is saved with the [`save()`](https://layrjs.com/docs/v1/reference/storable#save-instance-method) method deleted with the [`delete()`](https://layrjs.com/docs/v1/reference/storable#delete-instance-method) method, or changed with an atomic operation (e.g., [`increment()`](https://layrjs.com/docs/v1/reference/storable#increment-instance-method)), [`restore()`](https://layrjs.com/docs/v1/reference/storable#restore-instance-method), or [`purge()`](https://layrjs.com/docs/v1/reference/storable#purge-instance-method), the store records an entry holding the values of the saved attributes (the resulting values for an atomic operation) along with their previous values, the date of the operation, and the actor returned by the `actorResolver` option of the [store](https://layrjs.com/docs/v1/reference/store#constructor). The entries are stored in a companion collection named `'<collectionName>History'`, which is indexed by the [`migrateStorables()`](https://layrjs.com/docs/v1/reference/store#migrate-storables-instance-method) method, and they are written in the same transaction as the changes when the store supports transactions.
+ *
+ * The recorded entries can be retrieved with the [`getHistory()`](https://layrjs.com/docs/v1/reference/storable#get-history-instance-method) method, and a component can be reverted to the state of any entry with the [`revertTo()`](https://layrjs.com/docs/v1/reference/storable#revert-to-instance-method) method.
+ *
+ * @example
+ * ```
+ * ﹫history()
+ * class Article extends Storable(Component) {
+ *   ﹫primaryIdentifier() id!: string;
+ *
+ *   ﹫attribute('string') title = '';
+ * }
+ *
+ * const article = new Article({title: 'Hello'});
+ * await article.save();
+ *
+ * article.title = 'Hello, World!';
+ * await article.save();
+ *
+ * const [creation, update] = await article.getHistory();
+ *
+ * update.changes; // => {title: 'Hello, World!'}
+ * update.previousValues; // => {title: 'Hello'}
+ *
+ * await article.revertTo(creation.id);
+ *
+ * article.title; // => 'Hello'
+ * ```
+ *
+ * @category Decorators
+ * @decorator
+ */
+export function history() {
+  return function (target: typeof StorableComponent) {
+    if (!isStorableClass(target)) {
+      throw new Error(`@history() must be used as a storable component class decorator`);
+    }
+
+    target.__markAsHavingHistory();
+  };
+}
+
 /**
  * Decorates a method of a storable component so it can be combined with a [`Finder`](https://layrjs.com/docs/v1/reference/storable-property#finder-type).
  *
@@ -197,9 +403,145 @@ export function finder(finder: StorablePropertyFinder) {
   };
 }
 
+/**
+ * Decorates an attribute of a storable component as an inverse relation. The value of such an attribute is not stored but computed when the attribute is loaded, by finding the components that reference the current component through the attribute specified in the `inverseOf` option.
+ *
+ * The `onDelete` option specifies what should happen to the referencing components when the current component is deleted with the [`delete()`](https://layrjs.com/docs/v1/reference/storable#delete-instance-method) method:
+ *
+ * - `'cascade'`: The referencing components are deleted as well.
+ * - `'restrict'`: The deletion fails with an error with a `code` attribute set to `'COMPONENT_IS_REFERENCED'`.
+ * - `'nullify'`: The reference to the deleted component is removed from the referencing components (so the attribute holding the reference should be optional or an array).
+ *
+ * When the storable component is registered in a store that [supports transactions](https://layrjs.com/docs/v1/reference/store#supports-transactions-instance-method), the policies and the deletion are executed in the same [transaction](https://layrjs.com/docs/v1/reference/store#transaction-instance-method). Otherwise, the policies are applied just before the deletion.
+ *
+ * @param valueType A string specifying the type of the referencing components (e.g., `'Movie[]'` to get all the referencing movies, or `'Movie?'` to get only one of them).
+ * @param options.inverseOf The name of the attribute (in the referencing component class) that holds the reference to the current component.
+ * @param [options.onDelete] A string specifying the policy to apply when the current component is deleted. The possible values are `'cascade'`, `'restrict'`, and `'nullify'` (default: `undefined`, which means that the referencing components are left untouched).
+ *
+ * @example
+ * ```
+ * class Director extends Storable(Component) {
+ *   ﹫consume() static Movie: typeof Movie;
+ *
+ *   ﹫primaryIdentifier() id!: string;
+ *
+ *   ﹫attribute('string') fullName = '';
+ *
+ *   ﹫relation('Movie[]', {inverseOf: 'director', onDelete: 'restrict'}) movies!: Movie[];
+ * }
+ *
+ * class Movie extends Storable(Component) {
+ *   ﹫provide() static Director = Director;
+ *
+ *   ﹫primaryIdentifier() id!: string;
+ *
+ *   ﹫attribute('string') title = '';
+ *
+ *   ﹫attribute('Director?') director?: Director;
+ * }
+ *
+ * const director = await Director.get('abc123', {fullName: true, movies: {title: true}});
+ *
+ * director.movies; // => The movies referencing the director
+ *
+ * // Throws a 'COMPONENT_IS_REFERENCED' error if some movies reference the director
+ * await director.delete();
+ * ```
+ *
+ * @category Decorators
+ * @decorator
+ */
+export function relation(
+  valueType: string,
+  options: StorableAttributeRelation & StorableAttributeDecoratorOptions
+) {
+  const {inverseOf, onDelete, ...attributeOptions} = options;
+
+  const attributeDecorator = createAttributeDecorator(
+    new Map([[isStorableInstance, StorableAttribute]]),
+    'relation',
+    valueType,
+    attributeOptions
+  );
+
+  return function (target: StorableComponent, name: string, descriptor?: PropertyDescriptor) {
+    if (!isStorableInstance(target)) {
+      throw new Error(
+        `@relation() must be used as a storable component attribute decorator (property: '${name}')`
+      );
+    }
+
+    const result = attributeDecorator(target, name, descriptor);
+
+    target.getStorableAttribute(name).setRelation({inverseOf, onDelete});
+
+    return result;
+  };
+}
+
+/**
+ * Decorates a method of a storable component so that it runs in a store [transaction](https://layrjs.com/docs/v1/reference/store#transaction-instance-method). All the storage operations executed by the method are then either all committed, or all rolled back if the method throws an error.
+ *
+ * When the storable component is not registered in a store (e.g., in the frontend), the method is executed as is.
+ *
+ * @example
+ * ```
+ * class Order extends Storable(Component) {
+ *   // ...
+ *
+ *   ﹫transactional() ﹫method() async place() {
+ *     await this.save();
+ *
+ *     this.product.stock -= this.quantity;
+ *     await this.product.save();
+ *   }
+ * }
+ * ```
+ *
+ * @category Decorators
+ * @decorator
+ */
+export function transactional() {
+  return function (
+    target: typeof StorableComponent | StorableComponent,
+    name: string,
+    descriptor: PropertyDescriptor
+  ) {
+    if (!isStorableClassOrInstance(target)) {
+      throw new Error(
+        `@transactional() must be used as a storable component method decorator (property: '${name}')`
+      );
+    }
+
+    if (
+      !target.hasStorableMethod(name) ||
+      target.getStorableMethod(name, {autoFork: false}).getParent() !== target
+    ) {
+      throw new Error(
+        `@transactional() must be used in combination with @method() (property: '${name}')`
+      );
+    }
+
+    const func = descriptor.value as (...args: any[]) => Promise<unknown>;
+
+    descriptor.value = async function (
+      this: typeof StorableComponent | StorableComponent,
+      ...args: any[]
+    ) {
+      const storable = ensureStorableClass(this);
+
+      if (!storable.hasStore()) {
+        return await func.apply(this, args);
+      }
+
+      return await storable.getStore().transaction(async () => await func.apply(this, args));
+    };
+  };
+}
+
 type ClassIndexParam = IndexAttributes;
-type ClassIndexOptions = {isUnique?: boolean};
-type AttributeIndexParam = {direction?: SortDirection; isUnique?: boolean};
+type ClassIndexOptions = IndexOptions;
+type AttributeIndexParam = {direction?: SortDirection} & IndexOptions;
 
 /**
  * Defines an [index](https://layrjs.com/docs/v1/reference/index) for an attribute or a set of attributes.
@@ -217,6 +559,10 @@ type AttributeIndexParam = {direction?: SortDirection; isUnique?: boolean};
  * - `options`:
  *   - `direction`: A string representing the sort direction of the index. The possible values are `'asc'` (ascending) or `'desc'` (descending) and the default value is `'asc'`.
  *   - `isUnique`: A boolean specifying whether the index should hold unique values or not (default: `false`). When set to `true`, the underlying database will prevent you to store an attribute with the same value in multiple storable components.
+ *   - `isText`: A boolean specifying whether the index is a [text index](https://layrjs.com/docs/v1/reference/index#text-indexes) enabling full-text search through the `$search` query operator (default: `false`).
+ *   - `expireAfterSeconds`: A number of seconds specifying when the storable components should be automatically removed from the store (see [TTL Indexes](https://layrjs.com/docs/v1/reference/index#ttl-indexes)).
+ *   - `partialFilter`: A [query](https://layrjs.com/docs/v1/reference/query) specifying the storable components that are held by the index (see [Partial Indexes](https://layrjs.com/docs/v1/reference/index#partial-indexes)).
+ *   - `isCaseInsensitive`: A boolean specifying whether the string values should be compared regardless of their case (see [Case-Insensitive Indexes](https://layrjs.com/docs/v1/reference/index#case-insensitive-indexes)).
  *
  * ###### Compound Attribute Indexes
  *
@@ -225,6 +571,10 @@ type AttributeIndexParam = {direction?: SortDirection; isUnique?: boolean};
  * - `attributes`: An object specifying the attributes to be indexed. The shape of the object should be `{attributeName: direction, ...}` where `attributeName` is a string representing the name of an attribute and `direction` is a string representing the sort direction (possible values: `'asc'` or `'desc'`).
  * - `options`:
  *   - `isUnique`: A boolean specifying whether the index should hold unique values or not (default: `false`). When set to `true`, the underlying database will prevent you to store an attribute with the same value in multiple storable components.
+ *   - `isText`: A boolean specifying whether the index is a [text index](https://layrjs.com/docs/v1/reference/index#text-indexes) enabling full-text search through the `$search` query operator (default: `false`).
+ *   - `expireAfterSeconds`: A number of seconds specifying when the storable components should be automatically removed from the store (see [TTL Indexes](https://layrjs.com/docs/v1/reference/index#ttl-indexes)).
+ *   - `partialFilter`: A [query](https://layrjs.com/docs/v1/reference/query) specifying the storable components that are held by the index (see [Partial Indexes](https://layrjs.com/docs/v1/reference/index#partial-indexes)).
+ *   - `isCaseInsensitive`: A boolean specifying whether the string values should be compared regardless of their case (see [Case-Insensitive Indexes](https://layrjs.com/docs/v1/reference/index#case-insensitive-indexes)).
  *
  * @example
  * ```
@@ -308,8 +658,8 @@ export function index(
       );
     }
 
-    const {direction = 'asc', isUnique} = param as AttributeIndexParam;
+    const {direction = 'asc', ...indexOptions} = param as AttributeIndexParam;
 
-    target.setIndex({[name]: direction}, {isUnique});
+    target.setIndex({[name]: direction}, indexOptions);
   };
 }
@@ -1,4 +1,4 @@
-import {Component, EmbeddedComponent, provide} from '@layr/component';
+import {Component, EmbeddedComponent, provide, GeoPoint} from '@layr/component';
 
 import {Storable} from './storable';
 import {primaryIdentifier, secondaryIdentifier, attribute, loader, method} from './decorators';
@@ -49,6 +49,10 @@ describe('Index', () => {
 
       @attribute('MovieDetails') details!: MovieDetails;
 
+      @attribute('geoPoint?') location?: GeoPoint;
+
+      @attribute('Date?') releasedAt?: Date;
+
       @method() play() {}
     }
 
@@ -65,6 +69,76 @@ describe('Index', () => {
     expect(index.getAttributes()).toStrictEqual({title: 'desc'});
     expect(index.getOptions().isUnique).toBe(true);
 
+    expect(index.isGeospatial()).toBe(false);
+
+    index = new Index({location: 'asc'}, Movie.prototype);
+
+    expect(Index.isIndex(index)).toBe(true);
+    expect(index.isGeospatial()).toBe(true);
+
+    expect(() => new Index({location: 'asc', title: 'asc'}, Movie.prototype)).toThrow(
+      "Cannot create a compound index including an attribute of type 'geoPoint' (component: 'Movie', attribute: 'location')"
+    );
+
+    index = new Index({title: 'asc'}, Movie.prototype, {isText: true});
+
+    expect(Index.isIndex(index)).toBe(true);
+    expect(index.getOptions().isText).toBe(true);
+    expect(index.getOptions().isUnique).not.toBe(true);
+
+    expect(() => new Index({year: 'asc'}, Movie.prototype, {isText: true})).toThrow(
+      "Cannot create a text index for an attribute that is not of type 'string' (component: 'Movie', attribute: 'year')"
+    );
+
+    expect(
+      () => new Index({title: 'asc'}, Movie.prototype, {isText: true, isUnique: true})
+    ).toThrow("A text index cannot be unique (component: 'Movie', attributes: 'title')");
+
+    expect(
+      () => new Index({title: 'asc'}, Movie.prototype, {isText: true, isCaseInsensitive: true})
+    ).toThrow(
+      "A text index cannot be a TTL, partial, or case-insensitive index (component: 'Movie', attributes: 'title')"
+    );
+
+    index = new Index({releasedAt: 'asc'}, Movie.prototype, {expireAfterSeconds: 3600});
+
+    expect(index.getOptions().expireAfterSeconds).toBe(3600);
+
+    expect(() => new Index({title: 'asc'}, Movie.prototype, {expireAfterSeconds: 3600})).toThrow(
+      "A TTL index should hold a single attribute of type 'Date' (component: 'Movie', attributes: 'title')"
+    );
+
+    expect(
+      () =>
+        new Index({releasedAt: 'asc', title: 'asc'}, Movie.prototype, {expireAfterSeconds: 3600})
+    ).toThrow(
+      "A TTL index should hold a single attribute of type 'Date' (component: 'Movie', attributes: 'releasedAt, title')"
+    );
+
+    expect(() => new Index({releasedAt: 'asc'}, Movie.prototype, {expireAfterSeconds: -1})).toThrow(
+      "The value of the 'expireAfterSeconds' option is invalid (component: 'Movie', value: -1)"
+    );
+
+    index = new Index({title: 'asc'}, Movie.prototype, {
+      isUnique: true,
+      partialFilter: {year: {$greaterThan: 2000}},
+      isCaseInsensitive: true
+    });
+
+    expect(index.getOptions().partialFilter).toStrictEqual({year: {$greaterThan: 2000}});
+    expect(index.getOptions().isCaseInsensitive).toBe(true);
+
+    expect(
+      // @ts-expect-error
+      () => new Index({title: 'asc'}, Movie.prototype, {partialFilter: 'year > 2000'})
+    ).toThrow("Expected a plain object, but received a value of type 'string'");
+
+    expect(
+      () => new Index({duration: 'asc'}, MovieDetails.prototype, {partialFilter: {duration: 90}})
+    ).toThrow(
+      "Cannot create a partial index in an embedded component (component: 'Movie.MovieDetails', attributes: 'duration')"
+    );
+
     index = new Index({year: 'desc', id: 'asc'}, Movie.prototype);
 
     expect(Index.isIndex(index)).toBe(true);
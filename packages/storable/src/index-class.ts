@@ -2,17 +2,27 @@ import {
   isAttributeInstance,
   isIdentifierAttributeInstance,
   isComponentValueTypeInstance,
-  isObjectValueTypeInstance
+  isObjectValueTypeInstance,
+  isStringValueTypeInstance,
+  isDateValueTypeInstance,
+  isGeoPointValueTypeInstance
 } from '@layr/component';
 import {assertIsPlainObject, assertNoUnknownOptions} from 'core-helpers';
 
 import type {StorableComponent, SortDirection} from './storable';
+import type {Query} from './query';
 import {isStorableAttributeInstance} from './properties/storable-attribute';
 import {assertIsStorableInstance} from './utilities';
 
 export type IndexAttributes = {[name: string]: SortDirection};
 
-export type IndexOptions = {isUnique?: boolean};
+export type IndexOptions = {
+  isUnique?: boolean;
+  isText?: boolean;
+  expireAfterSeconds?: number;
+  partialFilter?: Query;
+  isCaseInsensitive?: boolean;
+};
 
 /**
  * Represents an index for one or several [attributes](https://layrjs.com/docs/v1/reference/attribute) of a [storable component](https://layrjs.com/docs/v1/reference/storable#storable-component-class).
@@ -146,6 +156,98 @@ export type IndexOptions = {isUnique?: boolean};
  *   {sort: {year: 'desc', title: 'asc'}}
  * );
  * ```
+ *
+ * ##### Geospatial Indexes
+ *
+ * An index for an attribute of type `'geoPoint'` is a geospatial index. Such an index is required by some databases (MongoDB for example) to use the `$near` [query](https://layrjs.com/docs/v1/reference/query) operator:
+ *
+ * ```ts
+ * // TS
+ *
+ * export class Shop extends Storable(Component) {
+ *   @primaryIdentifier() id!: string;
+ *
+ *   @index() @attribute('geoPoint') location!: GeoPoint;
+ * }
+ * ```
+ *
+ * Note that an attribute of type `'geoPoint'` cannot be part of a compound attribute index.
+ *
+ * ##### Text Indexes
+ *
+ * A text index enables full-text search on one or several attributes of type `'string'` through the `$search` [query](https://layrjs.com/docs/v1/reference/query) operator. To define a text index, set the `isText` option when using the [`@index()`](https://layrjs.com/docs/v1/reference/storable#index-decorator) decorator:
+ *
+ * ```ts
+ * // TS
+ *
+ * ﹫index({title: 'asc', summary: 'asc'}, {isText: true})
+ * export class Movie extends Storable(Component) {
+ *   @primaryIdentifier() id!: string;
+ *
+ *   @attribute('string') title!: string;
+ *
+ *   @attribute('string') summary!: string;
+ * }
+ * ```
+ *
+ * Then, once the index has been created with the [`migrateStorables()`](https://layrjs.com/docs/v1/reference/store#migrate-storables-instance-method) method, you can search the indexed attributes:
+ *
+ * ```
+ * const movies = await Movie.find({$search: 'dream heist'});
+ * ```
+ *
+ * ##### TTL Indexes
+ *
+ * An index for an attribute of type `'Date'` can automatically remove the storable components when their date is older than a number of seconds. To define a TTL index, set the `expireAfterSeconds` option:
+ *
+ * ```ts
+ * // TS
+ *
+ * export class Session extends Storable(Component) {
+ *   @primaryIdentifier() id!: string;
+ *
+ *   // The sessions are removed one hour after their creation
+ *   @index({expireAfterSeconds: 3600}) @attribute('Date') createdAt = new Date();
+ * }
+ * ```
+ *
+ * Note that the expired storable components are removed by a background task, so they may remain in the store for a little while after their expiration.
+ *
+ * ##### Partial Indexes
+ *
+ * A partial index only holds the storable components matching a [query](https://layrjs.com/docs/v1/reference/query). Combined with the `isUnique` option, it allows you to enforce the uniqueness of some attribute values in a subset of the storable components only. To define a partial index, set the `partialFilter` option:
+ *
+ * ```ts
+ * // TS
+ *
+ * export class Article extends Storable(Component) {
+ *   @primaryIdentifier() id!: string;
+ *
+ *   // The slugs only need to be unique among the published articles
+ *   @index({isUnique: true, partialFilter: {isPublished: true}})
+ *   @attribute('string')
+ *   slug!: string;
+ *
+ *   @attribute('boolean') isPublished = false;
+ * }
+ * ```
+ *
+ * Note that some databases (MongoDB for example) only support a subset of the query operators in a partial filter.
+ *
+ * ##### Case-Insensitive Indexes
+ *
+ * A case-insensitive index compares the string values regardless of their case. Combined with the `isUnique` option, it prevents you to store the same string value with different cases in multiple storable components. To define a case-insensitive index, set the `isCaseInsensitive` option:
+ *
+ * ```ts
+ * // TS
+ *
+ * export class User extends Storable(Component) {
+ *   @primaryIdentifier() id!: string;
+ *
+ *   // 'john@domain.com' and 'John@Domain.com' cannot both be stored
+ *   @index({isUnique: true, isCaseInsensitive: true}) @attribute('string') email!: string;
+ * }
+ * ```
  */
 export class Index {
   _attributes: IndexAttributes;
@@ -158,6 +260,10 @@ export class Index {
    * @param attributes An object specifying the attributes to be indexed. The shape of the object should be `{attributeName: direction, ...}` where `attributeName` is a string representing the name of an attribute and `direction` is a string representing the sort direction (possible values: `'asc'` or `'desc'`).
    * @param parent The storable component prototype that owns the index.
    * @param [options.isUnique] A boolean specifying whether the index should hold unique values or not (default: `false`). When set to `true`, the underlying database will prevent you to store an attribute with the same value in multiple storable components.
+   * @param [options.isText] A boolean specifying whether the index is a text index enabling full-text search through the `$search` query operator (default: `false`). All the indexed attributes should be of type `'string'` or `'string[]'`.
+   * @param [options.expireAfterSeconds] A number of seconds specifying when the storable components should be automatically removed from the store (see [TTL Indexes](https://layrjs.com/docs/v1/reference/index#ttl-indexes)). The index should hold a single attribute of type `'Date'`.
+   * @param [options.partialFilter] A [query](https://layrjs.com/docs/v1/reference/query) specifying the storable components that are held by the index (see [Partial Indexes](https://layrjs.com/docs/v1/reference/index#partial-indexes)).
+   * @param [options.isCaseInsensitive] A boolean specifying whether the string values should be compared regardless of their case (default: `false`).
    *
    * @returns The [`Index`](https://layrjs.com/docs/v1/reference/index) instance that was created.
    *
@@ -209,6 +315,21 @@ export class Index {
       );
     }
 
+    if (Object.keys(attributes).length > 1) {
+      for (const name of Object.keys(attributes)) {
+        const scalarType = parent
+          .getAttribute(name, {autoFork: false})
+          .getValueType()
+          .getScalarType();
+
+        if (isGeoPointValueTypeInstance(scalarType)) {
+          throw new Error(
+            `Cannot create a compound index including an attribute of type 'geoPoint' (${parent.describeComponent()}, attribute: '${name}')`
+          );
+        }
+      }
+    }
+
     if (Object.keys(attributes).length === 1) {
       const name = Object.keys(attributes)[0];
       const attribute = parent.getAttribute(name, {autoFork: false});
@@ -256,6 +377,23 @@ export class Index {
     return this._parent;
   }
 
+  /**
+   * Returns whether the index is a geospatial index, which is the case when the indexed attribute is of type `'geoPoint'`.
+   *
+   * @returns A boolean.
+   *
+   * @category Basic Methods
+   */
+  isGeospatial() {
+    const name = Object.keys(this._attributes)[0];
+    const scalarType = this._parent
+      .getAttribute(name, {autoFork: false})
+      .getValueType()
+      .getScalarType();
+
+    return isGeoPointValueTypeInstance(scalarType);
+  }
+
   // === Options ===
 
   getOptions() {
@@ -263,11 +401,92 @@ export class Index {
   }
 
   setOptions(options: IndexOptions = {}) {
-    const {isUnique, ...unknownOptions} = options;
+    const {
+      isUnique,
+      isText,
+      expireAfterSeconds,
+      partialFilter,
+      isCaseInsensitive,
+      ...unknownOptions
+    } = options;
 
     assertNoUnknownOptions(unknownOptions);
 
-    this._options = {isUnique};
+    const parent = this.getParent();
+
+    if (isText) {
+      if (isUnique) {
+        throw new Error(
+          `A text index cannot be unique (${parent.describeComponent()}, attributes: '${Object.keys(
+            this.getAttributes()
+          ).join(', ')}')`
+        );
+      }
+
+      for (const name of Object.keys(this.getAttributes())) {
+        const scalarType = parent
+          .getAttribute(name, {autoFork: false})
+          .getValueType()
+          .getScalarType();
+
+        if (!isStringValueTypeInstance(scalarType)) {
+          throw new Error(
+            `Cannot create a text index for an attribute that is not of type 'string' (${parent.describeComponent()}, attribute: '${name}')`
+          );
+        }
+      }
+
+      if (expireAfterSeconds !== undefined || partialFilter !== undefined || isCaseInsensitive) {
+        throw new Error(
+          `A text index cannot be a TTL, partial, or case-insensitive index (${parent.describeComponent()}, attributes: '${Object.keys(
+            this.getAttributes()
+          ).join(', ')}')`
+        );
+      }
+    }
+
+    if (expireAfterSeconds !== undefined) {
+      if (
+        typeof expireAfterSeconds !== 'number' ||
+        !Number.isInteger(expireAfterSeconds) ||
+        expireAfterSeconds < 0
+      ) {
+        throw new Error(
+          `The value of the 'expireAfterSeconds' option is invalid (${parent.describeComponent()}, value: ${JSON.stringify(
+            expireAfterSeconds
+          )})`
+        );
+      }
+
+      const names = Object.keys(this.getAttributes());
+
+      if (
+        names.length > 1 ||
+        !isDateValueTypeInstance(
+          parent.getAttribute(names[0], {autoFork: false}).getValueType().getScalarType()
+        )
+      ) {
+        throw new Error(
+          `A TTL index should hold a single attribute of type 'Date' (${parent.describeComponent()}, attributes: '${names.join(
+            ', '
+          )}')`
+        );
+      }
+    }
+
+    if (partialFilter !== undefined) {
+      assertIsPlainObject(partialFilter);
+
+      if (parent.constructor.isEmbedded()) {
+        throw new Error(
+          `Cannot create a partial index in an embedded component (${parent.describeComponent()}, attributes: '${Object.keys(
+            this.getAttributes()
+          ).join(', ')}')`
+        );
+      }
+    }
+
+    this._options = {isUnique, isText, expireAfterSeconds, partialFilter, isCaseInsensitive};
   }
 
   // === Forking ===
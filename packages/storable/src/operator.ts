@@ -1,4 +1,5 @@
-import {getTypeOf} from 'core-helpers';
+import {isGeoPoint} from '@layr/component';
+import {getTypeOf, isPlainObject} from 'core-helpers';
 
 import type {Query} from './query';
 
@@ -18,6 +19,10 @@ const stringOperators = new Set<Operator>(['$includes', '$startsWith', '$endsWit
 
 const arrayOperators = new Set<Operator>(['$some', '$every', '$length']);
 
+const textOperators = new Set<Operator>(['$search']);
+
+const geoOperators = new Set<Operator>(['$near', '$withinPolygon']);
+
 const logicalOperators = new Set<Operator>(['$not', '$and', '$or', '$nor']);
 
 const aliases = new Map<Operator, Operator>(Object.entries({}));
@@ -49,6 +54,14 @@ export function normalizeOperatorForValue(
     return normalizeArrayOperatorForValue(operator, value, {query});
   }
 
+  if (textOperators.has(operator)) {
+    return normalizeTextOperatorForValue(operator, value, {query});
+  }
+
+  if (geoOperators.has(operator)) {
+    return normalizeGeoOperatorForValue(operator, value, {query});
+  }
+
   if (logicalOperators.has(operator)) {
     return normalizeLogicalOperatorForValue(operator, value, {query});
   }
@@ -136,6 +149,64 @@ function normalizeArrayOperatorForValue(
   return operator;
 }
 
+function normalizeTextOperatorForValue(
+  operator: Operator,
+  _value: unknown,
+  {query}: {query: Query}
+): Operator {
+  // The '$search' operator is handled by the store when it is at the top level of a query
+  throw new Error(
+    `The operator '${operator}' can only be used at the top level of a query (query: '${JSON.stringify(
+      query
+    )}')`
+  );
+}
+
+function normalizeGeoOperatorForValue(
+  operator: Operator,
+  value: unknown,
+  {query}: {query: Query}
+): Operator {
+  if (operator === '$near') {
+    if (
+      !(
+        isPlainObject(value) &&
+        isGeoPoint(value.point) &&
+        (value.maxDistance === undefined ||
+          (typeof value.maxDistance === 'number' && value.maxDistance >= 0))
+      )
+    ) {
+      throw new Error(
+        `Expected an object of the shape \`{point, maxDistance}\` as value of the operator '${operator}', where \`point\` is a geoPoint and \`maxDistance\` is an optional number of meters (query: '${JSON.stringify(
+          query
+        )}')`
+      );
+    }
+
+    return operator;
+  }
+
+  if (operator === '$withinPolygon') {
+    if (
+      !(
+        Array.isArray(value) &&
+        value.length >= 3 &&
+        value.every((position) => isGeoPoint({type: 'Point', coordinates: position}))
+      )
+    ) {
+      throw new Error(
+        `Expected an array of at least 3 \`[longitude, latitude]\` positions as value of the operator '${operator}' (query: '${JSON.stringify(
+          query
+        )}')`
+      );
+    }
+
+    return operator;
+  }
+
+  return operator;
+}
+
 function normalizeLogicalOperatorForValue(
   operator: Operator,
   value: unknown,
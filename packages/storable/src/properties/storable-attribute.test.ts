@@ -1,6 +1,7 @@
-import {Component} from '@layr/component';
+import {Component, EmbeddedComponent, provide, consume} from '@layr/component';
 
 import {Storable} from '../storable';
+import {primaryIdentifier, secondaryIdentifier, attribute} from '../decorators';
 import {StorableAttribute, isStorableAttributeInstance} from './storable-attribute';
 
 describe('StorableAttribute', () => {
@@ -68,6 +69,111 @@ describe('StorableAttribute', () => {
     );
   });
 
+  test('Encryption', async () => {
+    class User extends Storable(Component) {}
+
+    const emailAttribute = new StorableAttribute('email', User.prototype, {
+      valueType: 'string',
+      encrypted: {deterministic: true}
+    });
+
+    expect(emailAttribute.isEncrypted()).toBe(true);
+    expect(emailAttribute.isDeterministicallyEncrypted()).toBe(true);
+
+    const phoneNumberAttribute = new StorableAttribute('phoneNumber', User.prototype, {
+      valueType: 'string',
+      encrypted: true
+    });
+
+    expect(phoneNumberAttribute.isEncrypted()).toBe(true);
+    expect(phoneNumberAttribute.isDeterministicallyEncrypted()).toBe(false);
+
+    const fullNameAttribute = new StorableAttribute('fullName', User.prototype, {
+      valueType: 'string'
+    });
+
+    expect(fullNameAttribute.isEncrypted()).toBe(false);
+    expect(fullNameAttribute.isDeterministicallyEncrypted()).toBe(false);
+
+    expect(() => {
+      class Account extends Storable(Component) {
+        @primaryIdentifier({encrypted: {deterministic: true}}) id!: string;
+      }
+
+      return Account;
+    }).toThrow(
+      "A primary identifier attribute cannot be encrypted (attribute: 'Account.prototype.id')"
+    );
+
+    expect(() => {
+      class Account extends Storable(Component) {
+        @secondaryIdentifier('string', {encrypted: true}) username!: string;
+      }
+
+      return Account;
+    }).toThrow(
+      "A secondary identifier attribute can only be encrypted in the deterministic mode (attribute: 'Account.prototype.username')"
+    );
+
+    expect(() => {
+      class Address extends Storable(EmbeddedComponent) {
+        @attribute('string', {encrypted: true}) street!: string;
+      }
+
+      return Address;
+    }).toThrow(
+      "An attribute of an embedded component cannot be encrypted (attribute: 'Address.prototype.street')"
+    );
+
+    class Account extends Storable(Component) {
+      @secondaryIdentifier('string', {encrypted: {deterministic: true}}) username!: string;
+    }
+
+    expect(Account.prototype.getStorableAttribute('username').isDeterministicallyEncrypted()).toBe(
+      true
+    );
+  });
+
+  test('Relation', async () => {
+    class Movie extends Storable(Component) {
+      @consume() static Director: typeof Director;
+
+      @primaryIdentifier() id!: string;
+
+      @attribute('Director') director!: Director;
+
+      @attribute('Director?') producer?: Director;
+    }
+
+    class Director extends Storable(Component) {
+      @provide() static Movie = Movie;
+
+      @primaryIdentifier() id!: string;
+    }
+
+    const moviesAttribute = new StorableAttribute('movies', Director.prototype, {
+      valueType: 'Movie[]'
+    });
+
+    moviesAttribute.setRelation({inverseOf: 'producer', onDelete: 'nullify'});
+
+    expect(moviesAttribute.getRelation()).toStrictEqual({
+      inverseOf: 'producer',
+      onDelete: 'nullify'
+    });
+
+    expect(() => moviesAttribute.setRelation({inverseOf: 'director', onDelete: 'nullify'})).toThrow(
+      "The inverse attribute of a relation with the 'nullify' delete policy should be optional or an array (attribute: 'Director.prototype.movies', inverseOf: 'director')"
+    );
+
+    moviesAttribute.setRelation({inverseOf: 'director', onDelete: 'cascade'});
+
+    expect(moviesAttribute.getRelation()).toStrictEqual({
+      inverseOf: 'director',
+      onDelete: 'cascade'
+    });
+  });
+
   test('Introspection', async () => {
     class Movie extends Storable(Component) {}
 
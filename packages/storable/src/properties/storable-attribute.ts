@@ -1,5 +1,12 @@
 import type {Component, AttributeOptions} from '@layr/component';
-import {Attribute} from '@layr/component';
+import {
+  Attribute,
+  isPrimaryIdentifierAttributeInstance,
+  isSecondaryIdentifierAttributeInstance,
+  isComponentValueTypeInstance,
+  isArrayValueTypeInstance,
+  ensureComponentClass
+} from '@layr/component';
 import {PromiseLikeable, hasOwnProperty, Constructor} from 'core-helpers';
 
 // TODO: Find a way to remove this useless import
@@ -8,6 +15,7 @@ import {PromiseLikeable, hasOwnProperty, Constructor} from 'core-helpers';
 import type {Property} from '@layr/component';
 
 import {StorablePropertyMixin, StorablePropertyOptions} from './storable-property';
+import type {StorableComponent} from '../storable';
 import {assertIsStorableClassOrInstance} from '../utilities';
 
 export type StorableAttributeOptions = StorablePropertyOptions &
@@ -19,12 +27,22 @@ export type StorableAttributeOptions = StorablePropertyOptions &
     afterSave?: StorableAttributeHook;
     beforeDelete?: StorableAttributeHook;
     afterDelete?: StorableAttributeHook;
+    encrypted?: boolean | StorableAttributeEncryption;
   };
 
 export type StorableAttributeLoader = () => PromiseLikeable<unknown>;
 
 export type StorableAttributeHook = () => PromiseLikeable<void>;
 
+export type StorableAttributeEncryption = {deterministic?: boolean};
+
+export type StorableAttributeRelation = {
+  inverseOf: string;
+  onDelete?: StorableAttributeRelationDeletePolicy;
+};
+
+export type StorableAttributeRelationDeletePolicy = 'cascade' | 'restrict' | 'nullify';
+
 export type StorableAttributeHookName =
   | 'beforeLoad'
   | 'afterLoad'
@@ -317,6 +335,28 @@ export const StorableAttributeMixin = <T extends Constructor<typeof Attribute>>(
    *
    * user.password; // => '$2y$12$AGJ91pnqlM7TcqnLg0iIFuiN80z9k.wFnGVl1a4lrANUepBKmvNVO'
    * ```
+   *
+   * ##### Encryption
+   *
+   * Use the `encrypted` option to encrypt the value of an attribute at rest. The value is encrypted when the component is saved, and decrypted when the component is loaded, by using a key returned by the `keyProvider` that is specified when the [store](https://layrjs.com/docs/v1/reference/store) is created.
+   *
+   * The attributes of an [embedded component](https://layrjs.com/docs/v1/reference/embedded-component) cannot be encrypted, but an attribute holding an embedded component can be encrypted as a whole.
+   *
+   * By default, the same value produces a different encrypted value each time it is saved, so an encrypted attribute cannot be queried. Use the `{deterministic: true}` mode to be able to query an encrypted attribute with the `$equal`, `$notEqual`, `$in`, and `$notIn` operators, or to include it in a unique index:
+   *
+   * ```
+   * class User extends Storable(Component) {
+   *   // ...
+   *
+   *   ﹫attribute('string', {encrypted: {deterministic: true}}) email!: string;
+   *
+   *   ﹫attribute('string?', {encrypted: true}) phoneNumber?: string;
+   * }
+   *
+   * const store = new MemoryStore({keyProvider: () => process.env.ENCRYPTION_KEY!});
+   *
+   * await User.find({email: 'steve@apple.com'}); // Works since `email` is deterministic
+   * ```
    */
   class extends StorablePropertyMixin(Base) {
     /**
@@ -338,6 +378,7 @@ export const StorableAttributeMixin = <T extends Constructor<typeof Attribute>>(
      * @param [options.afterSave] A function specifying an "afterSave" [`hook`](https://layrjs.com/docs/v1/reference/storable-attribute#hook-type) for the attribute.
      * @param [options.beforeDelete] A function specifying a "beforeDelete" [`hook`](https://layrjs.com/docs/v1/reference/storable-attribute#hook-type) for the attribute.
      * @param [options.afterDelete] A function specifying an "afterDelete" [`hook`](https://layrjs.com/docs/v1/reference/storable-attribute#hook-type) for the attribute.
+     * @param [options.encrypted] A boolean specifying whether the value of the attribute should be [encrypted](https://layrjs.com/docs/v1/reference/storable-attribute#encryption) in the store (default: `false`). Specify `{deterministic: true}` to use a deterministic encryption so the attribute can still be used in `$equal` queries and unique indexes.
      * @param [options.exposure] A [`PropertyExposure`](https://layrjs.com/docs/v1/reference/property#property-exposure-type) object specifying how the attribute should be exposed to remote access.
      *
      * @returns The [`StorableAttribute`](https://layrjs.com/docs/v1/reference/storable-attribute) instance that was created.
@@ -356,6 +397,7 @@ export const StorableAttributeMixin = <T extends Constructor<typeof Attribute>>(
         afterSave,
         beforeDelete,
         afterDelete,
+        encrypted,
         ...otherOptions
       } = options;
 
@@ -387,6 +429,10 @@ export const StorableAttributeMixin = <T extends Constructor<typeof Attribute>>(
         this.setHook('afterDelete', afterDelete);
       }
 
+      if (encrypted !== undefined) {
+        this.setEncryption(encrypted);
+      }
+
       super.setOptions(otherOptions);
     }
 
@@ -396,6 +442,79 @@ export const StorableAttributeMixin = <T extends Constructor<typeof Attribute>>(
       return super.isControlled() || this.isComputed();
     }
 
+    // === 'isVersion' mark
+
+    _isVersion?: boolean;
+
+    /**
+     * Returns whether the attribute holds the [version](https://layrjs.com/docs/v1/reference/storable#version-decorator) of its parent component.
+     *
+     * @returns A boolean.
+     *
+     * @category Version
+     */
+    isVersion() {
+      return this._isVersion === true;
+    }
+
+    markAsVersion() {
+      Object.defineProperty(this, '_isVersion', {value: true});
+    }
+
+    // === Encryption ===
+
+    _encryption?: StorableAttributeEncryption;
+
+    /**
+     * Returns whether the value of the attribute is encrypted in the store.
+     *
+     * @returns A boolean.
+     *
+     * @category Encryption
+     */
+    isEncrypted() {
+      return this._encryption !== undefined;
+    }
+
+    /**
+     * Returns whether the value of the attribute is encrypted in a deterministic way (i.e., the same value always produces the same encrypted value) so it can be used in `$equal` queries and unique indexes.
+     *
+     * @returns A boolean.
+     *
+     * @category Encryption
+     */
+    isDeterministicallyEncrypted() {
+      return this._encryption?.deterministic === true;
+    }
+
+    setEncryption(encrypted: boolean | StorableAttributeEncryption) {
+      if (encrypted === false) {
+        Object.defineProperty(this, '_encryption', {value: undefined, configurable: true});
+        return;
+      }
+
+      const {deterministic = false} = encrypted === true ? {} : encrypted;
+
+      if (isPrimaryIdentifierAttributeInstance(this)) {
+        throw new Error(`A primary identifier attribute cannot be encrypted (${this.describe()})`);
+      }
+
+      // The store only encrypts the attributes of the root components
+      if (ensureComponentClass(this.getParent()).isEmbedded()) {
+        throw new Error(
+          `An attribute of an embedded component cannot be encrypted (${this.describe()})`
+        );
+      }
+
+      if (isSecondaryIdentifierAttributeInstance(this) && !deterministic) {
+        throw new Error(
+          `A secondary identifier attribute can only be encrypted in the deterministic mode (${this.describe()})`
+        );
+      }
+
+      Object.defineProperty(this, '_encryption', {value: {deterministic}, configurable: true});
+    }
+
     // === Property Methods ===
 
     /**
@@ -473,6 +592,111 @@ export const StorableAttributeMixin = <T extends Constructor<typeof Attribute>>(
      * @category Loader
      */
 
+    // === Relation ===
+
+    _relation: StorableAttributeRelation | undefined;
+
+    /**
+     * Returns the [`Relation`](https://layrjs.com/docs/v1/reference/storable-attribute#relation-type) of the attribute.
+     *
+     * @returns A [`Relation`](https://layrjs.com/docs/v1/reference/storable-attribute#relation-type) object (or `undefined` if the attribute is not a relation).
+     *
+     * @category Relation
+     */
+    getRelation() {
+      return this._relation;
+    }
+
+    /**
+     * Returns whether the attribute is a relation (i.e., an attribute declared with the [`@relation()`](https://layrjs.com/docs/v1/reference/storable#relation-decorator) decorator).
+     *
+     * @returns A boolean.
+     *
+     * @category Relation
+     */
+    isRelation() {
+      return this.getRelation() !== undefined;
+    }
+
+    /**
+     * Sets a [`Relation`](https://layrjs.com/docs/v1/reference/storable-attribute#relation-type) for the attribute. The attribute gets a [`Loader`](https://layrjs.com/docs/v1/reference/storable-attribute#loader-type) that finds the components referencing the parent of the attribute.
+     *
+     * @param relation The [`Relation`](https://layrjs.com/docs/v1/reference/storable-attribute#relation-type) object to set.
+     *
+     * @category Relation
+     */
+    setRelation(relation: StorableAttributeRelation) {
+      const {inverseOf, onDelete} = relation;
+
+      if (
+        onDelete !== undefined &&
+        onDelete !== 'cascade' &&
+        onDelete !== 'restrict' &&
+        onDelete !== 'nullify'
+      ) {
+        throw new Error(
+          `The 'onDelete' option of a relation should be 'cascade', 'restrict', or 'nullify' (${this.describe()}, received: '${onDelete}')`
+        );
+      }
+
+      if (onDelete === 'nullify') {
+        // The referencing component class may not be available yet (e.g., when it is consumed),
+        // in which case the inverse attribute is checked when the relation is used
+        const type = this.getValueType().getScalarType();
+        const parent = ensureComponentClass(this.getParent());
+
+        if (
+          isComponentValueTypeInstance(type) &&
+          parent.hasComponentOfType(type.getComponentType())
+        ) {
+          const relatedComponent = ensureComponentClass(type.getComponent(this));
+
+          if (relatedComponent.prototype.hasAttribute(inverseOf)) {
+            this._checkNullifiableInverseAttribute(
+              relatedComponent.prototype.getAttribute(inverseOf),
+              {inverseOf}
+            );
+          }
+        }
+      }
+
+      this._relation = {inverseOf, onDelete};
+
+      const name = this.getName();
+
+      this.setLoader(async function (this: StorableComponent) {
+        return await this.__loadRelation(this.getStorableAttribute(name));
+      });
+    }
+
+    // The 'nullify' policy removes the references to a deleted component,
+    // so the inverse attribute should be optional or an array
+    _checkNullifiableInverseAttribute(
+      inverseAttribute: Attribute,
+      {inverseOf}: {inverseOf: string}
+    ) {
+      const valueType = inverseAttribute.getValueType();
+
+      if (!(valueType.isOptional() || isArrayValueTypeInstance(valueType))) {
+        throw new Error(
+          `The inverse attribute of a relation with the 'nullify' delete policy should be optional or an array (${this.describe()}, inverseOf: '${inverseOf}')`
+        );
+      }
+    }
+
+    /**
+     * @typedef Relation
+     *
+     * A plain object describing an inverse relation between the parent of an attribute and some components referencing it. The object has the following shape:
+     *
+     * - `inverseOf`: The name of the attribute (in the referencing component class) that holds the reference to the parent of the attribute.
+     * - `onDelete`: A string specifying what should happen to the referencing components when the parent of the attribute is deleted. The possible values are `'cascade'` (the referencing components are deleted as well), `'restrict'` (the deletion fails with a `'COMPONENT_IS_REFERENCED'` error), and `'nullify'` (the reference is removed from the referencing components). When `onDelete` is not specified, nothing happens to the referencing components.
+     *
+     * See an example of use in the [`@relation()`](https://layrjs.com/docs/v1/reference/storable#relation-decorator) decorator.
+     *
+     * @category Relation
+     */
+
     // === Finder ===
 
     /**
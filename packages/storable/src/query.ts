@@ -3,7 +3,7 @@ import type {PlainObject} from 'core-helpers';
 /**
  * @typedef Query
  *
- * A plain object specifying the criteria to be used when selecting some components from a store with the methods [`StorableComponent.find()`](https://layrjs.com/docs/v1/reference/storable#find-class-method) or [`StorableComponent.count()`](https://layrjs.com/docs/v1/reference/storable#count-class-method).
+ * A plain object specifying the criteria to be used when selecting some components from a store with the methods [`StorableComponent.find()`](https://layrjs.com/docs/v1/reference/storable#find-class-method), [`StorableComponent.count()`](https://layrjs.com/docs/v1/reference/storable#count-class-method), or [`StorableComponent.aggregate()`](https://layrjs.com/docs/v1/reference/storable#aggregate-class-method).
  *
  * #### Basic Queries
  *
@@ -199,6 +199,43 @@ import type {PlainObject} from 'core-helpers';
  * await Movie.find({tags: {$length: 0}});
  * ```
  *
+ * #### Geospatial Operators
+ *
+ * A number of operators are dedicated to attributes of type `'geoPoint'`, which hold a [GeoJSON](https://geojson.org/) point of the shape `{type: 'Point', coordinates: [longitude, latitude]}`.
+ *
+ * ##### `$near`
+ *
+ * Use the `$near` operator to check whether the value of a geoPoint attribute is near a specific point. Specify the point with the `point` property and, optionally, the maximum distance in meters with the `maxDistance` property. Unless a `sort` option is specified, the found components are sorted by distance (nearest first):
+ *
+ * ```
+ * // Find the shops that are less than 1 km away from the Eiffel Tower
+ * await Shop.find({
+ *   location: {
+ *     $near: {point: {type: 'Point', coordinates: [2.2945, 48.8584]}, maxDistance: 1000}
+ *   }
+ * });
+ * ```
+ *
+ * Note that with some databases (MongoDB for example), the `$near` operator requires a [geospatial index](https://layrjs.com/docs/v1/reference/index#geospatial-indexes).
+ *
+ * ##### `$withinPolygon`
+ *
+ * Use the `$withinPolygon` operator to check whether the value of a geoPoint attribute is inside a polygon specified as an array of `[longitude, latitude]` positions:
+ *
+ * ```
+ * // Find the shops that are in a specific area
+ * await Shop.find({
+ *   location: {
+ *     $withinPolygon: [
+ *       [2.25, 48.81],
+ *       [2.42, 48.81],
+ *       [2.42, 48.9],
+ *       [2.25, 48.9]
+ *     ]
+ *   }
+ * });
+ * ```
+ *
  * #### Logical Operators
  *
  * The logical operators allows you to combine several subqueries.
@@ -276,6 +313,18 @@ import type {PlainObject} from 'core-helpers';
  * await Movie.find({year: {$lessThan: 2010}});
  * ```
  *
+ * #### Text Search
+ *
+ * Use the `$search` operator at the top level of a query to find the components matching some words in the attributes covered by a [text index](https://layrjs.com/docs/v1/reference/index#text-indexes). A component matches when any of the specified words is found, and the matching is case-insensitive:
+ *
+ * ```
+ * // Find the movies about dreams or heists
+ * await Movie.find({$search: 'dream heist'});
+ *
+ * // Same as above, but the most relevant movies come first
+ * await Movie.find({$search: 'dream heist'}, true, {sort: {$relevance: 'desc'}});
+ * ```
+ *
  * #### Embedded Components
  *
  * When a query involves an [embedded component](https://layrjs.com/docs/v1/reference/embedded-component), wrap the attributes of the embedded component in an object:
@@ -305,6 +354,23 @@ import type {PlainObject} from 'core-helpers';
  * const tarantino = await Director.get({slug: 'quentin-tarantino'});
  * await Movie.find({director: tarantino});
  * ```
+ *
+ * You can also select the components according to some attributes of the referenced components. In this case, the store looks up the referenced components (using a join or an equivalent mechanism) to check the specified attributes:
+ *
+ * ```
+ * // Find the movies directed by a Japanese director
+ * await Movie.find({director: {country: 'Japan'}});
+ *
+ * // Find the movies directed by someone whose name starts with 'Quentin'
+ * await Movie.find({director: {fullName: {$startsWith: 'Quentin'}}});
+ * ```
+ *
+ * Similarly, the found components can be sorted by an attribute of a referenced component:
+ *
+ * ```
+ * // Find all the movies sorted by the name of their director
+ * await Movie.find({}, true, {sort: {'director.fullName': 'asc'}});
+ * ```
  */
 
 export type Query = PlainObject;
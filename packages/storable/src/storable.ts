@@ -8,6 +8,7 @@ import {
   ValueType,
   isArrayValueTypeInstance,
   AttributeSelector,
+  createAttributeSelectorFromNames,
   createAttributeSelectorFromAttributes,
   attributeSelectorsAreEqual,
   mergeAttributeSelectors,
@@ -17,9 +18,19 @@ import {
   normalizeAttributeSelector,
   IdentifierDescriptor,
   IdentifierValue,
+  serialize,
+  deserialize,
+  isIdentifierAttributeInstance,
   method
 } from '@layr/component';
-import {hasOwnProperty, isPrototypeOf, isPlainObject, getTypeOf, Constructor} from 'core-helpers';
+import {
+  hasOwnProperty,
+  isPrototypeOf,
+  isPlainObject,
+  getTypeOf,
+  Constructor,
+  PlainObject
+} from 'core-helpers';
 import mapKeys from 'lodash/mapKeys';
 
 import {
@@ -37,6 +48,7 @@ import {
   isStorableMethodInstance
 } from './properties';
 import {Index, IndexAttributes, IndexOptions} from './index-class';
+import {looksLikeOperator} from './operator';
 import type {Query} from './query';
 import type {StoreLike} from './store-like';
 import {
@@ -50,6 +62,57 @@ export type SortDescriptor = {[name: string]: SortDirection};
 
 export type SortDirection = 'asc' | 'desc';
 
+export type BulkOperationResult<T extends StorableComponent = StorableComponent> = {
+  storable: T;
+  error?: BulkOperationError;
+};
+
+export type BulkOperationError = {message: string; code?: string};
+
+export type AtomicOperations = {
+  $inc?: {[name: string]: number};
+  $push?: {[name: string]: unknown[]};
+  $pull?: {[name: string]: unknown[]};
+};
+
+export type AggregateOperator = '$count' | '$sum' | '$average' | '$min' | '$max';
+
+export type Aggregator = {[operator in AggregateOperator]?: string | true};
+
+export type AggregateDescriptor = {[name: string]: Aggregator};
+
+export type NormalizedAggregateDescriptor = {
+  [name: string]: {operator: AggregateOperator; attributeName?: string};
+};
+
+export type AggregateResult = {[name: string]: any};
+
+export type WatchEventType = 'created' | 'updated' | 'deleted';
+
+export type WatchEvent<T extends StorableComponent = StorableComponent> = {
+  type: WatchEventType;
+  storable: T;
+};
+
+export type WatchCallback<T extends StorableComponent = StorableComponent> = (
+  event: WatchEvent<T>
+) => void | Promise<void>;
+
+export type StopWatching = () => Promise<void>;
+
+export type HistoryOperation = 'create' | 'update' | 'delete';
+
+export type HistoryEntry = {
+  id: string;
+  operation: HistoryOperation;
+  changes: PlainObject;
+  previousValues?: PlainObject;
+  savedAt: Date;
+  actor?: string;
+};
+
+const AGGREGATE_OPERATORS = ['$count', '$sum', '$average', '$min', '$max'];
+
 /**
  * Extends a [`Component`](https://layrjs.com/docs/v1/reference/component) class with some storage capabilities.
  *
@@ -386,6 +449,19 @@ export function Storable<T extends Constructor<typeof Component>>(Base: T) {
       });
     }
 
+    getVersionAttribute(options: {autoFork?: boolean} = {}) {
+      const {autoFork = true} = options;
+
+      for (const attribute of this.getAttributes<StorableAttribute>({
+        filter: (attribute) => isStorableAttributeInstance(attribute) && attribute.isVersion(),
+        autoFork
+      })) {
+        return attribute;
+      }
+
+      return undefined;
+    }
+
     getStorableAttributesWithHook(
       name: StorableAttributeHookName,
       options: {attributeSelector?: AttributeSelector; setAttributesOnly?: boolean} = {}
@@ -589,6 +665,7 @@ export function Storable<T extends Constructor<typeof Component>>(Base: T) {
      * @param [attributeSelector] An [`AttributeSelector`](https://layrjs.com/docs/v1/reference/attribute-selector) specifying the attributes to be loaded (default: `true`, which means that all the attributes will be loaded).
      * @param [options.reload] A boolean specifying whether a component that has already been loaded should be loaded again from the store (default: `false`). Most of the time you will leave this option off to take advantage of the cache.
      * @param [options.throwIfMissing] A boolean specifying whether an error should be thrown if there is no component matching the specified `identifier` in the store (default: `true`).
+     * @param [options.includeDeleted] A boolean specifying whether a [soft-deleted](https://layrjs.com/docs/v1/reference/storable#soft-deletable-decorator) component can be retrieved (default: `false`).
      *
      * @returns A [`StorableComponent`](https://layrjs.com/docs/v1/reference/storable#storable-component-class) instance.
      *
@@ -619,24 +696,44 @@ export function Storable<T extends Constructor<typeof Component>>(Base: T) {
       this: T,
       identifierDescriptor: IdentifierDescriptor,
       attributeSelector: AttributeSelector | undefined,
-      options: {reload?: boolean; throwIfMissing: false; _callerMethodName?: string}
+      options: {
+        reload?: boolean;
+        throwIfMissing: false;
+        includeDeleted?: boolean;
+        _callerMethodName?: string;
+      }
     ): Promise<InstanceType<T> | undefined>;
     static async get<T extends typeof StorableComponent>(
       this: T,
       identifierDescriptor: IdentifierDescriptor,
       attributeSelector?: AttributeSelector,
-      options?: {reload?: boolean; throwIfMissing?: boolean; _callerMethodName?: string}
+      options?: {
+        reload?: boolean;
+        throwIfMissing?: boolean;
+        includeDeleted?: boolean;
+        _callerMethodName?: string;
+      }
     ): Promise<InstanceType<T>>;
     @method() static async get<T extends typeof StorableComponent>(
       this: T,
       identifierDescriptor: IdentifierDescriptor,
       attributeSelector: AttributeSelector = true,
-      options: {reload?: boolean; throwIfMissing?: boolean; _callerMethodName?: string} = {}
+      options: {
+        reload?: boolean;
+        throwIfMissing?: boolean;
+        includeDeleted?: boolean;
+        _callerMethodName?: string;
+      } = {}
     ) {
       identifierDescriptor = this.normalizeIdentifierDescriptor(identifierDescriptor);
       attributeSelector = normalizeAttributeSelector(attributeSelector);
 
-      const {reload = false, throwIfMissing = true, _callerMethodName} = options;
+      const {
+        reload = false,
+        throwIfMissing = true,
+        includeDeleted = false,
+        _callerMethodName
+      } = options;
 
       let storable = this.getIdentityMap().getComponent(identifierDescriptor) as
         | InstanceType<T>
@@ -657,7 +754,8 @@ export function Storable<T extends Constructor<typeof Component>>(Base: T) {
             {},
             {
               reload,
-              throwIfMissing
+              throwIfMissing,
+              includeDeleted
             }
           );
 
@@ -683,6 +781,7 @@ export function Storable<T extends Constructor<typeof Component>>(Base: T) {
       const loadedStorable = await storable.load(attributeSelector, {
         reload,
         throwIfMissing,
+        includeDeleted,
         _callerMethodName: _callerMethodName ?? 'get'
       });
 
@@ -698,6 +797,7 @@ export function Storable<T extends Constructor<typeof Component>>(Base: T) {
      *
      * @param identifier A plain object specifying the identifier of the component you want to search. The shape of the object should be `{[identifierName]: identifierValue}`. Alternatively, you can specify a string or a number representing the value of a [`PrimaryIdentifierAttribute`](https://layrjs.com/docs/v1/reference/primary-identifier-attribute).
      * @param [options.reload] A boolean specifying whether a component that has already been loaded should be searched again from the store (default: `false`). Most of the time you will leave this option off to take advantage of the cache.
+     * @param [options.includeDeleted] A boolean specifying whether a [soft-deleted](https://layrjs.com/docs/v1/reference/storable#soft-deletable-decorator) component should be taken into account (default: `false`).
      *
      * @returns A boolean.
      *
@@ -715,13 +815,16 @@ export function Storable<T extends Constructor<typeof Component>>(Base: T) {
      *
      * @category Storage Operations
      */
-    static async has(identifierDescriptor: IdentifierDescriptor, options: {reload?: boolean} = {}) {
-      const {reload = false} = options;
+    static async has(
+      identifierDescriptor: IdentifierDescriptor,
+      options: {reload?: boolean; includeDeleted?: boolean} = {}
+    ) {
+      const {reload = false, includeDeleted = false} = options;
 
       const storable: StorableComponent | undefined = await this.get(
         identifierDescriptor,
         {},
-        {reload, throwIfMissing: false, _callerMethodName: 'has'}
+        {reload, throwIfMissing: false, includeDeleted, _callerMethodName: 'has'}
       );
 
       return storable !== undefined;
@@ -733,6 +836,7 @@ export function Storable<T extends Constructor<typeof Component>>(Base: T) {
      * @param [attributeSelector] An [`AttributeSelector`](https://layrjs.com/docs/v1/reference/attribute-selector) specifying the attributes to be loaded (default: `true`, which means that all the attributes will be loaded).
      * @param [options.reload] A boolean specifying whether a component that has already been loaded should be loaded again from the store (default: `false`). Most of the time you will leave this option off to take advantage of the cache.
      * @param [options.throwIfMissing] A boolean specifying whether an error should be thrown if there is no matching component in the store (default: `true`).
+     * @param [options.includeDeleted] A boolean specifying whether the component can be loaded if it has been [soft-deleted](https://layrjs.com/docs/v1/reference/storable#soft-deletable-decorator) (default: `false`).
      *
      * @returns The current [`StorableComponent`](https://layrjs.com/docs/v1/reference/storable#storable-component-class) instance.
      *
@@ -767,19 +871,39 @@ export function Storable<T extends Constructor<typeof Component>>(Base: T) {
     async load<T extends StorableComponent>(
       this: T,
       attributeSelector: AttributeSelector | undefined,
-      options: {reload?: boolean; throwIfMissing: false; _callerMethodName?: string}
+      options: {
+        reload?: boolean;
+        throwIfMissing: false;
+        includeDeleted?: boolean;
+        _callerMethodName?: string;
+      }
     ): Promise<T | undefined>;
     async load<T extends StorableComponent>(
       this: T,
       attributeSelector?: AttributeSelector,
-      options?: {reload?: boolean; throwIfMissing?: boolean; _callerMethodName?: string}
+      options?: {
+        reload?: boolean;
+        throwIfMissing?: boolean;
+        includeDeleted?: boolean;
+        _callerMethodName?: string;
+      }
     ): Promise<T>;
     @method() async load<T extends StorableComponent>(
       this: T,
       attributeSelector: AttributeSelector = true,
-      options: {reload?: boolean; throwIfMissing?: boolean; _callerMethodName?: string} = {}
+      options: {
+        reload?: boolean;
+        throwIfMissing?: boolean;
+        includeDeleted?: boolean;
+        _callerMethodName?: string;
+      } = {}
     ) {
-      const {reload = false, throwIfMissing = true, _callerMethodName} = options;
+      const {
+        reload = false,
+        throwIfMissing = true,
+        includeDeleted = false,
+        _callerMethodName
+      } = options;
 
       if (this.isNew()) {
         throw new Error(
@@ -787,34 +911,12 @@ export function Storable<T extends Constructor<typeof Component>>(Base: T) {
         );
       }
 
-      let resolvedAttributeSelector = this.resolveAttributeSelector(attributeSelector);
-
-      if (!reload) {
-        const alreadyLoadedAttributeSelector = this.resolveAttributeSelector(
-          resolvedAttributeSelector,
-          {
-            filter: (attribute: Attribute) => attribute.getValueSource() === 1,
-            setAttributesOnly: true,
-            aggregationMode: 'intersection'
-          }
-        );
-
-        resolvedAttributeSelector = removeFromAttributeSelector(
-          resolvedAttributeSelector,
-          alreadyLoadedAttributeSelector
-        );
-      }
-
-      const computedAttributes = this.getStorableComputedAttributes({
-        attributeSelector: resolvedAttributeSelector
+      const resolvedAttributeSelector = this.__resolveAttributeSelectorToLoad(attributeSelector, {
+        reload
       });
 
-      let nonComputedAttributeSelector = removeFromAttributeSelector(
-        resolvedAttributeSelector,
-        createAttributeSelectorFromAttributes(computedAttributes)
-      );
-
-      nonComputedAttributeSelector = trimAttributeSelector(nonComputedAttributeSelector);
+      const nonComputedAttributeSelector =
+        this.__getNonComputedAttributeSelector(resolvedAttributeSelector);
 
       let loadedStorable: T | undefined;
 
@@ -826,12 +928,14 @@ export function Storable<T extends Constructor<typeof Component>>(Base: T) {
         if (constructor.hasStore()) {
           loadedStorable = (await constructor.getStore().load(this, {
             attributeSelector: nonComputedAttributeSelector,
-            throwIfMissing
+            throwIfMissing,
+            includeDeleted
           })) as T;
         } else if (this.hasRemoteMethod('load')) {
           loadedStorable = await this.callRemoteMethod('load', nonComputedAttributeSelector, {
             reload,
-            throwIfMissing
+            throwIfMissing,
+            includeDeleted
           });
         } else {
           throw new Error(
@@ -850,73 +954,257 @@ export function Storable<T extends Constructor<typeof Component>>(Base: T) {
         loadedStorable = this; // OPTIMIZATION: There was nothing to load
       }
 
-      for (const attribute of loadedStorable.getStorableAttributesWithLoader({
-        attributeSelector: resolvedAttributeSelector
-      })) {
-        const value = await attribute.callLoader();
-        attribute.setValue(value, {source: 1});
+      await loadedStorable.__loadComputedAttributesAndReferences(
+        attributeSelector,
+        resolvedAttributeSelector,
+        {reload, throwIfMissing, _callerMethodName}
+      );
+
+      return loadedStorable;
+    }
+
+    __resolveAttributeSelectorToLoad(
+      attributeSelector: AttributeSelector,
+      {reload}: {reload: boolean}
+    ) {
+      let resolvedAttributeSelector = this.resolveAttributeSelector(attributeSelector);
+
+      if (!reload) {
+        const alreadyLoadedAttributeSelector = this.resolveAttributeSelector(
+          resolvedAttributeSelector,
+          {
+            filter: (attribute: Attribute) => attribute.getValueSource() === 1,
+            setAttributesOnly: true,
+            aggregationMode: 'intersection'
+          }
+        );
+
+        resolvedAttributeSelector = removeFromAttributeSelector(
+          resolvedAttributeSelector,
+          alreadyLoadedAttributeSelector
+        );
       }
 
-      await loadedStorable.__populate(attributeSelector, {
-        reload,
-        throwIfMissing,
-        _callerMethodName
+      return resolvedAttributeSelector;
+    }
+
+    __getNonComputedAttributeSelector(resolvedAttributeSelector: AttributeSelector) {
+      const computedAttributes = this.getStorableComputedAttributes({
+        attributeSelector: resolvedAttributeSelector
       });
 
-      return loadedStorable;
+      const nonComputedAttributeSelector = removeFromAttributeSelector(
+        resolvedAttributeSelector,
+        createAttributeSelectorFromAttributes(computedAttributes)
+      );
+
+      return trimAttributeSelector(nonComputedAttributeSelector);
     }
 
-    async __populate(
+    async __loadComputedAttributesAndReferences(
       attributeSelector: AttributeSelector,
+      resolvedAttributeSelector: AttributeSelector,
+      options: {reload: boolean; throwIfMissing: boolean; _callerMethodName: string | undefined}
+    ) {
+      await ensureStorableClass(this).__loadComputedAttributesAndReferencesOfMany(
+        [this],
+        [attributeSelector],
+        [resolvedAttributeSelector],
+        options
+      );
+    }
+
+    static async __loadComputedAttributesAndReferencesOfMany(
+      storables: StorableComponent[],
+      attributeSelectors: AttributeSelector[],
+      resolvedAttributeSelectors: AttributeSelector[],
+      options: {reload: boolean; throwIfMissing: boolean; _callerMethodName: string | undefined}
+    ) {
+      await Promise.all(
+        storables.map(async (storable, index) => {
+          for (const attribute of storable.getStorableAttributesWithLoader({
+            attributeSelector: resolvedAttributeSelectors[index]
+          })) {
+            const value = await attribute.callLoader();
+            attribute.setValue(value, {source: 1});
+          }
+        })
+      );
+
+      await this.__populateMany(storables, attributeSelectors, options);
+    }
+
+    // Loads the components referenced by the specified storables so that the referenced
+    // components of a given class can be fetched at once (instead of one by one)
+    static async __populateMany(
+      storables: StorableComponent[],
+      attributeSelectors: AttributeSelector[],
       {
         reload,
         throwIfMissing,
         _callerMethodName
       }: {reload: boolean; throwIfMissing: boolean; _callerMethodName: string | undefined}
     ) {
-      const resolvedAttributeSelector = this.resolveAttributeSelector(attributeSelector, {
-        includeReferencedComponents: true
-      });
-
-      const storablesWithAttributeSelectors = new Map<
-        typeof StorableComponent | StorableComponent,
-        AttributeSelector
+      const referencedStorablesByClass = new Map<
+        typeof StorableComponent,
+        Map<StorableComponent, AttributeSelector>
       >();
 
-      traverseAttributeSelector(
-        this,
-        resolvedAttributeSelector,
-        (componentOrObject, subattributeSelector) => {
-          if (
-            isStorableClassOrInstance(componentOrObject) &&
-            !ensureStorableClass(componentOrObject).isEmbedded()
-          ) {
-            const storable = componentOrObject;
-
-            if (!storablesWithAttributeSelectors.has(storable)) {
-              storablesWithAttributeSelectors.set(storable, subattributeSelector);
-            } else {
-              const mergedAttributeSelector = mergeAttributeSelectors(
-                storablesWithAttributeSelectors.get(storable)!,
-                subattributeSelector
-              );
-              storablesWithAttributeSelectors.set(storable, mergedAttributeSelector);
+      storables.forEach((storable, index) => {
+        const resolvedAttributeSelector = storable.resolveAttributeSelector(
+          attributeSelectors[index],
+          {includeReferencedComponents: true}
+        );
+
+        traverseAttributeSelector(
+          storable,
+          resolvedAttributeSelector,
+          (componentOrObject, subattributeSelector) => {
+            if (
+              isStorableClassOrInstance(componentOrObject) &&
+              !ensureStorableClass(componentOrObject).isEmbedded()
+            ) {
+              if (!isStorableInstance(componentOrObject)) {
+                return; // TODO: Implement class loading
+              }
+
+              const referencedStorable = componentOrObject;
+              const referencedStorableClass = ensureStorableClass(referencedStorable);
+
+              let referencedStorables = referencedStorablesByClass.get(referencedStorableClass);
+
+              if (referencedStorables === undefined) {
+                referencedStorables = new Map();
+                referencedStorablesByClass.set(referencedStorableClass, referencedStorables);
+              }
+
+              if (!referencedStorables.has(referencedStorable)) {
+                referencedStorables.set(referencedStorable, subattributeSelector);
+              } else {
+                const mergedAttributeSelector = mergeAttributeSelectors(
+                  referencedStorables.get(referencedStorable)!,
+                  subattributeSelector
+                );
+                referencedStorables.set(referencedStorable, mergedAttributeSelector);
+              }
             }
-          }
-        },
-        {includeSubtrees: true, includeLeafs: false}
+          },
+          {includeSubtrees: true, includeLeafs: false}
+        );
+      });
+
+      if (referencedStorablesByClass.size > 0) {
+        await Promise.all(
+          Array.from(referencedStorablesByClass).map(
+            ([referencedStorableClass, referencedStorables]) =>
+              referencedStorableClass.__loadMany(
+                Array.from(referencedStorables.keys()),
+                Array.from(referencedStorables.values()),
+                {
+                  reload,
+                  throwIfMissing,
+                  includeDeleted: true, // A soft-deleted component can still be referenced
+                  _callerMethodName
+                }
+              )
+          )
+        );
+      }
+    }
+
+    // Loads several instances of the current class with a single store operation
+    // (or, when there is no store, by calling load() on each instance)
+    static async __loadMany(
+      storables: StorableComponent[],
+      attributeSelectors: AttributeSelector[],
+      {
+        reload,
+        throwIfMissing,
+        includeDeleted,
+        _callerMethodName
+      }: {
+        reload: boolean;
+        throwIfMissing: boolean;
+        includeDeleted: boolean;
+        _callerMethodName: string | undefined;
+      }
+    ) {
+      if (!this.hasStore()) {
+        return await Promise.all(
+          storables.map((storable, index) =>
+            storable.load(attributeSelectors[index], {
+              reload,
+              throwIfMissing,
+              includeDeleted,
+              _callerMethodName
+            })
+          )
+        );
+      }
+
+      for (const storable of storables) {
+        if (storable.isNew()) {
+          throw new Error(
+            `Cannot load a storable component that is marked as new (${storable.describeComponent()})`
+          );
+        }
+      }
+
+      const resolvedAttributeSelectors = storables.map((storable, index) =>
+        storable.__resolveAttributeSelectorToLoad(attributeSelectors[index], {reload})
       );
 
-      if (storablesWithAttributeSelectors.size > 0) {
+      const nonComputedAttributeSelectors = storables.map((storable, index) =>
+        storable.__getNonComputedAttributeSelector(resolvedAttributeSelectors[index])
+      );
+
+      const loadedStorables: (StorableComponent | undefined)[] = [...storables];
+
+      const indexesToRead = storables
+        .map((_, index) => index)
+        .filter((index) => nonComputedAttributeSelectors[index] !== false);
+
+      if (indexesToRead.length > 0) {
+        await Promise.all(
+          indexesToRead.map((index) =>
+            storables[index].beforeLoad(nonComputedAttributeSelectors[index])
+          )
+        );
+
+        const readStorables = await this.getStore().loadMany(
+          indexesToRead.map((index) => storables[index]),
+          {
+            attributeSelector: indexesToRead
+              .map((index) => nonComputedAttributeSelectors[index])
+              .reduce(mergeAttributeSelectors),
+            throwIfMissing,
+            includeDeleted
+          }
+        );
+
+        readStorables.forEach((readStorable, readIndex) => {
+          loadedStorables[indexesToRead[readIndex]] = readStorable;
+        });
+
         await Promise.all(
-          Array.from(storablesWithAttributeSelectors).map(
-            ([storable, attributeSelector]) =>
-              isStorableInstance(storable)
-                ? storable.load(attributeSelector, {reload, throwIfMissing, _callerMethodName})
-                : undefined // TODO: Implement class loading
+          indexesToRead.map((index) =>
+            loadedStorables[index]?.afterLoad(nonComputedAttributeSelectors[index])
           )
         );
       }
+
+      const indexesToComplete = storables
+        .map((_, index) => index)
+        .filter((index) => loadedStorables[index] !== undefined);
+
+      await this.__loadComputedAttributesAndReferencesOfMany(
+        indexesToComplete.map((index) => loadedStorables[index]!),
+        indexesToComplete.map((index) => attributeSelectors[index]),
+        indexesToComplete.map((index) => resolvedAttributeSelectors[index]),
+        {reload, throwIfMissing, _callerMethodName}
+      );
+
+      return loadedStorables;
     }
 
     /**
@@ -976,38 +1264,9 @@ export function Storable<T extends Constructor<typeof Component>>(Base: T) {
         );
       }
 
-      const computedAttributes = this.getStorableComputedAttributes();
-      const computedAttributeSelector = createAttributeSelectorFromAttributes(computedAttributes);
-
-      let resolvedAttributeSelector = this.resolveAttributeSelector(attributeSelector, {
-        setAttributesOnly: true,
-        target: 1,
-        aggregationMode: 'intersection'
-      });
-
-      resolvedAttributeSelector = removeFromAttributeSelector(
-        resolvedAttributeSelector,
-        computedAttributeSelector
-      );
-
-      if (!isNew && Object.keys(resolvedAttributeSelector).length < 2) {
-        return this; // OPTIMIZATION: There is nothing to save
-      }
-
-      await this.beforeSave(resolvedAttributeSelector);
-
-      resolvedAttributeSelector = this.resolveAttributeSelector(attributeSelector, {
-        setAttributesOnly: true,
-        target: 1,
-        aggregationMode: 'intersection'
-      });
-
-      resolvedAttributeSelector = removeFromAttributeSelector(
-        resolvedAttributeSelector,
-        computedAttributeSelector
-      );
+      const resolvedAttributeSelector = await this.__prepareSave(attributeSelector);
 
-      if (!isNew && Object.keys(resolvedAttributeSelector).length < 2) {
+      if (resolvedAttributeSelector === undefined) {
         return this; // OPTIMIZATION: There is nothing to save
       }
 
@@ -1036,124 +1295,716 @@ export function Storable<T extends Constructor<typeof Component>>(Base: T) {
         return undefined;
       }
 
-      await savedStorable.afterSave(resolvedAttributeSelector);
+      await savedStorable.afterSave(resolvedAttributeSelector, {wasCreated: isNew});
 
       return savedStorable;
     }
 
-    _assertArrayItemsAreFullyLoaded(attributeSelector: AttributeSelector) {
-      traverseAttributeSelector(
-        this,
-        attributeSelector,
-        (value, attributeSelector, {isArray}) => {
-          if (isArray && isComponentInstance(value)) {
-            const component = value;
+    // Resolves the attributes to be saved and calls the beforeSave() hook
+    // (returns `undefined` when there is nothing to save)
+    async __prepareSave(attributeSelector: AttributeSelector) {
+      const isNew = this.isNew();
 
-            if (component.constructor.isEmbedded()) {
-              if (
-                !attributeSelectorsAreEqual(
-                  component.resolveAttributeSelector(true),
-                  attributeSelector
-                )
-              ) {
-                throw new Error(
-                  `Cannot save an array item that has some unset attributes (${component.describeComponent()})`
-                );
-              }
-            }
-          }
-        },
-        {includeSubtrees: true, includeLeafs: false}
-      );
+      const computedAttributes = this.getStorableComputedAttributes();
+      const computedAttributeSelector = createAttributeSelectorFromAttributes(computedAttributes);
+
+      const resolveAttributeSelector = () =>
+        removeFromAttributeSelector(
+          this.resolveAttributeSelector(attributeSelector, {
+            setAttributesOnly: true,
+            target: 1,
+            aggregationMode: 'intersection'
+          }),
+          computedAttributeSelector
+        );
+
+      let resolvedAttributeSelector = resolveAttributeSelector();
+
+      if (!isNew && Object.keys(resolvedAttributeSelector).length < 2) {
+        return undefined;
+      }
+
+      await this.beforeSave(resolvedAttributeSelector);
+
+      resolvedAttributeSelector = resolveAttributeSelector();
+
+      if (!isNew && Object.keys(resolvedAttributeSelector).length < 2) {
+        return undefined;
+      }
+
+      return resolvedAttributeSelector;
     }
 
     /**
-     * Deletes the current storable component instance from the store.
+     * Saves several storable component instances to the store in a single batch. Each component is saved in the same way as with the [`save()`](https://layrjs.com/docs/v1/reference/storable#save-instance-method) method (including the calls to the `beforeSave()` and `afterSave()` hooks), but the store operations are grouped so that they can be executed efficiently. If an error occurs while saving a component, the error is returned with the component, and the other components are still saved.
      *
-     * @param [options.throwIfMissing] A boolean specifying whether an error should be thrown if there is no matching component in the store (default: `true`).
+     * @param storables An array of [`StorableComponent`](https://layrjs.com/docs/v1/reference/storable#storable-component-class) instances.
+     * @param [attributeSelector] An [`AttributeSelector`](https://layrjs.com/docs/v1/reference/attribute-selector) specifying the attributes to be saved (default: `true`, which means that all the modified attributes will be saved).
      *
-     * @returns The current [`StorableComponent`](https://layrjs.com/docs/v1/reference/storable#storable-component-class) instance.
+     * @returns An array of objects of the shape `{storable, error}` (in the same order as the specified components) where `error` is `undefined` if the component has been successfully saved, or a plain object of the shape `{message, code}` describing the error otherwise.
      *
      * @example
      * ```
-     * // Retrieve a movie
-     * const movie = await Movie.get('abc123');
+     * const movies = titles.map((title) => new Movie({title}));
      *
-     * // Delete the movie
-     * await movie.delete();
+     * const results = await Movie.saveMany(movies);
+     *
+     * for (const {storable, error} of results) {
+     *   if (error !== undefined) {
+     *     console.error(`Couldn't save '${storable.title}' (${error.message})`);
+     *   }
+     * }
      * ```
      *
      * @category Storage Operations
      */
-    async delete<T extends StorableComponent>(
+    @method() static async saveMany<T extends typeof StorableComponent>(
       this: T,
-      options: {throwIfMissing: false}
-    ): Promise<T | undefined>;
-    async delete<T extends StorableComponent>(
+      storables: InstanceType<T>[],
+      attributeSelector: AttributeSelector = true
+    ) {
+      const results: BulkOperationResult<InstanceType<T>>[] = storables.map((storable) => ({
+        storable
+      }));
+
+      const pendingOperations: {
+        index: number;
+        attributeSelector: AttributeSelector;
+        isNew: boolean;
+      }[] = [];
+
+      for (const [index, storable] of storables.entries()) {
+        try {
+          const isNew = storable.isNew();
+          const resolvedAttributeSelector = await storable.__prepareSave(attributeSelector);
+
+          if (resolvedAttributeSelector !== undefined) {
+            pendingOperations.push({index, attributeSelector: resolvedAttributeSelector, isNew});
+          }
+        } catch (error) {
+          results[index].error = toBulkOperationError(error);
+        }
+      }
+
+      let operationErrors: (BulkOperationError | undefined)[];
+
+      if (this.hasStore()) {
+        const storeResults = await this.getStore().saveMany(
+          pendingOperations.map(({index, attributeSelector}) => ({
+            storable: storables[index],
+            attributeSelector
+          }))
+        );
+
+        operationErrors = storeResults.map((result) =>
+          result instanceof Error ? toBulkOperationError(result) : undefined
+        );
+      } else if (this.hasRemoteMethod('saveMany')) {
+        const remoteResults: BulkOperationResult<InstanceType<T>>[] = await this.callRemoteMethod(
+          'saveMany',
+          pendingOperations.map(({index}) => storables[index]),
+          attributeSelector
+        );
+
+        operationErrors = remoteResults.map(({error}) => error);
+      } else {
+        throw new Error(
+          `To be able to execute the saveMany() method, a storable component should be registered in a store or have an exposed saveMany() remote method (${this.describeComponent()})`
+        );
+      }
+
+      for (const [
+        operationIndex,
+        {index, attributeSelector, isNew}
+      ] of pendingOperations.entries()) {
+        const error = operationErrors[operationIndex];
+
+        if (error !== undefined) {
+          results[index].error = error;
+          continue;
+        }
+
+        try {
+          await storables[index].afterSave(attributeSelector, {wasCreated: isNew});
+        } catch (error) {
+          results[index].error = toBulkOperationError(error);
+        }
+      }
+
+      return results;
+    }
+
+    /**
+     * Creates or updates a storable component instance in a single atomic operation. If there is a component matching the specified identifier in the store, the specified attributes are saved to this component. Otherwise, a new component is created with the specified identifier and attributes (the other attributes being initialized with their default value).
+     *
+     * The [`beforeSave()`](https://layrjs.com/docs/v1/reference/storable#before-save-instance-method) and [`afterSave()`](https://layrjs.com/docs/v1/reference/storable#after-save-instance-method) hooks are called as with the [`save()`](https://layrjs.com/docs/v1/reference/storable#save-instance-method) method, and the `afterSave()` hook receives a `wasCreated` option indicating whether the component has been created or updated.
+     *
+     * @param identifier A plain object specifying the identifier of the component to be created or updated. The shape of the object should be `{[identifierName]: identifierValue}`. Alternatively, you can specify a string or a number representing the value of a [`PrimaryIdentifierAttribute`](https://layrjs.com/docs/v1/reference/primary-identifier-attribute).
+     * @param [attributes] A plain object specifying the attributes to be saved (default: `{}`).
+     *
+     * @returns A [`StorableComponent`](https://layrjs.com/docs/v1/reference/storable#storable-component-class) instance holding all the attributes that are in the store.
+     *
+     * @example
+     * ```
+     * // Create a user with the 'john@example.com' email, or update
+     * // the full name of the existing user having this email
+     * const user = await User.upsert({email: 'john@example.com'}, {fullName: 'John'});
+     * ```
+     *
+     * @category Storage Operations
+     */
+    @method() static async upsert<T extends typeof StorableComponent>(
+      this: T,
+      identifierDescriptor: IdentifierDescriptor,
+      attributes: PlainObject = {}
+    ): Promise<InstanceType<T>> {
+      identifierDescriptor = this.normalizeIdentifierDescriptor(identifierDescriptor);
+
+      if (!this.hasStore()) {
+        if (this.hasRemoteMethod('upsert')) {
+          return await this.callRemoteMethod('upsert', identifierDescriptor, attributes);
+        }
+
+        throw new Error(
+          `To be able to execute the upsert() method, a storable component should be registered in a store or have an exposed upsert() remote method (${this.describeComponent()})`
+        );
+      }
+
+      return await this.__upsert(
+        identifierDescriptor,
+        {...identifierDescriptor, ...attributes},
+        createAttributeSelectorFromNames(Object.keys(attributes))
+      );
+    }
+
+    /**
+     * Retrieves the first storable component instance matching the specified query, or creates a new one if there is no matching component in the store. The lookup and the creation are executed in a single atomic operation, so a component cannot be created twice by some concurrent calls.
+     *
+     * A new component is initialized with the attribute values specified in the query (the operators being ignored) and the specified default values. In this case, the [`beforeSave()`](https://layrjs.com/docs/v1/reference/storable#before-save-instance-method) and [`afterSave()`](https://layrjs.com/docs/v1/reference/storable#after-save-instance-method) hooks are called as with the [`save()`](https://layrjs.com/docs/v1/reference/storable#save-instance-method) method, and the `afterSave()` hook receives a `wasCreated` option indicating whether the component has been created.
+     *
+     * @param query A [`Query`](https://layrjs.com/docs/v1/reference/query) specifying the component to be retrieved.
+     * @param [defaults] A plain object specifying the attribute values of a created component (default: `{}`).
+     *
+     * @returns A [`StorableComponent`](https://layrjs.com/docs/v1/reference/storable#storable-component-class) instance.
+     *
+     * @example
+     * ```
+     * // Retrieve the 'comedy' tag, or create it if it doesn't exist
+     * const tag = await Tag.findOrCreate({name: 'comedy'}, {color: 'yellow'});
+     * ```
+     *
+     * @category Storage Operations
+     */
+    @method() static async findOrCreate<T extends typeof StorableComponent>(
+      this: T,
+      query: Query,
+      defaults: PlainObject = {}
+    ): Promise<InstanceType<T>> {
+      if (!this.hasStore()) {
+        if (this.hasRemoteMethod('findOrCreate')) {
+          return await this.callRemoteMethod('findOrCreate', query, defaults);
+        }
+
+        throw new Error(
+          `To be able to execute the findOrCreate() method, a storable component should be registered in a store or have an exposed findOrCreate() remote method (${this.describeComponent()})`
+        );
+      }
+
+      const values: PlainObject = {};
+
+      for (const [name, value] of Object.entries(query)) {
+        if (
+          this.prototype.hasAttribute(name) &&
+          !(isPlainObject(value) && Object.keys(value).some(looksLikeOperator))
+        ) {
+          values[name] = value;
+        }
+      }
+
+      return await this.__upsert(query, {...values, ...defaults}, {});
+    }
+
+    // Saves a component initialized with the specified values if there is no component
+    // matching the query in the store, and otherwise, saves the attributes specified in
+    // `updateAttributeSelector` to the matching component
+    static async __upsert<T extends typeof StorableComponent>(
+      this: T,
+      query: Query,
+      values: PlainObject,
+      updateAttributeSelector: AttributeSelector
+    ) {
+      // A component that is already in the identity map is reused
+      let storable = this.getIdentityMap().getComponent(values) as InstanceType<T> | undefined;
+
+      if (storable === undefined) {
+        // Unlike with the constructor, the attributes that don't have a default value are
+        // left unset since they are not required to update an existing component
+        storable = this.instantiate(values);
+        storable.markAsNew();
+
+        for (const attribute of storable.getAttributes()) {
+          if (!attribute.isSet() && !attribute.isControlled()) {
+            const value = attribute.evaluateDefault();
+
+            if (value !== undefined) {
+              attribute.setValue(value);
+            }
+          }
+        }
+      } else {
+        for (const [name, value] of Object.entries(values)) {
+          storable.getAttribute(name).setValue(value);
+        }
+      }
+
+      const attributeSelector = (await storable.__prepareSave(true)) ?? {};
+
+      const {storable: savedStorable, wasCreated} = await this.getStore().upsert(storable, {
+        query,
+        attributeSelector,
+        updateAttributeSelector
+      });
+
+      await savedStorable.afterSave(wasCreated ? attributeSelector : updateAttributeSelector, {
+        wasCreated
+      });
+
+      return savedStorable as InstanceType<T>;
+    }
+
+    _assertArrayItemsAreFullyLoaded(attributeSelector: AttributeSelector) {
+      traverseAttributeSelector(
+        this,
+        attributeSelector,
+        (value, attributeSelector, {isArray}) => {
+          if (isArray && isComponentInstance(value)) {
+            const component = value;
+
+            if (component.constructor.isEmbedded()) {
+              if (
+                !attributeSelectorsAreEqual(
+                  component.resolveAttributeSelector(true),
+                  attributeSelector
+                )
+              ) {
+                throw new Error(
+                  `Cannot save an array item that has some unset attributes (${component.describeComponent()})`
+                );
+              }
+            }
+          }
+        },
+        {includeSubtrees: true, includeLeafs: false}
+      );
+    }
+
+    /**
+     * Deletes the current storable component instance from the store.
+     *
+     * If the storable component class is [soft-deletable](https://layrjs.com/docs/v1/reference/storable#soft-deletable-decorator), the component is not removed from the store but its `deletedAt` attribute is set to the current date, so it can be restored later with the [`restore()`](https://layrjs.com/docs/v1/reference/storable#restore-instance-method) method or removed for good with the [`purge()`](https://layrjs.com/docs/v1/reference/storable#purge-instance-method) method.
+     *
+     * @param [options.throwIfMissing] A boolean specifying whether an error should be thrown if there is no matching component in the store (default: `true`).
+     *
+     * @returns The current [`StorableComponent`](https://layrjs.com/docs/v1/reference/storable#storable-component-class) instance.
+     *
+     * @example
+     * ```
+     * // Retrieve a movie
+     * const movie = await Movie.get('abc123');
+     *
+     * // Delete the movie
+     * await movie.delete();
+     * ```
+     *
+     * @category Storage Operations
+     */
+    async delete<T extends StorableComponent>(
+      this: T,
+      options: {throwIfMissing: false}
+    ): Promise<T | undefined>;
+    async delete<T extends StorableComponent>(
+      this: T,
+      options?: {throwIfMissing?: boolean}
+    ): Promise<T>;
+    @method() async delete<T extends StorableComponent>(
+      this: T,
+      options: {throwIfMissing?: boolean} = {}
+    ) {
+      const {throwIfMissing = true} = options;
+
+      const constructor = this.constructor as typeof StorableComponent;
+
+      if (
+        constructor.hasStore() &&
+        constructor.getStore().getCurrentTransaction() === undefined &&
+        this.__hasRelationDeletePolicies() &&
+        (await constructor.getStore().supportsTransactions())
+      ) {
+        // Make sure that the relation policies and the deletion are applied atomically
+        return await constructor
+          .getStore()
+          .transaction(async () => await this.delete({throwIfMissing}));
+      }
+
+      const nonComputedAttributeSelector = await this.__prepareDelete();
+
+      let deletedStorable: T | undefined;
+
+      if (constructor.hasStore()) {
+        deletedStorable = (await constructor.getStore().delete(this, {throwIfMissing})) as T;
+      } else if (this.hasRemoteMethod('delete')) {
+        deletedStorable = await this.callRemoteMethod('delete', {throwIfMissing});
+      } else {
+        throw new Error(
+          `To be able to execute the delete() method, a storable component should be registered in a store or have an exposed delete() remote method (${this.describeComponent()})`
+        );
+      }
+
+      if (deletedStorable === undefined) {
+        return undefined;
+      }
+
+      await deletedStorable.afterDelete(nonComputedAttributeSelector);
+
+      deletedStorable.setIsDeletedMark(true);
+
+      // TODO: deletedStorable.detach();
+
+      return deletedStorable;
+    }
+
+    // Calls the beforeDelete() hook and returns the attributes that were passed to it
+    async __prepareDelete() {
+      if (this.isNew()) {
+        throw new Error(
+          `Cannot delete a storable component that is new (${this.describeComponent()})`
+        );
+      }
+
+      await this.__applyRelationDeletePolicies();
+
+      const attributeSelector = this.resolveAttributeSelector(true);
+      const computedAttributes = this.getStorableComputedAttributes({attributeSelector});
+      const nonComputedAttributeSelector = removeFromAttributeSelector(
+        attributeSelector,
+        createAttributeSelectorFromAttributes(computedAttributes)
+      );
+
+      await this.beforeDelete(nonComputedAttributeSelector);
+
+      return nonComputedAttributeSelector;
+    }
+
+    /**
+     * Deletes several storable component instances from the store in a single batch. Each component is deleted in the same way as with the [`delete()`](https://layrjs.com/docs/v1/reference/storable#delete-instance-method) method (including the calls to the `beforeDelete()` and `afterDelete()` hooks), but the store operations are grouped so that they can be executed efficiently. If an error occurs while deleting a component, the error is returned with the component, and the other components are still deleted.
+     *
+     * @param storablesOrQuery An array of [`StorableComponent`](https://layrjs.com/docs/v1/reference/storable#storable-component-class) instances, or a [`Query`](https://layrjs.com/docs/v1/reference/query) object specifying the components to be deleted.
+     *
+     * @returns An array of objects of the shape `{storable, error}` where `error` is `undefined` if the component has been successfully deleted, or a plain object of the shape `{message, code}` describing the error otherwise.
+     *
+     * @example
+     * ```
+     * // Delete some specific movies
+     * await Movie.deleteMany([movie1, movie2]);
+     *
+     * // Delete all the movies released before 1950
+     * await Movie.deleteMany({year: {$lessThan: 1950}});
+     * ```
+     *
+     * @category Storage Operations
+     */
+    @method() static async deleteMany<T extends typeof StorableComponent>(
+      this: T,
+      storablesOrQuery: InstanceType<T>[] | Query
+    ) {
+      const storables: InstanceType<T>[] = Array.isArray(storablesOrQuery)
+        ? storablesOrQuery
+        : await this.find(storablesOrQuery, {});
+
+      const results: BulkOperationResult<InstanceType<T>>[] = storables.map((storable) => ({
+        storable
+      }));
+
+      const pendingOperations: {index: number; attributeSelector: AttributeSelector}[] = [];
+
+      for (const [index, storable] of storables.entries()) {
+        try {
+          if (this.hasStore() && storable.__hasRelationDeletePolicies()) {
+            // The relation policies and the deletion of a component are applied
+            // atomically by delete(), so such a component cannot be part of the batch
+            await storable.delete();
+            continue;
+          }
+
+          pendingOperations.push({index, attributeSelector: await storable.__prepareDelete()});
+        } catch (error) {
+          results[index].error = toBulkOperationError(error);
+        }
+      }
+
+      let operationErrors: (BulkOperationError | undefined)[];
+
+      if (this.hasStore()) {
+        const storeResults = await this.getStore().deleteMany(
+          pendingOperations.map(({index}) => storables[index])
+        );
+
+        operationErrors = storeResults.map((result) =>
+          result instanceof Error ? toBulkOperationError(result) : undefined
+        );
+      } else if (this.hasRemoteMethod('deleteMany')) {
+        const remoteResults: BulkOperationResult<InstanceType<T>>[] = await this.callRemoteMethod(
+          'deleteMany',
+          pendingOperations.map(({index}) => storables[index])
+        );
+
+        operationErrors = remoteResults.map(({error}) => error);
+      } else {
+        throw new Error(
+          `To be able to execute the deleteMany() method, a storable component should be registered in a store or have an exposed deleteMany() remote method (${this.describeComponent()})`
+        );
+      }
+
+      for (const [operationIndex, {index, attributeSelector}] of pendingOperations.entries()) {
+        const error = operationErrors[operationIndex];
+
+        if (error !== undefined) {
+          results[index].error = error;
+          continue;
+        }
+
+        const storable = storables[index];
+
+        try {
+          await storable.afterDelete(attributeSelector);
+        } catch (error) {
+          results[index].error = toBulkOperationError(error);
+          continue;
+        }
+
+        storable.setIsDeletedMark(true);
+      }
+
+      return results;
+    }
+
+    // === Atomic updates ===
+
+    /**
+     * Atomically adds a number to an attribute of the current storable component instance in the store. Unlike changing the attribute and calling [`save()`](https://layrjs.com/docs/v1/reference/storable#save-instance-method), the addition is executed by the store, so some concurrent increments cannot overwrite each other.
+     *
+     * Once the store has been updated, the attribute is refreshed with the value that is in the store. Note that the [`beforeSave()`](https://layrjs.com/docs/v1/reference/storable#before-save-instance-method) and [`afterSave()`](https://layrjs.com/docs/v1/reference/storable#after-save-instance-method) hooks are not called.
+     *
+     * @param attributeName The name of an attribute of type `'number'` (a missing value being considered as `0`).
+     * @param [amount] The number to be added to the attribute (default: `1`). Specify a negative number to decrement the attribute.
+     *
+     * @returns The current [`StorableComponent`](https://layrjs.com/docs/v1/reference/storable#storable-component-class) instance.
+     *
+     * @example
+     * ```
+     * const movie = await Movie.get('abc123', {});
+     *
+     * await movie.increment('views');
+     *
+     * movie.views; // => 1235
+     * ```
+     *
+     * @category Atomic Updates
+     */
+    @method() async increment<T extends StorableComponent>(
+      this: T,
+      attributeName: string,
+      amount = 1
+    ) {
+      return await this.__atomicUpdate('increment', {$inc: {[attributeName]: amount}}, [
+        attributeName,
+        amount
+      ]);
+    }
+
+    /**
+     * Atomically appends an item to an array attribute of the current storable component instance in the store. Once the store has been updated, the attribute is refreshed with the value that is in the store.
+     *
+     * @param attributeName The name of an attribute holding an array of scalar values (e.g., `'string[]'`).
+     * @param value The item to be appended.
+     *
+     * @returns The current [`StorableComponent`](https://layrjs.com/docs/v1/reference/storable#storable-component-class) instance.
+     *
+     * @example
+     * ```
+     * await movie.push('tags', 'thriller');
+     * ```
+     *
+     * @category Atomic Updates
+     */
+    @method() async push<T extends StorableComponent>(
+      this: T,
+      attributeName: string,
+      value: unknown
+    ) {
+      return await this.__atomicUpdate('push', {$push: {[attributeName]: [value]}}, [
+        attributeName,
+        value
+      ]);
+    }
+
+    /**
+     * Atomically removes all the occurrences of an item from an array attribute of the current storable component instance in the store. Once the store has been updated, the attribute is refreshed with the value that is in the store.
+     *
+     * @param attributeName The name of an attribute holding an array of scalar values (e.g., `'string[]'`).
+     * @param value The item to be removed.
+     *
+     * @returns The current [`StorableComponent`](https://layrjs.com/docs/v1/reference/storable#storable-component-class) instance.
+     *
+     * @example
+     * ```
+     * await movie.pull('tags', 'thriller');
+     * ```
+     *
+     * @category Atomic Updates
+     */
+    @method() async pull<T extends StorableComponent>(
+      this: T,
+      attributeName: string,
+      value: unknown
+    ) {
+      return await this.__atomicUpdate('pull', {$pull: {[attributeName]: [value]}}, [
+        attributeName,
+        value
+      ]);
+    }
+
+    async __atomicUpdate<T extends StorableComponent>(
+      this: T,
+      methodName: string,
+      operations: AtomicOperations,
+      args: unknown[]
+    ): Promise<T> {
+      const constructor = this.constructor as typeof StorableComponent;
+
+      if (constructor.hasStore()) {
+        return (await constructor.getStore().atomicUpdate(this, operations)) as T;
+      }
+
+      if (this.hasRemoteMethod(methodName)) {
+        return await this.callRemoteMethod(methodName, ...args);
+      }
+
+      throw new Error(
+        `To be able to execute the ${methodName}() method, a storable component should be registered in a store or have an exposed ${methodName}() remote method (${this.describeComponent()})`
+      );
+    }
+
+    /**
+     * Restores the current storable component instance after it has been [soft-deleted](https://layrjs.com/docs/v1/reference/storable#soft-deletable-decorator).
+     *
+     * @returns The current [`StorableComponent`](https://layrjs.com/docs/v1/reference/storable#storable-component-class) instance.
+     *
+     * @example
+     * ```
+     * // Retrieve a movie that has been soft-deleted
+     * const movie = await Movie.get('abc123', true, {includeDeleted: true});
+     *
+     * // Restore the movie
+     * await movie.restore();
+     * ```
+     *
+     * @category Soft Deletion
+     */
+    @method() async restore<T extends StorableComponent>(this: T) {
+      let restoredStorable: T;
+
+      const constructor = this.constructor as typeof StorableComponent;
+
+      if (constructor.hasStore()) {
+        restoredStorable = (await constructor.getStore().restore(this)) as T;
+      } else if (this.hasRemoteMethod('restore')) {
+        restoredStorable = await this.callRemoteMethod('restore');
+      } else {
+        throw new Error(
+          `To be able to execute the restore() method, a storable component should be registered in a store or have an exposed restore() remote method (${this.describeComponent()})`
+        );
+      }
+
+      restoredStorable.setIsDeletedMark(false);
+
+      return restoredStorable;
+    }
+
+    /**
+     * Removes the current storable component instance from the store for good, even if the storable component class is [soft-deletable](https://layrjs.com/docs/v1/reference/storable#soft-deletable-decorator).
+     *
+     * Note that the `beforeDelete()` and `afterDelete()` hooks are not called since they have already been called when the component was soft-deleted.
+     *
+     * @param [options.throwIfMissing] A boolean specifying whether an error should be thrown if there is no matching component in the store (default: `true`).
+     *
+     * @returns The current [`StorableComponent`](https://layrjs.com/docs/v1/reference/storable#storable-component-class) instance.
+     *
+     * @example
+     * ```
+     * // Retrieve a movie that has been soft-deleted
+     * const movie = await Movie.get('abc123', {}, {includeDeleted: true});
+     *
+     * // Remove the movie from the store
+     * await movie.purge();
+     * ```
+     *
+     * @category Soft Deletion
+     */
+    async purge<T extends StorableComponent>(
+      this: T,
+      options: {throwIfMissing: false}
+    ): Promise<T | undefined>;
+    async purge<T extends StorableComponent>(
       this: T,
       options?: {throwIfMissing?: boolean}
     ): Promise<T>;
-    @method() async delete<T extends StorableComponent>(
+    @method() async purge<T extends StorableComponent>(
       this: T,
       options: {throwIfMissing?: boolean} = {}
     ) {
-      if (this.isNew()) {
-        throw new Error(
-          `Cannot delete a storable component that is new (${this.describeComponent()})`
-        );
-      }
-
       const {throwIfMissing = true} = options;
 
-      const attributeSelector = this.resolveAttributeSelector(true);
-      const computedAttributes = this.getStorableComputedAttributes({attributeSelector});
-      const nonComputedAttributeSelector = removeFromAttributeSelector(
-        attributeSelector,
-        createAttributeSelectorFromAttributes(computedAttributes)
-      );
-
-      await this.beforeDelete(nonComputedAttributeSelector);
-
-      let deletedStorable: T | undefined;
+      let purgedStorable: T | undefined;
 
       const constructor = this.constructor as typeof StorableComponent;
 
       if (constructor.hasStore()) {
-        deletedStorable = (await constructor.getStore().delete(this, {throwIfMissing})) as T;
-      } else if (this.hasRemoteMethod('delete')) {
-        deletedStorable = await this.callRemoteMethod('delete', {throwIfMissing});
+        purgedStorable = (await constructor.getStore().purge(this, {throwIfMissing})) as T;
+      } else if (this.hasRemoteMethod('purge')) {
+        purgedStorable = await this.callRemoteMethod('purge', {throwIfMissing});
       } else {
         throw new Error(
-          `To be able to execute the delete() method, a storable component should be registered in a store or have an exposed delete() remote method (${this.describeComponent()})`
+          `To be able to execute the purge() method, a storable component should be registered in a store or have an exposed purge() remote method (${this.describeComponent()})`
         );
       }
 
-      if (deletedStorable === undefined) {
+      if (purgedStorable === undefined) {
         return undefined;
       }
 
-      await deletedStorable.afterDelete(nonComputedAttributeSelector);
-
-      deletedStorable.setIsDeletedMark(true);
-
-      // TODO: deletedStorable.detach();
+      purgedStorable.setIsDeletedMark(true);
 
-      return deletedStorable;
+      return purgedStorable;
     }
 
     /**
      * Finds some storable component instances matching the specified query in the store, and load all or some of their attributes (and possibly, load some of their referenced components as well).
      *
-     * > This method uses the [`load()`](https://layrjs.com/docs/v1/reference/storable#load-instance-method) method under the hood to load the components' attributes. So if you want to expose the [`find()`](https://layrjs.com/docs/v1/reference/storable#find-class-method) method to the frontend, you will typically have to expose the [`load()`](https://layrjs.com/docs/v1/reference/storable#load-instance-method) method as well.
+     * When the storable component is registered in a store, the attributes of the found components are fetched by the same query that finds them, and then, the [computed attributes](https://layrjs.com/docs/v1/reference/storable#loader-decorator) and the referenced components are loaded as with the [`load()`](https://layrjs.com/docs/v1/reference/storable#load-instance-method) method. In this case, the [`beforeLoad()`](https://layrjs.com/docs/v1/reference/storable#before-load-instance-method) and [`afterLoad()`](https://layrjs.com/docs/v1/reference/storable#after-load-instance-method) hooks of the found components are both called once the query has been executed.
+     *
+     * > When the storable component is accessed through a backend, this method uses the [`load()`](https://layrjs.com/docs/v1/reference/storable#load-instance-method) method under the hood to load the components' attributes. So if you want to expose the [`find()`](https://layrjs.com/docs/v1/reference/storable#find-class-method) method to the frontend, you will typically have to expose the [`load()`](https://layrjs.com/docs/v1/reference/storable#load-instance-method) method as well.
      *
      * @param [query] A [`Query`](https://layrjs.com/docs/v1/reference/query) object specifying the criteria to be used when selecting the components from the store (default: `{}`, which means that any component can be selected).
      * @param [attributeSelector] An [`AttributeSelector`](https://layrjs.com/docs/v1/reference/attribute-selector) specifying the attributes to be loaded (default: `true`, which means that all the attributes will be loaded).
-     * @param [options.sort] A plain object specifying how the found components should be sorted (default: `undefined`). The shape of the object should be `{[name]: direction}` where `name` is the name of an attribute, and `direction` is the string `'asc'` or `'desc'` representing the sort direction (ascending or descending).
+     * @param [options.sort] A plain object specifying how the found components should be sorted (default: `undefined`). The shape of the object should be `{[name]: direction}` where `name` is the name of an attribute (or the path of an attribute of a referenced component such as `'director.fullName'`), and `direction` is the string `'asc'` or `'desc'` representing the sort direction (ascending or descending). When the query contains the `$search` operator, you can use the special name `'$relevance'` with the `'desc'` direction to sort the found components by relevance.
      * @param [options.skip] A number specifying how many components should be skipped from the found components (default: `0`).
      * @param [options.limit] A number specifying the maximum number of components that should be returned (default: `undefined`).
+     * @param [options.after] A string representing a cursor returned by a previous call to the `find()` method. When this option is specified (even with an `undefined` value to get the first page), the components are paginated by using the values of the `sort` attributes rather than an offset, which is both faster and more consistent than the `skip` option when some components are being added to the store. In this case, the method returns an object of the shape `{items, nextCursor}` where `items` is an array of the found components and `nextCursor` is a cursor to get the next page (or `undefined` if there is no more pages). Note that the primary identifier attribute is always used as the last sort criterion to guarantee a stable order, and that only the attributes that cannot be undefined (i.e., the non-optional, non-encrypted attributes) can be used in the `sort` option since the components whose sort value is missing could not be positioned relative to a cursor.
      * @param [options.reload] A boolean specifying whether a component that has already been loaded should be loaded again from the store (default: `false`). Most of the time you will leave this option off to take advantage of the cache.
+     * @param [options.includeDeleted] A boolean specifying whether the [soft-deleted](https://layrjs.com/docs/v1/reference/storable#soft-deletable-decorator) components should be found as well (default: `false`).
      *
-     * @returns An array of [`StorableComponent`](https://layrjs.com/docs/v1/reference/storable#storable-component-class) instances.
+     * @returns An array of [`StorableComponent`](https://layrjs.com/docs/v1/reference/storable#storable-component-class) instances, or an object of the shape `{items, nextCursor}` when the `after` option is specified.
      *
      * @example
      * ```
@@ -1176,93 +2027,572 @@ export function Storable<T extends Constructor<typeof Component>>(Base: T) {
      * // Find the top 30 movies
      * await Movie.find({}, true, {sort: {rating: 'desc'}, limit: 30});
      *
+     * // Find the movies matching some words (requires a text index),
+     * // the most relevant ones first
+     * await Movie.find({$search: 'dream heist'}, true, {sort: {$relevance: 'desc'}});
+     *
      * // Find the next top 30 movies
      * await Movie.find({}, true, {sort: {rating: 'desc'}, skip: 30, limit: 30});
+     *
+     * // Find the top 30 movies by using a cursor
+     * const {items, nextCursor} = await Movie.find({}, true, {
+     *   sort: {rating: 'desc'},
+     *   limit: 30,
+     *   after: undefined
+     * });
+     *
+     * // Find the next top 30 movies by using the cursor returned by the previous call
+     * await Movie.find({}, true, {sort: {rating: 'desc'}, limit: 30, after: nextCursor});
      * ```
      *
      * @category Storage Operations
      */
+    static async find<T extends typeof StorableComponent>(
+      this: T,
+      query: Query | undefined,
+      attributeSelector: AttributeSelector | undefined,
+      options: {
+        sort?: SortDescriptor;
+        skip?: number;
+        limit?: number;
+        after: string | undefined;
+        reload?: boolean;
+        includeDeleted?: boolean;
+      }
+    ): Promise<{items: InstanceType<T>[]; nextCursor: string | undefined}>;
+    static async find<T extends typeof StorableComponent>(
+      this: T,
+      query?: Query,
+      attributeSelector?: AttributeSelector,
+      options?: {
+        sort?: SortDescriptor;
+        skip?: number;
+        limit?: number;
+        reload?: boolean;
+        includeDeleted?: boolean;
+      }
+    ): Promise<InstanceType<T>[]>;
     @method() static async find<T extends typeof StorableComponent>(
       this: T,
       query: Query = {},
       attributeSelector: AttributeSelector = true,
-      options: {sort?: SortDescriptor; skip?: number; limit?: number; reload?: boolean} = {}
+      options: {
+        sort?: SortDescriptor;
+        skip?: number;
+        limit?: number;
+        after?: string;
+        reload?: boolean;
+        includeDeleted?: boolean;
+      } = {}
     ) {
-      const {sort, skip, limit, reload = false} = options;
+      const {skip, limit, after, reload = false, includeDeleted = false} = options;
+      let {sort} = options;
+
+      const isPaginated = hasOwnProperty(options, 'after');
 
       query = await this.__callStorablePropertyFindersForQuery(query);
+
+      if (isPaginated && this.hasStore()) {
+        sort = this.__normalizePaginationSort(sort);
+
+        if (after !== undefined) {
+          query = {$and: [query, this.__buildPaginationQuery(after, sort)]};
+        }
+      }
+
       query = this.__normalizeQuery(query, {loose: !this.hasStore()});
 
       let foundStorables: InstanceType<T>[];
 
       if (this.hasStore()) {
+        // The stored attributes of the found components are fetched by the same query
+        // (the computed attributes and the referenced components being loaded afterwards)
+        const storedAttributeSelector = this.prototype.__getNonComputedAttributeSelector(
+          this.prototype.resolveAttributeSelector(
+            isPaginated
+              ? mergeAttributeSelectors(
+                  attributeSelector,
+                  createAttributeSelectorFromNames(Object.keys(sort!))
+                )
+              : attributeSelector
+          )
+        );
+
         foundStorables = (await this.getStore().find(this, query, {
+          attributeSelector: storedAttributeSelector,
           sort,
           skip,
-          limit
+          limit,
+          includeDeleted
         })) as InstanceType<T>[];
+
+        for (const foundStorable of foundStorables) {
+          await foundStorable.beforeLoad(storedAttributeSelector);
+          await foundStorable.afterLoad(storedAttributeSelector);
+        }
       } else if (this.hasRemoteMethod('find')) {
-        foundStorables = await this.callRemoteMethod('find', query, {}, {sort, skip, limit});
+        if (isPaginated) {
+          const {items, nextCursor} = await this.callRemoteMethod(
+            'find',
+            query,
+            {},
+            {sort, skip, limit, after, includeDeleted}
+          );
+
+          const loadedStorables = await this.__loadFoundStorables(items, attributeSelector, {
+            reload,
+            includeDeleted
+          });
+
+          return {items: loadedStorables, nextCursor};
+        }
+
+        foundStorables = await this.callRemoteMethod(
+          'find',
+          query,
+          {},
+          {sort, skip, limit, includeDeleted}
+        );
+      } else {
+        throw new Error(
+          `To be able to execute the find() method, a storable component should be registered in a store or have an exposed find() remote method (${this.describeComponent()})`
+        );
+      }
+
+      if (isPaginated) {
+        const paginationAttributeSelector = createAttributeSelectorFromNames(Object.keys(sort!));
+
+        const loadedStorables = await this.__loadFoundStorables(
+          foundStorables,
+          mergeAttributeSelectors(attributeSelector, paginationAttributeSelector),
+          {reload, includeDeleted}
+        );
+
+        const lastStorable = loadedStorables[loadedStorables.length - 1];
+
+        const nextCursor =
+          lastStorable !== undefined && limit !== undefined && loadedStorables.length >= limit
+            ? this.__buildPaginationCursor(lastStorable, sort!)
+            : undefined;
+
+        return {items: loadedStorables, nextCursor};
+      }
+
+      return await this.__loadFoundStorables(foundStorables, attributeSelector, {
+        reload,
+        includeDeleted
+      });
+    }
+
+    static async __loadFoundStorables<T extends typeof StorableComponent>(
+      this: T,
+      foundStorables: InstanceType<T>[],
+      attributeSelector: AttributeSelector,
+      {reload, includeDeleted}: {reload: boolean; includeDeleted: boolean}
+    ) {
+      if (this.hasStore()) {
+        // The stored attributes have already been loaded by the query that found the components,
+        // and the referenced components are loaded for all the found components at once
+        await this.__loadComputedAttributesAndReferencesOfMany(
+          foundStorables,
+          foundStorables.map(() => attributeSelector),
+          foundStorables.map((foundStorable) =>
+            foundStorable.__resolveAttributeSelectorToLoad(attributeSelector, {reload})
+          ),
+          {reload, throwIfMissing: true, _callerMethodName: 'find'}
+        );
+
+        return foundStorables;
+      }
+
+      return await Promise.all(
+        foundStorables.map((foundStorable) =>
+          foundStorable.load(attributeSelector, {reload, includeDeleted, _callerMethodName: 'find'})
+        )
+      );
+    }
+
+    /**
+     * Iterates over the storable component instances matching the specified query in the store. The components are fetched batch by batch (by using the cursor-based pagination of the [`find()`](https://layrjs.com/docs/v1/reference/storable#find-class-method) method), so any number of components can be processed without loading all of them in memory.
+     *
+     * @param [query] A [`Query`](https://layrjs.com/docs/v1/reference/query) object specifying the criteria to be used when selecting the components from the store (default: `{}`, which means that any component can be selected).
+     * @param [attributeSelector] An [`AttributeSelector`](https://layrjs.com/docs/v1/reference/attribute-selector) specifying the attributes to be loaded (default: `true`, which means that all the attributes will be loaded).
+     * @param [options.sort] A plain object specifying how the components should be sorted (default: `undefined`, which means that the components are sorted by their primary identifier).
+     * @param [options.batchSize] A number specifying how many components should be fetched at once (default: `100`).
+     * @param [options.reload] A boolean specifying whether a component that has already been loaded should be loaded again from the store (default: `false`).
+     * @param [options.includeDeleted] A boolean specifying whether the [soft-deleted](https://layrjs.com/docs/v1/reference/storable#soft-deletable-decorator) components should be iterated over as well (default: `false`).
+     *
+     * @returns An async iterator of [`StorableComponent`](https://layrjs.com/docs/v1/reference/storable#storable-component-class) instances.
+     *
+     * @example
+     * ```
+     * for await (const movie of Movie.iterate({country: 'Japan'}, {title: true})) {
+     *   console.log(movie.title);
+     * }
+     * ```
+     *
+     * @category Storage Operations
+     */
+    static async *iterate<T extends typeof StorableComponent>(
+      this: T,
+      query: Query = {},
+      attributeSelector: AttributeSelector = true,
+      options: {
+        sort?: SortDescriptor;
+        batchSize?: number;
+        reload?: boolean;
+        includeDeleted?: boolean;
+      } = {}
+    ): AsyncGenerator<InstanceType<T>> {
+      const {sort, batchSize = 100, reload = false, includeDeleted = false} = options;
+
+      let after: string | undefined;
+
+      do {
+        const {items, nextCursor}: {items: InstanceType<T>[]; nextCursor: string | undefined} =
+          await this.find(query, attributeSelector, {
+            sort,
+            limit: batchSize,
+            after,
+            reload,
+            includeDeleted
+          });
+
+        for (const item of items) {
+          yield item;
+        }
+
+        after = nextCursor;
+      } while (after !== undefined);
+    }
+
+    static __normalizePaginationSort(sort: SortDescriptor = {}) {
+      const primaryIdentifierAttributeName = this.prototype
+        .getPrimaryIdentifierAttribute()
+        .getName();
+
+      const normalizedSort: SortDescriptor = {};
+
+      for (const [name, direction] of Object.entries(sort)) {
+        if (name === '$relevance') {
+          throw new Error(
+            `The '$relevance' sort cannot be used in combination with the 'after' option (${this.describeComponent()})`
+          );
+        }
+
+        if (name === primaryIdentifierAttributeName) {
+          continue;
+        }
+
+        const attribute = this.prototype.hasStorableAttribute(name)
+          ? this.prototype.getStorableAttribute(name)
+          : undefined;
+
+        // The encrypted values are not ordered like the values they represent,
+        // and the cursors must not reveal them
+        if (
+          attribute === undefined ||
+          attribute.getValueType().isOptional() ||
+          attribute.isEncrypted()
+        ) {
+          throw new Error(
+            `The 'after' option can only be used with a sort on some non-optional and non-encrypted attributes (sort: '${name}', ${this.describeComponent()})`
+          );
+        }
+
+        normalizedSort[name] = direction.toLowerCase() === 'desc' ? 'desc' : 'asc';
+      }
+
+      normalizedSort[primaryIdentifierAttributeName] =
+        sort[primaryIdentifierAttributeName]?.toLowerCase() === 'desc' ? 'desc' : 'asc';
+
+      return normalizedSort;
+    }
+
+    // The cursors are opaque strings (the base64 encoding of the serialized sort values)
+    // so the clients don't rely on their content
+    static __buildPaginationCursor(storable: StorableComponent, sort: SortDescriptor) {
+      const values = Object.keys(sort).map((name) => storable.getAttribute(name).getValue());
+
+      return Buffer.from(JSON.stringify(serialize(values) as unknown[])).toString('base64');
+    }
+
+    // For the sort {a: 'asc', b: 'desc', id: 'asc'} and the cursor values [1, 2, 'abc'], returns:
+    // {$or: [{a: {$greaterThan: 1}}, {a: 1, b: {$lessThan: 2}}, {a: 1, b: 2, id: {$greaterThan: 'abc'}}]}
+    static __buildPaginationQuery(cursor: string, sort: SortDescriptor) {
+      const entries = Object.entries(sort);
+
+      let values: unknown[] | undefined;
+
+      try {
+        values = deserialize(JSON.parse(Buffer.from(cursor, 'base64').toString())) as unknown[];
+      } catch {
+        // The cursor is invalid
+      }
+
+      if (!Array.isArray(values) || values.length !== entries.length) {
+        throw Object.assign(
+          new Error(`The specified cursor is invalid (${this.describeComponent()})`),
+          {code: 'INVALID_CURSOR', expose: true}
+        );
+      }
+
+      const subqueries: Query[] = entries.map(([name, direction], index) => {
+        const subquery: Query = {};
+
+        for (let previousIndex = 0; previousIndex < index; previousIndex++) {
+          subquery[entries[previousIndex][0]] = values![previousIndex];
+        }
+
+        subquery[name] = {[direction === 'desc' ? '$lessThan' : '$greaterThan']: values![index]};
+
+        return subquery;
+      });
+
+      return {$or: subqueries};
+    }
+
+    /**
+     * Counts the number of storable component instances matching the specified query in the store.
+     *
+     * @param [query] A [`Query`](https://layrjs.com/docs/v1/reference/query) object specifying the criteria to be used when selecting the components from the store (default: `{}`, which means that any component can be selected, and therefore the total number of components available in the store will be returned).
+     * @param [options.includeDeleted] A boolean specifying whether the [soft-deleted](https://layrjs.com/docs/v1/reference/storable#soft-deletable-decorator) components should be counted as well (default: `false`).
+     *
+     * @returns A number.
+     *
+     * @example
+     * ```
+     * // Count the total number of movies
+     * await Movie.count();
+     *
+     * // Count the number of Japanese movies
+     * await Movie.count({country: 'Japan'});
+     *
+     * // Count the number of Japanese drama movies
+     * await Movie.count({country: 'Japan', genre: 'drama'});
+     *
+     * // Count the number of Tarantino's movies
+     * const tarantino = await Director.get({slug: 'quentin-tarantino'})
+     * await Movie.count({director: tarantino});
+     *
+     * // Count the number of movies released after 2010
+     * await Movie.count({year: {$greaterThan: 2010}});
+     * ```
+     *
+     * @category Storage Operations
+     */
+    @method() static async count(query: Query = {}, options: {includeDeleted?: boolean} = {}) {
+      const {includeDeleted = false} = options;
+
+      query = await this.__callStorablePropertyFindersForQuery(query);
+      query = this.__normalizeQuery(query, {loose: !this.hasStore()});
+
+      let storablesCount: number;
+
+      if (this.hasStore()) {
+        storablesCount = await this.getStore().count(this, query, {includeDeleted});
+      } else if (this.hasRemoteMethod('count')) {
+        storablesCount = await this.callRemoteMethod('count', query, {includeDeleted});
+      } else {
+        throw new Error(
+          `To be able to execute the count() method, a storable component should be registered in a store or have an exposed count() remote method (${this.describeComponent()})`
+        );
+      }
+
+      return storablesCount;
+    }
+
+    /**
+     * Computes some aggregate values (such as a count, a sum, or an average) over the storable component instances matching the specified query in the store. The computation is performed by the store itself, so the matching components don't have to be loaded.
+     *
+     * @param query A [`Query`](https://layrjs.com/docs/v1/reference/query) object specifying the criteria to be used when selecting the components from the store.
+     * @param options.aggregates A plain object specifying the aggregate values to compute. The shape of the object should be `{[name]: {[operator]: attributeName}}` where `name` is the name of the property that will hold the computed value in the results, `operator` is one of `'$sum'`, `'$average'`, `'$min'`, or `'$max'`, and `attributeName` is the name of the attribute the operator should be applied to. Use `{$count: true}` to count the components.
+     * @param [options.groupBy] The name of an attribute (or an array of attribute names) specifying how the components should be grouped (default: `[]`, which means that all the matching components are aggregated into a single result).
+     * @param [options.sort] A plain object specifying how the results should be sorted (default: `undefined`). The shape of the object should be `{[name]: direction}` where `name` is the name of a `groupBy` attribute or an aggregate value, and `direction` is the string `'asc'` or `'desc'`.
+     * @param [options.skip] A number specifying how many results should be skipped (default: `0`).
+     * @param [options.limit] A number specifying the maximum number of results that should be returned (default: `undefined`).
+     * @param [options.includeDeleted] A boolean specifying whether the [soft-deleted](https://layrjs.com/docs/v1/reference/storable#soft-deletable-decorator) components should be aggregated as well (default: `false`).
+     *
+     * @returns An array of plain objects containing the `groupBy` attributes and the computed aggregate values.
+     *
+     * @example
+     * ```
+     * // Get the number of movies and their average rating
+     * await Movie.aggregate({}, {aggregates: {count: {$count: true}, rating: {$average: 'rating'}}});
+     * // => [{count: 120, rating: 7.1}]
+     *
+     * // Get the total revenue of the Japanese movies for each genre
+     * await Movie.aggregate({country: 'Japan'}, {
+     *   groupBy: 'genre',
+     *   aggregates: {total: {$sum: 'revenue'}}
+     * });
+     * // => [{genre: 'drama', total: 52000000}, {genre: 'action', total: 71000000}]
+     *
+     * // Get the 10 directors that made the best rated movies
+     * await Movie.aggregate({}, {
+     *   groupBy: 'director',
+     *   aggregates: {bestRating: {$max: 'rating'}},
+     *   sort: {bestRating: 'desc'},
+     *   limit: 10
+     * });
+     * ```
+     *
+     * @category Storage Operations
+     */
+    @method() static async aggregate(
+      query: Query,
+      options: {
+        aggregates: AggregateDescriptor;
+        groupBy?: string | string[];
+        sort?: SortDescriptor;
+        skip?: number;
+        limit?: number;
+        includeDeleted?: boolean;
+      }
+    ) {
+      const {aggregates, groupBy = [], sort, skip, limit, includeDeleted = false} = options;
+
+      query = await this.__callStorablePropertyFindersForQuery(query);
+      query = this.__normalizeQuery(query, {loose: !this.hasStore()});
+
+      const normalizedGroupBy = this.__normalizeAggregateGroupBy(groupBy);
+      const normalizedAggregates = this.__normalizeAggregates(aggregates, {
+        groupBy: normalizedGroupBy
+      });
+
+      let results: AggregateResult[];
+
+      if (this.hasStore()) {
+        results = await this.getStore().aggregate(this, query, {
+          aggregates: normalizedAggregates,
+          groupBy: normalizedGroupBy,
+          sort,
+          skip,
+          limit,
+          includeDeleted
+        });
+      } else if (this.hasRemoteMethod('aggregate')) {
+        results = await this.callRemoteMethod('aggregate', query, {
+          aggregates,
+          groupBy,
+          sort,
+          skip,
+          limit,
+          includeDeleted
+        });
       } else {
         throw new Error(
-          `To be able to execute the find() method, a storable component should be registered in a store or have an exposed find() remote method (${this.describeComponent()})`
+          `To be able to execute the aggregate() method, a storable component should be registered in a store or have an exposed aggregate() remote method (${this.describeComponent()})`
         );
       }
 
-      const loadedStorables = await Promise.all(
-        foundStorables.map((foundStorable) =>
-          foundStorable.load(attributeSelector, {reload, _callerMethodName: 'find'})
-        )
-      );
-
-      return loadedStorables;
+      return results;
     }
 
     /**
-     * Counts the number of storable component instances matching the specified query in the store.
+     * Watches the changes that are made in the store to the storable component instances matching the specified query, including the changes that are made by other processes.
      *
-     * @param [query] A [`Query`](https://layrjs.com/docs/v1/reference/query) object specifying the criteria to be used when selecting the components from the store (default: `{}`, which means that any component can be selected, and therefore the total number of components available in the store will be returned).
-     *
-     * @returns A number.
+     * The specified callback is called for each change with an object of the shape `{type, storable}` where `type` is a string representing the type of change (`'created'`, `'updated'`, or `'deleted'`) and `storable` is the [`StorableComponent`](https://layrjs.com/docs/v1/reference/storable#storable-component-class) instance that was changed. All the attributes of the component are loaded (for a `'deleted'` change, they are the attributes the component had before being deleted), and the changes to components that don't match the query are ignored. Note that a [`MongoDBStore`](https://layrjs.com/docs/v1/reference/mongodb-store#watching) cannot provide the attributes of the deleted components, so the `'deleted'` changes are only reported when there is no query and no tenant, and only the identifier attributes of the component are loaded. Also note that a [soft-deleted](https://layrjs.com/docs/v1/reference/storable#soft-deletable-decorator) component is reported as `'deleted'` (with all its attributes loaded) each time it is modified while it is soft-deleted.
      *
-     * @example
-     * ```
-     * // Count the total number of movies
-     * await Movie.count();
+     * Since a callback cannot be called through a remote method, this method can only be used in the backend with a storable component class that is registered in a store.
      *
-     * // Count the number of Japanese movies
-     * await Movie.count({country: 'Japan'});
+     * @param query A [`Query`](https://layrjs.com/docs/v1/reference/query) object specifying the criteria to be used when selecting the components to watch.
+     * @param callback A (possibly async) function to call for each change. If the function throws an error, the error is passed to the `error()` method of the store's `logger` (see the [`Store`'s constructor](https://layrjs.com/docs/v1/reference/store#constructor)), and the next changes are still reported.
      *
-     * // Count the number of Japanese drama movies
-     * await Movie.count({country: 'Japan', genre: 'drama'});
+     * @returns An async function to call to stop watching the changes.
      *
-     * // Count the number of Tarantino's movies
-     * const tarantino = await Director.get({slug: 'quentin-tarantino'})
-     * await Movie.count({director: tarantino});
+     * @example
+     * ```
+     * const stopWatching = await Movie.watch({country: 'Japan'}, ({type, storable}) => {
+     *   console.log(`The movie '${storable.id}' has been ${type}`);
+     * });
      *
-     * // Count the number of movies released after 2010
-     * await Movie.count({year: {$greaterThan: 2010}});
+     * // Later
+     * await stopWatching();
      * ```
      *
      * @category Storage Operations
      */
-    @method() static async count(query: Query = {}) {
+    static async watch<T extends typeof StorableComponent>(
+      this: T,
+      query: Query,
+      callback: WatchCallback<InstanceType<T>>
+    ): Promise<StopWatching> {
+      if (!this.hasStore()) {
+        throw new Error(
+          `To be able to execute the watch() method, a storable component should be registered in a store (${this.describeComponent()})`
+        );
+      }
+
       query = await this.__callStorablePropertyFindersForQuery(query);
-      query = this.__normalizeQuery(query, {loose: !this.hasStore()});
+      query = this.__normalizeQuery(query, {loose: false});
 
-      let storablesCount: number;
+      return await this.getStore().watch(this, query, callback as WatchCallback);
+    }
 
-      if (this.hasStore()) {
-        storablesCount = await this.getStore().count(this, query);
-      } else if (this.hasRemoteMethod('count')) {
-        storablesCount = await this.callRemoteMethod('count', query);
-      } else {
+    static __normalizeAggregateGroupBy(groupBy: string | string[]) {
+      const attributeNames = Array.isArray(groupBy) ? groupBy : [groupBy];
+
+      for (const attributeName of attributeNames) {
+        this.__assertIsAggregatableAttribute(attributeName);
+      }
+
+      return attributeNames;
+    }
+
+    static __normalizeAggregates(aggregates: AggregateDescriptor, {groupBy}: {groupBy: string[]}) {
+      if (!isPlainObject(aggregates) || Object.keys(aggregates).length === 0) {
         throw new Error(
-          `To be able to execute the count() method, a storable component should be registered in a store or have an exposed count() remote method (${this.describeComponent()})`
+          `The 'aggregates' option of the aggregate() method should be a non-empty plain object (${this.describeComponent()})`
         );
       }
 
-      return storablesCount;
+      const normalizedAggregates: NormalizedAggregateDescriptor = {};
+
+      for (const [name, aggregator] of Object.entries(aggregates)) {
+        if (groupBy.includes(name)) {
+          throw new Error(
+            `An aggregate value cannot have the same name as a 'groupBy' attribute (${this.describeComponent()}, name: '${name}')`
+          );
+        }
+
+        const entries = isPlainObject(aggregator) ? Object.entries(aggregator) : [];
+
+        if (entries.length !== 1 || !AGGREGATE_OPERATORS.includes(entries[0][0])) {
+          throw new Error(
+            `An aggregate value should be specified with a single operator among ${AGGREGATE_OPERATORS.map(
+              (operator) => `'${operator}'`
+            ).join(', ')} (${this.describeComponent()}, name: '${name}')`
+          );
+        }
+
+        const [operator, attributeName] = entries[0] as [AggregateOperator, string | true];
+
+        if (operator === '$count') {
+          normalizedAggregates[name] = {operator};
+          continue;
+        }
+
+        if (typeof attributeName !== 'string') {
+          throw new Error(
+            `The '${operator}' aggregate operator should be specified with an attribute name (${this.describeComponent()}, name: '${name}')`
+          );
+        }
+
+        this.__assertIsAggregatableAttribute(attributeName);
+
+        normalizedAggregates[name] = {operator, attributeName};
+      }
+
+      return normalizedAggregates;
+    }
+
+    static __assertIsAggregatableAttribute(attributeName: string) {
+      const attribute = this.prototype.getStorableAttribute(attributeName);
+
+      if (attribute.isComputed()) {
+        throw new Error(`Cannot aggregate over a computed attribute (${attribute.describe()})`);
+      }
     }
 
     static async __callStorablePropertyFindersForQuery(query: Query) {
@@ -1319,6 +2649,19 @@ export function Storable<T extends Constructor<typeof Component>>(Base: T) {
             continue;
           }
 
+          if (name === '$search') {
+            if (typeof subquery !== 'string') {
+              throw new Error(
+                `Expected a string as value of the operator '${name}', but received a value of type '${getTypeOf(
+                  subquery
+                )}'`
+              );
+            }
+
+            normalizedQuery[name] = subquery;
+            continue;
+          }
+
           if (name === '$not') {
             normalizedQuery[name] = normalizeQueryForComponent(subquery, component);
             continue;
@@ -1459,6 +2802,331 @@ export function Storable<T extends Constructor<typeof Component>>(Base: T) {
       return normalizeQueryForComponent(query, this.prototype);
     }
 
+    // === Soft deletion ===
+
+    static __isSoftDeletable: boolean | undefined;
+
+    /**
+     * Returns whether the storable component class is soft-deletable (see the [`@softDeletable()`](https://layrjs.com/docs/v1/reference/storable#soft-deletable-decorator) decorator).
+     *
+     * @returns A boolean.
+     *
+     * @category Soft Deletion
+     */
+    static isSoftDeletable() {
+      return this.__isSoftDeletable === true;
+    }
+
+    static __markAsSoftDeletable() {
+      Object.defineProperty(this, '__isSoftDeletable', {value: true, configurable: true});
+    }
+
+    // === Timestamps ===
+
+    static __hasTimestamps: boolean | undefined;
+
+    /**
+     * Returns whether the storable component class has some timestamp attributes (see the [`@timestamps()`](https://layrjs.com/docs/v1/reference/storable#timestamps-decorator) decorator).
+     *
+     * @returns A boolean.
+     *
+     * @category Timestamps
+     */
+    static hasTimestamps() {
+      return this.__hasTimestamps === true;
+    }
+
+    static __markAsHavingTimestamps() {
+      Object.defineProperty(this, '__hasTimestamps', {value: true, configurable: true});
+    }
+
+    // === History ===
+
+    static __hasHistory: boolean | undefined;
+
+    /**
+     * Returns whether the changes of the instances of the storable component class are recorded in the store (see the [`@history()`](https://layrjs.com/docs/v1/reference/storable#history-decorator) decorator).
+     *
+     * @returns A boolean.
+     *
+     * @category History
+     */
+    static hasHistory() {
+      return this.__hasHistory === true;
+    }
+
+    static __markAsHavingHistory() {
+      Object.defineProperty(this, '__hasHistory', {value: true, configurable: true});
+    }
+
+    /**
+     * Retrieves the changes of the current storable component instance that have been recorded in the store (see the [`@history()`](https://layrjs.com/docs/v1/reference/storable#history-decorator) decorator).
+     *
+     * @returns A promise resolving to an array of objects of the shape `{id, operation, changes, previousValues, savedAt, actor}` sorted in chronological order, where `operation` is a string (`'create'`, `'update'`, or `'delete'`), `changes` is an object holding the values of the saved attributes, `previousValues` is an object holding the values these attributes had before an update (or all the values of a deleted component), and `actor` is the string returned by the `actorResolver` option of the store (if any).
+     *
+     * @example
+     * ```
+     * const history = await movie.getHistory();
+     *
+     * history[0]; // => {id: 'ck41vli1z00013h5xx1esffyn', operation: 'create', changes: {title: 'Inception'}, savedAt: new Date('...'), actor: 'user1'}
+     * ```
+     *
+     * @category History
+     */
+    @method() async getHistory(): Promise<HistoryEntry[]> {
+      const constructor = this.constructor as typeof StorableComponent;
+
+      if (constructor.hasStore()) {
+        return await constructor.getStore().getHistory(this);
+      }
+
+      if (this.hasRemoteMethod('getHistory')) {
+        return await this.callRemoteMethod('getHistory');
+      }
+
+      throw new Error(
+        `To be able to execute the getHistory() method, a storable component should be registered in a store or have an exposed getHistory() remote method (${this.describeComponent()})`
+      );
+    }
+
+    /**
+     * Reverts the current storable component instance to the state it had after a change recorded in its [history](https://layrjs.com/docs/v1/reference/storable#get-history-instance-method), and saves it to the store.
+     *
+     * The attributes that have been changed since the specified change are set back to their previous values, except for the identifiers and the attributes that are managed by the store (i.e., the version, the timestamps, and the deletion date). Since the component is saved with the [`save()`](https://layrjs.com/docs/v1/reference/storable#save-instance-method) method, the reversion is recorded in the history as well.
+     *
+     * @param versionId The `id` of an entry returned by the [`getHistory()`](https://layrjs.com/docs/v1/reference/storable#get-history-instance-method) method.
+     *
+     * @returns The current [`StorableComponent`](https://layrjs.com/docs/v1/reference/storable#storable-component-class) instance.
+     *
+     * @example
+     * ```
+     * const [creation] = await movie.getHistory();
+     *
+     * await movie.revertTo(creation.id);
+     * ```
+     *
+     * @category History
+     */
+    @method() async revertTo<T extends StorableComponent>(this: T, versionId: string): Promise<T> {
+      const constructor = this.constructor as typeof StorableComponent;
+
+      if (!constructor.hasStore() && this.hasRemoteMethod('revertTo')) {
+        return await this.callRemoteMethod('revertTo', versionId);
+      }
+
+      const history = await this.getHistory();
+
+      const index = history.findIndex((entry) => entry.id === versionId);
+
+      if (index === -1) {
+        throw Object.assign(
+          new Error(
+            `Cannot revert a component to a version that is missing from its history (${this.describeComponent()}, version: '${versionId}')`
+          ),
+          {code: 'HISTORY_VERSION_IS_MISSING', expose: true}
+        );
+      }
+
+      const values: PlainObject = {};
+
+      for (const {changes} of history.slice(0, index + 1)) {
+        Object.assign(values, changes);
+      }
+
+      const attributeNames = new Set<string>();
+
+      for (const {changes} of history.slice(index + 1)) {
+        for (const name of Object.keys(changes)) {
+          if (this.__isRevertibleAttribute(name)) {
+            attributeNames.add(name);
+          }
+        }
+      }
+
+      // An attribute that was not set yet at the time of the version is set to `undefined`
+      for (const name of attributeNames) {
+        this.getAttribute(name).setValue(values[name]);
+      }
+
+      return await this.save(createAttributeSelectorFromNames(Array.from(attributeNames)));
+    }
+
+    __isRevertibleAttribute(name: string) {
+      if (!this.hasStorableAttribute(name)) {
+        return false; // The attribute may have been removed since it was recorded
+      }
+
+      const attribute = this.getStorableAttribute(name);
+
+      if (isIdentifierAttributeInstance(attribute) || attribute === this.getVersionAttribute()) {
+        return false;
+      }
+
+      const constructor = this.constructor as typeof StorableComponent;
+
+      if (constructor.hasTimestamps() && (name === 'createdAt' || name === 'updatedAt')) {
+        return false;
+      }
+
+      if (constructor.isSoftDeletable() && name === 'deletedAt') {
+        return false;
+      }
+
+      return true;
+    }
+
+    // === Relations ===
+
+    getStorableRelations(
+      options: {attributeSelector?: AttributeSelector; setAttributesOnly?: boolean} = {}
+    ) {
+      const {attributeSelector = true, setAttributesOnly = false} = options;
+
+      return this.getAttributes<StorableAttribute>({
+        filter: (attribute) => isStorableAttributeInstance(attribute) && attribute.isRelation(),
+        attributeSelector,
+        setAttributesOnly
+      });
+    }
+
+    __getRelatedStorable(attribute: StorableAttribute) {
+      const type = attribute.getValueType().getScalarType();
+
+      const component = isComponentValueTypeInstance(type)
+        ? type.getComponent(attribute)
+        : undefined;
+
+      if (
+        component === undefined ||
+        !isStorableClassOrInstance(component) ||
+        ensureStorableClass(component).isEmbedded()
+      ) {
+        throw new Error(
+          `The type of a relation should be a non-embedded storable component or an array of non-embedded storable components (${attribute.describe()})`
+        );
+      }
+
+      const relatedStorable = ensureStorableClass(component);
+      const {inverseOf, onDelete} = attribute.getRelation()!;
+
+      if (!relatedStorable.prototype.hasStorableAttribute(inverseOf)) {
+        throw new Error(
+          `The inverse attribute of a relation is missing (${attribute.describe()}, inverseOf: '${inverseOf}')`
+        );
+      }
+
+      if (onDelete === 'nullify') {
+        attribute._checkNullifiableInverseAttribute(
+          relatedStorable.prototype.getStorableAttribute(inverseOf),
+          {inverseOf}
+        );
+      }
+
+      return relatedStorable;
+    }
+
+    // Matches the current component by its primary identifier because the related storable
+    // component class may not belong to the same fork as the current component
+    __buildRelationQuery(attribute: StorableAttribute): Query {
+      const {inverseOf} = attribute.getRelation()!;
+      const primaryIdentifierAttribute = this.getPrimaryIdentifierAttribute();
+
+      return {
+        [inverseOf]: {[primaryIdentifierAttribute.getName()]: primaryIdentifierAttribute.getValue()}
+      };
+    }
+
+    async __loadRelation(attribute: StorableAttribute) {
+      const relatedStorable = this.__getRelatedStorable(attribute);
+
+      const query = this.__buildRelationQuery(attribute);
+
+      if (isArrayValueTypeInstance(attribute.getValueType())) {
+        return await relatedStorable.find(query, {});
+      }
+
+      const [relatedComponent] = await relatedStorable.find(query, {}, {limit: 1});
+
+      return relatedComponent;
+    }
+
+    __getRelationsWithDeletePolicy() {
+      return Array.from(this.getStorableRelations()).filter(
+        (attribute) => attribute.getRelation()!.onDelete !== undefined
+      );
+    }
+
+    __hasRelationDeletePolicies() {
+      return this.__getRelationsWithDeletePolicy().length > 0;
+    }
+
+    // Enforces the 'onDelete' policies of the relations before the current component is deleted
+    async __applyRelationDeletePolicies() {
+      const storable = this.constructor as typeof StorableComponent;
+
+      if (!storable.hasStore()) {
+        return; // The policies are applied by the backend
+      }
+
+      const relations = this.__getRelationsWithDeletePolicy();
+
+      // Check the 'restrict' policies first so nothing is modified when the deletion is refused
+      for (const attribute of relations) {
+        const {onDelete} = attribute.getRelation()!;
+
+        if (onDelete !== 'restrict') {
+          continue;
+        }
+
+        const relatedStorable = this.__getRelatedStorable(attribute);
+
+        if ((await relatedStorable.count(this.__buildRelationQuery(attribute))) > 0) {
+          throw Object.assign(
+            new Error(
+              `Cannot delete a component that is referenced by some other components (${this.describeComponent()}, relation: '${attribute.getName()}')`
+            ),
+            {code: 'COMPONENT_IS_REFERENCED', expose: true}
+          );
+        }
+      }
+
+      const primaryIdentifier = this.getPrimaryIdentifierAttribute().getValue();
+
+      for (const attribute of relations) {
+        const {inverseOf, onDelete} = attribute.getRelation()!;
+
+        if (onDelete === 'restrict') {
+          continue;
+        }
+
+        const relatedStorable = this.__getRelatedStorable(attribute);
+        const relatedComponents = await relatedStorable.find(this.__buildRelationQuery(attribute), {
+          [inverseOf]: {}
+        });
+
+        for (const relatedComponent of relatedComponents) {
+          if (onDelete === 'cascade') {
+            await relatedComponent.delete();
+            continue;
+          }
+
+          const inverseAttribute = relatedComponent.getStorableAttribute(inverseOf);
+          const value = inverseAttribute.getValue();
+
+          inverseAttribute.setValue(
+            Array.isArray(value)
+              ? value.filter(
+                  (item: StorableComponent) =>
+                    item.getPrimaryIdentifierAttribute().getValue() !== primaryIdentifier
+                )
+              : undefined
+          );
+
+          await relatedComponent.save({[inverseOf]: true});
+        }
+      }
+    }
+
     // === isDeleted Mark ===
 
     __isDeleted: boolean | undefined;
@@ -1648,6 +3316,7 @@ export function Storable<T extends Constructor<typeof Component>>(Base: T) {
      * This method is automatically called when the [`save()`](https://layrjs.com/docs/v1/reference/storable#save-instance-method) method is called, and there were some modified attributes to save. If no attributes were modified, this method is not called.
      *
      * @param attributeSelector An [`AttributeSelector`](https://layrjs.com/docs/v1/reference/attribute-selector) indicating the attributes that were saved.
+     * @param [options.wasCreated] A boolean indicating whether the component has been created in the store (as opposed to updated).
      *
      * @example
      * ```
@@ -1683,7 +3352,7 @@ export function Storable<T extends Constructor<typeof Component>>(Base: T) {
      *
      * @category Hooks
      */
-    async afterSave(attributeSelector: AttributeSelector) {
+    async afterSave(attributeSelector: AttributeSelector, _options: {wasCreated?: boolean} = {}) {
       await this.__callStorableAttributeHooks('afterSave', {
         attributeSelector,
         setAttributesOnly: true
@@ -1818,3 +3487,7 @@ export class StorableComponent extends Storable(Component) {}
 function describeCaller(callerMethodName: string | undefined) {
   return callerMethodName !== undefined ? ` (called from ${callerMethodName}())` : '';
 }
+
+function toBulkOperationError(error: Error & {code?: string}): BulkOperationError {
+  return {message: error.message, ...(error.code !== undefined && {code: error.code})};
+}
@@ -2,16 +2,37 @@ import {AttributeSelector} from '@layr/component';
 
 import type {StorableComponent} from './storable';
 import type {Query} from './query';
-import type {SortDescriptor} from './storable';
+import type {
+  SortDescriptor,
+  NormalizedAggregateDescriptor,
+  AggregateResult,
+  AtomicOperations,
+  WatchCallback,
+  StopWatching,
+  HistoryEntry
+} from './storable';
 
 export declare class StoreLike {
   getURL: () => string | undefined;
 
   load: (
     storable: StorableComponent,
-    options?: {attributeSelector?: AttributeSelector; throwIfMissing?: boolean}
+    options?: {
+      attributeSelector?: AttributeSelector;
+      throwIfMissing?: boolean;
+      includeDeleted?: boolean;
+    }
   ) => Promise<StorableComponent | undefined>;
 
+  loadMany: (
+    storables: StorableComponent[],
+    options?: {
+      attributeSelector?: AttributeSelector;
+      throwIfMissing?: boolean;
+      includeDeleted?: boolean;
+    }
+  ) => Promise<(StorableComponent | undefined)[]>;
+
   save: (
     storable: StorableComponent,
     options?: {
@@ -21,16 +42,80 @@ export declare class StoreLike {
     }
   ) => Promise<StorableComponent | undefined>;
 
+  upsert: (
+    storable: StorableComponent,
+    options: {
+      query: Query;
+      attributeSelector?: AttributeSelector;
+      updateAttributeSelector?: AttributeSelector;
+    }
+  ) => Promise<{storable: StorableComponent; wasCreated: boolean}>;
+
   delete: (
     storable: StorableComponent,
     options?: {throwIfMissing?: boolean}
   ) => Promise<StorableComponent | undefined>;
 
+  saveMany: (
+    operations: {storable: StorableComponent; attributeSelector?: AttributeSelector}[]
+  ) => Promise<(StorableComponent | Error)[]>;
+
+  deleteMany: (storables: StorableComponent[]) => Promise<(StorableComponent | Error)[]>;
+
+  restore: (storable: StorableComponent) => Promise<StorableComponent>;
+
+  purge: (
+    storable: StorableComponent,
+    options?: {throwIfMissing?: boolean}
+  ) => Promise<StorableComponent | undefined>;
+
+  atomicUpdate: (
+    storable: StorableComponent,
+    operations: AtomicOperations
+  ) => Promise<StorableComponent>;
+
+  getHistory: (storable: StorableComponent) => Promise<HistoryEntry[]>;
+
   find: (
     storable: typeof StorableComponent,
     query?: Query,
-    options?: {sort?: SortDescriptor; skip?: number; limit?: number}
+    options?: {
+      attributeSelector?: AttributeSelector;
+      sort?: SortDescriptor;
+      skip?: number;
+      limit?: number;
+      includeDeleted?: boolean;
+    }
   ) => Promise<StorableComponent[]>;
 
-  count: (storable: typeof StorableComponent, query?: Query) => Promise<number>;
+  count: (
+    storable: typeof StorableComponent,
+    query?: Query,
+    options?: {includeDeleted?: boolean}
+  ) => Promise<number>;
+
+  aggregate: (
+    storable: typeof StorableComponent,
+    query: Query,
+    options: {
+      aggregates: NormalizedAggregateDescriptor;
+      groupBy?: string[];
+      sort?: SortDescriptor;
+      skip?: number;
+      limit?: number;
+      includeDeleted?: boolean;
+    }
+  ) => Promise<AggregateResult[]>;
+
+  watch: (
+    storable: typeof StorableComponent,
+    query: Query,
+    callback: WatchCallback
+  ) => Promise<StopWatching>;
+
+  transaction: <Result>(func: () => Promise<Result>) => Promise<Result>;
+
+  getCurrentTransaction: () => unknown;
+
+  supportsTransactions: () => Promise<boolean>;
 }
@@ -0,0 +1,76 @@
+// A cache backend stores some strings (the serialized results of the read operations)
+// for a limited time, and can be backed by any key-value storage (e.g., Redis)
+export type CacheBackend = {
+  get: (key: string) => string | undefined | PromiseLike<string | undefined>;
+  set: (key: string, value: string, options: {ttl: number}) => void | PromiseLike<void>;
+};
+
+type LRUCacheEntry = {value: string; expiresAt: number};
+
+/**
+ * The default [cache backend](https://layrjs.com/docs/v1/reference/cached-store#cache-backends) of a [`CachedStore`](https://layrjs.com/docs/v1/reference/cached-store). The cached values are kept in memory, and when the maximum number of entries is reached, the least recently used entries are evicted.
+ */
+export class LRUCacheBackend implements CacheBackend {
+  _maxEntries: number;
+
+  // A `Map` iterates over its keys in insertion order, so the least recently used
+  // entries come first as long as an entry is reinserted each time it is used
+  _entries = new Map<string, LRUCacheEntry>();
+
+  /**
+   * Creates an [`LRUCacheBackend`](https://layrjs.com/docs/v1/reference/cached-store#lru-cache-backend-class).
+   *
+   * @param [options.maxEntries] The maximum number of entries that can be kept in the cache (default: `1000`).
+   *
+   * @example
+   * ```
+   * const store = new CachedStore(mongoDBStore, {
+   *   backend: new LRUCacheBackend({maxEntries: 10000})
+   * });
+   * ```
+   *
+   * @category Creation
+   */
+  constructor(options: {maxEntries?: number} = {}) {
+    const {maxEntries = 1000} = options;
+
+    if (!(Number.isInteger(maxEntries) && maxEntries > 0)) {
+      throw new Error(
+        `The value of the 'maxEntries' option is invalid (value: ${JSON.stringify(maxEntries)})`
+      );
+    }
+
+    this._maxEntries = maxEntries;
+  }
+
+  get(key: string) {
+    const entry = this._entries.get(key);
+
+    if (entry === undefined) {
+      return undefined;
+    }
+
+    this._entries.delete(key);
+
+    if (entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+
+    this._entries.set(key, entry);
+
+    return entry.value;
+  }
+
+  set(key: string, value: string, {ttl}: {ttl: number}) {
+    this._entries.delete(key);
+    this._entries.set(key, {value, expiresAt: Date.now() + ttl});
+
+    for (const key of this._entries.keys()) {
+      if (this._entries.size <= this._maxEntries) {
+        break;
+      }
+
+      this._entries.delete(key);
+    }
+  }
+}
@@ -1,7 +1,12 @@
 import {AttributeSelector, iterateOverAttributeSelector} from '@layr/component';
 import {PlainObject, isPlainObject, deleteUndefinedProperties} from 'core-helpers';
+import get from 'lodash/get';
+import set from 'lodash/set';
+import unset from 'lodash/unset';
+import isEqual from 'lodash/isEqual';
 
 import type {Path} from './path';
+import type {DocumentOperationResult} from './store';
 
 export type Document = PlainObject;
 
@@ -9,7 +14,15 @@ export type AttributeValue = undefined | null | boolean | number | string | Date
 
 export type Projection = {[path: string]: 1};
 
-export type DocumentPatch = {$set?: {[path: string]: any}; $unset?: {[path: string]: 1}};
+// The '$inc' operator adds a number to a value (a missing value being considered as 0), and
+// the '$push' and '$pull' operators append or remove some items to or from an array value
+export type DocumentPatch = {
+  $set?: {[path: string]: any};
+  $unset?: {[path: string]: 1};
+  $inc?: {[path: string]: number};
+  $push?: {[path: string]: any[]};
+  $pull?: {[path: string]: any[]};
+};
 
 // {a: true, b: {c: true}} => {__component: 1, a: 1, "b.__component": 1, "b.c": 1}
 export function buildProjection(attributeSelector: AttributeSelector) {
@@ -82,3 +95,66 @@ export function buildDocumentPatch(document: Document) {
 
   return documentPatch;
 }
+
+export function applyDocumentPatch(document: Document, documentPatch: DocumentPatch) {
+  const {$set, $unset, $inc, $push, $pull} = documentPatch;
+
+  if ($set !== undefined) {
+    for (const [path, value] of Object.entries($set)) {
+      set(document, path, value);
+    }
+  }
+
+  if ($unset !== undefined) {
+    for (const [path, value] of Object.entries($unset)) {
+      if (value) {
+        unset(document, path);
+      }
+    }
+  }
+
+  if ($inc !== undefined) {
+    for (const [path, value] of Object.entries($inc)) {
+      set(document, path, (get(document, path) ?? 0) + value);
+    }
+  }
+
+  if ($push !== undefined) {
+    for (const [path, items] of Object.entries($push)) {
+      set(document, path, [...(get(document, path) ?? []), ...items]);
+    }
+  }
+
+  if ($pull !== undefined) {
+    for (const [path, items] of Object.entries($pull)) {
+      const values = get(document, path);
+
+      if (Array.isArray(values)) {
+        set(
+          document,
+          path,
+          values.filter((value) => !items.some((item) => isEqual(item, value)))
+        );
+      }
+    }
+  }
+}
+
+// Runs some document operations one after another, and collects the errors
+// as results so that a failing operation doesn't prevent the next ones
+export async function runDocumentOperations<Item>(
+  items: Item[],
+  operation: (item: Item) => Promise<boolean>
+) {
+  const results: DocumentOperationResult[] = [];
+
+  for (const item of items) {
+    try {
+      results.push(await operation(item));
+    } catch (error) {
+      results.push(error);
+    }
+  }
+
+  return results;
+}
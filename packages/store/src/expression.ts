@@ -1,3 +1,4 @@
+import type {GeoPoint} from '@layr/component';
 import type {Operator} from '@layr/storable';
 
 import type {AttributeValue} from './document';
@@ -5,4 +6,47 @@ import type {Path} from './path';
 
 export type Expression = [Path, Operator, Operand];
 
-export type Operand = AttributeValue | Expression[] | Expression[][];
+export type Operand =
+  | AttributeValue
+  | Expression[]
+  | Expression[][]
+  | TextSearchOperand
+  | GeoNearOperand
+  | GeoPolygonOperand
+  | LookupOperand;
+
+export type TextSearchOperand = {text: string; paths: Path[]};
+
+export type GeoNearOperand = {point: GeoPoint; maxDistance?: number};
+
+export type GeoPolygonOperand = GeoPoint['coordinates'][];
+
+// Specifies how to find the document referenced by a component reference
+// (a plain object such as `{__component: 'Director', id: 'abc123'}`)
+export type DocumentLookup = {
+  collectionName: string;
+  identifierName: string; // The name of the identifier in the component reference
+  identifierPath: Path; // The path of the identifier in the referenced document
+};
+
+// The '$lookup' operator matches a component reference when the referenced document
+// matches the specified expressions
+export type LookupOperand = DocumentLookup & {expressions: Expression[]};
+
+export function expressionsContainLookups(expressions: Expression[]): boolean {
+  return expressions.some(([, operator, operand]) => {
+    if (operator === '$lookup') {
+      return true;
+    }
+
+    if (operator === '$some' || operator === '$every' || operator === '$not') {
+      return expressionsContainLookups(operand as Expression[]);
+    }
+
+    if (operator === '$and' || operator === '$or' || operator === '$nor') {
+      return (operand as Expression[][]).some(expressionsContainLookups);
+    }
+
+    return false;
+  });
+}
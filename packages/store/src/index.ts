@@ -1,3 +1,5 @@
+export * from './cache-backend';
+export * from './cached-store';
 export * from './document';
 export * from './expression';
 export * from './path';
@@ -1,11 +1,19 @@
-import {Component, EmbeddedComponent, provide} from '@layr/component';
+import {Component, EmbeddedComponent, provide, GeoPoint} from '@layr/component';
 import {Storable, primaryIdentifier, secondaryIdentifier, attribute, index} from '@layr/storable';
 
-import {Store} from './store';
+import {Store, TransactionParams} from './store';
 import {isStoreInstance} from './utilities';
 
 describe('Store', () => {
   class MockStore extends Store {
+    async startTransaction() {
+      return {};
+    }
+
+    async commitTransaction(_params: TransactionParams) {}
+
+    async abortTransaction(_params: TransactionParams) {}
+
     async createDocument() {
       return false;
     }
@@ -22,6 +30,22 @@ describe('Store', () => {
       return false;
     }
 
+    async upsertDocument() {
+      return {document: {}, wasCreated: false};
+    }
+
+    async createDocuments() {
+      return [];
+    }
+
+    async updateDocuments() {
+      return [];
+    }
+
+    async deleteDocuments() {
+      return [];
+    }
+
     async findDocuments() {
       return [];
     }
@@ -30,6 +54,18 @@ describe('Store', () => {
       return 0;
     }
 
+    async explainDocuments() {
+      return {backendQuery: undefined, indexName: undefined};
+    }
+
+    async aggregateDocuments() {
+      return [];
+    }
+
+    async watchDocuments() {
+      return async () => {};
+    }
+
     async migrateCollection() {
       return {
         name: 'Component',
@@ -44,6 +80,7 @@ describe('Store', () => {
 
     expect(isStoreInstance(store)).toBe(true);
 
+    // @ts-expect-error
     expect(() => new MockStore({unknown: true})).toThrow(
       "Did not expect the option 'unknown' to exist"
     );
@@ -167,6 +204,53 @@ describe('Store', () => {
     expect(Array.from(store.getStorables())).toEqual([User, Movie]);
   });
 
+  test('transaction()', async () => {
+    const operations: string[] = [];
+
+    const store = new MockStore();
+
+    store.startTransaction = async function () {
+      const transaction = {id: operations.length};
+      operations.push(`start ${transaction.id}`);
+      return transaction;
+    };
+
+    store.commitTransaction = async function ({transaction}: TransactionParams) {
+      operations.push(`commit ${(transaction as {id: number}).id}`);
+    };
+
+    store.abortTransaction = async function ({transaction}: TransactionParams) {
+      operations.push(`abort ${(transaction as {id: number}).id}`);
+    };
+
+    expect(store.getCurrentTransaction()).toBeUndefined();
+
+    const result = await store.transaction(async () => {
+      const transaction = store.getCurrentTransaction();
+
+      expect(transaction).toStrictEqual({id: 0});
+
+      // Nested transactions are executed as part of the outer transaction
+      await store.transaction(async () => {
+        expect(store.getCurrentTransaction()).toBe(transaction);
+      });
+
+      return 'result';
+    });
+
+    expect(result).toBe('result');
+    expect(operations).toStrictEqual(['start 0', 'commit 0']);
+    expect(store.getCurrentTransaction()).toBeUndefined();
+
+    await expect(
+      store.transaction(async () => {
+        throw new Error('Something went wrong');
+      })
+    ).rejects.toThrow('Something went wrong');
+
+    expect(operations).toStrictEqual(['start 0', 'commit 0', 'start 2', 'abort 2']);
+  });
+
   test('getCollectionSchema()', async () => {
     class Person extends Storable(Component) {
       @primaryIdentifier() id!: string;
@@ -195,10 +279,18 @@ describe('Store', () => {
 
       @index({direction: 'desc'}) @attribute('number') year!: number;
 
-      @attribute('string') summary!: string;
+      @index({isText: true}) @attribute('string') summary!: string;
 
       @index() @attribute('string[]') genres!: string[];
 
+      @index() @attribute('geoPoint?') location?: GeoPoint;
+
+      @index({isUnique: true, isCaseInsensitive: true, partialFilter: {year: {$greaterThan: 2000}}})
+      @attribute('string')
+      code!: string;
+
+      @index({expireAfterSeconds: 3600}) @attribute('Date?') releasedAt?: Date;
+
       @attribute('Person') director!: Person;
 
       @attribute('Person[]') actors!: Person[];
@@ -214,31 +306,119 @@ describe('Store', () => {
 
     expect(schema).toStrictEqual({
       indexes: [
-        {attributes: {id: 'asc'}, isPrimary: true, isUnique: true},
-        {attributes: {slug: 'asc'}, isPrimary: false, isUnique: true},
+        {
+          attributes: {id: 'asc'},
+          isPrimary: true,
+          isUnique: true,
+          isText: false,
+          isGeospatial: false,
+          isCaseInsensitive: false
+        },
+        {
+          attributes: {slug: 'asc'},
+          isPrimary: false,
+          isUnique: true,
+          isText: false,
+          isGeospatial: false,
+          isCaseInsensitive: false
+        },
         {
           attributes: {'director.id': 'asc'},
           isPrimary: false,
-          isUnique: false
+          isUnique: false,
+          isText: false,
+          isGeospatial: false,
+          isCaseInsensitive: false
         },
         {
           attributes: {'actors.id': 'asc'},
           isPrimary: false,
-          isUnique: false
+          isUnique: false,
+          isText: false,
+          isGeospatial: false,
+          isCaseInsensitive: false
+        },
+        {
+          attributes: {'details.duration': 'asc'},
+          isPrimary: false,
+          isUnique: false,
+          isText: false,
+          isGeospatial: false,
+          isCaseInsensitive: false
+        },
+        {
+          attributes: {title: 'asc'},
+          isPrimary: false,
+          isUnique: true,
+          isText: false,
+          isGeospatial: false,
+          isCaseInsensitive: false
+        },
+        {
+          attributes: {year: 'desc'},
+          isPrimary: false,
+          isUnique: false,
+          isText: false,
+          isGeospatial: false,
+          isCaseInsensitive: false
+        },
+        {
+          attributes: {summary: 'asc'},
+          isPrimary: false,
+          isUnique: false,
+          isText: true,
+          isGeospatial: false,
+          isCaseInsensitive: false
+        },
+        {
+          attributes: {genres: 'asc'},
+          isPrimary: false,
+          isUnique: false,
+          isText: false,
+          isGeospatial: false,
+          isCaseInsensitive: false
+        },
+        {
+          attributes: {location: 'asc'},
+          isPrimary: false,
+          isUnique: false,
+          isText: false,
+          isGeospatial: true,
+          isCaseInsensitive: false
+        },
+        {
+          attributes: {code: 'asc'},
+          isPrimary: false,
+          isUnique: true,
+          isText: false,
+          isGeospatial: false,
+          isCaseInsensitive: true,
+          partialFilter: [['year', '$greaterThan', 2000]]
+        },
+        {
+          attributes: {releasedAt: 'asc'},
+          isPrimary: false,
+          isUnique: false,
+          isText: false,
+          isGeospatial: false,
+          isCaseInsensitive: false,
+          expireAfterSeconds: 3600
         },
-        {attributes: {'details.duration': 'asc'}, isPrimary: false, isUnique: false},
-        {attributes: {title: 'asc'}, isPrimary: false, isUnique: true},
-        {attributes: {year: 'desc'}, isPrimary: false, isUnique: false},
-        {attributes: {genres: 'asc'}, isPrimary: false, isUnique: false},
         {
           attributes: {'director.id': 'asc', 'title': 'asc'},
           isPrimary: false,
-          isUnique: false
+          isUnique: false,
+          isText: false,
+          isGeospatial: false,
+          isCaseInsensitive: false
         },
         {
           attributes: {year: 'desc', title: 'asc'},
           isPrimary: false,
-          isUnique: false
+          isUnique: false,
+          isText: false,
+          isGeospatial: false,
+          isCaseInsensitive: false
         }
       ]
     });
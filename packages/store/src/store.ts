@@ -1,3 +1,6 @@
+import {AsyncLocalStorage} from 'async_hooks';
+import {performance} from 'perf_hooks';
+import {createCipheriv, createDecipheriv, createHmac, randomBytes} from 'crypto';
 import {
   Component,
   deserialize,
@@ -8,34 +11,59 @@ import {
   getComponentNameFromComponentClassType,
   getComponentNameFromComponentInstanceType,
   NormalizedIdentifierDescriptor,
+  IdentifierValue,
   AttributeSelector,
   createAttributeSelectorFromNames,
   pickFromAttributeSelector,
   mergeAttributeSelectors,
   isIdentifierAttributeInstance,
   isPrimaryIdentifierAttributeInstance,
-  isComponentValueTypeInstance
+  isComponentValueTypeInstance,
+  isArrayValueTypeInstance,
+  isNumberValueTypeInstance,
+  Attribute,
+  ValueType
 } from '@layr/component';
 import {
   StorableComponent,
+  StorableAttribute,
+  isStorableAttributeInstance,
   isStorableClass,
   isStorableInstance,
+  isStorableClassOrInstance,
   assertIsStorableClass,
+  ensureStorableClass,
   Query,
   SortDescriptor,
   SortDirection,
+  AggregateOperator,
+  NormalizedAggregateDescriptor,
+  AggregateResult,
+  AtomicOperations,
   Operator,
+  WatchEventType,
+  WatchCallback,
+  StopWatching,
+  HistoryOperation,
+  HistoryEntry,
   looksLikeOperator,
   normalizeOperatorForValue
 } from '@layr/storable';
 import {
+  hasOwnProperty,
   isPlainObject,
+  getTypeOf,
   deleteUndefinedProperties,
   assertNoUnknownOptions,
-  PromiseLikeValue
+  PromiseLikeValue,
+  PlainObject
 } from 'core-helpers';
 import {serialize as simpleSerialize, deserialize as simpleDeserialize} from 'simple-serialization';
 import mapKeys from 'lodash/mapKeys';
+import mapValues from 'lodash/mapValues';
+import cloneDeep from 'lodash/cloneDeep';
+import omit from 'lodash/omit';
+import isEqual from 'lodash/isEqual';
 
 import {
   Document,
@@ -45,7 +73,13 @@ import {
   DocumentPatch,
   buildDocumentPatch
 } from './document';
-import type {Expression} from './expression';
+import {
+  Expression,
+  GeoNearOperand,
+  DocumentLookup,
+  LookupOperand,
+  expressionsContainLookups
+} from './expression';
 import type {Path} from './path';
 import {isStoreInstance} from './utilities';
 
@@ -55,28 +89,81 @@ export type CreateDocumentParams = {
   document: Document;
 };
 
+// When specified, `expressions` restricts the documents that can be reached through
+// their identifier (e.g., to the documents of the current tenant), and a document
+// that doesn't match the expressions should be considered as missing
 export type ReadDocumentParams = {
   collectionName: string;
   identifierDescriptor: NormalizedIdentifierDescriptor;
   projection?: Projection;
+  expressions?: Expression[];
 };
 
 export type UpdateDocumentParams = {
   collectionName: string;
   identifierDescriptor: NormalizedIdentifierDescriptor;
   documentPatch: DocumentPatch;
+  expectedVersion?: ExpectedVersion;
+  expressions?: Expression[];
 };
 
 export type DeleteDocumentParams = {
   collectionName: string;
   identifierDescriptor: NormalizedIdentifierDescriptor;
+  expressions?: Expression[];
+};
+
+// Updates the first document matching `expressions` with `documentPatch`, or creates
+// `document` (identified by `identifierDescriptor`) when there is no matching document
+export type UpsertDocumentParams = {
+  collectionName: string;
+  expressions: Expression[];
+  documentPatch: DocumentPatch;
+  identifierDescriptor: NormalizedIdentifierDescriptor;
+  document: Document;
+};
+
+// The document resulting from an upsert, and whether it has been created
+export type UpsertDocumentResult = {document: Document; wasCreated: boolean};
+
+export type CreateDocumentsParams = {
+  collectionName: string;
+  documents: {identifierDescriptor: NormalizedIdentifierDescriptor; document: Document}[];
+};
+
+export type UpdateDocumentsParams = {
+  collectionName: string;
+  documentPatches: {
+    identifierDescriptor: NormalizedIdentifierDescriptor;
+    documentPatch: DocumentPatch;
+    expectedVersion?: ExpectedVersion;
+  }[];
+  expressions?: Expression[];
+};
+
+// When specified, the document should only be updated if the value at `path` is
+// `value` (a missing value being represented by `undefined`), and an error with the
+// 'COMPONENT_VERSION_CONFLICT' code should be thrown (or returned) otherwise
+export type ExpectedVersion = {path: Path; value: number | undefined};
+
+export type DeleteDocumentsParams = {
+  collectionName: string;
+  identifierDescriptors: NormalizedIdentifierDescriptor[];
+  expressions?: Expression[];
 };
 
+// For each document, `true` if the operation succeeded, `false` if the document
+// was missing (or already existed in the case of a creation), or an `Error`
+export type DocumentOperationResult = boolean | Error;
+
 export type FindDocumentsParams = {
   collectionName: string;
   expressions: Expression[];
   projection?: Projection;
   sort?: SortDescriptor;
+  // The component references (by path) to be resolved when some sort paths
+  // go through them (e.g., 'director.fullName' when 'director' is a lookup)
+  lookups?: {[path: string]: DocumentLookup};
   skip?: number;
   limit?: number;
 };
@@ -86,6 +173,58 @@ export type CountDocumentsParams = {
   expressions: Expression[];
 };
 
+export type AggregateDocumentsParams = {
+  collectionName: string;
+  expressions: Expression[];
+  groupBy: Path[];
+  aggregates: DocumentAggregates;
+  sort?: SortDescriptor;
+  skip?: number;
+  limit?: number;
+};
+
+export type DocumentAggregates = {[name: string]: {operator: AggregateOperator; path?: Path}};
+
+export type ExplainDocumentsParams = {
+  collectionName: string;
+  expressions: Expression[];
+  sort?: SortDescriptor;
+  lookups?: {[path: string]: DocumentLookup};
+};
+
+// `backendQuery` is the query in the language of the database, `indexName` is the name
+// of the index chosen by the database (or `undefined` if all the documents are scanned),
+// and `details` is the raw explanation returned by the database (if any)
+export type DocumentExplanation = {
+  backendQuery: unknown;
+  indexName: string | undefined;
+  details?: unknown;
+};
+
+export type QueryExplanation = {
+  collectionName: string;
+  expressions: Expression[];
+} & DocumentExplanation;
+
+// The errors that occur while watching the changes (e.g., a lost connection to the
+// database) cannot be thrown to a caller, so they should be passed to `onError`
+export type WatchDocumentsParams = {
+  collectionName: string;
+  expressions: Expression[];
+  callback: (change: DocumentChange) => void;
+  onError: (error: unknown) => void;
+};
+
+// `document` contains the whole document (as it was before its deletion for a 'deleted' change),
+// and the change is only reported if the document matches the expressions (a store that cannot
+// provide a deleted document, such as a MongoDBStore, only reports the deletions when there
+// are no expressions, and only provides an `identifierDescriptor`)
+export type DocumentChange = {
+  type: WatchEventType;
+  identifierDescriptor: NormalizedIdentifierDescriptor;
+  document?: Document;
+};
+
 export type MigrateCollectionParams = {
   collectionName: string;
   collectionSchema: CollectionSchema;
@@ -106,6 +245,39 @@ export type CollectionIndex = {
   attributes: {[name: string]: SortDirection};
   isPrimary: boolean;
   isUnique: boolean;
+  isText: boolean;
+  isGeospatial: boolean;
+  isCaseInsensitive: boolean;
+  expireAfterSeconds?: number;
+  partialFilter?: Expression[];
+};
+
+export type Migration = {
+  version: number;
+  name?: string;
+  up: (context: MigrationContext) => Promise<void>;
+  down?: (context: MigrationContext) => Promise<void>;
+};
+
+export type MigrationContext = {
+  store: Store;
+  transformDocuments: (
+    storable: typeof StorableComponent,
+    transformer: DocumentTransformer
+  ) => Promise<number>;
+};
+
+export type DocumentTransformer = (document: Document) => Document | void;
+
+export type MigrationResult = {
+  executedMigrations: number[];
+  rolledBackMigrations: number[];
+};
+
+export type Transaction = object;
+
+export type TransactionParams = {
+  transaction: Transaction;
 };
 
 export type TraceEntry = {
@@ -113,14 +285,153 @@ export type TraceEntry = {
   params: any[];
   result?: any;
   error?: any;
+  duration: number; // In milliseconds
+  queries: TraceQuery[];
+};
+
+// A query (find, count, or aggregation) sent to the database while running an operation,
+// where `backendQuery` is expressed in the language of the database (e.g., a MongoDB filter)
+export type TraceQuery = {
+  collectionName: string;
+  expressions: Expression[];
+  backendQuery: unknown;
+};
+
+export type StoreOptions = {
+  keyProvider?: EncryptionKeyProvider;
+  tenantResolver?: TenantResolver;
+  tenantIsolation?: TenantIsolation;
+  actorResolver?: ActorResolver;
+  slowOperationThreshold?: number;
+  logger?: Partial<StoreLogger>;
+};
+
+export type EncryptionKeyProvider = (params: {
+  collectionName: string;
+  attributeName: string;
+}) => string | Uint8Array;
+
+export type TenantResolver = () => string | undefined;
+
+export type TenantIsolation = 'attribute' | 'collection';
+
+export type ActorResolver = () => string | undefined;
+
+export type StoreLogger = {
+  warn: (message: string, entry: TraceEntry) => void;
+  error: (message: string, error: unknown) => void;
+};
+
+const DEFAULT_LOGGER: StoreLogger = {
+  warn(message) {
+    console.warn(message);
+  },
+  error(message, error) {
+    console.error(message, error);
+  }
 };
 
+const MIGRATION_COLLECTION_NAME = '__migrations';
+
+// The documents transformed by a migration are read and written by batches of this size
+const MIGRATION_TRANSFORM_BATCH_SIZE = 100;
+
+// The history of a storable having a history is stored in a companion collection
+// named `${collectionName}${HISTORY_COLLECTION_NAME_SUFFIX}`
+const HISTORY_COLLECTION_NAME_SUFFIX = 'History';
+
+// In the 'attribute' isolation mode, the tenant of a document is stored in this attribute
+const TENANT_ATTRIBUTE_NAME = '__tenant';
+
+// In the 'collection' isolation mode, the collections are named `${tenant}${TENANT_COLLECTION_NAME_SEPARATOR}${collectionName}`
+const TENANT_COLLECTION_NAME_SEPARATOR = '.';
+
+const ENCRYPTED_VALUE_PREFIX = '$encrypted:';
+
+// Like with `session.withTransaction()` of MongoDB, the transactions that failed
+// because of a transient error are retried for up to 2 minutes
+const TRANSACTION_RETRY_TIMEOUT = 2 * 60 * 1000;
+
 /**
  * An abstract class from which classes such as [`MongoDBStore`](https://layrjs.com/docs/v1/reference/mongodb-store) or [`MemoryStore`](https://layrjs.com/docs/v1/reference/memory-store) are constructed. Unless you build a custom store, you probably won't have to use this class directly.
  */
 export abstract class Store {
-  constructor(options = {}) {
-    assertNoUnknownOptions(options);
+  /**
+   * Creates a store. Since `Store` is an abstract class, this constructor is called by the constructor of a subclass such as [`MemoryStore`](https://layrjs.com/docs/v1/reference/memory-store).
+   *
+   * @param [options.keyProvider] A function returning the key (a string or a `Uint8Array`) that is used to [encrypt](https://layrjs.com/docs/v1/reference/storable-attribute#encryption) the values of the encrypted attributes. The function receives a plain object of the shape `{collectionName, attributeName}` so you can use a different key for each attribute if you wish.
+   *
+   * @example
+   * ```
+   * const store = new MemoryStore({keyProvider: () => process.env.ENCRYPTION_KEY!});
+   * ```
+   *
+   * @param [options.tenantResolver] A function returning the current tenant (a string) when several customers share the same database. When this option is specified, every read and write operation is scoped to the tenant returned by the function, and an error is thrown if the function returns `undefined`. Typically, the function gets the tenant from some request-scoped storage such as an [`AsyncLocalStorage`](https://nodejs.org/api/async_context.html#async_context_class_asynclocalstorage).
+   * @param [options.tenantIsolation] A string specifying how the documents of the tenants are isolated from each other (default: `'attribute'`). With `'attribute'`, all the tenants share the same collections, the tenant of a document is stored in an `__tenant` attribute, and the secondary indexes (including the unique ones) are prefixed with this attribute. With `'collection'`, each tenant gets its own collections, which are named `'<tenant>.<collectionName>'`. If you prefer to use a database per tenant, create a store per tenant instead.
+   *
+   * @example
+   * ```
+   * const tenantStorage = new AsyncLocalStorage<string>();
+   *
+   * const store = new MemoryStore({tenantResolver: () => tenantStorage.getStore()});
+   *
+   * await tenantStorage.run('acme', async () => {
+   *   await Movie.find(); // Only finds the movies of the 'acme' tenant
+   * });
+   * ```
+   *
+   * @param [options.actorResolver] A function returning the current actor (a string such as a user id) that is recorded in the history of the storable components decorated with [`@history()`](https://layrjs.com/docs/v1/reference/storable#history-decorator). Like the tenant resolver, the function typically gets the actor from some request-scoped storage.
+   * @param [options.slowOperationThreshold] A number of milliseconds above which an operation (e.g., `find()`) is reported as slow through the `logger` (default: `undefined`, which means that the operations are not timed).
+   * @param [options.logger] An object of the shape `{warn(message, entry), error(message, error)}` where `warn()` receives the slow operation warnings (`entry` being a plain object of the shape `{operation, params, result, error, duration, queries}` describing the operation), and `error()` receives the errors that cannot be thrown to a caller such as the errors thrown by a [`watch()`](https://layrjs.com/docs/v1/reference/storable#watch-class-method) callback (default: an object printing the messages with `console.warn()` and `console.error()`). A method that is not specified keeps its default behavior.
+   *
+   * @example
+   * ```
+   * const store = new MemoryStore({
+   *   slowOperationThreshold: 100,
+   *   logger: {warn: (message, {queries}) => log.warning(message, {queries})}
+   * });
+   * ```
+   *
+   * @category Creation
+   */
+  constructor(options: StoreOptions = {}) {
+    const {
+      keyProvider,
+      tenantResolver,
+      tenantIsolation = 'attribute',
+      actorResolver,
+      slowOperationThreshold,
+      logger = {},
+      ...otherOptions
+    } = options;
+
+    assertNoUnknownOptions(otherOptions);
+
+    if (tenantIsolation !== 'attribute' && tenantIsolation !== 'collection') {
+      throw new Error(
+        `The value of the 'tenantIsolation' option is invalid (value: ${JSON.stringify(
+          tenantIsolation
+        )})`
+      );
+    }
+
+    if (
+      slowOperationThreshold !== undefined &&
+      !(typeof slowOperationThreshold === 'number' && slowOperationThreshold >= 0)
+    ) {
+      throw new Error(
+        `The value of the 'slowOperationThreshold' option is invalid (value: ${JSON.stringify(
+          slowOperationThreshold
+        )})`
+      );
+    }
+
+    this._keyProvider = keyProvider;
+    this._tenantResolver = tenantResolver;
+    this._tenantIsolation = tenantIsolation;
+    this._actorResolver = actorResolver;
+    this._slowOperationThreshold = slowOperationThreshold;
+    this._logger = {...DEFAULT_LOGGER, ...logger};
   }
 
   getURL(): string | undefined {
@@ -335,17 +646,21 @@ export abstract class Store {
   // === Collections ===
 
   _getCollectionNameFromStorable(storable: typeof StorableComponent | StorableComponent) {
-    return ensureComponentClass(storable).getComponentName();
+    return this._getTenantCollectionName(ensureComponentClass(storable).getComponentName());
   }
 
   // === Storable operations ===
 
   async load(
     storable: StorableComponent,
-    options: {attributeSelector?: AttributeSelector; throwIfMissing?: boolean} = {}
+    options: {
+      attributeSelector?: AttributeSelector;
+      throwIfMissing?: boolean;
+      includeDeleted?: boolean;
+    } = {}
   ) {
     return await this._runOperation('load', [storable, options], async () => {
-      let {attributeSelector = true, throwIfMissing = true} = options;
+      let {attributeSelector = true, throwIfMissing = true, includeDeleted = false} = options;
 
       const identifierDescriptor = storable.getIdentifierDescriptor();
 
@@ -357,16 +672,38 @@ export abstract class Store {
 
       const collectionName = this._getCollectionNameFromStorable(storable);
 
-      const documentIdentifierDescriptor = this.toDocument(storable, identifierDescriptor);
-      const documentAttributeSelector = this.toDocument(storable, attributeSelector);
-      const projection = buildProjection(documentAttributeSelector);
+      const documentIdentifierDescriptor = this._toDocumentIdentifierDescriptor(
+        storable,
+        identifierDescriptor
+      );
+      const documentAttributeSelector = this._toDocumentAttributeSelector(
+        storable,
+        attributeSelector
+      );
+
+      const deletedAtPath = !includeDeleted ? this._getDeletedAtPath(storable) : undefined;
+
+      const projection = buildProjection(
+        deletedAtPath !== undefined
+          ? mergeAttributeSelectors(documentAttributeSelector, {[deletedAtPath]: true})
+          : documentAttributeSelector
+      );
 
       let document = await this.readDocument({
         collectionName,
         identifierDescriptor: documentIdentifierDescriptor,
-        projection
+        projection,
+        expressions: this._getTenantExpressions()
       });
 
+      if (
+        document !== undefined &&
+        deletedAtPath !== undefined &&
+        document[deletedAtPath] !== undefined
+      ) {
+        document = undefined; // The document has been soft-deleted
+      }
+
       if (document !== undefined) {
         document = pickFromAttributeSelector(document, documentAttributeSelector, {
           includeAttributeNames: ['__component']
@@ -383,260 +720,1794 @@ export abstract class Store {
         return undefined;
       }
 
-      throw Object.assign(
-        new Error(
-          `Cannot load a component that is missing from the store (${storable.describeComponent()}, ${ensureComponentClass(
-            storable
-          ).describeIdentifierDescriptor(identifierDescriptor)})`
-        ),
-        {code: 'COMPONENT_IS_MISSING_FROM_STORE', expose: true}
-      );
+      throw createLoadError(storable);
     });
   }
 
-  async save(
-    storable: StorableComponent,
+  async loadMany(
+    storables: StorableComponent[],
     options: {
       attributeSelector?: AttributeSelector;
       throwIfMissing?: boolean;
-      throwIfExists?: boolean;
+      includeDeleted?: boolean;
     } = {}
   ) {
-    return await this._runOperation('save', [storable, options], async () => {
-      const isNew = storable.isNew();
+    return await this._runOperation('loadMany', [storables, options], async () => {
+      const {attributeSelector = true, throwIfMissing = true, includeDeleted = false} = options;
 
-      const {attributeSelector = true, throwIfMissing = !isNew, throwIfExists = isNew} = options;
+      const results: (StorableComponent | undefined)[] = new Array(storables.length);
 
-      if (throwIfMissing === true && throwIfExists === true) {
-        throw new Error(
-          "The 'throwIfMissing' and 'throwIfExists' options cannot be both set to true"
-        );
-      }
+      const loads = new Map<string, PendingDocumentOperation[]>();
 
-      storable._assertArrayItemsAreFullyLoaded(attributeSelector);
+      for (const [index, storable] of storables.entries()) {
+        if (!storable.getPrimaryIdentifierAttribute().isSet()) {
+          // The component can only be read through one of its secondary identifiers
+          results[index] = await this.load(storable, {
+            attributeSelector,
+            throwIfMissing,
+            includeDeleted
+          });
+          continue;
+        }
 
-      storable.validate(attributeSelector);
+        const collectionName = this._getCollectionNameFromStorable(storable);
 
-      const collectionName = this._getCollectionNameFromStorable(storable);
+        addPendingDocumentOperation(loads, collectionName, {
+          index,
+          storable,
+          attributeSelector,
+          identifierDescriptor: this._toDocumentIdentifierDescriptor(
+            storable,
+            storable.getIdentifierDescriptor()
+          )
+        });
+      }
 
-      const identifierDescriptor = storable.getIdentifierDescriptor();
-      const documentIdentifierDescriptor = this.toDocument(storable, identifierDescriptor);
+      // All the components of a collection are read at once by using an '$in' query
+      // on their primary identifier
+      for (const [collectionName, pendingLoads] of loads) {
+        const storablePrototype = pendingLoads[0].storable;
 
-      const serializedStorable = storable.serialize({attributeSelector, includeIsNewMarks: false})!;
-      const document = this.toDocument(storable, serializedStorable);
+        const primaryIdentifierName = storablePrototype.getPrimaryIdentifierAttribute().getName();
+        const primaryIdentifierPath = this._toDocumentPath(
+          storablePrototype,
+          primaryIdentifierName
+        );
 
-      let wasSaved: boolean;
+        const documentAttributeSelector = this._toDocumentAttributeSelector(
+          storablePrototype,
+          mergeAttributeSelectors(attributeSelector, {[primaryIdentifierName]: true})
+        );
 
-      try {
-        if (isNew) {
-          deleteUndefinedProperties(document);
+        const documentExpressions = this._buildDocumentExpressions(
+          storablePrototype,
+          {
+            [primaryIdentifierName]: {
+              $in: pendingLoads.map(({storable}) =>
+                storable.getPrimaryIdentifierAttribute().getValue()
+              )
+            }
+          },
+          {includeDeleted}
+        );
 
-          wasSaved = await this.createDocument({
-            collectionName,
-            identifierDescriptor: documentIdentifierDescriptor,
-            document
-          });
-        } else {
-          const documentPatch = buildDocumentPatch(document);
+        const documents = await this.findDocuments({
+          collectionName,
+          expressions: documentExpressions,
+          projection: buildProjection(documentAttributeSelector)
+        });
 
-          wasSaved = await this.updateDocument({
-            collectionName,
-            identifierDescriptor: documentIdentifierDescriptor,
-            documentPatch
-          });
+        const documentsByPrimaryIdentifier = new Map<unknown, Document>();
+
+        for (const document of documents) {
+          documentsByPrimaryIdentifier.set(document[primaryIdentifierPath], document);
         }
-      } catch (error) {
-        const {code, indexName} = error;
 
-        if (code === 'DUPLICATE_KEY_ERROR') {
-          throw Object.assign(
-            new Error(
-              `Cannot save a component with an attribute value that should be unique but already exists in the store (${storable.describeComponent()}, ${ensureComponentClass(
-                storable
-              ).describeIdentifierDescriptor(identifierDescriptor)}, index: '${indexName}')`
-            ),
-            {code: 'UNIQUE_ATTRIBUTE_ALREADY_EXISTS_IN_STORE', indexName, expose: true}
+        for (const {index, storable} of pendingLoads) {
+          let document = documentsByPrimaryIdentifier.get(
+            storable.getPrimaryIdentifierAttribute().getValue()
           );
-        }
 
-        throw error;
-      }
+          if (document === undefined) {
+            if (throwIfMissing) {
+              throw createLoadError(storable);
+            }
 
-      if (!wasSaved) {
-        if (throwIfMissing) {
-          throw Object.assign(
-            new Error(
-              `Cannot save a non-new component that is missing from the store (${storable.describeComponent()}, ${ensureComponentClass(
-                storable
-              ).describeIdentifierDescriptor(identifierDescriptor)})`
-            ),
-            {code: 'COMPONENT_IS_MISSING_FROM_STORE', expose: true}
-          );
-        }
+            results[index] = undefined;
+            continue;
+          }
 
-        if (throwIfExists) {
-          throw Object.assign(
-            new Error(
-              `Cannot save a new component that already exists in the store (${storable.describeComponent()}, ${ensureComponentClass(
-                storable
-              ).describeIdentifierDescriptor(identifierDescriptor)})`
-            ),
-            {code: 'COMPONENT_ALREADY_EXISTS_IN_STORE', expose: true}
-          );
-        }
+          document = pickFromAttributeSelector(document, documentAttributeSelector, {
+            includeAttributeNames: ['__component']
+          });
 
-        return undefined;
-      }
+          const serializedStorable = this.fromDocument(storable, document);
 
-      if (isNew) {
-        storable.markAsNotNew(); // TODO: Mark also embedded components as not new
+          results[index] = await storable.deserialize(serializedStorable, {source: 1});
+        }
       }
 
-      storable.traverseAttributes(
-        (attribute) => {
-          attribute.setValueSource(1);
-        },
-        {attributeSelector, setAttributesOnly: true}
-      );
-
-      return storable;
+      return results;
     });
   }
 
-  async delete(storable: StorableComponent, options: {throwIfMissing?: boolean} = {}) {
-    return await this._runOperation('delete', [storable, options], async () => {
-      const {throwIfMissing = true} = options;
-
-      const collectionName = this._getCollectionNameFromStorable(storable);
-
-      const identifierDescriptor = storable.getIdentifierDescriptor();
-      const documentIdentifierDescriptor = this.toDocument(storable, identifierDescriptor);
+  async save(
+    storable: StorableComponent,
+    options: {
+      attributeSelector?: AttributeSelector;
+      throwIfMissing?: boolean;
+      throwIfExists?: boolean;
+    } = {}
+  ) {
+    return await this._runOperation('save', [storable, options], () =>
+      this._runWithHistory([storable], async () => {
+        const isNew = storable.isNew();
 
-      const wasDeleted = await this.deleteDocument({
-        collectionName,
-        identifierDescriptor: documentIdentifierDescriptor
-      });
+        let {attributeSelector = true, throwIfMissing = !isNew, throwIfExists = isNew} = options;
 
-      if (!wasDeleted) {
-        if (throwIfMissing) {
-          throw Object.assign(
-            new Error(
-              `Cannot delete a component that is missing from the store (${storable.describeComponent()}, ${ensureComponentClass(
-                storable
-              ).describeIdentifierDescriptor(identifierDescriptor)})`
-            ),
-            {code: 'COMPONENT_IS_MISSING_FROM_STORE', expose: true}
+        if (throwIfMissing === true && throwIfExists === true) {
+          throw new Error(
+            "The 'throwIfMissing' and 'throwIfExists' options cannot be both set to true"
           );
         }
 
-        return undefined;
-      }
+        attributeSelector = this._prepareTimestamps(storable, attributeSelector);
 
-      return storable;
-    });
-  }
+        let versioning: Versioning | undefined;
+        ({attributeSelector, versioning} = this._prepareVersioning(storable, attributeSelector));
 
-  async find(
-    storable: typeof StorableComponent,
-    query: Query = {},
-    options: {sort?: SortDescriptor; skip?: number; limit?: number} = {}
-  ) {
-    return await this._runOperation('find', [storable, query, options], async () => {
-      const {sort = {}, skip, limit} = options;
+        storable._assertArrayItemsAreFullyLoaded(attributeSelector);
 
-      const storablePrototype = storable.prototype;
+        storable.validate(attributeSelector);
 
-      const collectionName = this._getCollectionNameFromStorable(storablePrototype);
+        const collectionName = this._getCollectionNameFromStorable(storable);
 
-      const serializedQuery = simpleSerialize(query);
-      const documentExpressions = this.toDocumentExpressions(storablePrototype, serializedQuery);
+        const identifierDescriptor = storable.getIdentifierDescriptor();
+        const documentIdentifierDescriptor = this._toDocumentIdentifierDescriptor(
+          storable,
+          identifierDescriptor
+        );
 
-      const documentSort = this.toDocument(storablePrototype, sort);
+        const serializedStorable = storable.serialize({
+          attributeSelector,
+          includeIsNewMarks: false
+        })!;
+        const document = this.toDocument(
+          storable,
+          this._encryptAttributes(storable, serializedStorable)
+        );
 
-      const primaryIdentifierAttribute = storablePrototype.getPrimaryIdentifierAttribute();
-      const attributeSelector = {[primaryIdentifierAttribute.getName()]: true};
-      const documentAttributeSelector = this.toDocument(storablePrototype, attributeSelector);
-      const projection = buildProjection(documentAttributeSelector);
+        const previousDocument = !isNew
+          ? await this._readHistoryDocument(storable, attributeSelector)
+          : undefined;
 
-      let documents = await this.findDocuments({
-        collectionName,
-        expressions: documentExpressions,
-        projection,
-        sort: documentSort,
-        skip,
-        limit
-      });
+        let wasSaved: boolean;
 
-      documents = documents.map((document) =>
-        pickFromAttributeSelector(document, documentAttributeSelector, {
-          includeAttributeNames: ['__component']
-        })
-      );
+        try {
+          if (isNew) {
+            deleteUndefinedProperties(document);
+            this._setDocumentTenant(document);
 
-      const serializedStorables = documents.map((document) =>
-        this.fromDocument(storable, document)
-      );
+            wasSaved = await this.createDocument({
+              collectionName,
+              identifierDescriptor: documentIdentifierDescriptor,
+              document
+            });
+          } else {
+            const documentPatch = buildDocumentPatch(document);
+
+            if (versioning !== undefined) {
+              setDocumentPatchVersion(documentPatch, versioning);
+            }
+
+            wasSaved = await this.updateDocument({
+              collectionName,
+              identifierDescriptor: documentIdentifierDescriptor,
+              documentPatch,
+              ...(versioning !== undefined && {expectedVersion: versioning.expectedVersion}),
+              expressions: this._getTenantExpressions()
+            });
+          }
+        } catch (error) {
+          throw normalizeSaveError(storable, error);
+        }
 
-      const foundStorables: StorableComponent[] = [];
+        if (!wasSaved) {
+          if (throwIfMissing) {
+            throw createSaveError(storable, {isNew: false});
+          }
 
-      for (const serializedStorable of serializedStorables) {
-        foundStorables.push(
-          (await deserialize(serializedStorable, {
-            rootComponent: storable,
-            source: 1
-          })) as StorableComponent
+          if (throwIfExists) {
+            throw createSaveError(storable, {isNew: true});
+          }
+
+          return undefined;
+        }
+
+        await this._recordHistory(
+          storable,
+          isNew ? 'create' : 'update',
+          attributeSelector,
+          previousDocument
         );
-      }
 
-      return foundStorables;
-    });
+        markStorableAsSaved(storable, attributeSelector, {isNew, versioning});
+
+        return storable;
+      })
+    );
   }
 
-  async count(storable: typeof StorableComponent, query: Query = {}) {
-    return await this._runOperation('count', [storable, query], async () => {
-      const storablePrototype = storable.prototype;
+  async saveMany(
+    operations: {storable: StorableComponent; attributeSelector?: AttributeSelector}[]
+  ) {
+    const storables = operations.map(({storable}) => storable);
+
+    return await this._runOperation('saveMany', [operations], () =>
+      this._runWithHistory(storables, async () => {
+        const results: (StorableComponent | Error)[] = new Array(operations.length);
+
+        const creations = new Map<string, PendingDocumentOperation<{document: Document}>[]>();
+        const updates = new Map<
+          string,
+          PendingDocumentOperation<{documentPatch: DocumentPatch; versioning?: Versioning}>[]
+        >();
+
+        operations.forEach(({storable, attributeSelector = true}, index) => {
+          let versioning: Versioning | undefined;
+
+          try {
+            attributeSelector = this._prepareTimestamps(storable, attributeSelector);
+
+            ({attributeSelector, versioning} = this._prepareVersioning(
+              storable,
+              attributeSelector
+            ));
+
+            storable._assertArrayItemsAreFullyLoaded(attributeSelector);
+
+            storable.validate(attributeSelector);
+          } catch (error) {
+            results[index] = error;
+            return;
+          }
+
+          const collectionName = this._getCollectionNameFromStorable(storable);
+
+          const identifierDescriptor = this._toDocumentIdentifierDescriptor(
+            storable,
+            storable.getIdentifierDescriptor()
+          );
+
+          const serializedStorable = storable.serialize({
+            attributeSelector,
+            includeIsNewMarks: false
+          })!;
+          const document = this.toDocument(
+            storable,
+            this._encryptAttributes(storable, serializedStorable)
+          );
+
+          if (storable.isNew()) {
+            deleteUndefinedProperties(document);
+            this._setDocumentTenant(document);
+
+            addPendingDocumentOperation(creations, collectionName, {
+              index,
+              storable,
+              attributeSelector,
+              identifierDescriptor,
+              document
+            });
+          } else {
+            const documentPatch = buildDocumentPatch(document);
+
+            if (versioning !== undefined) {
+              setDocumentPatchVersion(documentPatch, versioning);
+            }
+
+            addPendingDocumentOperation(updates, collectionName, {
+              index,
+              storable,
+              attributeSelector,
+              identifierDescriptor,
+              documentPatch,
+              versioning
+            });
+          }
+        });
+
+        for (const [collectionName, pendingCreations] of creations) {
+          const documentResults = await this.createDocuments({
+            collectionName,
+            documents: pendingCreations.map(({identifierDescriptor, document}) => ({
+              identifierDescriptor,
+              document
+            }))
+          });
+
+          pendingCreations.forEach(({index, storable, attributeSelector}, pendingIndex) => {
+            const documentResult = documentResults[pendingIndex];
+
+            if (documentResult instanceof Error) {
+              results[index] = normalizeSaveError(storable, documentResult);
+            } else if (!documentResult) {
+              results[index] = createSaveError(storable, {isNew: true});
+            } else {
+              markStorableAsSaved(storable, attributeSelector, {isNew: true});
+              results[index] = storable;
+            }
+          });
+
+          for (const {index, storable, attributeSelector} of pendingCreations) {
+            if (results[index] === storable) {
+              await this._recordHistory(storable, 'create', attributeSelector);
+            }
+          }
+        }
+
+        for (const [collectionName, pendingUpdates] of updates) {
+          const previousDocuments: (Document | undefined)[] = [];
+
+          for (const {storable, attributeSelector} of pendingUpdates) {
+            previousDocuments.push(await this._readHistoryDocument(storable, attributeSelector));
+          }
+
+          const documentResults = await this.updateDocuments({
+            collectionName,
+            documentPatches: pendingUpdates.map(
+              ({identifierDescriptor, documentPatch, versioning}) => ({
+                identifierDescriptor,
+                documentPatch,
+                ...(versioning !== undefined && {expectedVersion: versioning.expectedVersion})
+              })
+            ),
+            expressions: this._getTenantExpressions()
+          });
+
+          pendingUpdates.forEach(
+            ({index, storable, attributeSelector, versioning}, pendingIndex) => {
+              const documentResult = documentResults[pendingIndex];
+
+              if (documentResult instanceof Error) {
+                results[index] = normalizeSaveError(storable, documentResult);
+              } else if (!documentResult) {
+                results[index] = createSaveError(storable, {isNew: false});
+              } else {
+                markStorableAsSaved(storable, attributeSelector, {isNew: false, versioning});
+                results[index] = storable;
+              }
+            }
+          );
+
+          for (const [
+            pendingIndex,
+            {index, storable, attributeSelector}
+          ] of pendingUpdates.entries()) {
+            if (results[index] === storable) {
+              await this._recordHistory(
+                storable,
+                'update',
+                attributeSelector,
+                previousDocuments[pendingIndex]
+              );
+            }
+          }
+        }
+
+        return results;
+      })
+    );
+  }
+
+  async upsert(
+    storable: StorableComponent,
+    options: {
+      query: Query;
+      attributeSelector?: AttributeSelector;
+      updateAttributeSelector?: AttributeSelector;
+    }
+  ) {
+    return await this._runOperation('upsert', [storable, options], () =>
+      this._runWithHistory([storable], async () => {
+        let {query, attributeSelector = true, updateAttributeSelector = {}} = options;
+
+        const isNew = storable.isNew();
+
+        attributeSelector = this._prepareTimestamps(storable, attributeSelector);
+
+        if (ensureStorableClass(storable).hasTimestamps()) {
+          updateAttributeSelector = mergeAttributeSelectors(updateAttributeSelector, {
+            updatedAt: true
+          });
+        }
+
+        storable._assertArrayItemsAreFullyLoaded(attributeSelector);
+
+        storable.validate(attributeSelector);
+
+        const collectionName = this._getCollectionNameFromStorable(storable);
+
+        const documentIdentifierDescriptor = this._toDocumentIdentifierDescriptor(
+          storable,
+          storable.getIdentifierDescriptor()
+        );
+
+        const expressions = this._buildDocumentExpressions(storable, query, {
+          includeDeleted: false
+        });
+
+        const serializedStorable = storable.serialize({
+          attributeSelector,
+          includeIsNewMarks: false
+        })!;
+        const document = this.toDocument(
+          storable,
+          this._encryptAttributes(storable, serializedStorable)
+        );
+
+        // The document patch is made of the attributes to be updated when the component exists
+        const documentPatch = buildDocumentPatch(
+          pickFromAttributeSelector(
+            document,
+            this._toDocumentAttributeSelector(storable, updateAttributeSelector),
+            {includeAttributeNames: ['__component']}
+          )
+        );
+
+        deleteUndefinedProperties(document);
+        this._setDocumentTenant(document);
+
+        const versionAttribute = storable.getVersionAttribute();
+
+        if (versionAttribute !== undefined) {
+          // A created document starts at version 1, and an updated one is incremented
+          const path = this._toDocumentPath(storable, versionAttribute.getName());
+          document[path] = 1;
+          documentPatch.$inc = {[path]: 1};
+        }
+
+        // For a storable having a history, the document that is about to be updated is read so
+        // its previous values can be recorded
+        let previousDocument: Document | undefined;
+
+        if (ensureStorableClass(storable).hasHistory()) {
+          const documentUpdateAttributeSelector = this._toDocumentAttributeSelector(
+            storable,
+            updateAttributeSelector
+          );
+
+          [previousDocument] = await this.findDocuments({
+            collectionName,
+            expressions,
+            projection: buildProjection(documentUpdateAttributeSelector),
+            limit: 1
+          });
+
+          if (previousDocument !== undefined) {
+            previousDocument = pickFromAttributeSelector(
+              previousDocument,
+              documentUpdateAttributeSelector
+            );
+          }
+        }
+
+        let upsertedDocument: Document;
+        let wasCreated: boolean;
+
+        try {
+          ({document: upsertedDocument, wasCreated} = await this.upsertDocument({
+            collectionName,
+            expressions,
+            documentPatch,
+            identifierDescriptor: documentIdentifierDescriptor,
+            document
+          }));
+        } catch (error) {
+          throw normalizeSaveError(storable, error);
+        }
+
+        if (wasCreated) {
+          if (versionAttribute !== undefined) {
+            versionAttribute.setValue(1, {source: 1});
+          }
+
+          await this._recordHistory(storable, 'create', attributeSelector);
+
+          markStorableAsSaved(storable, attributeSelector, {isNew});
+
+          return {storable, wasCreated};
+        }
+
+        // The storable has not been saved, so the resulting component is the one that
+        // matches the query (and a new storable is detached so it cannot conflict with it)
+        if (isNew && storable.isAttached()) {
+          storable.detach();
+        }
+
+        const existingStorable = (await deserialize(
+          this.fromDocument(storable, omit(upsertedDocument, TENANT_ATTRIBUTE_NAME)),
+          {rootComponent: ensureStorableClass(storable), source: 1}
+        )) as StorableComponent;
+
+        await this._recordHistory(
+          existingStorable,
+          'update',
+          updateAttributeSelector,
+          previousDocument
+        );
+
+        return {storable: existingStorable, wasCreated};
+      })
+    );
+  }
+
+  async delete(storable: StorableComponent, options: {throwIfMissing?: boolean} = {}) {
+    return await this._runOperation('delete', [storable, options], () =>
+      this._runWithHistory([storable], async () => {
+        const {throwIfMissing = true} = options;
+
+        const collectionName = this._getCollectionNameFromStorable(storable);
+
+        const identifierDescriptor = storable.getIdentifierDescriptor();
+        const documentIdentifierDescriptor = this._toDocumentIdentifierDescriptor(
+          storable,
+          identifierDescriptor
+        );
+
+        const deletedAtPath = this._getDeletedAtPath(storable);
+        const deletedAt = new Date();
+
+        const previousDocument = await this._readHistoryDocument(storable, true);
+
+        const wasDeleted =
+          deletedAtPath !== undefined
+            ? await this._softDeleteDocument({
+                collectionName,
+                identifierDescriptor: documentIdentifierDescriptor,
+                deletedAtPath,
+                deletedAt
+              })
+            : await this.deleteDocument({
+                collectionName,
+                identifierDescriptor: documentIdentifierDescriptor,
+                expressions: this._getTenantExpressions()
+              });
+
+        if (!wasDeleted) {
+          if (throwIfMissing) {
+            throw createDeleteError(storable);
+          }
+
+          return undefined;
+        }
+
+        if (deletedAtPath !== undefined) {
+          storable.getStorableAttribute('deletedAt').setValue(deletedAt, {source: 1});
+        }
+
+        await this._recordHistory(storable, 'delete', {}, previousDocument);
+
+        return storable;
+      })
+    );
+  }
+
+  async deleteMany(storables: StorableComponent[]) {
+    return await this._runOperation('deleteMany', [storables], () =>
+      this._runWithHistory(storables, async () => {
+        const results: (StorableComponent | Error)[] = new Array(storables.length);
+
+        const deletions = new Map<string, PendingDocumentOperation[]>();
+
+        storables.forEach((storable, index) => {
+          const collectionName = this._getCollectionNameFromStorable(storable);
+
+          const identifierDescriptor = this._toDocumentIdentifierDescriptor(
+            storable,
+            storable.getIdentifierDescriptor()
+          );
+
+          addPendingDocumentOperation(deletions, collectionName, {
+            index,
+            storable,
+            attributeSelector: {},
+            identifierDescriptor
+          });
+        });
+
+        const deletedAt = new Date();
+
+        for (const [collectionName, pendingDeletions] of deletions) {
+          const identifierDescriptors = pendingDeletions.map(
+            ({identifierDescriptor}) => identifierDescriptor
+          );
+
+          const deletedAtPath = this._getDeletedAtPath(pendingDeletions[0].storable);
+
+          const previousDocuments: (Document | undefined)[] = [];
+
+          for (const {storable} of pendingDeletions) {
+            previousDocuments.push(await this._readHistoryDocument(storable, true));
+          }
+
+          const documentResults =
+            deletedAtPath !== undefined
+              ? await this._softDeleteDocuments({
+                  collectionName,
+                  identifierDescriptors,
+                  deletedAtPath,
+                  deletedAt
+                })
+              : await this.deleteDocuments({
+                  collectionName,
+                  identifierDescriptors,
+                  expressions: this._getTenantExpressions()
+                });
+
+          pendingDeletions.forEach(({index, storable}, pendingIndex) => {
+            const documentResult = documentResults[pendingIndex];
+
+            if (documentResult instanceof Error) {
+              results[index] = documentResult;
+            } else if (!documentResult) {
+              results[index] = createDeleteError(storable);
+            } else {
+              if (deletedAtPath !== undefined) {
+                storable.getStorableAttribute('deletedAt').setValue(deletedAt, {source: 1});
+              }
+
+              results[index] = storable;
+            }
+          });
+
+          for (const [pendingIndex, {index, storable}] of pendingDeletions.entries()) {
+            if (results[index] === storable) {
+              await this._recordHistory(storable, 'delete', {}, previousDocuments[pendingIndex]);
+            }
+          }
+        }
+
+        return results;
+      })
+    );
+  }
+
+  async restore(storable: StorableComponent) {
+    return await this._runOperation('restore', [storable], () =>
+      this._runWithHistory([storable], async () => {
+        const collectionName = this._getCollectionNameFromStorable(storable);
+
+        const identifierDescriptor = storable.getIdentifierDescriptor();
+        const documentIdentifierDescriptor = this._toDocumentIdentifierDescriptor(
+          storable,
+          identifierDescriptor
+        );
+
+        const deletedAtPath = this._getDeletedAtPath(storable);
+
+        if (deletedAtPath === undefined) {
+          throw new Error(
+            `Cannot restore a component that is not soft-deletable (${storable.describeComponent()})`
+          );
+        }
+
+        const expressions = this._getTenantExpressions();
+
+        const previousDocument = await this._readHistoryDocument(storable, {deletedAt: true});
+
+        // The document is only updated if it is deleted so that concurrent
+        // restorations cannot both succeed
+        const wasRestored = await this.updateDocument({
+          collectionName,
+          identifierDescriptor: documentIdentifierDescriptor,
+          documentPatch: {$unset: {[deletedAtPath]: 1}},
+          expressions: [[deletedAtPath, '$notEqual', undefined], ...expressions]
+        });
+
+        if (
+          !wasRestored &&
+          (await this.readDocument({
+            collectionName,
+            identifierDescriptor: documentIdentifierDescriptor,
+            projection: {[deletedAtPath]: 1},
+            expressions
+          })) === undefined
+        ) {
+          throw Object.assign(
+            new Error(
+              `Cannot restore a component that is missing from the store (${storable.describeComponent()}, ${describeIdentifierDescriptor(
+                storable
+              )})`
+            ),
+            {code: 'COMPONENT_IS_MISSING_FROM_STORE', expose: true}
+          );
+        }
+
+        storable.getStorableAttribute('deletedAt').setValue(undefined, {source: 1});
+
+        if (wasRestored) {
+          await this._recordHistory(storable, 'update', {deletedAt: true}, previousDocument);
+        }
+
+        return storable;
+      })
+    );
+  }
+
+  async purge(storable: StorableComponent, options: {throwIfMissing?: boolean} = {}) {
+    return await this._runOperation('purge', [storable, options], () =>
+      this._runWithHistory([storable], async () => {
+        const {throwIfMissing = true} = options;
+
+        const collectionName = this._getCollectionNameFromStorable(storable);
+
+        const identifierDescriptor = storable.getIdentifierDescriptor();
+        const documentIdentifierDescriptor = this._toDocumentIdentifierDescriptor(
+          storable,
+          identifierDescriptor
+        );
+
+        const previousDocument = await this._readHistoryDocument(storable, true);
+
+        const wasDeleted = await this.deleteDocument({
+          collectionName,
+          identifierDescriptor: documentIdentifierDescriptor,
+          expressions: this._getTenantExpressions()
+        });
+
+        if (!wasDeleted) {
+          if (throwIfMissing) {
+            throw createDeleteError(storable);
+          }
+
+          return undefined;
+        }
+
+        await this._recordHistory(storable, 'delete', {}, previousDocument);
+
+        return storable;
+      })
+    );
+  }
+
+  async getHistory(storable: StorableComponent) {
+    return await this._runOperation('getHistory', [storable], async () => {
+      const storableClass = ensureStorableClass(storable);
+
+      if (!storableClass.hasHistory()) {
+        throw new Error(
+          `Cannot get the history of a component that has no history (${storable.describeComponent()}). Please make sure that the storable component class is decorated with @history().`
+        );
+      }
+
+      const documents = await this.findDocuments({
+        collectionName: this._getHistoryCollectionName(storable),
+        expressions: [
+          ['componentId', '$equal', this._getHistoryComponentId(storable)],
+          ...this._getTenantExpressions()
+        ],
+        sort: {savedAt: 'asc', id: 'asc'}
+      });
+
+      const history: HistoryEntry[] = [];
+
+      const deserializeValues = async (values: PlainObject) =>
+        (await deserialize(this._decryptAttributes(storable, values), {
+          rootComponent: storableClass,
+          source: 1
+        })) as PlainObject;
+
+      for (const {id, operation, changes, previousValues, savedAt, actor} of documents) {
+        history.push({
+          id,
+          operation,
+          changes: await deserializeValues(changes),
+          ...(previousValues !== undefined && {
+            previousValues: await deserializeValues(previousValues)
+          }),
+          savedAt,
+          ...(actor !== undefined && {actor})
+        });
+      }
+
+      return history;
+    });
+  }
+
+  async atomicUpdate(storable: StorableComponent, operations: AtomicOperations) {
+    return await this._runOperation('atomicUpdate', [storable, operations], () =>
+      this._runWithHistory([storable], async () => {
+        if (storable.isNew()) {
+          throw new Error(
+            `Cannot atomically update a component that is new (${storable.describeComponent()})`
+          );
+        }
+
+        const collectionName = this._getCollectionNameFromStorable(storable);
+
+        const identifierDescriptor = storable.getIdentifierDescriptor();
+        const documentIdentifierDescriptor = this._toDocumentIdentifierDescriptor(
+          storable,
+          identifierDescriptor
+        );
+
+        const documentPatch: DocumentPatch = {};
+
+        // The updated attributes are loaded once the operations have been executed
+        let attributeSelector: AttributeSelector = createAttributeSelectorFromNames(
+          Object.keys(identifierDescriptor)
+        );
+
+        for (const operator of ['$inc', '$push', '$pull'] as const) {
+          const operation = operations[operator];
+
+          if (operation === undefined) {
+            continue;
+          }
+
+          const operatorPatch: {[path: string]: any} = {};
+
+          for (const [name, value] of Object.entries(operation)) {
+            operatorPatch[
+              this._toDocumentPath(storable, name)
+            ] = this._normalizeAtomicOperationValue(storable, operator, name, value);
+
+            attributeSelector = mergeAttributeSelectors(attributeSelector, {[name]: true});
+          }
+
+          documentPatch[operator] = operatorPatch;
+        }
+
+        if (ensureStorableClass(storable).hasTimestamps()) {
+          documentPatch.$set = {[this._toDocumentPath(storable, 'updatedAt')]: new Date()};
+          attributeSelector = mergeAttributeSelectors(attributeSelector, {updatedAt: true});
+        }
+
+        const versionAttribute = storable.getVersionAttribute();
+
+        if (versionAttribute !== undefined) {
+          const name = versionAttribute.getName();
+          documentPatch.$inc = {...documentPatch.$inc, [this._toDocumentPath(storable, name)]: 1};
+          attributeSelector = mergeAttributeSelectors(attributeSelector, {[name]: true});
+        }
+
+        const expressions = this._getTenantExpressions();
+
+        const previousDocument = await this._readHistoryDocument(storable, attributeSelector);
+
+        let wasUpdated: boolean;
+
+        try {
+          wasUpdated = await this.updateDocument({
+            collectionName,
+            identifierDescriptor: documentIdentifierDescriptor,
+            documentPatch,
+            expressions
+          });
+        } catch (error) {
+          throw normalizeSaveError(storable, error);
+        }
+
+        if (!wasUpdated) {
+          throw Object.assign(
+            new Error(
+              `Cannot update a component that is missing from the store (${storable.describeComponent()}, ${describeIdentifierDescriptor(
+                storable
+              )})`
+            ),
+            {code: 'COMPONENT_IS_MISSING_FROM_STORE', expose: true}
+          );
+        }
+
+        const documentAttributeSelector = this._toDocumentAttributeSelector(
+          storable,
+          attributeSelector
+        );
+
+        let document = await this.readDocument({
+          collectionName,
+          identifierDescriptor: documentIdentifierDescriptor,
+          projection: buildProjection(documentAttributeSelector),
+          expressions
+        });
+
+        if (document !== undefined) {
+          document = pickFromAttributeSelector(document, documentAttributeSelector, {
+            includeAttributeNames: ['__component']
+          });
+
+          await storable.deserialize(this.fromDocument(storable, document), {source: 1});
+
+          // The resulting values are recorded so the operations can be reverted
+          await this._recordHistory(storable, 'update', attributeSelector, previousDocument);
+        }
+
+        return storable;
+      })
+    );
+  }
+
+  // Checks that an atomic operation can be applied to the specified attribute,
+  // and returns the value to be used in the document patch
+  _normalizeAtomicOperationValue(
+    storable: StorableComponent,
+    operator: keyof AtomicOperations,
+    name: string,
+    value: unknown
+  ) {
+    const attribute = storable.getStorableAttribute(name);
+
+    if (
+      isIdentifierAttributeInstance(attribute) ||
+      attribute.isComputed() ||
+      attribute.isEncrypted()
+    ) {
+      throw new Error(
+        `Cannot atomically update an identifier, computed, or encrypted attribute (${attribute.describe()})`
+      );
+    }
+
+    const valueType = attribute.getValueType();
+
+    if (operator === '$inc') {
+      if (!isNumberValueTypeInstance(valueType)) {
+        throw new Error(
+          `Cannot increment an attribute that is not of type 'number' (${attribute.describe()})`
+        );
+      }
+
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        throw new Error(
+          `Cannot increment an attribute by an amount that is not a finite number (${attribute.describe()}, received type: '${getTypeOf(
+            value
+          )}')`
+        );
+      }
+
+      return value;
+    }
+
+    if (
+      !isArrayValueTypeInstance(valueType) ||
+      isComponentValueTypeInstance(valueType.getScalarType())
+    ) {
+      throw new Error(
+        `Cannot push or pull the items of an attribute that is not an array of scalar values (${attribute.describe()})`
+      );
+    }
+
+    const itemType = valueType.getItemType();
+
+    return (value as unknown[]).map((item) => {
+      itemType.checkValue(item, attribute);
+
+      return simpleDeserialize(itemType.serializeValue(item, attribute));
+    });
+  }
+
+  async find(
+    storable: typeof StorableComponent,
+    query: Query = {},
+    options: {
+      attributeSelector?: AttributeSelector;
+      sort?: SortDescriptor;
+      skip?: number;
+      limit?: number;
+      includeDeleted?: boolean;
+    } = {}
+  ) {
+    return await this._runOperation('find', [storable, query, options], async () => {
+      let {attributeSelector = {}, sort = {}, skip, limit, includeDeleted = false} = options;
+
+      const storablePrototype = storable.prototype;
+
+      if (hasOwnProperty(sort, '$relevance')) {
+        if (!hasOwnProperty(query, '$search')) {
+          throw new Error(
+            `The '$relevance' sort can only be used in combination with the '$search' query operator (${storable.describeComponent()})`
+          );
+        }
+
+        if (sort.$relevance.toLowerCase() !== 'desc') {
+          throw new Error(
+            `The '$relevance' sort only supports the 'desc' direction (${storable.describeComponent()})`
+          );
+        }
+      }
+
+      const collectionName = this._getCollectionNameFromStorable(storablePrototype);
+
+      const documentExpressions = this._buildDocumentExpressions(storablePrototype, query, {
+        includeDeleted
+      });
+
+      const {sort: documentSort, lookups} = this._buildDocumentSort(storablePrototype, sort);
+
+      // Always include the primary identifier attribute
+      const primaryIdentifierAttribute = storablePrototype.getPrimaryIdentifierAttribute();
+      attributeSelector = mergeAttributeSelectors(attributeSelector, {
+        [primaryIdentifierAttribute.getName()]: true
+      });
+
+      // The specified attributes are fetched along with the identifiers so that the found
+      // components can be fully deserialized without having to read them one by one
+      const documentAttributeSelector = this._toDocumentAttributeSelector(
+        storablePrototype,
+        attributeSelector
+      );
+      const projection = buildProjection(documentAttributeSelector);
+
+      let documents = await this.findDocuments({
+        collectionName,
+        expressions: documentExpressions,
+        projection,
+        sort: documentSort,
+        ...(lookups !== undefined && {lookups}),
+        skip,
+        limit
+      });
+
+      documents = documents.map((document) =>
+        pickFromAttributeSelector(document, documentAttributeSelector, {
+          includeAttributeNames: ['__component']
+        })
+      );
+
+      const serializedStorables = documents.map((document) =>
+        this.fromDocument(storable, document)
+      );
+
+      const foundStorables: StorableComponent[] = [];
+
+      for (const serializedStorable of serializedStorables) {
+        foundStorables.push(
+          (await deserialize(serializedStorable, {
+            rootComponent: storable,
+            source: 1
+          })) as StorableComponent
+        );
+      }
+
+      return foundStorables;
+    });
+  }
+
+  async count(
+    storable: typeof StorableComponent,
+    query: Query = {},
+    options: {includeDeleted?: boolean} = {}
+  ) {
+    return await this._runOperation('count', [storable, query, options], async () => {
+      const {includeDeleted = false} = options;
+
+      const storablePrototype = storable.prototype;
+
+      const collectionName = this._getCollectionNameFromStorable(storablePrototype);
+
+      const documentExpressions = this._buildDocumentExpressions(storablePrototype, query, {
+        includeDeleted
+      });
+
+      const documentsCount = await this.countDocuments({
+        collectionName,
+        expressions: documentExpressions
+      });
+
+      return documentsCount;
+    });
+  }
+
+  async aggregate(
+    storable: typeof StorableComponent,
+    query: Query,
+    options: {
+      aggregates: NormalizedAggregateDescriptor;
+      groupBy?: string[];
+      sort?: SortDescriptor;
+      skip?: number;
+      limit?: number;
+      includeDeleted?: boolean;
+    }
+  ) {
+    return await this._runOperation('aggregate', [storable, query, options], async () => {
+      const {aggregates, groupBy = [], sort = {}, skip, limit, includeDeleted = false} = options;
+
+      const storablePrototype = storable.prototype;
+
+      const collectionName = this._getCollectionNameFromStorable(storablePrototype);
+
+      const documentExpressions = this._buildDocumentExpressions(storablePrototype, query, {
+        includeDeleted
+      });
+
+      const documentGroupBy = groupBy.map((attributeName) =>
+        this._toDocumentPath(storablePrototype, attributeName)
+      );
+
+      const documentAggregates: DocumentAggregates = mapValues(
+        aggregates,
+        ({operator, attributeName}) => ({
+          operator,
+          path:
+            attributeName !== undefined
+              ? this._toDocumentPath(storablePrototype, attributeName)
+              : undefined
+        })
+      );
+
+      const documentSort = this.toDocument(storablePrototype, sort);
+
+      let documents = await this.aggregateDocuments({
+        collectionName,
+        expressions: documentExpressions,
+        groupBy: documentGroupBy,
+        aggregates: documentAggregates,
+        sort: documentSort,
+        skip,
+        limit
+      });
+
+      if (documents.length === 0 && documentGroupBy.length === 0 && !skip) {
+        // Without grouping, there is always a result even if no documents were matched
+        documents = [
+          mapValues(documentAggregates, ({operator}) =>
+            operator === '$count' || operator === '$sum' ? 0 : undefined
+          )
+        ];
+      }
+
+      const results: AggregateResult[] = [];
+
+      for (const document of documents) {
+        results.push(
+          (await deserialize(this.fromDocument(storable, document), {
+            rootComponent: storable,
+            source: 1
+          })) as AggregateResult
+        );
+      }
+
+      return results;
+    });
+  }
+
+  /**
+   * Explains how the database executes a query, which is useful to check that the query is efficiently served by an index.
+   *
+   * @param storable A storable component class.
+   * @param [query] A [`Query`](https://layrjs.com/docs/v1/reference/query) object (default: `{}`).
+   * @param [options.sort] A plain object specifying how the found components would be sorted (default: `{}`).
+   * @param [options.includeDeleted] A boolean specifying whether the soft-deleted components would be found (default: `false`).
+   *
+   * @returns A promise resolving to a plain object of the shape `{collectionName, expressions, backendQuery, indexName, details}` where `backendQuery` is the query in the language of the database, `indexName` is the name of the index chosen by the database (or `undefined` if all the documents of the collection are scanned), and `details` is the raw explanation returned by the database (if any).
+   *
+   * @example
+   * ```
+   * const {indexName} = await store.explain(Movie, {year: 2010}, {sort: {title: 'asc'}});
+   * ```
+   *
+   * @category Tracing
+   */
+  async explain(
+    storable: typeof StorableComponent,
+    query: Query = {},
+    options: {sort?: SortDescriptor; includeDeleted?: boolean} = {}
+  ) {
+    return await this._runOperation('explain', [storable, query, options], async () => {
+      const {sort = {}, includeDeleted = false} = options;
+
+      const storablePrototype = storable.prototype;
 
       const collectionName = this._getCollectionNameFromStorable(storablePrototype);
 
-      const serializedQuery = simpleSerialize(query);
-      const documentExpressions = this.toDocumentExpressions(storablePrototype, serializedQuery);
+      const documentExpressions = this._buildDocumentExpressions(storablePrototype, query, {
+        includeDeleted
+      });
+
+      const {sort: documentSort, lookups} = this._buildDocumentSort(storablePrototype, sort);
 
-      const documentsCount = await this.countDocuments({
+      const explanation = await this.explainDocuments({
         collectionName,
-        expressions: documentExpressions
+        expressions: documentExpressions,
+        sort: documentSort,
+        ...(lookups !== undefined && {lookups})
       });
 
-      return documentsCount;
+      const queryExplanation: QueryExplanation = {
+        collectionName,
+        expressions: documentExpressions,
+        ...explanation
+      };
+
+      return queryExplanation;
+    });
+  }
+
+  async watch(storable: typeof StorableComponent, query: Query, callback: WatchCallback) {
+    const storablePrototype = storable.prototype;
+
+    const collectionName = this._getCollectionNameFromStorable(storablePrototype);
+
+    // The soft-deleted documents are not filtered out so their deletion can be reported
+    const documentExpressions = this._buildDocumentExpressions(storablePrototype, query, {
+      includeDeleted: true
+    });
+
+    const deletedAtPath = this._getDeletedAtPath(storablePrototype);
+
+    const handleChange = async ({type, identifierDescriptor, document}: DocumentChange) => {
+      if (document === undefined) {
+        document = {__component: storable.getComponentName(), ...identifierDescriptor};
+      } else {
+        if (deletedAtPath !== undefined && document[deletedAtPath] !== undefined) {
+          type = 'deleted';
+        }
+
+        document = omit(document, TENANT_ATTRIBUTE_NAME);
+      }
+
+      const changedStorable = (await deserialize(this.fromDocument(storable, document), {
+        rootComponent: storable,
+        source: 1
+      })) as StorableComponent;
+
+      await callback({type, storable: changedStorable});
+    };
+
+    const handleError = (error: unknown) => {
+      this._logger.error(
+        `An error occurred while watching the changes of a collection (collection: '${collectionName}')`,
+        error
+      );
+    };
+
+    // The changes are handled one at a time so they are reported in order,
+    // and an error doesn't prevent the next changes from being reported
+    let pendingChanges = Promise.resolve();
+
+    const stopWatching: StopWatching = await this.watchDocuments({
+      collectionName,
+      expressions: documentExpressions,
+      callback: (change) => {
+        pendingChanges = pendingChanges.then(() => handleChange(change)).catch(handleError);
+      },
+      onError: handleError
+    });
+
+    return stopWatching;
+  }
+
+  _buildDocumentExpressions(
+    storablePrototype: StorableComponent,
+    query: Query,
+    {includeDeleted}: {includeDeleted: boolean}
+  ) {
+    const serializedQuery = simpleSerialize(query);
+    const documentExpressions = this.toDocumentExpressions(storablePrototype, serializedQuery);
+
+    const deletedAtPath = !includeDeleted ? this._getDeletedAtPath(storablePrototype) : undefined;
+
+    if (deletedAtPath !== undefined) {
+      documentExpressions.push([deletedAtPath, '$equal', undefined]);
+    }
+
+    documentExpressions.push(...this._getTenantExpressions());
+
+    return documentExpressions;
+  }
+
+  // A sort path going through a referenced component (e.g., 'director.fullName') is
+  // turned into a document path with a lookup describing how to find the referenced documents
+  _buildDocumentSort(storablePrototype: StorableComponent, sort: SortDescriptor) {
+    const documentSort: SortDescriptor = {};
+    let lookups: {[path: string]: DocumentLookup} | undefined;
+
+    for (const [name, direction] of Object.entries(sort)) {
+      const [attributeName, ...subnames] = name.split('.');
+
+      if (subnames.length > 0 && storablePrototype.hasAttribute(attributeName)) {
+        const attribute = storablePrototype.getAttribute(attributeName);
+        const referencedStorable = this._getReferencedStorable(attribute, attribute.getValueType());
+
+        if (referencedStorable !== undefined) {
+          const path = this._toDocumentPath(storablePrototype, attributeName);
+          const subpath = this._toDocumentPath(referencedStorable, subnames.join('.'));
+
+          lookups = {...lookups, [path]: this._buildDocumentLookup(referencedStorable)};
+          documentSort[`${path}.${subpath}`] = direction;
+          continue;
+        }
+      }
+
+      Object.assign(documentSort, this.toDocument(storablePrototype, {[name]: direction}));
+    }
+
+    return {sort: documentSort, lookups};
+  }
+
+  _toDocumentPath(storable: typeof StorableComponent | StorableComponent, attributeName: string) {
+    return Object.keys(this.toDocument(storable, {[attributeName]: true}))[0];
+  }
+
+  async _runOperation<
+    PromiseResult extends Promise<unknown>,
+    Result = PromiseLikeValue<PromiseResult>
+  >(operation: string, params: any[], func: () => PromiseResult): Promise<Result> {
+    const trace = this._trace;
+    const slowOperationThreshold = this._slowOperationThreshold;
+
+    if (trace === undefined && slowOperationThreshold === undefined) {
+      return (await func()) as Result; // OPTIMIZATION: There is nothing to record
+    }
+
+    const queries: TraceQuery[] = [];
+    const startTime = performance.now();
+
+    const record = (outcome: {result: unknown} | {error: unknown}) => {
+      const entry: TraceEntry = {
+        operation,
+        params,
+        ...outcome,
+        duration: performance.now() - startTime,
+        queries
+      };
+
+      if (trace !== undefined) {
+        trace.push(entry);
+      }
+
+      if (slowOperationThreshold !== undefined && entry.duration >= slowOperationThreshold) {
+        this._logger.warn(describeSlowOperation(entry, slowOperationThreshold), entry);
+      }
+    };
+
+    try {
+      const result = await this._traceStorage.run(queries, func);
+
+      record({result});
+
+      return result as Result;
+    } catch (error) {
+      record({error});
+
+      throw error;
+    }
+  }
+
+  // === Soft deletion ===
+
+  // Returns the path of the attribute holding the deletion date of a soft-deletable
+  // storable, or `undefined` if the storable is not soft-deletable
+  _getDeletedAtPath(storable: typeof StorableComponent | StorableComponent) {
+    return ensureStorableClass(storable).isSoftDeletable()
+      ? this._toDocumentPath(storable, 'deletedAt')
+      : undefined;
+  }
+
+  async _softDeleteDocument({
+    collectionName,
+    identifierDescriptor,
+    deletedAtPath,
+    deletedAt
+  }: {
+    collectionName: string;
+    identifierDescriptor: NormalizedIdentifierDescriptor;
+    deletedAtPath: Path;
+    deletedAt: Date;
+  }) {
+    // A soft-deleted document is considered as missing, and the expressions are checked
+    // when the document is updated so that concurrent deletions cannot both succeed
+    return await this.updateDocument({
+      collectionName,
+      identifierDescriptor,
+      documentPatch: {$set: {[deletedAtPath]: deletedAt}},
+      expressions: [[deletedAtPath, '$equal', undefined], ...this._getTenantExpressions()]
+    });
+  }
+
+  async _softDeleteDocuments({
+    collectionName,
+    identifierDescriptors,
+    deletedAtPath,
+    deletedAt
+  }: {
+    collectionName: string;
+    identifierDescriptors: NormalizedIdentifierDescriptor[];
+    deletedAtPath: Path;
+    deletedAt: Date;
+  }) {
+    return await this.updateDocuments({
+      collectionName,
+      documentPatches: identifierDescriptors.map((identifierDescriptor) => ({
+        identifierDescriptor,
+        documentPatch: {$set: {[deletedAtPath]: deletedAt}}
+      })),
+      expressions: [[deletedAtPath, '$equal', undefined], ...this._getTenantExpressions()]
+    });
+  }
+
+  // === Multi-tenancy ===
+
+  _tenantResolver: TenantResolver | undefined;
+
+  _tenantIsolation: TenantIsolation;
+
+  // Returns the current tenant, or `undefined` if the store is not multi-tenant
+  _getTenant() {
+    const tenantResolver = this._tenantResolver;
+
+    if (tenantResolver === undefined) {
+      return undefined;
+    }
+
+    const tenant = tenantResolver();
+
+    if (typeof tenant !== 'string' || tenant === '') {
+      throw new Error(
+        `Cannot access a multi-tenant store without a tenant (the tenant resolver returned ${JSON.stringify(
+          tenant
+        )})`
+      );
+    }
+
+    return tenant;
+  }
+
+  _getTenantCollectionName(collectionName: string) {
+    if (this._tenantIsolation !== 'collection') {
+      return collectionName;
+    }
+
+    const tenant = this._getTenant();
+
+    return tenant !== undefined
+      ? `${tenant}${TENANT_COLLECTION_NAME_SEPARATOR}${collectionName}`
+      : collectionName;
+  }
+
+  // The reverse of _getTenantCollectionName()
+  _getBaseCollectionName(collectionName: string) {
+    if (this._tenantIsolation !== 'collection') {
+      return collectionName;
+    }
+
+    const tenant = this._getTenant();
+
+    if (tenant === undefined) {
+      return collectionName;
+    }
+
+    const prefix = `${tenant}${TENANT_COLLECTION_NAME_SEPARATOR}`;
+
+    return collectionName.startsWith(prefix) ? collectionName.slice(prefix.length) : collectionName;
+  }
+
+  // Returns the expressions restricting an operation to the documents of the current
+  // tenant (in the 'attribute' isolation mode only)
+  _getTenantExpressions(): Expression[] {
+    if (this._tenantIsolation !== 'attribute') {
+      return [];
+    }
+
+    const tenant = this._getTenant();
+
+    return tenant !== undefined ? [[TENANT_ATTRIBUTE_NAME, '$equal', tenant]] : [];
+  }
+
+  _setDocumentTenant(document: Document) {
+    if (this._tenantIsolation !== 'attribute') {
+      return;
+    }
+
+    const tenant = this._getTenant();
+
+    if (tenant !== undefined) {
+      document[TENANT_ATTRIBUTE_NAME] = tenant;
+    }
+  }
+
+  // === Versioning ===
+
+  // For a new storable, initializes its version attribute (if any) and makes sure it is
+  // saved, and for a non-new storable, determines the version that is expected in the
+  // store and the version that should be saved
+  _prepareVersioning(storable: StorableComponent, attributeSelector: AttributeSelector) {
+    const versionAttribute = storable.getVersionAttribute();
+
+    if (versionAttribute === undefined) {
+      return {attributeSelector, versioning: undefined};
+    }
+
+    const name = versionAttribute.getName();
+
+    if (storable.isNew()) {
+      versionAttribute.setValue(1);
+
+      return {
+        attributeSelector: mergeAttributeSelectors(attributeSelector, {[name]: true}),
+        versioning: undefined
+      };
+    }
+
+    if (!versionAttribute.isSet()) {
+      throw new Error(
+        `Cannot save a component with a version attribute that is not loaded (${versionAttribute.describe()})`
+      );
+    }
+
+    const currentVersion = versionAttribute.getValue() as number | undefined;
+
+    const versioning: Versioning = {
+      attribute: versionAttribute,
+      expectedVersion: {path: this._toDocumentPath(storable, name), value: currentVersion},
+      newVersion: (currentVersion ?? 0) + 1
+    };
+
+    return {attributeSelector, versioning};
+  }
+
+  // === Timestamps ===
+
+  // Sets the `createdAt` (for a new storable) and `updatedAt` attributes of a storable
+  // having timestamps, and makes sure they are saved
+  _prepareTimestamps(storable: StorableComponent, attributeSelector: AttributeSelector) {
+    if (!ensureStorableClass(storable).hasTimestamps()) {
+      return attributeSelector;
+    }
+
+    const now = new Date();
+
+    if (storable.isNew()) {
+      storable.getStorableAttribute('createdAt').setValue(now);
+      attributeSelector = mergeAttributeSelectors(attributeSelector, {createdAt: true});
+    }
+
+    storable.getStorableAttribute('updatedAt').setValue(now);
+
+    return mergeAttributeSelectors(attributeSelector, {updatedAt: true});
+  }
+
+  // === History ===
+
+  _actorResolver: ActorResolver | undefined;
+
+  _getHistoryCollectionName(storable: typeof StorableComponent | StorableComponent) {
+    return this._getTenantCollectionName(
+      ensureComponentClass(storable).getComponentName() + HISTORY_COLLECTION_NAME_SUFFIX
+    );
+  }
+
+  _getHistoryComponentId(storable: StorableComponent) {
+    const primaryIdentifierAttribute = storable.getPrimaryIdentifierAttribute();
+
+    if (!primaryIdentifierAttribute.isSet()) {
+      throw new Error(
+        `Cannot access the history of a component whose primary identifier is not set (${storable.describeComponent()})`
+      );
+    }
+
+    return primaryIdentifierAttribute.getValue() as string | number;
+  }
+
+  // The history entries are written in the same transaction as the changes they record
+  // (when the store supports transactions) so the history cannot disagree with the documents
+  async _runWithHistory<Result>(
+    storables: StorableComponent[],
+    func: () => Promise<Result>
+  ): Promise<Result> {
+    if (
+      storables.some((storable) => ensureStorableClass(storable).hasHistory()) &&
+      this.getCurrentTransaction() === undefined &&
+      (await this.supportsTransactions())
+    ) {
+      return await this.transaction(func);
+    }
+
+    return await func();
+  }
+
+  // For a storable having a history, reads the values of the attributes that are about
+  // to be saved or deleted, so they can be recorded along with the changes
+  async _readHistoryDocument(storable: StorableComponent, attributeSelector: AttributeSelector) {
+    if (!ensureStorableClass(storable).hasHistory()) {
+      return undefined;
+    }
+
+    const documentAttributeSelector = this._toDocumentAttributeSelector(
+      storable,
+      attributeSelector
+    );
+
+    const document = await this.readDocument({
+      collectionName: this._getCollectionNameFromStorable(storable),
+      identifierDescriptor: this._toDocumentIdentifierDescriptor(
+        storable,
+        storable.getIdentifierDescriptor()
+      ),
+      projection: buildProjection(documentAttributeSelector),
+      expressions: this._getTenantExpressions()
+    });
+
+    return document !== undefined
+      ? pickFromAttributeSelector(document, documentAttributeSelector)
+      : undefined;
+  }
+
+  // For a storable having a history, records the values of the saved attributes (in their
+  // serialized form so they can hold undefined values, and encrypted if need be) and their
+  // previous values (read by _readHistoryDocument()) with the date of the operation and the
+  // current actor
+  async _recordHistory(
+    storable: StorableComponent,
+    operation: HistoryOperation,
+    attributeSelector: AttributeSelector,
+    previousDocument?: Document
+  ) {
+    const storableClass = ensureStorableClass(storable);
+
+    if (!storableClass.hasHistory()) {
+      return;
+    }
+
+    const componentId = this._getHistoryComponentId(storable);
+
+    const omittedAttributeNames = [
+      '__component',
+      storable.getPrimaryIdentifierAttribute().getName(),
+      TENANT_ATTRIBUTE_NAME
+    ];
+
+    const serializedStorable = storable.serialize({attributeSelector, includeIsNewMarks: false})!;
+    const changes = omit(
+      this._encryptAttributes(storable, serializedStorable),
+      omittedAttributeNames
+    );
+
+    let previousValues: PlainObject | undefined;
+
+    if (previousDocument !== undefined) {
+      previousValues = omit(
+        this._encryptAttributes(storable, this.fromDocument(storable, previousDocument)),
+        omittedAttributeNames
+      );
+
+      if (operation === 'update') {
+        // The attributes that were not set are recorded as undefined
+        previousValues = Object.fromEntries(
+          Object.keys(changes).map((name) => [name, previousValues![name] ?? {__undefined: true}])
+        );
+      }
+    }
+
+    const id = storableClass.generateId();
+
+    const document: Document = deleteUndefinedProperties({
+      id,
+      componentId,
+      operation,
+      changes,
+      previousValues,
+      savedAt: new Date(),
+      actor: this._actorResolver !== undefined ? this._actorResolver() : undefined
     });
+
+    this._setDocumentTenant(document);
+
+    await this.createDocument({
+      collectionName: this._getHistoryCollectionName(storable),
+      identifierDescriptor: {id},
+      document
+    });
+  }
+
+  // === Transactions ===
+
+  _transactionStorage = new AsyncLocalStorage<Transaction>();
+
+  /**
+   * Runs the specified function in a transaction so that all the storable component operations (`save()`, `delete()`, etc.) that are executed by the function are either all committed to the store, or all rolled back if the function throws an error.
+   *
+   * When `transaction()` is called inside a function that is already running in a transaction, the inner function is simply executed as part of the outer transaction.
+   *
+   * If the transaction fails because of a transient error (e.g., a write conflict with another transaction in a [`MongoDBStore`](https://layrjs.com/docs/v1/reference/mongodb-store)), the transaction is retried, so the function may be executed several times.
+   *
+   * @param func An asynchronous function to run in the transaction.
+   *
+   * @returns The value returned by the specified function.
+   *
+   * @example
+   * ```
+   * await store.transaction(async () => {
+   *   await order.save();
+   *
+   *   product.stock -= order.quantity;
+   *   await product.save();
+   * });
+   * ```
+   *
+   * @category Transactions
+   */
+  async transaction<Result>(func: () => Promise<Result>): Promise<Result> {
+    if (this.getCurrentTransaction() !== undefined) {
+      return await func();
+    }
+
+    const startTime = Date.now();
+
+    while (true) {
+      try {
+        return await this._runTransaction(func);
+      } catch (error) {
+        if (
+          !this._isTransientTransactionError(error) ||
+          Date.now() - startTime >= TRANSACTION_RETRY_TIMEOUT
+        ) {
+          throw error;
+        }
+      }
+    }
   }
 
-  async _runOperation<
-    PromiseResult extends Promise<unknown>,
-    Result = PromiseLikeValue<PromiseResult>
-  >(operation: string, params: any[], func: () => PromiseResult): Promise<Result> {
-    const trace = this._trace;
+  async _runTransaction<Result>(func: () => Promise<Result>): Promise<Result> {
+    const transaction = await this.startTransaction();
+
+    let result: Result;
 
     try {
-      const result = await func();
+      result = await this._transactionStorage.run(transaction, func);
+    } catch (error) {
+      await this.abortTransaction({transaction});
 
-      if (trace !== undefined) {
-        trace.push({operation, params, result});
-      }
+      throw error;
+    }
 
-      return result as Result;
+    try {
+      await this.commitTransaction({transaction});
     } catch (error) {
-      if (trace !== undefined) {
-        trace.push({operation, params, error});
-      }
+      // A transaction that failed to commit is still open, so it must be rolled back
+      await this.abortTransaction({transaction});
 
       throw error;
     }
+
+    return result;
+  }
+
+  /**
+   * Returns the transaction in which the current operation is running, or `undefined` if the current operation is not running in a transaction.
+   *
+   * @returns A transaction object (its shape depends on the store implementation) or `undefined`.
+   *
+   * @category Transactions
+   */
+  getCurrentTransaction() {
+    return this._transactionStorage.getStore();
+  }
+
+  /**
+   * Returns whether the store supports transactions. For example, a [`MongoDBStore`](https://layrjs.com/docs/v1/reference/mongodb-store) supports transactions only when it is connected to a replica set or a sharded cluster.
+   *
+   * @returns A boolean.
+   *
+   * @category Transactions
+   */
+  async supportsTransactions() {
+    return true;
   }
 
   // === Tracing ===
 
   _trace: TraceEntry[] | undefined;
 
+  _slowOperationThreshold: number | undefined;
+
+  _logger: StoreLogger;
+
+  // The queries sent to the database while running an operation are collected
+  // in the trace entry of the operation
+  _traceStorage = new AsyncLocalStorage<TraceQuery[]>();
+
   getTrace() {
     const trace = this._trace;
 
@@ -655,6 +2526,15 @@ export abstract class Store {
     this._trace = undefined;
   }
 
+  // Called by the store implementations each time they send a query to the database
+  _traceQuery(query: TraceQuery) {
+    const queries = this._traceStorage.getStore();
+
+    if (queries !== undefined) {
+      queries.push(query);
+    }
+  }
+
   // === Abstract collection operations ===
 
   abstract migrateCollection({
@@ -663,6 +2543,20 @@ export abstract class Store {
     silent
   }: MigrateCollectionParams): Promise<MigrateCollectionResult>;
 
+  // === Abstract transaction operations ===
+
+  abstract startTransaction(): Promise<Transaction>;
+
+  abstract commitTransaction({transaction}: TransactionParams): Promise<void>;
+
+  // Also called after a failed `commitTransaction()`
+  abstract abortTransaction({transaction}: TransactionParams): Promise<void>;
+
+  // Returns whether a transaction that failed with the specified error can be retried
+  _isTransientTransactionError(_error: unknown) {
+    return false;
+  }
+
   // === Abstract document operations ===
 
   abstract createDocument({
@@ -688,6 +2582,29 @@ export abstract class Store {
     identifierDescriptor
   }: DeleteDocumentParams): Promise<boolean>;
 
+  abstract upsertDocument({
+    collectionName,
+    expressions,
+    documentPatch,
+    identifierDescriptor,
+    document
+  }: UpsertDocumentParams): Promise<UpsertDocumentResult>;
+
+  abstract createDocuments({
+    collectionName,
+    documents
+  }: CreateDocumentsParams): Promise<DocumentOperationResult[]>;
+
+  abstract updateDocuments({
+    collectionName,
+    documentPatches
+  }: UpdateDocumentsParams): Promise<DocumentOperationResult[]>;
+
+  abstract deleteDocuments({
+    collectionName,
+    identifierDescriptors
+  }: DeleteDocumentsParams): Promise<DocumentOperationResult[]>;
+
   abstract findDocuments({
     collectionName,
     expressions,
@@ -699,6 +2616,29 @@ export abstract class Store {
 
   abstract countDocuments({collectionName, expressions}: CountDocumentsParams): Promise<number>;
 
+  abstract explainDocuments({
+    collectionName,
+    expressions,
+    sort,
+    lookups
+  }: ExplainDocumentsParams): Promise<DocumentExplanation>;
+
+  abstract aggregateDocuments({
+    collectionName,
+    expressions,
+    groupBy,
+    aggregates,
+    sort,
+    skip,
+    limit
+  }: AggregateDocumentsParams): Promise<Document[]>;
+
+  abstract watchDocuments({
+    collectionName,
+    expressions,
+    callback
+  }: WatchDocumentsParams): Promise<StopWatching>;
+
   // === Serialization ===
 
   toDocument<Value>(_storable: typeof StorableComponent | StorableComponent, value: Value) {
@@ -707,7 +2647,16 @@ export abstract class Store {
 
   // {a: 1, b: {c: 2}} => [['a', '$equal', 1], ['b.c', '$equal', 2]]
   toDocumentExpressions(storable: typeof StorableComponent | StorableComponent, query: Query) {
-    const documentQuery = this.toDocument(storable, query);
+    const storablePrototype = isStorableClass(storable) ? storable.prototype : storable;
+
+    // The subqueries involving some attributes of a referenced component (other than
+    // its primary identifier) are replaced with a '$lookup' operator
+    const lookups: LookupOperand[] = [];
+    query = this._extractLookups(storablePrototype, query, lookups);
+
+    query = this._encryptQuery(storablePrototype, query);
+
+    const documentQuery: Query = this.toDocument(storable, query);
 
     const build = function (query: Query, expressions: Expression[], path: Path) {
       for (const [name, value] of Object.entries(query)) {
@@ -787,6 +2736,11 @@ export abstract class Store {
       path: Path,
       {query}: {query: Query}
     ) {
+      if (operator === '$lookup') {
+        expressions.push([path, operator, lookups[value as number]]);
+        return;
+      }
+
       const normalizedOperator = normalizeOperatorForValue(operator, value, {query});
 
       if (
@@ -815,6 +2769,11 @@ export abstract class Store {
         return;
       }
 
+      if (normalizedOperator === '$near') {
+        expressions.push([path, normalizedOperator, value as GeoNearOperand]);
+        return;
+      }
+
       if (isPlainObject(value)) {
         throw new Error(
           `Unexpected object encountered in a query (query: ${JSON.stringify(query)})`
@@ -824,16 +2783,366 @@ export abstract class Store {
       expressions.push([path, normalizedOperator, value]);
     };
 
+    // The '$search' operator is only supported at the top level of a query
+    // and is turned into the expression ['', '$search', {text, paths}]
+    const {$search: text, ...documentQueryWithoutSearch} = documentQuery;
+
     const documentExpressions: Expression[] = [];
-    build(documentQuery, documentExpressions, '');
+    build(documentQueryWithoutSearch, documentExpressions, '');
+
+    if (text !== undefined) {
+      const paths = this._getTextIndexPaths(storable);
+      documentExpressions.push(['', '$search', {text, paths}]);
+    }
+
     return documentExpressions;
   }
 
+  // Returns a copy of the specified query where the subqueries to be resolved
+  // by a lookup are replaced with `{$lookup: index}` (`index` being the position
+  // of the corresponding operand in the `lookups` array)
+  _extractLookups(component: Component, query: Query, lookups: LookupOperand[]): Query {
+    const extractedQuery: Query = {};
+
+    for (const [name, value] of Object.entries(query)) {
+      if (looksLikeOperator(name)) {
+        extractedQuery[name] =
+          (name === '$and' || name === '$or' || name === '$nor') && Array.isArray(value)
+            ? value.map((subquery) => this._extractLookups(component, subquery, lookups))
+            : value;
+        continue;
+      }
+
+      if (!component.hasAttribute(name)) {
+        extractedQuery[name] = value;
+        continue;
+      }
+
+      const attribute = component.getAttribute(name);
+
+      extractedQuery[name] = this._extractLookupsFromValue(
+        attribute,
+        attribute.getValueType(),
+        value,
+        lookups
+      );
+    }
+
+    return extractedQuery;
+  }
+
+  _extractLookupsFromValue(
+    attribute: Attribute,
+    type: ValueType,
+    value: unknown,
+    lookups: LookupOperand[]
+  ): unknown {
+    if (!isPlainObject(value)) {
+      return value;
+    }
+
+    if (isArrayValueTypeInstance(type)) {
+      const itemType = type.getItemType();
+
+      return mapValues(value, (subvalue, operator) =>
+        operator === '$some' || operator === '$every'
+          ? this._extractLookupsFromValue(attribute, itemType, subvalue, lookups)
+          : subvalue
+      );
+    }
+
+    if (!isComponentValueTypeInstance(type)) {
+      return value;
+    }
+
+    const component = type.getComponent(attribute);
+
+    if (isStorableClassOrInstance(component) && ensureStorableClass(component).isEmbedded()) {
+      return this._extractLookups(ensureStorableClass(component).prototype, value, lookups);
+    }
+
+    const referencedStorable = this._getReferencedStorable(attribute, type);
+
+    if (referencedStorable === undefined) {
+      return value;
+    }
+
+    const primaryIdentifierName = referencedStorable.getPrimaryIdentifierAttribute().getName();
+
+    const involvesOtherAttributes = Object.keys(value).some(
+      (name) => !looksLikeOperator(name) && name !== primaryIdentifierName && name !== '__component'
+    );
+
+    if (!involvesOtherAttributes) {
+      return value; // The reference can be matched without looking up the referenced document
+    }
+
+    lookups.push({
+      ...this._buildDocumentLookup(referencedStorable),
+      expressions: this.toDocumentExpressions(referencedStorable, value)
+    });
+
+    return {$lookup: lookups.length - 1};
+  }
+
+  // Returns the prototype of the storable component referenced by an attribute
+  // of the specified type, or `undefined` if the type is not a non-embedded storable component
+  _getReferencedStorable(attribute: Attribute, type: ValueType) {
+    if (!isComponentValueTypeInstance(type)) {
+      return undefined;
+    }
+
+    const component = type.getComponent(attribute);
+
+    if (!isStorableClassOrInstance(component) || ensureStorableClass(component).isEmbedded()) {
+      return undefined;
+    }
+
+    const storablePrototype = ensureStorableClass(component).prototype;
+
+    if (!storablePrototype.hasPrimaryIdentifierAttribute()) {
+      return undefined;
+    }
+
+    return storablePrototype;
+  }
+
+  _buildDocumentLookup(referencedStorable: StorableComponent): DocumentLookup {
+    const identifierName = referencedStorable.getPrimaryIdentifierAttribute().getName();
+
+    return {
+      collectionName: this._getCollectionNameFromStorable(referencedStorable),
+      identifierName,
+      identifierPath: this._toDocumentPath(referencedStorable, identifierName)
+    };
+  }
+
+  _getTextIndexPaths(storable: typeof StorableComponent | StorableComponent) {
+    const storablePrototype = isStorableClass(storable) ? storable.prototype : storable;
+
+    const paths: Path[] = [];
+
+    for (const index of this._getCollectionIndexes(storablePrototype)) {
+      if (index.isText) {
+        paths.push(...Object.keys(this.toDocument(storablePrototype, index.attributes)));
+      }
+    }
+
+    if (paths.length === 0) {
+      throw new Error(
+        `The operator '$search' cannot be used with a storable component that has no text index (${storablePrototype.describeComponent()})`
+      );
+    }
+
+    return paths;
+  }
+
   fromDocument(
-    _storable: typeof StorableComponent | StorableComponent,
+    storable: typeof StorableComponent | StorableComponent,
     document: Document
   ): Document {
-    return simpleSerialize(document);
+    return this._decryptAttributes(storable, simpleSerialize(document));
+  }
+
+  _toDocumentIdentifierDescriptor(
+    storable: typeof StorableComponent | StorableComponent,
+    identifierDescriptor: NormalizedIdentifierDescriptor
+  ) {
+    return this.toDocument(storable, this._encryptAttributes(storable, identifierDescriptor));
+  }
+
+  // The encrypted attributes are stored as a whole, so they are always fully selected
+  _toDocumentAttributeSelector(
+    storable: typeof StorableComponent | StorableComponent,
+    attributeSelector: AttributeSelector
+  ) {
+    if (typeof attributeSelector === 'object') {
+      for (const [name, subattributeSelector] of Object.entries(attributeSelector)) {
+        if (
+          typeof subattributeSelector === 'object' &&
+          this._getEncryptedAttribute(storable, name) !== undefined
+        ) {
+          attributeSelector = {...attributeSelector, [name]: true};
+        }
+      }
+    }
+
+    return this.toDocument(storable, attributeSelector);
+  }
+
+  // === Encryption ===
+
+  _keyProvider: EncryptionKeyProvider | undefined;
+
+  _getEncryptionKey(
+    storable: typeof StorableComponent | StorableComponent,
+    attribute: StorableAttribute
+  ) {
+    const keyProvider = this._keyProvider;
+
+    if (keyProvider === undefined) {
+      throw new Error(
+        `Cannot encrypt or decrypt an attribute with a store that has no key provider (${attribute.describe()}). Please specify the 'keyProvider' option when creating the store.`
+      );
+    }
+
+    return keyProvider({
+      collectionName: ensureComponentClass(storable).getComponentName(),
+      attributeName: attribute.getName()
+    });
+  }
+
+  _getEncryptedAttribute(storable: typeof StorableComponent | StorableComponent, name: string) {
+    const storablePrototype = ensureStorableClass(storable).prototype;
+
+    if (!storablePrototype.hasAttribute(name)) {
+      return undefined;
+    }
+
+    const attribute = storablePrototype.getAttribute(name);
+
+    if (!isStorableAttributeInstance(attribute) || !attribute.isEncrypted()) {
+      return undefined;
+    }
+
+    return attribute;
+  }
+
+  // Encrypts the values of the encrypted attributes of a serialized storable
+  // (or of an identifier descriptor) before it is turned into a document
+  _encryptAttributes<Value>(storable: typeof StorableComponent | StorableComponent, value: Value) {
+    if (!isPlainObject(value)) {
+      return value;
+    }
+
+    let encryptedValue: any = value;
+
+    for (const [name, attributeValue] of Object.entries(value)) {
+      const attribute = this._getEncryptedAttribute(storable, name);
+
+      if (attribute !== undefined) {
+        encryptedValue = {
+          ...encryptedValue,
+          [name]: this._encryptAttributeValue(storable, attribute, attributeValue)
+        };
+      }
+    }
+
+    return encryptedValue as Value;
+  }
+
+  _encryptAttributeValue(
+    storable: typeof StorableComponent | StorableComponent,
+    attribute: StorableAttribute,
+    value: unknown
+  ) {
+    if (isSerializedUndefined(value)) {
+      return value;
+    }
+
+    return encryptValue(JSON.stringify(value), this._getEncryptionKey(storable, attribute), {
+      deterministic: attribute.isDeterministicallyEncrypted()
+    });
+  }
+
+  _decryptAttributes(storable: typeof StorableComponent | StorableComponent, document: Document) {
+    if (!isPlainObject(document)) {
+      return document;
+    }
+
+    let decryptedDocument = document;
+
+    for (const [name, value] of Object.entries(document)) {
+      if (typeof value !== 'string' || !value.startsWith(ENCRYPTED_VALUE_PREFIX)) {
+        continue; // Values saved before the attribute was encrypted are returned as is
+      }
+
+      const attribute = this._getEncryptedAttribute(storable, name);
+
+      if (attribute === undefined) {
+        continue;
+      }
+
+      let decryptedValue: string;
+
+      try {
+        decryptedValue = decryptValue(value, this._getEncryptionKey(storable, attribute));
+      } catch {
+        throw new Error(
+          `Cannot decrypt the value of an encrypted attribute (${attribute.describe()}). Please make sure that the key provider returns the key that was used to encrypt the value.`
+        );
+      }
+
+      decryptedDocument = {...decryptedDocument, [name]: JSON.parse(decryptedValue)};
+    }
+
+    return decryptedDocument;
+  }
+
+  // Only the deterministic encryption allows to match some values
+  // since the same value always produces the same encrypted value
+  _encryptQuery(storable: typeof StorableComponent | StorableComponent, query: Query): Query {
+    let encryptedQuery = query;
+
+    for (const [name, value] of Object.entries(query)) {
+      if (name === '$and' || name === '$or' || name === '$nor') {
+        encryptedQuery = {
+          ...encryptedQuery,
+          [name]: (value as Query[]).map((subquery) => this._encryptQuery(storable, subquery))
+        };
+        continue;
+      }
+
+      const attribute = this._getEncryptedAttribute(storable, name);
+
+      if (attribute === undefined) {
+        continue;
+      }
+
+      // Since undefined values are not encrypted, they can always be matched
+      if (!attribute.isDeterministicallyEncrypted() && !onlyMatchesUndefined(value)) {
+        throw new Error(
+          `Cannot query an encrypted attribute that is not deterministic (${attribute.describe()})`
+        );
+      }
+
+      encryptedQuery = {
+        ...encryptedQuery,
+        [name]: this._encryptQueryValue(storable, attribute, value)
+      };
+    }
+
+    return encryptedQuery;
+  }
+
+  _encryptQueryValue(
+    storable: typeof StorableComponent | StorableComponent,
+    attribute: StorableAttribute,
+    value: unknown
+  ): unknown {
+    if (!isPlainObject(value) || !Object.keys(value).some(looksLikeOperator)) {
+      return this._encryptAttributeValue(storable, attribute, value);
+    }
+
+    return mapValues(value as Query, (operand, operator) => {
+      if (operator === '$equal' || operator === '$notEqual') {
+        return this._encryptAttributeValue(storable, attribute, operand);
+      }
+
+      if (operator === '$in' || operator === '$notIn') {
+        return (operand as unknown[]).map((item) =>
+          this._encryptAttributeValue(storable, attribute, item)
+        );
+      }
+
+      if (operator === '$not') {
+        return this._encryptQueryValue(storable, attribute, operand);
+      }
+
+      throw new Error(
+        `The operator '${operator}' cannot be used with an encrypted attribute (${attribute.describe()})`
+      );
+    });
   }
 
   // === Migration ===
@@ -859,6 +3168,15 @@ export abstract class Store {
     for (const storable of this.getStorables()) {
       const result = await this.migrateStorable(storable, {silent});
       allResults.collections.push(result);
+
+      if (storable.hasHistory()) {
+        const historyResult = await this.migrateCollection({
+          collectionName: this._getHistoryCollectionName(storable),
+          collectionSchema: this.getHistoryCollectionSchema(),
+          silent
+        });
+        allResults.collections.push(historyResult);
+      }
     }
 
     return allResults;
@@ -879,10 +3197,55 @@ export abstract class Store {
     return result;
   }
 
-  getCollectionSchema(storable: StorableComponent) {
-    const schema: CollectionSchema = {
-      indexes: this._getCollectionIndexes(storable)
-    };
+  getCollectionSchema(storable: StorableComponent) {
+    let indexes = this._getCollectionIndexes(storable);
+
+    if (this._tenantResolver !== undefined && this._tenantIsolation === 'attribute') {
+      // The secondary indexes are prefixed with the tenant attribute so that the
+      // uniqueness is enforced per tenant and the scoped queries remain efficient
+      // (the text, geospatial and TTL indexes cannot be prefixed in all databases)
+      indexes = indexes.map((index) =>
+        !index.isPrimary &&
+        !index.isText &&
+        !index.isGeospatial &&
+        index.expireAfterSeconds === undefined
+          ? {...index, attributes: {[TENANT_ATTRIBUTE_NAME]: 'asc', ...index.attributes}}
+          : index
+      );
+    }
+
+    const schema: CollectionSchema = {indexes};
+
+    return schema;
+  }
+
+  // The history entries of a component are found by `componentId` and sorted by `savedAt`
+  getHistoryCollectionSchema() {
+    const indexes: CollectionIndex[] = [
+      {
+        attributes: {id: 'asc'},
+        isPrimary: true,
+        isUnique: true,
+        isText: false,
+        isGeospatial: false,
+        isCaseInsensitive: false
+      },
+      {
+        attributes: {
+          ...(this._tenantResolver !== undefined &&
+            this._tenantIsolation === 'attribute' && {[TENANT_ATTRIBUTE_NAME]: 'asc'}),
+          componentId: 'asc',
+          savedAt: 'asc'
+        },
+        isPrimary: false,
+        isUnique: false,
+        isText: false,
+        isGeospatial: false,
+        isCaseInsensitive: false
+      }
+    ];
+
+    const schema: CollectionSchema = {indexes};
 
     return schema;
   }
@@ -922,8 +3285,11 @@ export abstract class Store {
         const attributes = {[attribute.getName()]: 'asc' as SortDirection};
         const isPrimary = !isEmbedded && isPrimaryIdentifierAttributeInstance(attribute);
         const isUnique = !isEmbedded;
+        const isText = false;
+        const isGeospatial = false;
+        const isCaseInsensitive = false;
 
-        indexes.push({attributes, isPrimary, isUnique});
+        indexes.push({attributes, isPrimary, isUnique, isText, isGeospatial, isCaseInsensitive});
 
         continue;
       }
@@ -938,8 +3304,11 @@ export abstract class Store {
         const attributes = {[resolvedName]: 'asc' as SortDirection};
         const isPrimary = false;
         const isUnique = false;
+        const isText = false;
+        const isGeospatial = false;
+        const isCaseInsensitive = false;
 
-        indexes.push({attributes, isPrimary, isUnique});
+        indexes.push({attributes, isPrimary, isUnique, isText, isGeospatial, isCaseInsensitive});
 
         continue;
       }
@@ -952,11 +3321,10 @@ export abstract class Store {
         if (isStorableInstance(component) && component.constructor.isEmbedded()) {
           const subindexes = this._getCollectionIndexes(component);
 
-          for (const {attributes, isPrimary, isUnique} of subindexes) {
+          for (const {attributes, ...otherProperties} of subindexes) {
             indexes.push({
               attributes: mapKeys(attributes, (_value, subname) => name + '.' + subname),
-              isPrimary,
-              isUnique
+              ...otherProperties
             });
           }
         }
@@ -967,18 +3335,656 @@ export abstract class Store {
       const attributes = mapKeys(index.getAttributes(), (_value, name) =>
         resolveAttributeName(name)
       );
+      const {expireAfterSeconds, partialFilter} = index.getOptions();
       const isPrimary = false;
       const isUnique = Boolean(index.getOptions().isUnique);
+      const isText = Boolean(index.getOptions().isText);
+      const isGeospatial = index.isGeospatial();
+      const isCaseInsensitive = Boolean(index.getOptions().isCaseInsensitive);
+
+      for (const name of Object.keys(index.getAttributes())) {
+        const attribute = this._getEncryptedAttribute(storable, name);
+
+        if (attribute === undefined) {
+          continue;
+        }
+
+        if (isText || isGeospatial || (isUnique && !attribute.isDeterministicallyEncrypted())) {
+          throw new Error(
+            `An encrypted attribute can only be part of a regular index or a unique index when it is deterministic (${attribute.describe()})`
+          );
+        }
+      }
+
+      const collectionIndex: CollectionIndex = {
+        attributes,
+        isPrimary,
+        isUnique,
+        isText,
+        isGeospatial,
+        isCaseInsensitive
+      };
+
+      if (expireAfterSeconds !== undefined) {
+        collectionIndex.expireAfterSeconds = expireAfterSeconds;
+      }
+
+      if (partialFilter !== undefined) {
+        const expressions = this.toDocumentExpressions(storable, simpleSerialize(partialFilter));
+
+        if (expressionsContainLookups(expressions)) {
+          throw new Error(
+            `The partial filter of an index cannot involve the attributes of a referenced component (${storable.describeComponent()}, attributes: '${Object.keys(
+              index.getAttributes()
+            ).join(', ')}')`
+          );
+        }
+
+        collectionIndex.partialFilter = expressions;
+      }
 
-      indexes.push({attributes, isPrimary, isUnique});
+      indexes.push(collectionIndex);
     }
 
     return indexes;
   }
 
+  // === Data migrations ===
+
+  _migrations = new Map<number, Migration>();
+
+  /**
+   * Registers some data migrations into the store.
+   *
+   * A data migration allows you to transform the data of the database when the schema of your storable components changes (e.g., to rename an attribute, or backfill a new one). It is an object of the shape `{version, name, up, down}` where:
+   *
+   * - `version` is a positive integer that uniquely identifies the migration and determines the order in which the migrations are executed.
+   * - `name` is an optional string describing the migration.
+   * - `up` is an asynchronous function that applies the migration.
+   * - `down` is an optional asynchronous function that reverts the migration.
+   *
+   * The `up` and `down` functions receive a context object of the shape `{store, transformDocuments}` where `store` is the current store (so you can operate on the registered storable components) and `transformDocuments(storable, transformer)` is a function that you can use to transform the raw documents of a storable component's collection. The `transformer` function receives a copy of each document and should modify it or return a new document.
+   *
+   * Typically, each migration lives in its own numbered module.
+   *
+   * @param migrations An array of migration objects.
+   *
+   * @example
+   * ```
+   * // migrations/001-rename-full-name.js
+   *
+   * export default {
+   *   version: 1,
+   *   name: 'Rename User.fullName to User.name',
+   *
+   *   async up({store, transformDocuments}) {
+   *     await transformDocuments(store.getStorable('User'), (document) => {
+   *       document.name = document.fullName;
+   *       delete document.fullName;
+   *     });
+   *   },
+   *
+   *   async down({store, transformDocuments}) {
+   *     await transformDocuments(store.getStorable('User'), (document) => {
+   *       document.fullName = document.name;
+   *       delete document.name;
+   *     });
+   *   }
+   * };
+   *
+   * // backend.js
+   *
+   * import renameFullName from './migrations/001-rename-full-name';
+   *
+   * store.registerMigrations([renameFullName]);
+   *
+   * await store.migrate();
+   * ```
+   *
+   * @category Data Migrations
+   */
+  registerMigrations(migrations: Migration[]) {
+    for (const migration of migrations) {
+      this.registerMigration(migration);
+    }
+  }
+
+  registerMigration(migration: Migration) {
+    const {version, name, up, down, ...unknownProperties} = migration;
+
+    assertNoUnknownOptions(unknownProperties);
+
+    if (!(Number.isInteger(version) && version > 0)) {
+      throw new Error(
+        `The version of a migration should be a positive integer (version: ${JSON.stringify(
+          version
+        )})`
+      );
+    }
+
+    if (typeof up !== 'function') {
+      throw new Error(`A migration should have an 'up' function (${describeMigration(migration)})`);
+    }
+
+    if (down !== undefined && typeof down !== 'function') {
+      throw new Error(
+        `The 'down' property of a migration should be a function (${describeMigration(migration)})`
+      );
+    }
+
+    const existingMigration = this._migrations.get(version);
+
+    if (existingMigration !== undefined) {
+      throw new Error(
+        `A migration with the same version is already registered (${describeMigration(
+          existingMigration
+        )})`
+      );
+    }
+
+    this._migrations.set(version, {version, name, up, down});
+  }
+
+  /**
+   * Returns the data migrations that are registered into the store.
+   *
+   * @returns An array of migration objects sorted by version.
+   *
+   * @category Data Migrations
+   */
+  getMigrations() {
+    return Array.from(this._migrations.values()).sort((a, b) => a.version - b.version);
+  }
+
+  /**
+   * Returns the versions of the data migrations that have been executed in the database.
+   *
+   * @returns A promise resolving to an array of numbers sorted in ascending order.
+   *
+   * @category Data Migrations
+   */
+  async getExecutedMigrationVersions() {
+    const documents = await this.findDocuments({
+      collectionName: this._getTenantCollectionName(MIGRATION_COLLECTION_NAME),
+      expressions: []
+    });
+
+    return documents.map((document) => document.version as number).sort((a, b) => a - b);
+  }
+
+  /**
+   * Executes the registered data migrations that have not been executed yet, in ascending order of version. Each migration is executed in a [transaction](https://layrjs.com/docs/v1/reference/store#transaction-instance-method) (if the store [supports transactions](https://layrjs.com/docs/v1/reference/store#supports-transactions-instance-method)) and is recorded in a special collection of the database so it is never executed twice.
+   *
+   * Note that when the store doesn't support transactions, a migration that fails may be partially applied, so it is better to write some migrations that can be executed again.
+   *
+   * Note that this method doesn't synchronize the indexes of the database, so you will typically call the [`migrateStorables()`](https://layrjs.com/docs/v1/reference/store#migrate-storables-instance-method) method as well.
+   *
+   * @param [options.to] A number specifying the version of the last migration to execute (default: the version of the last registered migration).
+   * @param [options.silent] A boolean specifying whether the operation should not produce any output in the console (default: `false`).
+   *
+   * @returns A promise resolving to an object of the shape `{executedMigrations, rolledBackMigrations}` where `executedMigrations` is an array containing the versions of the executed migrations.
+   *
+   * @examplelink See an example of use in the [`registerMigrations()`](https://layrjs.com/docs/v1/reference/store#register-migrations-instance-method) method.
+   *
+   * @category Data Migrations
+   */
+  async migrate(options: {to?: number; silent?: boolean} = {}) {
+    const {to = Infinity, silent = false} = options;
+
+    const result: MigrationResult = {executedMigrations: [], rolledBackMigrations: []};
+
+    const executedVersions = await this.getExecutedMigrationVersions();
+
+    for (const migration of this.getMigrations()) {
+      if (migration.version > to || executedVersions.includes(migration.version)) {
+        continue;
+      }
+
+      if (!silent) {
+        console.log(`Executing migration: ${describeMigration(migration)}`);
+      }
+
+      await this._runMigration(async () => {
+        await migration.up(this._createMigrationContext());
+
+        const wasCreated = await this.createDocument({
+          collectionName: this._getTenantCollectionName(MIGRATION_COLLECTION_NAME),
+          identifierDescriptor: {version: migration.version},
+          document: deleteUndefinedProperties({
+            version: migration.version,
+            name: migration.name,
+            executedAt: new Date()
+          })
+        });
+
+        if (!wasCreated) {
+          throw new Error(
+            `A migration has been executed by another process in the meantime (${describeMigration(
+              migration
+            )})`
+          );
+        }
+      });
+
+      result.executedMigrations.push(migration.version);
+    }
+
+    return result;
+  }
+
+  /**
+   * Reverts some executed data migrations in descending order of version by calling their `down` function. An error is thrown if a migration to revert has no `down` function.
+   *
+   * @param [options.to] A number specifying the version of the migration to roll back to, which means that all the executed migrations with a higher version are reverted (default: the version of the second-to-last executed migration, which means that only the last executed migration is reverted).
+   * @param [options.silent] A boolean specifying whether the operation should not produce any output in the console (default: `false`).
+   *
+   * @returns A promise resolving to an object of the shape `{executedMigrations, rolledBackMigrations}` where `rolledBackMigrations` is an array containing the versions of the reverted migrations.
+   *
+   * @example
+   * ```
+   * // Revert the last executed migration
+   * await store.rollback();
+   *
+   * // Revert all the executed migrations
+   * await store.rollback({to: 0});
+   * ```
+   *
+   * @category Data Migrations
+   */
+  async rollback(options: {to?: number; silent?: boolean} = {}) {
+    const executedVersions = await this.getExecutedMigrationVersions();
+
+    const {
+      to = executedVersions.length > 1 ? executedVersions[executedVersions.length - 2] : 0,
+      silent = false
+    } = options;
+
+    const result: MigrationResult = {executedMigrations: [], rolledBackMigrations: []};
+
+    for (const version of executedVersions.reverse()) {
+      if (version <= to) {
+        break;
+      }
+
+      const migration = this._migrations.get(version);
+
+      if (migration === undefined) {
+        throw new Error(
+          `Cannot roll back a migration that is not registered in the store (version: ${version})`
+        );
+      }
+
+      if (migration.down === undefined) {
+        throw new Error(
+          `Cannot roll back a migration that has no 'down' function (${describeMigration(
+            migration
+          )})`
+        );
+      }
+
+      if (!silent) {
+        console.log(`Rolling back migration: ${describeMigration(migration)}`);
+      }
+
+      await this._runMigration(async () => {
+        await migration.down!(this._createMigrationContext());
+
+        const wasDeleted = await this.deleteDocument({
+          collectionName: this._getTenantCollectionName(MIGRATION_COLLECTION_NAME),
+          identifierDescriptor: {version}
+        });
+
+        if (!wasDeleted) {
+          throw new Error(
+            `A migration has been rolled back by another process in the meantime (${describeMigration(
+              migration
+            )})`
+          );
+        }
+      });
+
+      result.rolledBackMigrations.push(version);
+    }
+
+    return result;
+  }
+
+  // A migration is not required to run in a transaction since some stores
+  // (e.g., a MongoDBStore connected to a standalone server) don't support them
+  async _runMigration(func: () => Promise<void>) {
+    if (await this.supportsTransactions()) {
+      await this.transaction(func);
+    } else {
+      await func();
+    }
+  }
+
+  _createMigrationContext(): MigrationContext {
+    return {
+      store: this,
+      transformDocuments: (storable, transformer) => this._transformDocuments(storable, transformer)
+    };
+  }
+
+  async _transformDocuments(storable: typeof StorableComponent, transformer: DocumentTransformer) {
+    const storablePrototype = storable.prototype;
+
+    const collectionName = this._getCollectionNameFromStorable(storablePrototype);
+
+    const primaryIdentifierPath = this._toDocumentPath(
+      storablePrototype,
+      storablePrototype.getPrimaryIdentifierAttribute().getName()
+    );
+
+    let transformedDocumentCount = 0;
+    let lastPrimaryIdentifierValue: IdentifierValue | undefined = undefined;
+
+    // The documents are read by batches in the order of their primary identifier
+    // so that a large collection never has to be loaded at once
+    while (true) {
+      const documents = await this.findDocuments({
+        collectionName,
+        expressions:
+          lastPrimaryIdentifierValue !== undefined
+            ? [[primaryIdentifierPath, '$greaterThan', lastPrimaryIdentifierValue]]
+            : [],
+        sort: {[primaryIdentifierPath]: 'asc'},
+        limit: MIGRATION_TRANSFORM_BATCH_SIZE
+      });
+
+      for (const document of documents) {
+        if (
+          await this._transformDocument(document, transformer, {
+            collectionName,
+            primaryIdentifierPath
+          })
+        ) {
+          transformedDocumentCount++;
+        }
+      }
+
+      if (documents.length < MIGRATION_TRANSFORM_BATCH_SIZE) {
+        break;
+      }
+
+      const lastDocument = documents[documents.length - 1];
+      lastPrimaryIdentifierValue = lastDocument[primaryIdentifierPath] as IdentifierValue;
+    }
+
+    return transformedDocumentCount;
+  }
+
+  async _transformDocument(
+    document: Document,
+    transformer: DocumentTransformer,
+    {collectionName, primaryIdentifierPath}: {collectionName: string; primaryIdentifierPath: string}
+  ) {
+    const documentCopy = cloneDeep(document);
+    const transformedDocument = transformer(documentCopy) ?? documentCopy;
+
+    const documentPatch: DocumentPatch = {};
+
+    for (const [name, value] of Object.entries(transformedDocument)) {
+      if (!isEqual(value, document[name])) {
+        documentPatch.$set = {...documentPatch.$set, [name]: value};
+      }
+    }
+
+    for (const name of Object.keys(document)) {
+      if (!hasOwnProperty(transformedDocument, name)) {
+        documentPatch.$unset = {...documentPatch.$unset, [name]: 1};
+      }
+    }
+
+    if (documentPatch.$set === undefined && documentPatch.$unset === undefined) {
+      return false;
+    }
+
+    const identifierValue = document[primaryIdentifierPath];
+
+    const wasUpdated = await this.updateDocument({
+      collectionName,
+      identifierDescriptor: {[primaryIdentifierPath]: identifierValue},
+      documentPatch
+    });
+
+    if (!wasUpdated) {
+      throw new Error(
+        `Cannot transform a document that has been deleted in the meantime (collection: '${collectionName}', ${primaryIdentifierPath}: ${JSON.stringify(
+          identifierValue
+        )})`
+      );
+    }
+
+    return true;
+  }
+
   // === Utilities ===
 
   static isStore(value: any): value is Store {
     return isStoreInstance(value);
   }
 }
+
+type Versioning = {
+  attribute: StorableAttribute;
+  expectedVersion: ExpectedVersion;
+  newVersion: number;
+};
+
+type PendingDocumentOperation<Extra = {}> = {
+  index: number;
+  storable: StorableComponent;
+  attributeSelector: AttributeSelector;
+  identifierDescriptor: NormalizedIdentifierDescriptor;
+} & Extra;
+
+function addPendingDocumentOperation<Operation>(
+  operations: Map<string, Operation[]>,
+  collectionName: string,
+  operation: Operation
+) {
+  let collectionOperations = operations.get(collectionName);
+
+  if (collectionOperations === undefined) {
+    collectionOperations = [];
+    operations.set(collectionName, collectionOperations);
+  }
+
+  collectionOperations.push(operation);
+}
+
+function markStorableAsSaved(
+  storable: StorableComponent,
+  attributeSelector: AttributeSelector,
+  {isNew, versioning}: {isNew: boolean; versioning?: Versioning}
+) {
+  if (isNew) {
+    storable.markAsNotNew(); // TODO: Mark also embedded components as not new
+  }
+
+  if (versioning !== undefined) {
+    versioning.attribute.setValue(versioning.newVersion, {source: 1});
+  }
+
+  storable.traverseAttributes(
+    (attribute) => {
+      attribute.setValueSource(1);
+    },
+    {attributeSelector, setAttributesOnly: true}
+  );
+}
+
+function setDocumentPatchVersion(documentPatch: DocumentPatch, versioning: Versioning) {
+  const {
+    expectedVersion: {path},
+    newVersion
+  } = versioning;
+
+  documentPatch.$set = {...documentPatch.$set, [path]: newVersion};
+
+  if (documentPatch.$unset !== undefined) {
+    delete documentPatch.$unset[path];
+
+    if (Object.keys(documentPatch.$unset).length === 0) {
+      delete documentPatch.$unset;
+    }
+  }
+}
+
+function normalizeSaveError(storable: StorableComponent, error: any) {
+  const {code, indexName} = error;
+
+  if (code === 'COMPONENT_VERSION_CONFLICT') {
+    const versionAttribute = storable.getVersionAttribute()!;
+
+    return Object.assign(
+      new Error(
+        `Cannot save a component that has been modified in the store since it was loaded (${storable.describeComponent()}, ${describeIdentifierDescriptor(
+          storable
+        )}, version: ${versionAttribute.getValue()})`
+      ),
+      {code: 'COMPONENT_VERSION_CONFLICT', expose: true}
+    );
+  }
+
+  if (code === 'DUPLICATE_KEY_ERROR') {
+    return Object.assign(
+      new Error(
+        `Cannot save a component with an attribute value that should be unique but already exists in the store (${storable.describeComponent()}, ${describeIdentifierDescriptor(
+          storable
+        )}, index: '${indexName}')`
+      ),
+      {code: 'UNIQUE_ATTRIBUTE_ALREADY_EXISTS_IN_STORE', indexName, expose: true}
+    );
+  }
+
+  return error as Error;
+}
+
+function createLoadError(storable: StorableComponent) {
+  return Object.assign(
+    new Error(
+      `Cannot load a component that is missing from the store (${storable.describeComponent()}, ${describeIdentifierDescriptor(
+        storable
+      )})`
+    ),
+    {code: 'COMPONENT_IS_MISSING_FROM_STORE', expose: true}
+  );
+}
+
+function createSaveError(storable: StorableComponent, {isNew}: {isNew: boolean}) {
+  if (!isNew) {
+    return Object.assign(
+      new Error(
+        `Cannot save a non-new component that is missing from the store (${storable.describeComponent()}, ${describeIdentifierDescriptor(
+          storable
+        )})`
+      ),
+      {code: 'COMPONENT_IS_MISSING_FROM_STORE', expose: true}
+    );
+  }
+
+  return Object.assign(
+    new Error(
+      `Cannot save a new component that already exists in the store (${storable.describeComponent()}, ${describeIdentifierDescriptor(
+        storable
+      )})`
+    ),
+    {code: 'COMPONENT_ALREADY_EXISTS_IN_STORE', expose: true}
+  );
+}
+
+function createDeleteError(storable: StorableComponent) {
+  return Object.assign(
+    new Error(
+      `Cannot delete a component that is missing from the store (${storable.describeComponent()}, ${describeIdentifierDescriptor(
+        storable
+      )})`
+    ),
+    {code: 'COMPONENT_IS_MISSING_FROM_STORE', expose: true}
+  );
+}
+
+function describeIdentifierDescriptor(storable: StorableComponent) {
+  return ensureComponentClass(storable).describeIdentifierDescriptor(
+    storable.getIdentifierDescriptor()
+  );
+}
+
+function isSerializedUndefined(value: unknown) {
+  return value === undefined || (isPlainObject(value) && (value as any).__undefined === true);
+}
+
+function onlyMatchesUndefined(value: unknown) {
+  if (isSerializedUndefined(value)) {
+    return true;
+  }
+
+  return (
+    isPlainObject(value) &&
+    Object.entries(value as Query).every(
+      ([operator, operand]) =>
+        (operator === '$equal' || operator === '$notEqual') && isSerializedUndefined(operand)
+    )
+  );
+}
+
+// Values are encrypted with AES-256-GCM, and in the deterministic mode, the initialization
+// vector is derived from the value itself so the same value produces the same encrypted value
+function encryptValue(
+  value: string,
+  key: string | Uint8Array,
+  {deterministic}: {deterministic: boolean}
+) {
+  const iv = deterministic
+    ? createHmac('sha256', deriveEncryptionKey(key, 'iv')).update(value).digest().slice(0, 12)
+    : randomBytes(12);
+
+  const cipher = createCipheriv('aes-256-gcm', deriveEncryptionKey(key, 'encryption'), iv);
+  const encryptedValue = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+  const authTag = cipher.getAuthTag();
+
+  return ENCRYPTED_VALUE_PREFIX + Buffer.concat([iv, authTag, encryptedValue]).toString('base64');
+}
+
+function decryptValue(value: string, key: string | Uint8Array) {
+  const buffer = Buffer.from(value.slice(ENCRYPTED_VALUE_PREFIX.length), 'base64');
+
+  const iv = buffer.slice(0, 12);
+  const authTag = buffer.slice(12, 28);
+  const encryptedValue = buffer.slice(28);
+
+  const decipher = createDecipheriv('aes-256-gcm', deriveEncryptionKey(key, 'encryption'), iv);
+  decipher.setAuthTag(authTag);
+
+  return Buffer.concat([decipher.update(encryptedValue), decipher.final()]).toString('utf8');
+}
+
+function deriveEncryptionKey(key: string | Uint8Array, purpose: string) {
+  return createHmac('sha256', key).update(purpose).digest();
+}
+
+function describeSlowOperation({operation, duration, queries}: TraceEntry, threshold: number) {
+  let description = `A store operation exceeded the slow operation threshold (operation: '${operation}', duration: ${Math.round(
+    duration
+  )}ms, threshold: ${threshold}ms`;
+
+  if (queries.length > 0) {
+    description += `, queries: ${JSON.stringify(
+      queries.map(({collectionName, backendQuery}) => ({collectionName, backendQuery}))
+    )}`;
+  }
+
+  return description + ')';
+}
+
+function describeMigration({version, name}: Migration) {
+  let description = `version: ${version}`;
+
+  if (name !== undefined) {
+    description += `, name: '${name}'`;
+  }
+
+  return description;
+}